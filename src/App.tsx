@@ -1,6 +1,6 @@
-
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import Header from './components/Header'
+import RequirePermission from './components/RequirePermission'
 import Dashboard from './pages/Dashboard'
 import NewClaim from './pages/NewClaim'
 import ClaimDetails from './pages/ClaimDetails'
@@ -8,29 +8,47 @@ import ClaimsApproval from './pages/ClaimsApproval'
 import RepairShops from './pages/RepairShops'
 import RepairCostDatabase from './pages/RepairCostDatabase'
 import EditClaim from './pages/EditClaim'
+import Drafts from './pages/Drafts'
+import AutoApprovalRules from './pages/AutoApprovalRules'
+import ShopAdmin from './pages/ShopAdmin'
+import ShopCalendar from './pages/ShopCalendar'
+import RepairBoard from './pages/RepairBoard'
+import ShopEstimates from './pages/ShopEstimates'
+import EstimateAccuracy from './pages/EstimateAccuracy'
 import { ClaimsProvider } from './context/ClaimsContext'
+import { SessionProvider } from './context/SessionContext'
 
 function App() {
   return (
-    <ClaimsProvider>
-      <Router>
-        <div className="min-h-screen bg-gray-50">
-          <Header />
-          <main className="container mx-auto px-4 py-8">
-            <Routes>
-              <Route path="/" element={<Dashboard />} />
-              <Route path="/new-claim" element={<NewClaim />} />
-              <Route path="/claim/:id" element={<ClaimDetails />} />
-              <Route path="/edit-claim/:id" element={<EditClaim />} />
-              <Route path="/claims-approval" element={<ClaimsApproval />} />
-              <Route path="/repair-shops" element={<RepairShops />} />
-              <Route path="/repair-costs" element={<RepairCostDatabase />} />
-            </Routes>
-          </main>
-        </div>
-      </Router>
-    </ClaimsProvider>
+    <SessionProvider>
+      <ClaimsProvider>
+        <Router>
+          <div className="min-h-screen bg-gray-50">
+            <Header />
+            <main className="container mx-auto px-4 py-8">
+              <Routes>
+                <Route path="/" element={<Dashboard />} />
+                <Route path="/new-claim" element={<RequirePermission permission="claim:create"><NewClaim /></RequirePermission>} />
+                <Route path="/new-claim/:draftId" element={<RequirePermission permission="claim:create"><NewClaim /></RequirePermission>} />
+                <Route path="/drafts" element={<RequirePermission permission="claim:create"><Drafts /></RequirePermission>} />
+                <Route path="/claim/:id" element={<ClaimDetails />} />
+                <Route path="/edit-claim/:id" element={<RequirePermission permission="claim:edit"><EditClaim /></RequirePermission>} />
+                <Route path="/claims-approval" element={<RequirePermission permission="approvals:view"><ClaimsApproval /></RequirePermission>} />
+                <Route path="/auto-approval" element={<RequirePermission permission="approvals:view"><AutoApprovalRules /></RequirePermission>} />
+                <Route path="/repair-shops" element={<RepairShops />} />
+                <Route path="/repair-shops/:shopId/calendar" element={<RequirePermission permission="claims:view"><ShopCalendar /></RequirePermission>} />
+                <Route path="/repair-shops/manage" element={<RequirePermission permission="shops:edit"><ShopAdmin /></RequirePermission>} />
+                <Route path="/repairs" element={<RequirePermission permission="claims:view"><RepairBoard /></RequirePermission>} />
+                <Route path="/shop-estimates" element={<RequirePermission permission="estimates:submit"><ShopEstimates /></RequirePermission>} />
+                <Route path="/estimate-accuracy" element={<RequirePermission permission="approvals:view"><EstimateAccuracy /></RequirePermission>} />
+                <Route path="/repair-costs" element={<RepairCostDatabase />} />
+              </Routes>
+            </main>
+          </div>
+        </Router>
+      </ClaimsProvider>
+    </SessionProvider>
   )
 }
 
-export default App 
\ No newline at end of file
+export default App
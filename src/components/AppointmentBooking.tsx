@@ -0,0 +1,179 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { CalendarCheck, CalendarDays, XCircle } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { RepairShop } from '../data/repairShops'
+import {
+  getShopBookings,
+  getRepairDays,
+  getRepairDates,
+  getDayAvailability,
+  formatAppointmentDate
+} from '../services/shopBooking'
+import { getLocalTime, addDays, formatTime } from '../services/shopHours'
+
+interface AppointmentBookingProps {
+  claim: Claim                  // Claim to book a drop-off for
+  shop: RepairShop              // Shop assigned to the claim
+}
+
+// Days ahead offered in the date picker
+const PICKER_DAYS = 21
+
+/**
+ * AppointmentBooking Component
+ *
+ * Shows the claim's booked drop-off at its repair shop, or lets the user
+ * book one. Only slots with a bay free for the whole repair are offered.
+ */
+const AppointmentBooking: React.FC<AppointmentBookingProps> = ({ claim, shop }) => {
+  const { state, bookAppointment, cancelAppointment } = useClaims()
+  const { getDeniedReason } = useSession()
+  const [isRescheduling, setIsRescheduling] = useState(false)
+  const [selectedDate, setSelectedDate] = useState('')
+  const [error, setError] = useState('')
+  const editDeniedReason = getDeniedReason('claim:edit')
+
+  const appointment = claim.appointment?.shopId === shop.id ? claim.appointment : undefined
+  const repairDays = getRepairDays(claim)
+  const bookings = getShopBookings(shop.id, state.claims.filter(other => other.id !== claim.id))
+  const today = getLocalTime(new Date(), shop.timeZone).date
+  const bookableDays = Array.from({ length: PICKER_DAYS }, (_, offset) => addDays(today, offset).date)
+    .map(date => getDayAvailability(shop, date, bookings, repairDays))
+    .filter(day => day.slots.some(slot => slot.available))
+  const activeDay = bookableDays.find(day => day.date === selectedDate) || bookableDays[0]
+
+  const blockedReason = editDeniedReason ||
+    (claim.status === 'closed' || claim.status === 'rejected' ? 'Closed and rejected claims cannot be booked' : null) ||
+    (shop.status !== 'active' ? `${shop.name} is suspended and not taking new bookings` : null)
+
+  const handleBook = (time: string) => {
+    if (!activeDay) return
+    const bookingError = bookAppointment(claim.id, { shopId: shop.id, date: activeDay.date, time })
+    if (bookingError) {
+      setError(bookingError)
+      return
+    }
+    setError('')
+    setIsRescheduling(false)
+  }
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this drop-off appointment? The slot will be released.')) return
+    const cancelError = cancelAppointment(claim.id)
+    setError(cancelError || '')
+  }
+
+  if (appointment && !isRescheduling) {
+    const repairDates = getRepairDates(shop, appointment.date, appointment.repairDays)
+    return (
+      <div className="border border-green-200 rounded-lg p-4 bg-green-50">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            <CalendarCheck className="h-5 w-5 text-green-600 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900">
+                Drop-off booked: {formatAppointmentDate(appointment.date)} at {formatTime(appointment.time)}
+              </p>
+              <p className="text-sm text-gray-600">
+                Bay reserved for {appointment.repairDays} open day(s)
+                {repairDates.length > 0 && `, ready by ${formatAppointmentDate(repairDates[repairDates.length - 1])}`}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Booked by {appointment.bookedBy.name} on {new Date(appointment.bookedAt).toLocaleDateString('en-US')}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setIsRescheduling(true)}
+              disabled={!!blockedReason}
+              title={blockedReason || undefined}
+              className="btn-secondary text-sm px-3 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reschedule
+            </button>
+            <button
+              onClick={handleCancel}
+              disabled={!!editDeniedReason}
+              title={editDeniedReason || undefined}
+              className="btn-danger text-sm px-3 py-1 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <XCircle className="h-4 w-4" />
+              <span>Cancel</span>
+            </button>
+          </div>
+        </div>
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-white">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="font-medium text-gray-900">{isRescheduling ? 'Reschedule Drop-off' : 'Book Drop-off'}</h4>
+        <div className="flex items-center space-x-3 text-sm">
+          <Link to={`/repair-shops/${shop.id}/calendar`} className="text-primary-600 hover:text-primary-700 flex items-center space-x-1">
+            <CalendarDays className="h-4 w-4" />
+            <span>Shop calendar</span>
+          </Link>
+          {isRescheduling && (
+            <button onClick={() => setIsRescheduling(false)} className="text-gray-500 hover:text-gray-700">
+              Keep current slot
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        The repair needs a bay for {repairDays} open day(s), based on the estimated labor hours.
+      </p>
+
+      {blockedReason ? (
+        <p className="text-sm text-gray-600">{blockedReason}</p>
+      ) : !activeDay ? (
+        <p className="text-sm text-gray-600">
+          {shop.name} has no drop-off slot with a free bay in the next {PICKER_DAYS} days.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {bookableDays.map(day => (
+              <button
+                key={day.date}
+                onClick={() => setSelectedDate(day.date)}
+                className={`px-3 py-1 rounded-lg text-sm border ${
+                  day.date === activeDay.date
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {formatAppointmentDate(day.date)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {activeDay.slots.map(slot => (
+              <button
+                key={slot.time}
+                onClick={() => handleBook(slot.time)}
+                disabled={!slot.available}
+                title={slot.unavailableReason}
+                className="btn-secondary text-sm px-3 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {formatTime(slot.time)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {activeDay.repairs.length} of {activeDay.bays} bays in use on {formatAppointmentDate(activeDay.date)}
+          </p>
+        </>
+      )}
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+    </div>
+  )
+}
+
+export default AppointmentBooking
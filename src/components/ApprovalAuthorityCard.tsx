@@ -0,0 +1,110 @@
+import React, { useState } from 'react'
+import { Shield, Save } from 'lucide-react'
+import {
+  AuthorityTier,
+  defaultAuthorityTiers,
+  loadAuthorityTiers,
+  saveAuthorityTiers,
+  validateAuthorityTiers
+} from '../services/approvalAuthority'
+import { roleLabels } from '../data/users'
+import { useSession } from '../context/SessionContext'
+
+/**
+ * ApprovalAuthorityCard Component
+ *
+ * Shows how much each role may approve on its own and lets managers change
+ * the limits. New limits apply to sign-offs given after saving; recorded
+ * sign-offs keep the limit the approver had at the time.
+ */
+const ApprovalAuthorityCard: React.FC = () => {
+  const [tiers, setTiers] = useState<AuthorityTier[]>(loadAuthorityTiers)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [saved, setSaved] = useState(false)
+  const { getDeniedReason } = useSession()
+  const editDeniedReason = getDeniedReason('authority:edit')
+
+  const handleLimitChange = (index: number, value: string) => {
+    setTiers(prev => prev.map((tier, i) => i === index ? { ...tier, limit: parseFloat(value) } : tier))
+    setSaved(false)
+  }
+
+  const handleSave = () => {
+    if (editDeniedReason) return
+
+    const validationErrors = validateAuthorityTiers(tiers)
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length > 0) return
+
+    try {
+      saveAuthorityTiers(tiers)
+      setSaved(true)
+    } catch (error) {
+      console.error('Error saving authority tiers:', error)
+      setErrors({ save: 'Limits could not be saved. Please try again.' })
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Shield className="w-5 h-5 text-primary-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Approval Authority</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button
+            onClick={() => { setTiers(defaultAuthorityTiers); setSaved(false) }}
+            disabled={!!editDeniedReason}
+            title={editDeniedReason || undefined}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!editDeniedReason}
+            title={editDeniedReason || undefined}
+            className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Save Limits
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {tiers.map((tier, index) => (
+          <div key={tier.role}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {roleLabels[tier.role]} <span className="text-gray-400">(approves up to $)</span>
+            </label>
+            {tier.limit === null ? (
+              <p className="input-field bg-gray-50 text-gray-600">No limit</p>
+            ) : (
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={Number.isNaN(tier.limit) ? '' : tier.limit}
+                onChange={(e) => handleLimitChange(index, e.target.value)}
+                disabled={!!editDeniedReason}
+                className={`input-field ${errors[tier.role] ? 'border-red-500' : ''}`}
+              />
+            )}
+            {errors[tier.role] && <p className="text-red-500 text-sm mt-1">{errors[tier.role]}</p>}
+          </div>
+        ))}
+      </div>
+
+      {errors.save && <p className="text-red-500 text-sm mt-2">{errors.save}</p>}
+      {editDeniedReason && <p className="text-sm text-gray-600 mt-2">{editDeniedReason}</p>}
+      <p className="text-xs text-gray-500 mt-4">
+        Approving a claim above your limit records your sign-off and sends the claim to the next level as awaiting second approval.
+      </p>
+    </div>
+  )
+}
+
+export default ApprovalAuthorityCard
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react'
+import { History, Filter } from 'lucide-react'
+import { Claim, AuditAction, ClaimStatus } from '../context/ClaimsContext'
+import { getAuditedFields } from '../services/auditLog'
+import { getRepairShopById } from '../services/shopStore'
+import { statusLabels } from '../services/claimLifecycle'
+import { LedgerEntryType, ledgerEntryTypeLabels } from '../services/claimLedger'
+import { formatAppointmentDate } from '../services/shopBooking'
+import { RepairStage, repairStageLabels } from '../services/repairOrders'
+import { formatTime } from '../services/shopHours'
+
+interface ClaimActivityLogProps {
+  claim: Claim                  // Claim whose audit log is shown
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  created: 'Claim created',
+  updated: 'Claim updated',
+  status_changed: 'Status changed',
+  signed_off: 'Signed off',
+  duplicates_flagged: 'Duplicate check',
+  risk_scored: 'Fraud risk scored',
+  ledger_entry: 'Ledger entry',
+  appointment_booked: 'Appointment booked',
+  appointment_cancelled: 'Appointment cancelled',
+  repair_order_opened: 'Repair order opened',
+  repair_stage_changed: 'Repair stage changed',
+  repair_survey_recorded: 'Repair survey recorded',
+  repair_comeback_reported: 'Repair comeback reported',
+  shop_estimate_submitted: 'Shop estimate submitted',
+  shop_estimate_line_decided: 'Shop estimate line decided',
+  supplement_proposed: 'Supplement proposed',
+  supplement_approved: 'Supplement approved',
+  supplement_rejected: 'Supplement rejected',
+  media_migrated: 'Media migrated'
+}
+
+/**
+ * Humanize Field Name
+ *
+ * @param field - camelCase field name (e.g., "totalEstimatedCost")
+ * @returns Readable label (e.g., "Total Estimated Cost")
+ */
+const humanize = (field: string) =>
+  field
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, char => char.toUpperCase())
+    .replace(/ Id$/, '')
+
+/**
+ * Format Audit Value
+ *
+ * Renders a before/after value in a compact, readable form.
+ *
+ * @param field - Claim field the value belongs to
+ * @param value - Recorded value
+ * @returns Display string
+ */
+const formatValue = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—'
+  if (field === 'repairShopId' && typeof value === 'string') {
+    return getRepairShopById(value)?.name || value
+  }
+  if (field === 'status' && typeof value === 'string') {
+    return statusLabels[value as ClaimStatus] || value
+  }
+  if (Array.isArray(value)) return `${value.length} item(s)`
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    if (record.type && record.location) return `${record.type} – ${record.location}`
+    if (typeof record.amount === 'number' && typeof record.reference === 'string') {
+      return `${ledgerEntryTypeLabels[record.type as LedgerEntryType]} $${record.amount.toLocaleString()} (${record.reference})`
+    }
+    if (typeof record.shopId === 'string' && typeof record.date === 'string' && typeof record.time === 'string') {
+      const shopName = getRepairShopById(record.shopId)?.name || record.shopId
+      return `${shopName} – ${formatAppointmentDate(record.date)} ${formatTime(record.time)}`
+    }
+    if (typeof record.number === 'string' && Array.isArray(record.stages)) {
+      const current = (record.stages as Array<{ stage: RepairStage }>)[record.stages.length - 1]
+      const survey = record.survey as { rating: number } | undefined
+      const comebacks = Array.isArray(record.comebacks) ? record.comebacks.length : 0
+      return (current ? `${record.number} – ${repairStageLabels[current.stage]}` : record.number) +
+        (survey ? `, rated ${survey.rating}/5` : '') +
+        (comebacks > 0 ? `, ${comebacks} comeback(s)` : '')
+    }
+    if (record.decision && record.actor) {
+      return `${(record.actor as Record<string, unknown>).name} – ${record.decision}`
+    }
+    if (typeof record.number === 'number' && typeof record.justification === 'string' && typeof record.total === 'number') {
+      return `Supplement ${record.number} $${record.total.toLocaleString()} (${record.status})`
+    }
+    if (Array.isArray(record.lines) && typeof record.total === 'number') {
+      const decided = (record.lines as Array<{ decision?: unknown }>).filter(line => line.decision).length
+      return `Shop estimate $${record.total.toLocaleString()} (${decided} of ${record.lines.length} line(s) decided)`
+    }
+    if (typeof record.total === 'number') return `Total $${record.total.toLocaleString()}`
+    if (typeof record.score === 'number' && typeof record.level === 'string') {
+      return `Score ${record.score} (${record.level})`
+    }
+    if (typeof record.approved === 'boolean' && Array.isArray(record.results)) {
+      const failed = (record.results as Array<{ passed: boolean }>).filter(result => !result.passed).length
+      return record.approved ? 'Auto-approved' : `Not auto-approved (${failed} rule(s) failed)`
+    }
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'number') return value.toLocaleString()
+  return String(value)
+}
+
+/**
+ * ClaimActivityLog Component
+ *
+ * Shows the append-only audit log of a claim, newest first, with the
+ * before/after value of every changed field. The list can be narrowed down
+ * to a single field.
+ */
+const ClaimActivityLog: React.FC<ClaimActivityLogProps> = ({ claim }) => {
+  const [fieldFilter, setFieldFilter] = useState('all')
+  const entries = claim.auditLog || []
+  const fields = useMemo(() => getAuditedFields(entries), [entries])
+
+  const visibleEntries = useMemo(() => {
+    return entries
+      .map(entry => ({
+        ...entry,
+        changes: fieldFilter === 'all'
+          ? entry.changes
+          : entry.changes.filter(change => change.field === fieldFilter)
+      }))
+      .filter(entry => fieldFilter === 'all' || entry.changes.length > 0)
+      .reverse()
+  }, [entries, fieldFilter])
+
+  const formatDateTime = (value: string) => new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-gray-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Activity</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Filter className="h-4 w-4 text-gray-400" />
+          <select
+            value={fieldFilter}
+            onChange={(e) => setFieldFilter(e.target.value)}
+            className="input-field"
+          >
+            <option value="all">All fields</option>
+            {fields.map(field => (
+              <option key={field} value={field}>{humanize(field)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-600">No recorded activity for this claim.</p>
+          <p className="text-sm text-gray-500">Changes made from now on will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {visibleEntries.map(entry => (
+            <div key={entry.id} className="border-l-2 border-gray-200 pl-4">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-900">{actionLabels[entry.action]}</p>
+                <p className="text-xs text-gray-500">{formatDateTime(entry.at)}</p>
+              </div>
+              <p className="text-xs text-gray-600 mb-2">
+                {entry.actor.name} ({entry.actor.id})
+              </p>
+              {entry.reason && (
+                <p className="text-xs text-gray-600 italic mb-2">"{entry.reason}"</p>
+              )}
+
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-1 pr-4 font-medium">Field</th>
+                    <th className="py-1 pr-4 font-medium">Before</th>
+                    <th className="py-1 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {entry.changes.map(change => (
+                    <tr key={change.path}>
+                      <td className="py-1 pr-4 text-gray-900">
+                        {humanize(change.field)}
+                        {change.path !== change.field && (
+                          <span className="block text-xs text-gray-500 font-mono">
+                            {change.path.slice(change.field.length)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-4 text-gray-500">{formatValue(change.field, change.before)}</td>
+                      <td className="py-1 text-gray-900">{formatValue(change.field, change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ClaimActivityLog
@@ -1,7 +1,13 @@
 import React from 'react'
 import { Link } from 'react-router-dom'
 import { Claim } from '../context/ClaimsContext'
-import { Car, Clock, CheckCircle, XCircle, AlertTriangle, DollarSign, Calendar } from 'lucide-react'
+import { Car, Clock, CheckCircle, XCircle, AlertTriangle, DollarSign, Calendar, UserCheck, Banknote, Archive, CalendarCheck } from 'lucide-react'
+import { statusLabels } from '../services/claimLifecycle'
+import { formatAppointmentDate } from '../services/shopBooking'
+import { formatTime as formatSlotTime } from '../services/shopHours'
+import MediaThumbnail from './MediaThumbnail'
+import DuplicateBadge from './DuplicateBadge'
+import NetPayableAmount from './NetPayableAmount'
 
 interface ClaimCardProps {
   claim: Claim
@@ -14,8 +20,14 @@ const ClaimCard: React.FC<ClaimCardProps> = ({ claim }) => {
         return <Clock className="h-4 w-4 text-yellow-600" />
       case 'processing':
         return <AlertTriangle className="h-4 w-4 text-orange-600" />
+      case 'awaiting_second_approval':
+        return <UserCheck className="h-4 w-4 text-purple-600" />
       case 'approved':
         return <CheckCircle className="h-4 w-4 text-green-600" />
+      case 'paid':
+        return <Banknote className="h-4 w-4 text-teal-600" />
+      case 'closed':
+        return <Archive className="h-4 w-4 text-gray-600" />
       case 'rejected':
         return <XCircle className="h-4 w-4 text-red-600" />
       default:
@@ -29,8 +41,14 @@ const ClaimCard: React.FC<ClaimCardProps> = ({ claim }) => {
         return 'status-pending'
       case 'processing':
         return 'status-processing'
+      case 'awaiting_second_approval':
+        return 'status-awaiting'
       case 'approved':
         return 'status-approved'
+      case 'paid':
+        return 'status-paid'
+      case 'closed':
+        return 'status-closed'
       case 'rejected':
         return 'status-rejected'
       default:
@@ -58,13 +76,25 @@ const ClaimCard: React.FC<ClaimCardProps> = ({ claim }) => {
       <div className="card hover:shadow-md transition-shadow duration-200 cursor-pointer">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
-            <div className="p-2 bg-primary-100 rounded-lg">
-              <Car className="h-5 w-5 text-primary-600" />
-            </div>
+            {claim.photos.length > 0 ? (
+              <MediaThumbnail
+                mediaId={claim.photos[0]}
+                kind="photo"
+                alt="Damage photo"
+                className="h-12 w-12 object-cover rounded-lg"
+              />
+            ) : (
+              <div className="p-2 bg-primary-100 rounded-lg">
+                <Car className="h-5 w-5 text-primary-600" />
+              </div>
+            )}
             <div>
-              <h3 className="font-semibold text-gray-900">
-                {claim.vehicleYear} {claim.vehicleMake} {claim.vehicleModel}
-              </h3>
+              <div className="flex items-center space-x-2">
+                <h3 className="font-semibold text-gray-900">
+                  {claim.vehicleYear} {claim.vehicleMake} {claim.vehicleModel}
+                </h3>
+                <DuplicateBadge claim={claim} />
+              </div>
               <p className="text-sm text-gray-600">
                 Policy: {claim.policyNumber} • {claim.customerName}
               </p>
@@ -77,12 +107,13 @@ const ClaimCard: React.FC<ClaimCardProps> = ({ claim }) => {
                 ${claim.totalEstimatedCost.toLocaleString()}
               </p>
               <p className="text-sm text-gray-600">Estimated Cost</p>
+              <NetPayableAmount claim={claim} className="text-xs" />
             </div>
             
             <div className="flex items-center space-x-2">
               {getStatusIcon(claim.status)}
               <span className={`status-badge ${getStatusColor(claim.status)}`}>
-                {claim.status.charAt(0).toUpperCase() + claim.status.slice(1)}
+                {statusLabels[claim.status]}
               </span>
             </div>
           </div>
@@ -99,6 +130,14 @@ const ClaimCard: React.FC<ClaimCardProps> = ({ claim }) => {
                 <DollarSign className="h-4 w-4" />
                 <span>{claim.damageAssessments.length} damage items</span>
               </div>
+              {claim.appointment && (
+                <div className="flex items-center space-x-1">
+                  <CalendarCheck className="h-4 w-4" />
+                  <span>
+                    Drop-off {formatAppointmentDate(claim.appointment.date)} {formatSlotTime(claim.appointment.time)}
+                  </span>
+                </div>
+              )}
             </div>
             
             <div className="flex items-center space-x-2">
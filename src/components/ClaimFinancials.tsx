@@ -0,0 +1,333 @@
+import React, { useState } from 'react'
+import { Wallet, PlusCircle, Ban } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { ledgerEntryPermissions } from '../services/permissions'
+import {
+  LedgerEntry,
+  LedgerEntryType,
+  PayeeType,
+  PaymentMethod,
+  ledgerEntryTypeLabels,
+  payeeTypeLabels,
+  paymentMethodLabels,
+  getLedgerSummary,
+  getVoidedEntryIds
+} from '../services/claimLedger'
+import { getRepairShopById } from '../services/shopStore'
+import ReasonModal from './ReasonModal'
+
+interface ClaimFinancialsProps {
+  claim: Claim                  // Claim whose ledger is shown
+}
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const emptyForm = {
+  type: 'payment' as LedgerEntryType,
+  amount: '',
+  payeeType: 'repair_shop' as PayeeType,
+  payee: '',
+  method: 'check' as PaymentMethod,
+  reference: '',
+  note: ''
+}
+
+/**
+ * ClaimFinancials Component
+ *
+ * Shows a claim's reserve and payments: the running totals, every ledger
+ * entry with its payee, method and reference, and a form for recording new
+ * entries. Entries are never edited; a wrong entry is voided instead.
+ */
+const ClaimFinancials: React.FC<ClaimFinancialsProps> = ({ claim }) => {
+  const { recordLedgerEntry } = useClaims()
+  const { getDeniedReason } = useSession()
+  const [form, setForm] = useState({ ...emptyForm, payee: getRepairShopById(claim.repairShopId || '')?.name || '' })
+  const [error, setError] = useState('')
+  const [voidEntry, setVoidEntry] = useState<LedgerEntry | null>(null)
+
+  const ledger = claim.ledger || []
+  const summary = getLedgerSummary(ledger)
+  const voided = getVoidedEntryIds(ledger)
+  const hasReserve = ledger.some(entry => entry.type === 'reserve_set' && !voided.has(entry.id))
+  const isOpen = claim.status === 'approved' || claim.status === 'paid'
+
+  // Entry types the form offers: the initial reserve until one is set, adjustments after
+  const entryTypes: LedgerEntryType[] = [
+    hasReserve ? 'reserve_adjustment' : 'reserve_set',
+    'payment',
+    'deductible_recovery'
+  ]
+  const entryType = entryTypes.includes(form.type) ? form.type : entryTypes[0]
+  const isReserveEntry = entryType === 'reserve_set' || entryType === 'reserve_adjustment'
+  const deniedReason = getDeniedReason(ledgerEntryPermissions[entryType])
+  const voidDeniedReason = getDeniedReason(ledgerEntryPermissions.void)
+
+  /**
+   * Default Payee
+   *
+   * @param payeeType - Kind of payee chosen in the form
+   * @returns Name to prefill: the assigned repair shop or the customer
+   */
+  const defaultPayee = (payeeType: PayeeType) => {
+    if (payeeType === 'repair_shop') return getRepairShopById(claim.repairShopId || '')?.name || ''
+    if (payeeType === 'customer') return claim.customerName
+    return 'Claim reserve'
+  }
+
+  const handleTypeChange = (type: LedgerEntryType) => {
+    const payeeType: PayeeType = type === 'payment' ? 'repair_shop' : type === 'deductible_recovery' ? 'customer' : 'insurer'
+    setForm({
+      ...form,
+      type,
+      payeeType,
+      payee: defaultPayee(payeeType),
+      method: payeeType === 'insurer' ? 'internal' : form.method === 'internal' ? 'check' : form.method
+    })
+    setError('')
+  }
+
+  const handlePayeeTypeChange = (payeeType: PayeeType) => {
+    setForm({ ...form, payeeType, payee: defaultPayee(payeeType) })
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = recordLedgerEntry(claim.id, {
+      type: entryType,
+      amount: Number(form.amount),
+      payee: isReserveEntry ? 'Claim reserve' : form.payee,
+      payeeType: isReserveEntry ? 'insurer' : form.payeeType,
+      method: isReserveEntry ? 'internal' : form.method,
+      reference: form.reference,
+      note: form.note
+    })
+    if (result) {
+      setError(result)
+      return
+    }
+    setForm({ ...emptyForm, type: form.type, payeeType: form.payeeType, payee: form.payee, method: form.method })
+    setError('')
+  }
+
+  const handleVoid = (entry: LedgerEntry, reason: string) => {
+    const result = recordLedgerEntry(claim.id, {
+      type: 'void',
+      amount: entry.amount,
+      payee: entry.payee,
+      payeeType: entry.payeeType,
+      method: entry.method,
+      reference: '',
+      note: reason,
+      voidedEntryId: entry.id
+    })
+    setError(result || '')
+    setVoidEntry(null)
+  }
+
+  const figures = [
+    { label: 'Reserve', value: summary.reserve, className: 'text-gray-900' },
+    { label: 'Paid', value: summary.paid, className: 'text-gray-900' },
+    { label: 'Outstanding', value: summary.outstanding, className: summary.outstanding > 0 ? 'text-orange-600' : 'text-green-600' },
+    { label: 'Recovered', value: summary.recovered, className: 'text-gray-900' },
+    { label: 'Net Incurred', value: summary.netIncurred, className: 'text-gray-900' }
+  ]
+
+  return (
+    <div className="card">
+      <div className="flex items-center space-x-2 mb-6">
+        <Wallet className="h-5 w-5 text-gray-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Financials</h2>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {figures.map(figure => (
+          <div key={figure.label}>
+            <p className="text-xs text-gray-500 uppercase">{figure.label}</p>
+            <p className={`text-lg font-semibold ${figure.className}`}>{formatCurrency(figure.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      {ledger.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">
+          {isOpen
+            ? 'No reserve has been set for this claim yet.'
+            : 'A reserve is set from the estimate once the claim is approved.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Entry</th>
+                <th className="py-2 pr-4 font-medium">Payee</th>
+                <th className="py-2 pr-4 font-medium">Method</th>
+                <th className="py-2 pr-4 font-medium">Reference</th>
+                <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {ledger.map(entry => {
+                const isVoided = voided.has(entry.id)
+                return (
+                  <tr key={entry.id} className={isVoided ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                    <td className="py-2 pr-4 whitespace-nowrap">{new Date(entry.at).toLocaleDateString()}</td>
+                    <td className="py-2 pr-4">
+                      <div>{ledgerEntryTypeLabels[entry.type]}</div>
+                      <div className="text-xs text-gray-500">
+                        {entry.actor.name}{entry.note ? ` – ${entry.note}` : ''}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {entry.payee}
+                      <span className="block text-xs text-gray-500">{payeeTypeLabels[entry.payeeType]}</span>
+                    </td>
+                    <td className="py-2 pr-4">{paymentMethodLabels[entry.method]}</td>
+                    <td className="py-2 pr-4 font-mono text-xs">{entry.reference}</td>
+                    <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(entry.amount)}</td>
+                    <td className="py-2 text-right">
+                      {entry.type !== 'void' && !isVoided && isOpen && (
+                        <button
+                          onClick={() => setVoidEntry(entry)}
+                          disabled={!!voidDeniedReason}
+                          title={voidDeniedReason || 'Void this entry'}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-4 space-y-4">
+          <h3 className="font-medium text-gray-900">Record Entry</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={entryType}
+                onChange={(e) => handleTypeChange(e.target.value as LedgerEntryType)}
+                className="input-field"
+              >
+                {entryTypes.map(type => (
+                  <option key={type} value={type}>{ledgerEntryTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                className="input-field"
+                placeholder={entryType === 'reserve_adjustment' ? 'Negative to reduce' : '0.00'}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reference Number</label>
+              <input
+                type="text"
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                className="input-field"
+                placeholder="Check no. or transfer ID"
+              />
+            </div>
+            {!isReserveEntry && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {entryType === 'deductible_recovery' ? 'Paid By' : 'Payee Type'}
+                  </label>
+                  <select
+                    value={form.payeeType}
+                    onChange={(e) => handlePayeeTypeChange(e.target.value as PayeeType)}
+                    className="input-field"
+                  >
+                    <option value="repair_shop">{payeeTypeLabels.repair_shop}</option>
+                    <option value="customer">{payeeTypeLabels.customer}</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.payee}
+                    onChange={(e) => setForm({ ...form, payee: e.target.value })}
+                    className="input-field"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                  <select
+                    value={form.method}
+                    onChange={(e) => setForm({ ...form, method: e.target.value as PaymentMethod })}
+                    className="input-field"
+                  >
+                    {(Object.keys(paymentMethodLabels) as PaymentMethod[])
+                      .filter(method => method !== 'internal')
+                      .map(method => (
+                        <option key={method} value={method}>{paymentMethodLabels[method]}</option>
+                      ))}
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+            <input
+              type="text"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+              className="input-field"
+              placeholder="Optional"
+            />
+          </div>
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">{deniedReason}</p>
+            <button
+              type="submit"
+              disabled={!!deniedReason}
+              title={deniedReason || undefined}
+              className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PlusCircle className="h-4 w-4" />
+              <span>Record {ledgerEntryTypeLabels[entryType]}</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {voidEntry && (
+        <ReasonModal
+          title="Void Ledger Entry"
+          description={`Please record why the ${ledgerEntryTypeLabels[voidEntry.type].toLowerCase()} of ${formatCurrency(voidEntry.amount)} (${voidEntry.reference}) is being voided. The entry stays in the ledger, marked as voided.`}
+          confirmLabel="Void Entry"
+          confirmClassName="btn-danger"
+          onConfirm={(reason) => handleVoid(voidEntry, reason)}
+          onCancel={() => setVoidEntry(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ClaimFinancials
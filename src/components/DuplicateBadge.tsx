@@ -0,0 +1,30 @@
+import React from 'react'
+import { Copy } from 'lucide-react'
+import { Claim } from '../context/ClaimsContext'
+
+interface DuplicateBadgeProps {
+  claim: Claim
+}
+
+/**
+ * DuplicateBadge Component
+ *
+ * Warns that a claim may duplicate other claims. Renders nothing for claims
+ * without duplicate flags.
+ */
+const DuplicateBadge: React.FC<DuplicateBadgeProps> = ({ claim }) => {
+  const count = (claim.duplicateFlags || []).length
+  if (count === 0) return null
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+      title={`Possible duplicate of ${count} other claim(s)`}
+    >
+      <Copy className="h-3 w-3 mr-1" />
+      Possible duplicate
+    </span>
+  )
+}
+
+export default DuplicateBadge
@@ -0,0 +1,103 @@
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { Estimate, EstimateLineCategory, estimateCategoryLabels } from '../services/estimateEngine'
+
+interface EstimateBreakdownProps {
+  estimate: Estimate            // Itemized estimate to render
+}
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+/**
+ * EstimateBreakdown Component
+ *
+ * Renders an itemized estimate: every line grouped by category with its
+ * subtotal, followed by the tax calculation and the grand total.
+ */
+const EstimateBreakdown: React.FC<EstimateBreakdownProps> = ({ estimate }) => {
+  const categories = Object.keys(estimateCategoryLabels) as EstimateLineCategory[]
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">Description</th>
+              <th className="py-2 pr-4 font-medium text-right">Qty</th>
+              <th className="py-2 pr-4 font-medium text-right">Unit Price</th>
+              <th className="py-2 font-medium text-right">Amount</th>
+            </tr>
+          </thead>
+          {categories
+            .filter(category => estimate.lineItems.some(line => line.category === category))
+            .map(category => (
+              <tbody key={category} className="divide-y divide-gray-100">
+                <tr>
+                  <td colSpan={4} className="pt-4 pb-1 text-xs font-semibold text-gray-700 uppercase">
+                    {estimateCategoryLabels[category]}
+                  </td>
+                </tr>
+                {estimate.lineItems
+                  .filter(line => line.category === category)
+                  .map(line => (
+                    <tr key={line.id}>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {line.description}
+                        {line.catalogItemId && (
+                          <Link
+                            to={`/repair-costs?item=${line.catalogItemId}`}
+                            className="ml-2 text-xs text-primary-600 hover:text-primary-700 font-mono"
+                          >
+                            {line.catalogItemId}
+                          </Link>
+                        )}
+                        {line.taxable && <span className="ml-2 text-xs text-gray-400">T</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-600">
+                        {line.quantity}{category === 'parts' ? '' : 'h'}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-600">{formatCurrency(line.unitPrice)}</td>
+                      <td className="py-2 text-right text-gray-900">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))}
+                <tr>
+                  <td colSpan={3} className="py-2 pr-4 text-right text-gray-600">
+                    {estimateCategoryLabels[category]} subtotal
+                  </td>
+                  <td className="py-2 text-right font-medium text-gray-900">
+                    {formatCurrency(estimate.subtotals[category])}
+                  </td>
+                </tr>
+              </tbody>
+            ))}
+        </table>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Subtotal</span>
+          <span className="text-gray-900">{formatCurrency(estimate.subtotal)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">
+            Sales tax ({estimate.rates.taxRatePercent}% of {formatCurrency(estimate.taxableAmount)} taxable, marked T)
+          </span>
+          <span className="text-gray-900">{formatCurrency(estimate.tax)}</span>
+        </div>
+        <div className="flex justify-between pt-2 text-lg font-bold">
+          <span className="text-gray-900">Total</span>
+          <span className="text-gray-900">{formatCurrency(estimate.total)}</span>
+        </div>
+        <p className="text-xs text-gray-500 pt-2">
+          Labor at {formatCurrency(estimate.rates.laborRate)}/h, paint &amp; materials at{' '}
+          {formatCurrency(estimate.rates.paintMaterialsPerHour)}/h, parts markup {estimate.rates.partsMarkupPercent}%.
+          Calculated {new Date(estimate.generatedAt).toLocaleString()}.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default EstimateBreakdown
@@ -0,0 +1,137 @@
+import React, { useState } from 'react'
+import { Calculator, Save } from 'lucide-react'
+import {
+  EstimateRates,
+  EstimateLineCategory,
+  estimateCategoryLabels,
+  defaultEstimateRates,
+  loadEstimateRates,
+  saveEstimateRates,
+  validateEstimateRates
+} from '../services/estimateEngine'
+import { useSession } from '../context/SessionContext'
+
+/**
+ * EstimateRatesCard Component
+ *
+ * Lets the user review and change the rates used by the estimate engine.
+ * New rates apply to estimates calculated after saving; existing estimates
+ * keep the rates they were calculated with.
+ */
+const EstimateRatesCard: React.FC = () => {
+  const [rates, setRates] = useState<EstimateRates>(loadEstimateRates)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [saved, setSaved] = useState(false)
+  const { getDeniedReason } = useSession()
+  const editDeniedReason = getDeniedReason('rates:edit')
+
+  const numberFields: Array<{ key: keyof Omit<EstimateRates, 'taxableCategories'>; label: string; unit: string }> = [
+    { key: 'laborRate', label: 'Labor Rate', unit: '$/hour' },
+    { key: 'paintMaterialsPerHour', label: 'Paint & Materials', unit: '$/refinish hour' },
+    { key: 'partsMarkupPercent', label: 'Parts Markup', unit: '%' },
+    { key: 'taxRatePercent', label: 'Sales Tax', unit: '%' }
+  ]
+
+  const handleNumberChange = (key: keyof EstimateRates, value: string) => {
+    setRates(prev => ({ ...prev, [key]: parseFloat(value) }))
+    setSaved(false)
+  }
+
+  const toggleTaxable = (category: EstimateLineCategory) => {
+    setRates(prev => ({
+      ...prev,
+      taxableCategories: prev.taxableCategories.includes(category)
+        ? prev.taxableCategories.filter(item => item !== category)
+        : [...prev.taxableCategories, category]
+    }))
+    setSaved(false)
+  }
+
+  const handleSave = () => {
+    if (editDeniedReason) return
+
+    const validationErrors = validateEstimateRates(rates)
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length > 0) return
+
+    try {
+      saveEstimateRates(rates)
+      setSaved(true)
+    } catch (error) {
+      console.error('Error saving estimate rates:', error)
+      setErrors({ save: 'Rates could not be saved. Please try again.' })
+    }
+  }
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Calculator className="w-5 h-5 text-primary-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Estimate Rates</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button
+            onClick={() => { setRates(defaultEstimateRates); setSaved(false) }}
+            disabled={!!editDeniedReason}
+            title={editDeniedReason || undefined}
+            className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!editDeniedReason}
+            title={editDeniedReason || undefined}
+            className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            Save Rates
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {numberFields.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label} <span className="text-gray-400">({field.unit})</span>
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={Number.isNaN(rates[field.key]) ? '' : rates[field.key]}
+              onChange={(e) => handleNumberChange(field.key, e.target.value)}
+              className={`input-field ${errors[field.key] ? 'border-red-500' : ''}`}
+            />
+            {errors[field.key] && <p className="text-red-500 text-sm mt-1">{errors[field.key]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex items-center gap-6 text-sm text-gray-700">
+        <span className="font-medium">Tax applies to:</span>
+        {(Object.keys(estimateCategoryLabels) as EstimateLineCategory[]).map(category => (
+          <label key={category} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rates.taxableCategories.includes(category)}
+              onChange={() => toggleTaxable(category)}
+            />
+            {estimateCategoryLabels[category]}
+          </label>
+        ))}
+      </div>
+
+      {errors.save && <p className="text-red-500 text-sm mt-2">{errors.save}</p>}
+      {editDeniedReason && <p className="text-sm text-gray-600 mt-2">{editDeniedReason}</p>}
+      <p className="text-xs text-gray-500 mt-4">
+        New rates apply to estimates calculated after saving. Existing claim estimates keep the rates they were calculated with.
+      </p>
+    </div>
+  )
+}
+
+export default EstimateRatesCard
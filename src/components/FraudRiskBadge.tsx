@@ -0,0 +1,38 @@
+import React from 'react'
+import { ShieldAlert } from 'lucide-react'
+import { FraudAssessment, FraudRiskLevel, fraudRiskLevelLabels } from '../services/fraudScoring'
+
+interface FraudRiskBadgeProps {
+  fraudRisk?: FraudAssessment
+}
+
+// Badge colors for each risk level
+const levelClasses: Record<FraudRiskLevel, string> = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800'
+}
+
+/**
+ * FraudRiskBadge Component
+ *
+ * Shows a claim's fraud risk score and level, with the indicators that
+ * applied in the tooltip.
+ */
+const FraudRiskBadge: React.FC<FraudRiskBadgeProps> = ({ fraudRisk }) => {
+  if (!fraudRisk) {
+    return <span className="text-xs text-gray-400">Not scored</span>
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${levelClasses[fraudRisk.level]}`}
+      title={fraudRisk.indicators.map(indicator => indicator.label).join(', ') || 'No indicators'}
+    >
+      <ShieldAlert className="h-3 w-3 mr-1" />
+      {fraudRisk.score} · {fraudRiskLevelLabels[fraudRisk.level]}
+    </span>
+  )
+}
+
+export default FraudRiskBadge
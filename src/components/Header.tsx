@@ -1,15 +1,27 @@
 import React from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { Car, Shield, BarChart3, BookOpen, CheckSquare, Wrench } from 'lucide-react'
+import { Car, Shield, BarChart3, BookOpen, CheckSquare, Wrench, FileText, Zap, ClipboardList, FileSpreadsheet, Target } from 'lucide-react'
+import { useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { users, roleLabels } from '../data/users'
+import { Permission } from '../services/permissions'
 
 const Header: React.FC = () => {
   const location = useLocation()
+  const { state } = useClaims()
+  const { user, switchUser, can } = useSession()
 
-  const navItems = [
+  // Pages behind a route guard are only listed for users who may open them
+  const navItems: Array<{ path: string; label: string; icon: typeof Car; permission?: Permission }> = [
     { path: '/', label: 'Dashboard', icon: BarChart3 },
-    { path: '/new-claim', label: 'New Claim', icon: Car },
-    { path: '/claims-approval', label: 'Approve Claims', icon: CheckSquare },
+    { path: '/new-claim', label: 'New Claim', icon: Car, permission: 'claim:create' },
+    { path: '/drafts', label: `My Drafts (${state.inProgressClaims.length})`, icon: FileText, permission: 'claim:create' },
+    { path: '/claims-approval', label: 'Approve Claims', icon: CheckSquare, permission: 'approvals:view' },
+    { path: '/auto-approval', label: 'Auto-Approval', icon: Zap, permission: 'approvals:view' },
     { path: '/repair-shops', label: 'Repair Shops', icon: Wrench },
+    { path: '/repairs', label: 'Repairs', icon: ClipboardList, permission: 'claims:view' },
+    { path: '/shop-estimates', label: 'Shop Estimates', icon: FileSpreadsheet, permission: 'estimates:submit' },
+    { path: '/estimate-accuracy', label: 'Estimate Accuracy', icon: Target, permission: 'approvals:view' },
     { path: '/repair-costs', label: 'Cost Database', icon: BookOpen },
   ]
 
@@ -30,9 +42,10 @@ const Header: React.FC = () => {
 
           {/* Navigation */}
           <nav className="flex items-center space-x-8">
-            {navItems.map((item) => {
+            {navItems.filter(item => !item.permission || can(item.permission)).map((item) => {
               const Icon = item.icon
-              const isActive = location.pathname === item.path
+              const isActive = location.pathname === item.path ||
+                (item.path !== '/' && location.pathname.startsWith(`${item.path}/`))
               
               return (
                 <Link
@@ -54,11 +67,20 @@ const Header: React.FC = () => {
           {/* User Info */}
           <div className="flex items-center space-x-4">
             <div className="text-right">
-              <p className="text-sm font-medium text-gray-900">Claims Agent</p>
-              <p className="text-xs text-gray-500">Agent ID: AGT-001</p>
+              <select
+                value={user.id}
+                onChange={(e) => switchUser(e.target.value)}
+                className="text-sm font-medium text-gray-900 bg-transparent border-none p-0 text-right focus:ring-0 cursor-pointer"
+                title="Switch user"
+              >
+                {users.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">{roleLabels[user.role]} • ID: {user.id}</p>
             </div>
             <div className="h-8 w-8 bg-primary-600 rounded-full flex items-center justify-center">
-              <span className="text-white text-sm font-medium">A</span>
+              <span className="text-white text-sm font-medium">{user.name.charAt(0)}</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { X, Search, FileText, ArrowRight, Upload, Settings, Loader2, AlertCircle } from 'lucide-react'
+import { Claim } from '../context/ClaimsContext'
+import {
+  TicketSource,
+  TicketSearchResult,
+  FieldMapping,
+  ClaimFormField,
+  claimFormFields,
+  createClaimsTicketSource,
+  createFileTicketSource,
+  getTicketSources,
+  registerTicketSource,
+  getFieldMapping,
+  saveFieldMapping,
+  searchTicketSource,
+  listFieldPaths
+} from '../services/ticketSources'
+
+interface ImportTicketModalProps {
+  claims: Claim[]               // Claims in the application, searched as a ticket source
+  onSelect: (result: TicketSearchResult) => void  // Called with the ticket chosen for import
+  onClose: () => void           // Called when the modal is dismissed
+}
+
+const statusClasses: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-orange-100 text-orange-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+}
+
+/**
+ * ImportTicketModal Component
+ *
+ * Searches existing claims and every registered ticket source for a ticket
+ * to pre-fill the claim wizard with. JSON/CSV exports can be loaded as
+ * additional sources, and each source's field mapping can be adjusted so its
+ * records fill the right form fields.
+ */
+const ImportTicketModal: React.FC<ImportTicketModalProps> = ({ claims, onSelect, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [sourceFilter, setSourceFilter] = useState('all')
+  const [externalSources, setExternalSources] = useState<TicketSource[]>(getTicketSources)
+  const [results, setResults] = useState<TicketSearchResult[]>([])
+  const [sourceErrors, setSourceErrors] = useState<Record<string, string>>({})
+  const [isSearching, setIsSearching] = useState(false)
+  const [fileError, setFileError] = useState('')
+  const [mappingSourceId, setMappingSourceId] = useState<string | null>(null)
+  const [mappingDraft, setMappingDraft] = useState<FieldMapping>({})
+  const [mappingVersion, setMappingVersion] = useState(0)
+
+  const sources = useMemo(
+    () => [createClaimsTicketSource(claims), ...externalSources],
+    [claims, externalSources]
+  )
+  const mappingSource = sources.find(source => source.id === mappingSourceId)
+
+  /**
+   * Search sources whenever the term, source filter or a mapping changes.
+   * Typing is debounced; a failing source reports its error without hiding
+   * results from the other sources.
+   */
+  useEffect(() => {
+    let cancelled = false
+    const searched = sources.filter(source => sourceFilter === 'all' || source.id === sourceFilter)
+
+    setIsSearching(true)
+    const timer = setTimeout(async () => {
+      const outcomes = await Promise.allSettled(searched.map(source => searchTicketSource(source, searchTerm)))
+      if (cancelled) return
+
+      const errors: Record<string, string> = {}
+      const found: TicketSearchResult[] = []
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          found.push(...outcome.value)
+        } else {
+          console.error(`Error searching ticket source ${searched[index].id}:`, outcome.reason)
+          errors[searched[index].id] = outcome.reason instanceof Error ? outcome.reason.message : 'Search failed'
+        }
+      })
+
+      setResults(found)
+      setSourceErrors(errors)
+      setIsSearching(false)
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [sources, sourceFilter, searchTerm, mappingVersion])
+
+  /**
+   * Handle File Load
+   *
+   * Registers a JSON or CSV export as a ticket source and narrows the search
+   * to it.
+   *
+   * @param event - File input change event
+   */
+  const handleFileLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const source = await createFileTicketSource(file)
+      registerTicketSource(source)
+      setExternalSources(getTicketSources())
+      setSourceFilter(source.id)
+      setFileError('')
+    } catch (error) {
+      console.error('Error loading ticket file:', error)
+      setFileError(`${file.name} could not be read as a JSON or CSV ticket export.`)
+    }
+  }
+
+  /**
+   * Open Mapping Editor
+   *
+   * @param sourceId - Source whose field mapping is edited
+   */
+  const openMappingEditor = (sourceId: string) => {
+    const source = sources.find(item => item.id === sourceId)
+    if (!source) return
+    setMappingDraft(getFieldMapping(source))
+    setMappingSourceId(sourceId)
+  }
+
+  /**
+   * Save Mapping
+   *
+   * Persists the edited mapping (or resets it to the source default) and
+   * re-runs the search with it.
+   *
+   * @param reset - Whether to discard the saved mapping instead
+   */
+  const saveMapping = (reset: boolean) => {
+    if (!mappingSource) return
+    try {
+      const cleaned = Object.fromEntries(Object.entries(mappingDraft).filter(([, path]) => path))
+      saveFieldMapping(mappingSource.id, reset ? undefined : cleaned)
+      setMappingSourceId(null)
+      setMappingVersion(version => version + 1)
+    } catch (error) {
+      console.error('Error saving ticket field mapping:', error)
+    }
+  }
+
+  /**
+   * Get Source Field Options
+   *
+   * @param source - Source whose fields are listed
+   * @returns Field paths seen in the source's current results, plus mapped paths
+   */
+  const getSourceFieldOptions = (source: TicketSource) => {
+    const paths = new Set<string>([source.idField])
+    results
+      .filter(result => result.sourceId === source.id)
+      .slice(0, 20)
+      .forEach(result => listFieldPaths(result.raw).forEach(path => paths.add(path)))
+    Object.values(mappingDraft).forEach(path => path && paths.add(path))
+    return Array.from(paths).sort()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Import Existing Ticket</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {/* Search */}
+          <div className="mb-4 flex items-center space-x-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by ticket ID, policy number, customer name, or vehicle..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <select
+              value={sourceFilter}
+              onChange={(e) => setSourceFilter(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value="all">All sources</option>
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>{source.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Source actions */}
+          <div className="mb-4 flex items-center justify-between text-sm">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="text-primary-600 hover:text-primary-700 font-medium flex items-center space-x-1"
+            >
+              <Upload className="h-4 w-4" />
+              <span>Load JSON/CSV export</span>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleFileLoad}
+              className="hidden"
+            />
+            {sourceFilter !== 'all' && (
+              <button
+                onClick={() => openMappingEditor(sourceFilter)}
+                className="text-gray-600 hover:text-gray-800 font-medium flex items-center space-x-1"
+              >
+                <Settings className="h-4 w-4" />
+                <span>Field mapping</span>
+              </button>
+            )}
+          </div>
+
+          {fileError && <p className="text-red-500 text-sm mb-4">{fileError}</p>}
+          {Object.entries(sourceErrors).map(([sourceId, message]) => (
+            <div key={sourceId} className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{sources.find(source => source.id === sourceId)?.name || sourceId}: {message}</span>
+            </div>
+          ))}
+
+          {/* Field Mapping Editor */}
+          {mappingSource && (
+            <div className="mb-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+              <p className="font-medium text-gray-900 mb-1">Field mapping – {mappingSource.name}</p>
+              <p className="text-xs text-gray-600 mb-3">
+                Choose the ticket field that fills each claim field. Nested fields use dot paths (e.g., caller.name).
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {claimFormFields.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+                    <select
+                      value={mappingDraft[key] || ''}
+                      onChange={(e) => setMappingDraft(prev => ({ ...prev, [key as ClaimFormField]: e.target.value }))}
+                      className="input-field"
+                    >
+                      <option value="">Not mapped</option>
+                      {getSourceFieldOptions(mappingSource).map(path => (
+                        <option key={path} value={path}>{path}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-3 mt-4">
+                <button onClick={() => setMappingSourceId(null)} className="btn-secondary">Cancel</button>
+                <button onClick={() => saveMapping(true)} className="btn-secondary">Reset to Default</button>
+                <button onClick={() => saveMapping(false)} className="btn-primary">Save Mapping</button>
+              </div>
+            </div>
+          )}
+
+          {/* Ticket List */}
+          <div className="space-y-3">
+            {isSearching ? (
+              <div className="text-center py-8 text-gray-500">
+                <Loader2 className="h-8 w-8 mx-auto mb-4 animate-spin text-gray-400" />
+                <p>Searching tickets...</p>
+              </div>
+            ) : results.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p>No tickets found matching your search</p>
+              </div>
+            ) : (
+              results.map((result) => {
+                const { formData } = result
+                const status = typeof result.raw.status === 'string' ? result.raw.status : undefined
+
+                return (
+                  <div
+                    key={`${result.sourceId}:${result.id}`}
+                    onClick={() => onSelect(result)}
+                    className="p-4 border border-gray-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 cursor-pointer transition-colors"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <div className="p-2 bg-gray-100 rounded-lg">
+                            <FileText className="h-4 w-4 text-gray-600" />
+                          </div>
+                          <div>
+                            <p className="font-medium text-gray-900">{formData.policyNumber || result.id}</p>
+                            <p className="text-sm text-gray-600">{formData.customerName || 'Unknown customer'}</p>
+                          </div>
+                          <span className="ml-auto text-xs text-gray-500">
+                            {result.sourceName} • {result.id}
+                          </span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
+                          <div>
+                            <span className="font-medium">Vehicle:</span> {formData.vehicleYear} {formData.vehicleMake} {formData.vehicleModel}
+                          </div>
+                          {status && (
+                            <div>
+                              <span className="font-medium">Status:</span>
+                              <span className={`ml-1 px-2 py-1 rounded-full text-xs font-medium ${statusClasses[status] || 'bg-gray-100 text-gray-800'}`}>
+                                {status.charAt(0).toUpperCase() + status.slice(1)}
+                              </span>
+                            </div>
+                          )}
+                        </div>
+                        {formData.accidentDescription && (
+                          <p className="text-sm text-gray-600 mt-2 line-clamp-2">
+                            {formData.accidentDescription}
+                          </p>
+                        )}
+                      </div>
+                      <ArrowRight className="h-5 w-5 text-gray-400" />
+                    </div>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="btn-secondary"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ImportTicketModal
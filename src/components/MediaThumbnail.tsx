@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ImageOff, Loader2 } from 'lucide-react'
+import { getMediaUrl } from '../services/mediaStore'
+
+interface MediaThumbnailProps {
+  mediaId: string               // Media store ID (or legacy inline data URL)
+  kind: 'photo' | 'video'       // How the media should be rendered
+  alt?: string                  // Alternative text for photos
+  className?: string            // Classes applied to the rendered element
+  controls?: boolean            // Show player controls for videos
+}
+
+/**
+ * MediaThumbnail Component
+ *
+ * Renders a photo or video from the media store.
+ * The blob is only loaded once the element scrolls into view, so long claim
+ * lists do not read every file from IndexedDB up front.
+ */
+const MediaThumbnail: React.FC<MediaThumbnailProps> = ({ mediaId, kind, alt, className = '', controls }) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [isVisible, setIsVisible] = useState(false)
+  const [url, setUrl] = useState<string>()
+  const [isMissing, setIsMissing] = useState(false)
+
+  // Wait until the thumbnail is visible before loading it
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      setIsVisible(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setIsVisible(true)
+        observer.disconnect()
+      }
+    }, { rootMargin: '200px' })
+
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Resolve the media ID to a URL once visible
+  useEffect(() => {
+    if (!isVisible) return
+
+    let cancelled = false
+    setIsMissing(false)
+    getMediaUrl(mediaId)
+      .then(resolved => {
+        if (cancelled) return
+        setUrl(resolved)
+        setIsMissing(!resolved)
+      })
+      .catch(error => {
+        console.error('Error loading media:', error)
+        if (!cancelled) setIsMissing(true)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [mediaId, isVisible])
+
+  if (url) {
+    return kind === 'photo'
+      ? <img src={url} alt={alt} className={className} loading="lazy" />
+      : <video src={url} className={className} controls={controls} preload="metadata" />
+  }
+
+  return (
+    <div ref={containerRef} className={`${className} bg-gray-100 flex items-center justify-center`}>
+      {isMissing
+        ? <ImageOff className="h-5 w-5 text-gray-400" />
+        : <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />}
+    </div>
+  )
+}
+
+export default MediaThumbnail
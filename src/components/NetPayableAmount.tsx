@@ -0,0 +1,35 @@
+import React from 'react'
+import { Claim } from '../context/ClaimsContext'
+import { getClaimPayable, describePayableAmount } from '../services/policyCoverage'
+
+interface NetPayableAmountProps {
+  claim: Pick<Claim, 'policyNumber' | 'coverageType' | 'totalEstimatedCost'>
+  className?: string
+}
+
+/**
+ * NetPayableAmount Component
+ *
+ * Shows what the insurer pays on a claim after the deductible and coverage
+ * limit, with the calculation in the tooltip. Shown next to the estimated
+ * cost wherever a claim's cost is listed.
+ */
+const NetPayableAmount: React.FC<NetPayableAmountProps> = ({ claim, className = 'text-sm' }) => {
+  const payable = getClaimPayable(claim)
+
+  if (!payable) {
+    return (
+      <span className={`${className} text-gray-400`} title="No coverage found for this claim's policy">
+        Net payable unavailable
+      </span>
+    )
+  }
+
+  return (
+    <span className={`${className} text-green-700`} title={describePayableAmount(payable)}>
+      Net payable ${payable.netPayable.toLocaleString()}
+    </span>
+  )
+}
+
+export default NetPayableAmount
@@ -0,0 +1,69 @@
+import React, { useState } from 'react'
+import { X } from 'lucide-react'
+
+interface ReasonModalProps {
+  title: string                 // Modal heading
+  description: string           // Explanation of what the reason is for
+  confirmLabel: string          // Label of the confirm button
+  confirmClassName?: string     // Button style for the confirm button
+  onConfirm: (reason: string) => void
+  onCancel: () => void
+}
+
+/**
+ * ReasonModal Component
+ *
+ * Asks the user for a free-text reason before performing an action,
+ * e.g. rejecting or reopening a claim. The confirm button stays disabled
+ * until a reason has been entered.
+ */
+const ReasonModal: React.FC<ReasonModalProps> = ({
+  title,
+  description,
+  confirmLabel,
+  confirmClassName = 'btn-primary',
+  onConfirm,
+  onCancel
+}) => {
+  const [reason, setReason] = useState('')
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">{description}</p>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+            className="input-field"
+            placeholder="Enter a reason..."
+            autoFocus
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(reason.trim())}
+            className={confirmClassName}
+            disabled={!reason.trim()}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReasonModal
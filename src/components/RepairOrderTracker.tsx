@@ -0,0 +1,327 @@
+import React, { useState } from 'react'
+import { ClipboardList, CheckCircle, Circle, MinusCircle, Star, RotateCcw } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import {
+  RepairStage,
+  repairStages,
+  repairStageLabels,
+  getCurrentRepairStage,
+  getStageDurations,
+  getRepairCycleHours,
+  validateOpenRepairOrder,
+  formatDuration
+} from '../services/repairOrders'
+
+interface RepairOrderTrackerProps {
+  claim: Claim                  // Claim whose repair is tracked
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+})
+
+/**
+ * RepairOrderTracker Component
+ *
+ * Shows the progress of a claim's repair order through its stages, with the
+ * time spent in each, the stage history with notes, and a form for recording
+ * the next stage. Approved claims without an order can open one here. Once
+ * the vehicle is delivered, the customer's survey and any comebacks for
+ * rework are recorded here.
+ */
+const RepairOrderTracker: React.FC<RepairOrderTrackerProps> = ({ claim }) => {
+  const { openRepairOrder, advanceRepairStage, recordRepairSurvey, reportRepairComeback } = useClaims()
+  const { getDeniedReason } = useSession()
+  const [nextStage, setNextStage] = useState<RepairStage | ''>('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState('')
+  const [surveyRating, setSurveyRating] = useState(0)
+  const [surveyComments, setSurveyComments] = useState('')
+  const [comebackReason, setComebackReason] = useState('')
+  const deniedReason = getDeniedReason('repairs:update')
+
+  const order = claim.repairOrder
+  if (!order) {
+    if (claim.status !== 'approved' && claim.status !== 'paid') return null
+
+    const openBlockedReason = deniedReason || validateOpenRepairOrder(claim)
+    return (
+      <div className="card">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ClipboardList className="h-5 w-5 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Repair Progress</h2>
+          </div>
+          <button
+            onClick={() => setError(openRepairOrder(claim.id) || '')}
+            disabled={!!openBlockedReason}
+            title={openBlockedReason || undefined}
+            className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Open Repair Order
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mt-2">No repair order has been opened for this claim yet.</p>
+        {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+      </div>
+    )
+  }
+
+  const current = getCurrentRepairStage(order)
+  const currentIndex = repairStages.indexOf(current)
+  const laterStages = repairStages.slice(currentIndex + 1)
+  const selectedStage = nextStage && laterStages.includes(nextStage) ? nextStage : laterStages[0]
+  const durations = getStageDurations(order)
+  const cycleHours = getRepairCycleHours(order)
+  const updateBlockedReason = deniedReason ||
+    (claim.status === 'rejected' || claim.status === 'closed' ? 'Repairs of closed or rejected claims cannot be updated' : null)
+
+  const handleAdvance = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedStage) return
+    const result = advanceRepairStage(claim.id, selectedStage, notes)
+    if (result) {
+      setError(result)
+      return
+    }
+    setNextStage('')
+    setNotes('')
+    setError('')
+  }
+
+  const handleSurvey = (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = recordRepairSurvey(claim.id, surveyRating, surveyComments)
+    if (result) {
+      setError(result)
+      return
+    }
+    setSurveyRating(0)
+    setSurveyComments('')
+    setError('')
+  }
+
+  const handleComeback = (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = reportRepairComeback(claim.id, comebackReason)
+    if (result) {
+      setError(result)
+      return
+    }
+    setComebackReason('')
+    setError('')
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <ClipboardList className="h-5 w-5 text-primary-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Repair Progress</h2>
+          <span className="text-sm text-gray-500">{order.number}</span>
+        </div>
+        {cycleHours !== null && (
+          <span className="text-sm text-gray-600">
+            Repair time: <span className="font-medium">{formatDuration(cycleHours)}</span>
+          </span>
+        )}
+      </div>
+
+      {/* Stage Tracker */}
+      <ol className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-2 mb-6">
+        {repairStages.map((stage, index) => {
+          const entry = order.stages.find(candidate => candidate.stage === stage)
+          const duration = durations.find(candidate => candidate.stage === stage)
+          const isCurrent = stage === current
+          const isSkipped = !entry && index < currentIndex
+          return (
+            <li
+              key={stage}
+              className={`rounded-lg p-2 text-center border ${
+                isCurrent ? 'border-primary-400 bg-primary-50' : entry ? 'border-green-200 bg-green-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex justify-center mb-1">
+                {entry && !isCurrent ? (
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                ) : isSkipped ? (
+                  <MinusCircle className="h-5 w-5 text-gray-300" />
+                ) : (
+                  <Circle className={`h-5 w-5 ${isCurrent ? 'text-primary-600' : 'text-gray-300'}`} />
+                )}
+              </div>
+              <div className={`text-xs font-medium ${entry ? 'text-gray-900' : 'text-gray-400'}`}>
+                {repairStageLabels[stage]}
+              </div>
+              {entry && <div className="text-xs text-gray-500 mt-1">{formatDateTime(entry.at)}</div>}
+              {duration && stage !== 'delivered' && (
+                <div className="text-xs text-gray-500">
+                  {formatDuration(duration.hours)}{isCurrent && ' so far'}
+                </div>
+              )}
+              {isSkipped && <div className="text-xs text-gray-400 mt-1">Skipped</div>}
+            </li>
+          )
+        })}
+      </ol>
+
+      {/* Stage History */}
+      <div className="space-y-2 mb-6">
+        {[...order.stages].reverse().map((entry, index) => (
+          <div key={`${entry.stage}-${index}`} className="text-sm border-l-2 border-gray-200 pl-3">
+            <span className="font-medium text-gray-900">{repairStageLabels[entry.stage]}</span>
+            <span className="text-gray-500"> · {formatDateTime(entry.at)} · {entry.actor.name}</span>
+            {entry.notes && <p className="text-gray-600">{entry.notes}</p>}
+          </div>
+        ))}
+      </div>
+
+      {/* Update Stage */}
+      {laterStages.length > 0 && (
+        <form onSubmit={handleAdvance} className="border-t border-gray-200 pt-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Next Stage</label>
+              <select
+                value={selectedStage}
+                onChange={(e) => setNextStage(e.target.value as RepairStage)}
+                className="input-field"
+                disabled={!!updateBlockedReason}
+              >
+                {laterStages.map(stage => (
+                  <option key={stage} value={stage}>{repairStageLabels[stage]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="input-field"
+                placeholder="e.g., Bumper cover on back order, ETA Friday"
+                disabled={!!updateBlockedReason}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              Stages can be skipped when they do not apply, but not moved back to.
+            </p>
+            <button
+              type="submit"
+              disabled={!!updateBlockedReason}
+              title={updateBlockedReason || undefined}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Update Stage
+            </button>
+          </div>
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+        </form>
+      )}
+
+      {/* After Delivery */}
+      {current === 'delivered' && (
+        <div className="border-t border-gray-200 pt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-medium text-gray-900 mb-2">Customer Survey</h3>
+            {order.survey ? (
+              <div className="text-sm">
+                <div className="flex items-center space-x-1">
+                  {[1, 2, 3, 4, 5].map(value => (
+                    <Star
+                      key={value}
+                      className={`h-4 w-4 ${value <= order.survey!.rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                    />
+                  ))}
+                  <span className="text-gray-700 ml-1">{order.survey.rating}/5</span>
+                </div>
+                {order.survey.comments && <p className="text-gray-600 mt-1">"{order.survey.comments}"</p>}
+                <p className="text-xs text-gray-500 mt-1">
+                  Recorded by {order.survey.actor.name} on {formatDateTime(order.survey.at)}
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleSurvey} className="space-y-2">
+                <div className="flex items-center space-x-1">
+                  {[1, 2, 3, 4, 5].map(value => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setSurveyRating(value)}
+                      disabled={!!deniedReason}
+                      title={deniedReason || `${value} of 5`}
+                      className="disabled:cursor-not-allowed"
+                    >
+                      <Star className={`h-5 w-5 ${value <= surveyRating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`} />
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={surveyComments}
+                  onChange={(e) => setSurveyComments(e.target.value)}
+                  className="input-field"
+                  placeholder="Customer's comments (optional)"
+                  disabled={!!deniedReason}
+                />
+                <button
+                  type="submit"
+                  disabled={!!deniedReason || surveyRating === 0}
+                  title={deniedReason || (surveyRating === 0 ? 'Choose a rating' : undefined)}
+                  className="btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Record Survey
+                </button>
+              </form>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-medium text-gray-900 mb-2">Comebacks</h3>
+            {(order.comebacks || []).length === 0 ? (
+              <p className="text-sm text-gray-600 mb-2">The vehicle has not come back for rework.</p>
+            ) : (
+              <ul className="space-y-1 mb-2">
+                {(order.comebacks || []).map(comeback => (
+                  <li key={comeback.id} className="text-sm">
+                    <span className="text-gray-900">{comeback.reason}</span>
+                    <span className="text-gray-500"> · {formatDateTime(comeback.at)} · {comeback.actor.name}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleComeback} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={comebackReason}
+                onChange={(e) => setComebackReason(e.target.value)}
+                className="input-field"
+                placeholder="e.g., Paint mismatch on rear door"
+                disabled={!!deniedReason}
+              />
+              <button
+                type="submit"
+                disabled={!!deniedReason || !comebackReason.trim()}
+                title={deniedReason || undefined}
+                className="btn-secondary text-sm flex items-center space-x-1 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Report Comeback</span>
+              </button>
+            </form>
+          </div>
+          {error && <p className="text-red-500 text-sm md:col-span-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RepairOrderTracker
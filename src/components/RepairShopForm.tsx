@@ -0,0 +1,379 @@
+import React, { useState } from 'react'
+import { Save, X, Plus, Trash2, MapPin } from 'lucide-react'
+import { RepairShop, Weekday, weekdays, weekdayLabels } from '../data/repairShops'
+import { getZipCentroid } from '../data/zipCentroids'
+import { validateRepairShop, saveRepairShop } from '../services/shopStore'
+
+interface RepairShopFormProps {
+  shop: RepairShop              // Shop being created or edited
+  isNew: boolean                // Whether the shop is not in the store yet
+  onSaved: (shop: RepairShop) => void
+  onCancel: () => void
+}
+
+// Weekdays in display order, Monday first
+const displayWeekdays: Weekday[] = [...weekdays.slice(1), weekdays[0]]
+
+/**
+ * Split List
+ *
+ * @param text - Comma-separated values entered by the user
+ * @returns Trimmed, non-empty values
+ */
+const splitList = (text: string) =>
+  text.split(',').map(item => item.trim()).filter(item => item.length > 0)
+
+/**
+ * RepairShopForm Component
+ *
+ * Create/edit form for one network shop: contact details, location, services,
+ * capacity, weekly opening hours and holiday closures. The shop is validated
+ * before it is saved to the shop store.
+ */
+const RepairShopForm: React.FC<RepairShopFormProps> = ({ shop, isNew, onSaved, onCancel }) => {
+  const [draft, setDraft] = useState<RepairShop>(shop)
+  const [specialtiesText, setSpecialtiesText] = useState(shop.specialties.join(', '))
+  const [certificationsText, setCertificationsText] = useState(shop.certifications.join(', '))
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const updateDraft = (changes: Partial<RepairShop>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  const updateHours = (weekday: Weekday, index: number, changes: { open?: string; close?: string }) => {
+    setDraft(prev => ({
+      ...prev,
+      hours: {
+        ...prev.hours,
+        [weekday]: prev.hours[weekday].map((interval, i) => i === index ? { ...interval, ...changes } : interval)
+      }
+    }))
+  }
+
+  const addInterval = (weekday: Weekday) => {
+    setDraft(prev => {
+      const last = prev.hours[weekday][prev.hours[weekday].length - 1]
+      const interval = last ? { open: last.close, close: '20:00' } : { open: '08:00', close: '17:00' }
+      return { ...prev, hours: { ...prev.hours, [weekday]: [...prev.hours[weekday], interval] } }
+    })
+  }
+
+  const removeInterval = (weekday: Weekday, index: number) => {
+    setDraft(prev => ({
+      ...prev,
+      hours: { ...prev.hours, [weekday]: prev.hours[weekday].filter((_, i) => i !== index) }
+    }))
+  }
+
+  const updateHoliday = (index: number, changes: { date?: string; name?: string }) => {
+    setDraft(prev => ({
+      ...prev,
+      holidayClosures: prev.holidayClosures.map((closure, i) => i === index ? { ...closure, ...changes } : closure)
+    }))
+  }
+
+  /**
+   * Handle Use ZIP Location
+   *
+   * Places the shop at the centroid of its ZIP code when the ZIP is in the
+   * offline table.
+   */
+  const handleUseZipLocation = () => {
+    const centroid = getZipCentroid(draft.zipCode)
+    if (centroid) {
+      updateDraft({ latitude: centroid.latitude, longitude: centroid.longitude })
+    }
+  }
+
+  const handleSave = () => {
+    const next: RepairShop = {
+      ...draft,
+      name: draft.name.trim(),
+      address: draft.address.trim(),
+      city: draft.city.trim(),
+      state: draft.state.trim().toUpperCase(),
+      zipCode: draft.zipCode.trim(),
+      phone: draft.phone.trim(),
+      email: draft.email.trim(),
+      website: draft.website.trim(),
+      timeZone: draft.timeZone.trim(),
+      specialties: splitList(specialtiesText),
+      certifications: splitList(certificationsText),
+      holidayClosures: [...draft.holidayClosures]
+        .map(closure => ({ ...closure, name: closure.name.trim() }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      hours: displayWeekdays.reduce((hours, weekday) => ({
+        ...hours,
+        [weekday]: [...draft.hours[weekday]].sort((a, b) => a.open.localeCompare(b.open))
+      }), draft.hours)
+    }
+
+    const validationErrors = validateRepairShop(next)
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length > 0) return
+
+    try {
+      saveRepairShop(next)
+      onSaved(next)
+    } catch (error) {
+      console.error('Error saving repair shop:', error)
+      setErrors({ save: 'The shop could not be saved. Please try again.' })
+    }
+  }
+
+  const renderField = (
+    field: 'name' | 'address' | 'city' | 'state' | 'zipCode' | 'phone' | 'email' | 'website' | 'timeZone',
+    label: string,
+    placeholder: string
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <input
+        type="text"
+        value={draft[field]}
+        onChange={(e) => updateDraft({ [field]: e.target.value })}
+        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+          errors[field] ? 'border-red-500' : 'border-gray-300'
+        }`}
+        placeholder={placeholder}
+      />
+      {errors[field] && <p className="text-red-500 text-sm mt-1">{errors[field]}</p>}
+    </div>
+  )
+
+  return (
+    <div className="card space-y-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900">{isNew ? 'Add Repair Shop' : `Edit ${shop.name}`}</h2>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+
+      {/* Contact Details */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-4">Contact Details</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderField('name', 'Shop Name *', 'e.g., Premium Auto Body & Paint')}
+          {renderField('phone', 'Phone *', '(555) 123-4567')}
+          {renderField('email', 'Email *', 'service@example.com')}
+          {renderField('website', 'Website', 'www.example.com')}
+        </div>
+      </div>
+
+      {/* Location */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-4">Location</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">{renderField('address', 'Street Address *', '123 Main Street')}</div>
+          {renderField('city', 'City *', 'Los Angeles')}
+          <div className="grid grid-cols-2 gap-4">
+            {renderField('state', 'State *', 'CA')}
+            {renderField('zipCode', 'ZIP Code *', '90210')}
+          </div>
+          {(['latitude', 'longitude'] as const).map(field => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {field === 'latitude' ? 'Latitude *' : 'Longitude *'}
+              </label>
+              <input
+                type="number"
+                step="0.0001"
+                value={Number.isNaN(draft[field]) ? '' : draft[field]}
+                onChange={(e) => updateDraft({ [field]: parseFloat(e.target.value) })}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors[field] ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors[field] && <p className="text-red-500 text-sm mt-1">{errors[field]}</p>}
+            </div>
+          ))}
+          <div className="md:col-span-2 flex items-end">
+            <button
+              type="button"
+              onClick={handleUseZipLocation}
+              disabled={!getZipCentroid(draft.zipCode)}
+              title={getZipCentroid(draft.zipCode) ? undefined : 'The ZIP code is not in the offline ZIP table'}
+              className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <MapPin className="h-4 w-4" />
+              <span>Use ZIP Code Location</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Services */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-4">Services</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Specialties</label>
+            <input
+              type="text"
+              value={specialtiesText}
+              onChange={(e) => setSpecialtiesText(e.target.value)}
+              className="input-field"
+              placeholder="Collision Repair, Paint & Body"
+            />
+            <p className="text-gray-500 text-xs mt-1">Separate with commas. Used to match shops to damage types.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Certifications</label>
+            <input
+              type="text"
+              value={certificationsText}
+              onChange={(e) => setCertificationsText(e.target.value)}
+              className="input-field"
+              placeholder="I-CAR Gold Class, ASE Certified"
+            />
+            <p className="text-gray-500 text-xs mt-1">Separate with commas.</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Capacity */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-1">Capacity</h3>
+        <p className="text-gray-500 text-xs mb-4">
+          Drop-off slots start at opening time. Wait times and bookings are worked out from these numbers.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {([
+            ['bays', 'Repair Bays *'],
+            ['slotsPerDay', 'Drop-off Slots per Day *'],
+            ['slotMinutes', 'Minutes Between Slots *']
+          ] as const).map(([field, label]) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+              <input
+                type="number"
+                min="1"
+                value={Number.isNaN(draft.capacity[field]) ? '' : draft.capacity[field]}
+                onChange={(e) => updateDraft({ capacity: { ...draft.capacity, [field]: parseInt(e.target.value) } })}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                  errors[field] ? 'border-red-500' : 'border-gray-300'
+                }`}
+              />
+              {errors[field] && <p className="text-red-500 text-sm mt-1">{errors[field]}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Opening Hours */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-4">Opening Hours</h3>
+        <div className="max-w-sm mb-4">
+          {renderField('timeZone', 'Time Zone *', 'America/Los_Angeles')}
+        </div>
+        {errors.hours && <p className="text-red-500 text-sm mb-2">{errors.hours}</p>}
+        <div className="space-y-3">
+          {displayWeekdays.map(weekday => (
+            <div key={weekday} className="flex flex-wrap items-start gap-3">
+              <span className="w-28 pt-2 text-sm font-medium text-gray-700">{weekdayLabels[weekday]}</span>
+              <div className="flex-1 space-y-2">
+                {draft.hours[weekday].length === 0 && (
+                  <p className="pt-2 text-sm text-gray-500">Closed</p>
+                )}
+                {draft.hours[weekday].map((interval, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={interval.open}
+                      onChange={(e) => updateHours(weekday, index, { open: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="time"
+                      value={interval.close}
+                      onChange={(e) => updateHours(weekday, index, { close: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeInterval(weekday, index)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove opening period"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                {errors[`hours.${weekday}`] && (
+                  <p className="text-red-500 text-sm">{errors[`hours.${weekday}`]}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => addInterval(weekday)}
+                className="pt-2 text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add period</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Holiday Closures */}
+      <div>
+        <h3 className="font-medium text-gray-900 mb-4">Holiday Closures</h3>
+        {errors.holidayClosures && <p className="text-red-500 text-sm mb-2">{errors.holidayClosures}</p>}
+        <div className="space-y-2">
+          {draft.holidayClosures.map((closure, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="date"
+                value={closure.date}
+                onChange={(e) => updateHoliday(index, { date: e.target.value })}
+                className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+              />
+              <input
+                type="text"
+                value={closure.name}
+                onChange={(e) => updateHoliday(index, { name: e.target.value })}
+                className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                placeholder="Holiday name"
+              />
+              <button
+                type="button"
+                onClick={() => updateDraft({ holidayClosures: draft.holidayClosures.filter((_, i) => i !== index) })}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove holiday"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => updateDraft({ holidayClosures: [...draft.holidayClosures, { date: '', name: '' }] })}
+          className="mt-3 text-sm text-primary-600 hover:text-primary-700 flex items-center space-x-1"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add holiday</span>
+        </button>
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center justify-end gap-3 pt-6 border-t border-gray-200">
+        {Object.keys(errors).length > 0 && (
+          <span className="text-sm text-red-600 mr-auto">
+            {errors.save || 'Please fix the highlighted fields.'}
+          </span>
+        )}
+        <button onClick={onCancel} className="btn-secondary">Cancel</button>
+        <button onClick={handleSave} className="btn-primary flex items-center space-x-2">
+          <Save className="h-4 w-4" />
+          <span>{isNew ? 'Add Shop' : 'Save Changes'}</span>
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default RepairShopForm
@@ -0,0 +1,38 @@
+import React, { ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { Lock } from 'lucide-react'
+import { useSession } from '../context/SessionContext'
+import { Permission } from '../services/permissions'
+
+interface RequirePermissionProps {
+  permission: Permission        // Permission needed to see the route
+  children: ReactNode           // Route content shown when permitted
+}
+
+/**
+ * RequirePermission Component
+ *
+ * Route guard that renders its children only when the signed-in user has
+ * the given permission, and an explanation otherwise.
+ */
+const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, children }) => {
+  const { getDeniedReason } = useSession()
+  const deniedReason = getDeniedReason(permission)
+
+  if (!deniedReason) {
+    return <>{children}</>
+  }
+
+  return (
+    <div className="max-w-xl mx-auto card text-center py-12">
+      <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Restricted</h2>
+      <p className="text-gray-600 mb-6">{deniedReason}</p>
+      <Link to="/" className="btn-primary">
+        Back to Dashboard
+      </Link>
+    </div>
+  )
+}
+
+export default RequirePermission
@@ -0,0 +1,294 @@
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { GitCompare, Check, X, ArrowLeftRight } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { estimateCategoryLabels } from '../services/estimateEngine'
+import {
+  LineDecisionStatus,
+  ShopEstimateLine,
+  VarianceFlag,
+  compareEstimates,
+  getShopEstimateSummary,
+  lineDecisionLabels,
+  varianceFlagLabels,
+  VARIANCE_THRESHOLD_AMOUNT,
+  VARIANCE_THRESHOLD_PERCENT
+} from '../services/shopEstimates'
+import { getRepairShopById } from '../services/shopStore'
+
+interface ShopEstimateComparisonProps {
+  claim: Claim                  // Claim whose estimates are compared
+}
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const rowClasses: Record<VarianceFlag, string> = {
+  missing_from_shop: 'bg-red-50',
+  not_in_ai_estimate: 'bg-yellow-50',
+  over_threshold: 'bg-orange-50'
+}
+
+const decisionClasses: Record<LineDecisionStatus, string> = {
+  accepted: 'bg-green-100 text-green-800',
+  negotiated: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800'
+}
+
+/**
+ * ShopEstimateComparison Component
+ *
+ * Shows the repair shop's estimate side by side with the AI estimate,
+ * highlighting lines missing from either side and cost deltas above the
+ * variance threshold. The adjuster accepts, negotiates or rejects each shop
+ * line here.
+ */
+const ShopEstimateComparison: React.FC<ShopEstimateComparisonProps> = ({ claim }) => {
+  const { decideShopEstimateLine } = useClaims()
+  const { can, getDeniedReason } = useSession()
+  const [editing, setEditing] = useState<{ lineId: string; status: LineDecisionStatus } | null>(null)
+  const [agreedAmount, setAgreedAmount] = useState('')
+  const [note, setNote] = useState('')
+  const [error, setError] = useState('')
+
+  const shopEstimate = claim.shopEstimate
+  const reviewBlockedReason = getDeniedReason('estimates:review') ||
+    (claim.status === 'closed' || claim.status === 'rejected' ? 'Closed and rejected claims cannot be changed' : null)
+
+  const header = (
+    <div className="flex items-center justify-between mb-6">
+      <div className="flex items-center space-x-2">
+        <GitCompare className="h-5 w-5 text-gray-600" />
+        <h2 className="text-xl font-semibold text-gray-900">Shop Estimate vs. AI Estimate</h2>
+      </div>
+      {claim.repairShopId && can('estimates:submit') && claim.status !== 'closed' && claim.status !== 'rejected' && (
+        <Link to={`/shop-estimates?claimId=${claim.id}`} className="text-sm text-primary-600 hover:text-primary-700">
+          {shopEstimate ? 'Replace shop estimate' : 'Enter shop estimate'}
+        </Link>
+      )}
+    </div>
+  )
+
+  if (!shopEstimate) {
+    return (
+      <div className="card">
+        {header}
+        <p className="text-sm text-gray-600">
+          {claim.repairShopId
+            ? `${getRepairShopById(claim.repairShopId)?.name || 'The repair shop'} has not submitted an estimate yet.`
+            : 'Assign a repair shop to collect its estimate.'}
+        </p>
+      </div>
+    )
+  }
+
+  const rows = compareEstimates(claim, shopEstimate)
+  const summary = getShopEstimateSummary(claim, shopEstimate)
+  const assessmentLabel = (assessmentId?: string) => {
+    const assessment = claim.damageAssessments.find(candidate => candidate.id === assessmentId)
+    return assessment ? `${assessment.type} – ${assessment.location}` : 'Not tied to a damage'
+  }
+
+  const startDecision = (line: ShopEstimateLine, status: LineDecisionStatus) => {
+    if (status === 'accepted') {
+      setError(decideShopEstimateLine(claim.id, line.id, { status }) || '')
+      setEditing(null)
+      return
+    }
+    setEditing({ lineId: line.id, status })
+    setAgreedAmount(String(line.decision?.status === 'negotiated' ? line.decision.agreedAmount : line.amount))
+    setNote('')
+    setError('')
+  }
+
+  const saveDecision = () => {
+    if (!editing) return
+    const result = decideShopEstimateLine(claim.id, editing.lineId, {
+      status: editing.status,
+      agreedAmount: editing.status === 'negotiated' ? parseFloat(agreedAmount) : undefined,
+      note
+    })
+    if (result) {
+      setError(result)
+      return
+    }
+    setEditing(null)
+    setError('')
+  }
+
+  return (
+    <div className="card">
+      {header}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">AI estimate</p>
+          <p className="text-lg font-semibold text-gray-900">{formatCurrency(summary.aiTotal)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Shop estimate</p>
+          <p className="text-lg font-semibold text-gray-900">{formatCurrency(summary.shopTotal)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Agreed so far</p>
+          <p className="text-lg font-semibold text-gray-900">{formatCurrency(summary.agreedTotal)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Lines</p>
+          <p className="text-lg font-semibold text-gray-900">{summary.pendingCount} pending</p>
+          <p className="text-xs text-gray-500">{summary.flaggedCount} flagged</p>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Submitted by {shopEstimate.submittedBy.name} on {new Date(shopEstimate.submittedAt).toLocaleDateString('en-US')}
+        {shopEstimate.fileName && ` from ${shopEstimate.fileName}`}. Deltas of at least
+        ${VARIANCE_THRESHOLD_AMOUNT} and {VARIANCE_THRESHOLD_PERCENT}% are flagged. Pending lines count at the shop amount.
+        {shopEstimate.notes && <span className="block mt-1 text-gray-600">Shop notes: {shopEstimate.notes}</span>}
+      </p>
+
+      {/* Side-by-side Lines */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">AI Estimate</th>
+              <th className="py-2 pr-4 font-medium">Shop Estimate</th>
+              <th className="py-2 pr-4 font-medium text-right">Delta</th>
+              <th className="py-2 font-medium">Decision</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, index) => {
+              const line = row.shopLine
+              const category = (row.aiLine || line)!.category
+              return (
+                <React.Fragment key={row.aiLine?.id || line?.id || index}>
+                  <tr className={row.flag ? rowClasses[row.flag] : ''}>
+                    <td className="py-2 pr-4 align-top">
+                      {row.aiLine ? (
+                        <>
+                          <div className="text-gray-900">{row.aiLine.description}</div>
+                          <div className="text-xs text-gray-500">
+                            {estimateCategoryLabels[category]} · {formatCurrency(row.aiLine.amount)}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 align-top">
+                      {line ? (
+                        <>
+                          <div className="text-gray-900">{line.description}</div>
+                          <div className="text-xs text-gray-500">
+                            {estimateCategoryLabels[line.category]} · {line.quantity} × {formatCurrency(line.unitPrice)} = {formatCurrency(line.amount)}
+                          </div>
+                          {!row.aiLine && <div className="text-xs text-gray-500">{assessmentLabel(line.assessmentId)}</div>}
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-400">—</span>
+                      )}
+                      {row.flag && (
+                        <div className="text-xs font-medium text-gray-700 mt-1">{varianceFlagLabels[row.flag]}</div>
+                      )}
+                    </td>
+                    <td className={`py-2 pr-4 align-top text-right ${row.flag === 'over_threshold' ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                      {row.delta > 0 ? '+' : ''}{formatCurrency(row.delta)}
+                      {row.deltaPercent !== null && <div className="text-xs">{row.deltaPercent > 0 ? '+' : ''}{row.deltaPercent}%</div>}
+                    </td>
+                    <td className="py-2 align-top">
+                      {line && (
+                        <div className="space-y-1">
+                          {line.decision && (
+                            <div>
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${decisionClasses[line.decision.status]}`}>
+                                {lineDecisionLabels[line.decision.status]}
+                                {line.decision.status === 'negotiated' && ` ${formatCurrency(line.decision.agreedAmount)}`}
+                              </span>
+                              {line.decision.note && <p className="text-xs text-gray-600 mt-1">{line.decision.note}</p>}
+                              <p className="text-xs text-gray-400">{line.decision.actor.name}</p>
+                            </div>
+                          )}
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() => startDecision(line, 'accepted')}
+                              disabled={!!reviewBlockedReason}
+                              title={reviewBlockedReason || 'Accept the shop amount'}
+                              className="p-1 rounded text-green-600 hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <Check className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => startDecision(line, 'negotiated')}
+                              disabled={!!reviewBlockedReason}
+                              title={reviewBlockedReason || 'Negotiate a different amount'}
+                              className="p-1 rounded text-blue-600 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <ArrowLeftRight className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => startDecision(line, 'rejected')}
+                              disabled={!!reviewBlockedReason}
+                              title={reviewBlockedReason || 'Reject the line'}
+                              className="p-1 rounded text-red-600 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                  {line && editing?.lineId === line.id && (
+                    <tr>
+                      <td colSpan={4} className="py-3 bg-gray-50">
+                        <div className="flex flex-wrap items-end gap-3 px-2">
+                          {editing.status === 'negotiated' && (
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Negotiated amount</label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={agreedAmount}
+                                onChange={(e) => setAgreedAmount(e.target.value)}
+                                className="input-field w-32"
+                              />
+                            </div>
+                          )}
+                          <div className="flex-1 min-w-[12rem]">
+                            <label className="block text-xs font-medium text-gray-700 mb-1">
+                              Reason to {editing.status === 'negotiated' ? 'negotiate' : 'reject'}
+                            </label>
+                            <input
+                              type="text"
+                              value={note}
+                              onChange={(e) => setNote(e.target.value)}
+                              className="input-field"
+                              placeholder={editing.status === 'negotiated' ? 'e.g., Labor hours above the catalog time' : 'e.g., Damage not related to this loss'}
+                            />
+                          </div>
+                          <button onClick={saveDecision} className="btn-primary text-sm">
+                            {editing.status === 'negotiated' ? 'Save Amount' : 'Reject Line'}
+                          </button>
+                          <button onClick={() => setEditing(null)} className="btn-secondary text-sm">
+                            Cancel
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+    </div>
+  )
+}
+
+export default ShopEstimateComparison
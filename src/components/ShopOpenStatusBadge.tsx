@@ -0,0 +1,38 @@
+import React from 'react'
+import { RepairShop } from '../data/repairShops'
+import { getShopOpenStatus, describeOpenStatus } from '../services/shopHours'
+
+interface ShopOpenStatusBadgeProps {
+  shop: RepairShop
+  showDetail?: boolean
+}
+
+/**
+ * ShopOpenStatusBadge Component
+ *
+ * Shows whether a repair shop is open right now according to its hours:
+ * green when open, yellow when closing soon and red when closed. The
+ * closing or next opening time is shown next to the badge, or in the
+ * tooltip when showDetail is off.
+ */
+const ShopOpenStatusBadge: React.FC<ShopOpenStatusBadgeProps> = ({ shop, showDetail = false }) => {
+  const status = getShopOpenStatus(shop)
+  const { label, detail } = describeOpenStatus(status)
+  const colorClass = status.isOpen
+    ? status.closingSoon ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+    : 'bg-red-100 text-red-800'
+
+  return (
+    <span className="inline-flex items-center space-x-2">
+      <span
+        className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${colorClass}`}
+        title={showDetail ? undefined : detail}
+      >
+        {label}
+      </span>
+      {showDetail && detail && <span className="text-xs text-gray-500">{detail}</span>}
+    </span>
+  )
+}
+
+export default ShopOpenStatusBadge
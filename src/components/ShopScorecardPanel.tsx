@@ -0,0 +1,88 @@
+import React from 'react'
+import { Award } from 'lucide-react'
+import { ShopScorecard, MIN_SCORED_CLAIMS, formatCostVariance } from '../services/shopScorecards'
+import { formatDuration } from '../services/repairOrders'
+
+interface ShopScorecardPanelProps {
+  scorecard: ShopScorecard      // Shop's measured performance
+}
+
+/**
+ * Get Score Color
+ *
+ * @param score - Overall score (0-100)
+ * @returns Badge classes for the score
+ */
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'bg-green-100 text-green-800'
+  if (score >= 60) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`
+
+/**
+ * ShopScorecardPanel Component
+ *
+ * Shows a shop's performance scorecard from the claims it repaired, with the
+ * number of claims behind each metric.
+ */
+const ShopScorecardPanel: React.FC<ShopScorecardPanelProps> = ({ scorecard }) => {
+  const metrics = [
+    {
+      label: 'Final cost',
+      value: scorecard.averageCostVariance !== null ? formatCostVariance(scorecard.averageCostVariance) : '—',
+      basis: `${scorecard.settledCount} paid claim(s)`
+    },
+    {
+      label: 'Supplements',
+      value: scorecard.supplementRate !== null ? formatRate(scorecard.supplementRate) : '—',
+      basis: `${scorecard.approvedCount} approved claim(s)`
+    },
+    {
+      label: 'Cycle time',
+      value: scorecard.averageCycleHours !== null ? formatDuration(scorecard.averageCycleHours) : '—',
+      basis: `${scorecard.completedRepairs} repair(s)`
+    },
+    {
+      label: 'Comebacks',
+      value: scorecard.comebackRate !== null ? formatRate(scorecard.comebackRate) : '—',
+      basis: `${scorecard.deliveredCount} delivered`
+    },
+    {
+      label: 'Satisfaction',
+      value: scorecard.averageSatisfaction !== null ? `${scorecard.averageSatisfaction.toFixed(1)}/5` : '—',
+      basis: `${scorecard.surveyCount} survey(s)`
+    }
+  ]
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center space-x-1">
+          <Award className="h-4 w-4" />
+          <span>Scorecard:</span>
+        </h4>
+        {scorecard.score !== null ? (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreColor(scorecard.score)}`}>
+            {scorecard.score}/100
+          </span>
+        ) : (
+          <span className="text-xs text-gray-500">
+            {scorecard.measuredCount} of {MIN_SCORED_CLAIMS} completed claims needed for a score
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {metrics.map(metric => (
+          <div key={metric.label} className="bg-gray-50 rounded-lg p-2" title={`Based on ${metric.basis}`}>
+            <div className="text-xs text-gray-500">{metric.label}</div>
+            <div className="text-sm font-semibold text-gray-900">{metric.value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default ShopScorecardPanel
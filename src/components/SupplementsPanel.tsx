@@ -0,0 +1,451 @@
+import React, { useRef, useState } from 'react'
+import { Layers, FilePlus, ImagePlus, Plus, Trash2, Check, X } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { EstimateLineCategory, estimateCategoryLabels } from '../services/estimateEngine'
+import { saveMedia } from '../services/mediaStore'
+import {
+  Supplement,
+  SupplementStatus,
+  getEstimateVersions,
+  supplementStatusLabels,
+  validateSupplement
+} from '../services/supplements'
+import MediaThumbnail from './MediaThumbnail'
+import ReasonModal from './ReasonModal'
+
+interface SupplementsPanelProps {
+  claim: Claim                  // Claim whose estimate history is shown
+}
+
+// Line as edited in the form (numbers kept as typed)
+interface LineDraft {
+  assessmentId: string
+  category: EstimateLineCategory
+  description: string
+  quantity: string
+  unitPrice: string
+}
+
+const emptyLine = (): LineDraft => ({ assessmentId: '', category: 'labor', description: '', quantity: '1', unitPrice: '' })
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const statusClasses: Record<SupplementStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+}
+
+/**
+ * SupplementsPanel Component
+ *
+ * Shows the claim's estimate history (the original estimate and every
+ * supplement with the running total), lets the shop or adjuster propose a
+ * supplement with photos and a justification, and lets approvers approve or
+ * reject each pending supplement.
+ */
+const SupplementsPanel: React.FC<SupplementsPanelProps> = ({ claim }) => {
+  const { proposeSupplement, decideSupplement } = useClaims()
+  const { user, getDeniedReason } = useSession()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isProposing, setIsProposing] = useState(false)
+  const [lines, setLines] = useState<LineDraft[]>([emptyLine()])
+  const [justification, setJustification] = useState('')
+  const [photos, setPhotos] = useState<string[]>([])
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [rejecting, setRejecting] = useState<Supplement | null>(null)
+  const [decisionError, setDecisionError] = useState('')
+
+  const isOpenForSupplements = claim.status === 'approved' || claim.status === 'paid'
+  if (!isOpenForSupplements && !(claim.supplements || []).length) return null
+
+  const versions = getEstimateVersions(claim)
+  const proposeBlockedReason = getDeniedReason('supplements:propose') ||
+    (user.shopId && user.shopId !== claim.repairShopId ? 'This claim is assigned to another repair shop' : null)
+  const approveDeniedReason = getDeniedReason('claim:approve')
+  const rejectDeniedReason = getDeniedReason('claim:reject')
+
+  const updateLine = (index: number, field: keyof LineDraft, value: string) => {
+    setLines(lines.map((line, lineIndex) => lineIndex === index ? { ...line, [field]: value } : line))
+  }
+
+  const resetForm = () => {
+    setIsProposing(false)
+    setLines([emptyLine()])
+    setJustification('')
+    setPhotos([])
+    setErrors({})
+  }
+
+  /**
+   * Handle Photo Upload
+   *
+   * Stores the chosen photos in the media store and attaches them to the
+   * supplement being proposed.
+   *
+   * @param e - File input change event
+   */
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(file => file.type.startsWith('image/'))
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    if (files.length === 0) return
+
+    try {
+      const saved: string[] = []
+      for (const file of files) {
+        saved.push(await saveMedia(file))
+      }
+      setPhotos(prev => [...prev, ...saved])
+      setErrors(prev => ({ ...prev, photos: '' }))
+    } catch (error) {
+      console.error('Error storing supplement photos:', error)
+      setErrors(prev => ({ ...prev, photos: 'Some photos could not be saved. Please try again.' }))
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const input = {
+      lines: lines.map(line => ({
+        assessmentId: line.assessmentId || undefined,
+        category: line.category,
+        description: line.description,
+        quantity: parseFloat(line.quantity),
+        unitPrice: parseFloat(line.unitPrice)
+      })),
+      justification,
+      photos
+    }
+    const validationErrors = validateSupplement(claim, input)
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors)
+      return
+    }
+
+    const error = proposeSupplement(claim.id, input)
+    if (error) {
+      setErrors({ claim: error })
+      return
+    }
+    resetForm()
+  }
+
+  const handleApprove = (supplement: Supplement) => {
+    setDecisionError(decideSupplement(claim.id, supplement.id, true) || '')
+  }
+
+  const handleReject = (reason: string) => {
+    if (!rejecting) return
+    setDecisionError(decideSupplement(claim.id, rejecting.id, false, reason) || '')
+    setRejecting(null)
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Layers className="h-5 w-5 text-gray-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Estimate History</h2>
+        </div>
+        {isOpenForSupplements && !isProposing && (
+          <button
+            onClick={() => setIsProposing(true)}
+            disabled={!!proposeBlockedReason}
+            title={proposeBlockedReason || undefined}
+            className="btn-secondary text-sm flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FilePlus className="h-4 w-4" />
+            <span>Propose Supplement</span>
+          </button>
+        )}
+      </div>
+
+      {/* Versions */}
+      <div className="overflow-x-auto mb-4">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">Version</th>
+              <th className="py-2 pr-4 font-medium">Date</th>
+              <th className="py-2 pr-4 font-medium">Status</th>
+              <th className="py-2 pr-4 font-medium text-right">Amount</th>
+              <th className="py-2 font-medium text-right">Running Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {versions.map(version => (
+              <tr key={version.version}>
+                <td className="py-2 pr-4 font-medium text-gray-900">{version.label}</td>
+                <td className="py-2 pr-4 text-gray-600">{new Date(version.at).toLocaleDateString('en-US')}</td>
+                <td className="py-2 pr-4">
+                  {version.supplement && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[version.status]}`}>
+                      {supplementStatusLabels[version.status]}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-right text-gray-900">
+                  {version.supplement ? '+' : ''}{formatCurrency(version.amount)}
+                </td>
+                <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(version.runningTotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Supplements */}
+      <div className="space-y-4">
+        {(claim.supplements || []).map(supplement => (
+          <div key={supplement.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <h3 className="font-medium text-gray-900">
+                  Supplement {supplement.number} · {formatCurrency(supplement.total)}
+                </h3>
+                <p className="text-xs text-gray-500">
+                  Proposed by {supplement.proposedBy.name} on {new Date(supplement.proposedAt).toLocaleDateString('en-US')}
+                  {supplement.decidedBy && supplement.decidedAt &&
+                    ` · ${supplementStatusLabels[supplement.status]} by ${supplement.decidedBy.name} on ${new Date(supplement.decidedAt).toLocaleDateString('en-US')}`}
+                </p>
+              </div>
+              {supplement.status === 'pending' ? (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleApprove(supplement)}
+                    disabled={!!approveDeniedReason}
+                    title={approveDeniedReason || undefined}
+                    className="btn-primary text-sm px-3 py-1 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Check className="h-4 w-4" />
+                    <span>Approve</span>
+                  </button>
+                  <button
+                    onClick={() => setRejecting(supplement)}
+                    disabled={!!rejectDeniedReason}
+                    title={rejectDeniedReason || undefined}
+                    className="btn-danger text-sm px-3 py-1 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <X className="h-4 w-4" />
+                    <span>Reject</span>
+                  </button>
+                </div>
+              ) : (
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusClasses[supplement.status]}`}>
+                  {supplementStatusLabels[supplement.status]}
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-700 mb-2">{supplement.justification}</p>
+            {supplement.decisionReason && (
+              <p className="text-sm text-gray-600 mb-2">Decision note: {supplement.decisionReason}</p>
+            )}
+            <ul className="text-sm divide-y divide-gray-100 mb-2">
+              {supplement.lines.map(line => (
+                <li key={line.id} className="py-1 flex justify-between">
+                  <span className="text-gray-900">
+                    {line.description}
+                    <span className="text-xs text-gray-500"> · {estimateCategoryLabels[line.category]} · {line.quantity} × {formatCurrency(line.unitPrice)}</span>
+                  </span>
+                  <span className="text-gray-900">{formatCurrency(line.amount)}</span>
+                </li>
+              ))}
+              <li className="py-1 flex justify-between text-xs text-gray-500">
+                <span>Tax</span>
+                <span>{formatCurrency(supplement.tax)}</span>
+              </li>
+            </ul>
+            {supplement.photos.length > 0 && (
+              <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+                {supplement.photos.map((photo, index) => (
+                  <MediaThumbnail
+                    key={photo}
+                    mediaId={photo}
+                    kind="photo"
+                    alt={`Supplement ${supplement.number} photo ${index + 1}`}
+                    className="w-full h-20 object-cover rounded"
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      {decisionError && <p className="text-red-500 text-sm mt-2">{decisionError}</p>}
+
+      {/* Propose Supplement */}
+      {isProposing && (
+        <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-4 mt-4 space-y-4">
+          <h3 className="font-medium text-gray-900">Supplement {(claim.supplements || []).length + 1}</h3>
+          <div className="space-y-3">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                <div className="col-span-12 md:col-span-3">
+                  <select
+                    value={line.assessmentId}
+                    onChange={(e) => updateLine(index, 'assessmentId', e.target.value)}
+                    className="input-field"
+                  >
+                    <option value="">Newly found damage</option>
+                    {claim.damageAssessments.map(assessment => (
+                      <option key={assessment.id} value={assessment.id}>
+                        {assessment.type} – {assessment.location}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-6 md:col-span-2">
+                  <select
+                    value={line.category}
+                    onChange={(e) => updateLine(index, 'category', e.target.value)}
+                    className="input-field"
+                  >
+                    {(Object.keys(estimateCategoryLabels) as EstimateLineCategory[]).map(category => (
+                      <option key={category} value={category}>{estimateCategoryLabels[category]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-6 md:col-span-3">
+                  <input
+                    type="text"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, 'description', e.target.value)}
+                    className={`input-field ${errors[`lines.${index}.description`] ? 'border-red-500' : ''}`}
+                    placeholder="e.g., Replace bent radiator support"
+                  />
+                </div>
+                <div className="col-span-4 md:col-span-1">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                    className={`input-field ${errors[`lines.${index}.quantity`] ? 'border-red-500' : ''}`}
+                    title="Hours for labor and materials, count for parts"
+                  />
+                </div>
+                <div className="col-span-6 md:col-span-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, 'unitPrice', e.target.value)}
+                    className={`input-field ${errors[`lines.${index}.unitPrice`] ? 'border-red-500' : ''}`}
+                    placeholder="Unit price"
+                  />
+                </div>
+                <div className="col-span-2 md:col-span-1 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={() => setLines(lines.filter((_, lineIndex) => lineIndex !== index))}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                {['assessmentId', 'category', 'description', 'quantity', 'unitPrice']
+                  .filter(field => errors[`lines.${index}.${field}`])
+                  .map(field => (
+                    <p key={field} className="col-span-12 text-red-500 text-sm">{errors[`lines.${index}.${field}`]}</p>
+                  ))}
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setLines([...lines, emptyLine()])}
+            className="btn-secondary text-sm flex items-center space-x-1"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Line</span>
+          </button>
+          {errors.lines && <p className="text-red-500 text-sm">{errors.lines}</p>}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Justification *</label>
+            <textarea
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              className={`input-field ${errors.justification ? 'border-red-500' : ''}`}
+              rows={3}
+              placeholder="e.g., Radiator support found bent after the bumper cover was removed"
+            />
+            {errors.justification && <p className="text-red-500 text-sm mt-1">{errors.justification}</p>}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Photos</label>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium flex items-center space-x-1"
+              >
+                <ImagePlus className="h-4 w-4" />
+                <span>Add Photos</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handlePhotoUpload}
+                className="hidden"
+              />
+            </div>
+            {photos.length > 0 ? (
+              <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+                {photos.map((photo, index) => (
+                  <div key={photo} className="relative">
+                    <MediaThumbnail mediaId={photo} kind="photo" alt={`Photo ${index + 1}`} className="w-full h-20 object-cover rounded" />
+                    <button
+                      type="button"
+                      onClick={() => setPhotos(photos.filter(candidate => candidate !== photo))}
+                      className="absolute top-1 right-1 bg-white rounded-full p-0.5 text-gray-500 hover:text-red-600"
+                      title="Remove photo"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Photos of the additional damage help the approver.</p>
+            )}
+            {errors.photos && <p className="text-red-500 text-sm mt-1">{errors.photos}</p>}
+          </div>
+
+          {errors.claim && <p className="text-red-500 text-sm">{errors.claim}</p>}
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={resetForm} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary">
+              Submit for Approval
+            </button>
+          </div>
+        </form>
+      )}
+
+      {rejecting && (
+        <ReasonModal
+          title={`Reject Supplement ${rejecting.number}`}
+          description="Explain why the additional work is not covered. The reason is recorded on the claim."
+          confirmLabel="Reject Supplement"
+          confirmClassName="btn-danger"
+          onConfirm={handleReject}
+          onCancel={() => setRejecting(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default SupplementsPanel
@@ -8,14 +8,61 @@
  * - TypeScript interfaces for type safety
  * - React Context API for global state management
  * - useReducer for predictable state updates
- * - localStorage persistence for claims and in-progress data
+ * - Versioned localStorage persistence for claims and in-progress data
  * - Support for both completed claims and draft claims
- * - Media handling (photos and videos)
+ * - Guarded status changes with a recorded status history
+ * - Append-only audit log with field-level diffs for every claim change
+ * - Changes attributed to the signed-in user, with status changes permission-checked
+ * - Approvals routed by authority limit, with every sign-off recorded
+ * - Straight-through processing rules evaluated for every new claim
+ * - Possible duplicate claims flagged on creation and edit
+ * - Fraud risk scored with explainable indicators on creation and edit
+ * - Payments and reserves ledger, settling claims once nothing is outstanding
+ * - Media handling (photos and videos kept in the IndexedDB media store)
  * - AI damage assessment integration
  * - Repair shop assignment tracking
+ * - Drop-off appointments booked against shop capacity
+ * - Repair orders tracking approved repairs stage by stage
  */
 
-import React, { createContext, useContext, useReducer, ReactNode, useEffect } from 'react'
+import React, { createContext, useContext, useReducer, ReactNode, useEffect, useRef } from 'react'
+import type { DamageAnalysisMetadata } from '../services/damageAnalysis'
+import type { Estimate } from '../services/estimateEngine'
+import type { AutoApprovalEvaluation } from '../services/autoApproval'
+import type { CoverageType } from '../data/policies'
+import type { FraudAssessment } from '../services/fraudScoring'
+import type { LedgerEntry, LedgerEntryInput } from '../services/claimLedger'
+import { validateLedgerEntry, createLedgerEntry, withInitialReserve, getSettlementStatus, getLedgerSummary } from '../services/claimLedger'
+import type { ShopAppointment, AppointmentInput } from '../services/shopBooking'
+import { validateBooking, createAppointment } from '../services/shopBooking'
+import { getRepairShopById } from '../services/shopStore'
+import type { RepairOrder, RepairStage } from '../services/repairOrders'
+import {
+  withRepairOrder,
+  createRepairOrder,
+  validateOpenRepairOrder,
+  validateStageChange,
+  createStageEntry,
+  validateRepairSurvey,
+  validateRepairComeback,
+  createRepairComeback
+} from '../services/repairOrders'
+import type { ShopEstimate, ShopEstimateInput, LineDecisionInput } from '../services/shopEstimates'
+import { validateShopEstimate, createShopEstimate, validateLineDecision, applyLineDecision } from '../services/shopEstimates'
+import type { Supplement, SupplementInput } from '../services/supplements'
+import { validateSupplement, createSupplement, validateSupplementDecision, applySupplementDecision } from '../services/supplements'
+import { scoreClaim, fraudAssessmentsEqual } from '../services/fraudScoring'
+import { loadAutoApprovalSettings, evaluateAutoApproval, getAutoApprover } from '../services/autoApproval'
+import { findDuplicateFlags, reconcileDuplicateFlags } from '../services/duplicateDetection'
+import { isInlineMedia, migrateInlineMedia, deleteUnreferencedMedia } from '../services/mediaStore'
+import { validateTransition, validateCostChange, createStatusTransition, getTransitionRule, LifecycleAction } from '../services/claimLifecycle'
+import { loadAuthorityTiers, validateApproval, createSignOff } from '../services/approvalAuthority'
+import { loadCollection, saveCollection, STORAGE_KEYS } from '../services/persistence'
+import { recordClaimChange, diffClaims, createAuditEntry } from '../services/auditLog'
+import { systemActor } from '../data/users'
+import type { UserRole } from '../data/users'
+import { transitionPermissions, ledgerEntryPermissions } from '../services/permissions'
+import { useSession } from './SessionContext'
 
 /**
  * DamageAssessment Interface
@@ -30,6 +77,127 @@ export interface DamageAssessment {
   location: string              // Description of where the damage is located
   estimatedCost: number         // Estimated repair cost in dollars
   confidence: number            // AI confidence level (0-100)
+  catalogItemId?: string        // Repair cost catalog item the estimate was priced from
+}
+
+/**
+ * Actor Interface
+ * 
+ * Identifies the user (or system process) responsible for a change.
+ */
+export interface Actor {
+  id: string                    // User or process identifier (e.g., "AGT-001")
+  name: string                  // Display name
+}
+
+/**
+ * Claim Status
+ * 
+ * Lifecycle states a claim can be in. Allowed moves between them are defined
+ * in services/claimLifecycle.ts.
+ */
+export type ClaimStatus =
+  | 'pending'
+  | 'processing'
+  | 'awaiting_second_approval'
+  | 'approved'
+  | 'paid'
+  | 'closed'
+  | 'rejected'
+
+/**
+ * StatusTransition Interface
+ * 
+ * A single entry in a claim's status history.
+ */
+export interface StatusTransition {
+  id: string                    // Unique identifier for the transition
+  from: ClaimStatus             // Status before the change
+  to: ClaimStatus               // Status after the change
+  action?: LifecycleAction      // Lifecycle action that caused the change
+  actor: Actor                  // Who made the change
+  at: string                    // When the change was made (ISO string)
+  reason?: string               // Why the change was made (required for reject/reopen)
+}
+
+/**
+ * SignOff Interface
+ * 
+ * One approver's sign-off on a claim. A sign-off either approves the claim
+ * or, when the claim value is above the approver's limit, sends it on for
+ * second approval.
+ */
+export interface SignOff {
+  id: string                    // Unique identifier for the sign-off
+  actor: Actor                  // Who signed off
+  role: UserRole                // Approver's role when signing
+  authorityLimit: number | null // Approver's limit when signing (null = no limit)
+  amount: number                // Claim value that was signed off
+  decision: 'approved' | 'escalated'  // Whether the sign-off approved or escalated the claim
+  at: string                    // When the sign-off was given (ISO string)
+}
+
+/**
+ * DuplicateFlag Interface
+ * 
+ * Marks a claim as a possible duplicate of another claim.
+ */
+export interface DuplicateFlag {
+  claimId: string               // ID of the claim this one may duplicate
+  reasons: string[]             // What the two claims have in common
+  detectedAt: string            // When the match was found (ISO string)
+}
+
+/**
+ * Audit Action
+ * 
+ * Kind of change recorded in a claim's audit log.
+ */
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'signed_off'
+  | 'duplicates_flagged'
+  | 'risk_scored'
+  | 'ledger_entry'
+  | 'appointment_booked'
+  | 'appointment_cancelled'
+  | 'repair_order_opened'
+  | 'repair_stage_changed'
+  | 'repair_survey_recorded'
+  | 'repair_comeback_reported'
+  | 'shop_estimate_submitted'
+  | 'shop_estimate_line_decided'
+  | 'supplement_proposed'
+  | 'supplement_approved'
+  | 'supplement_rejected'
+  | 'media_migrated'
+
+/**
+ * AuditChange Interface
+ * 
+ * A single field-level change within an audit entry.
+ */
+export interface AuditChange {
+  field: string                 // Top-level claim field (e.g., "damageAssessments")
+  path: string                  // Exact location (e.g., "damageAssessments[abc].estimatedCost")
+  before?: unknown              // Value before the change (absent when added)
+  after?: unknown               // Value after the change (absent when removed)
+}
+
+/**
+ * AuditEntry Interface
+ * 
+ * One entry in a claim's append-only audit log.
+ */
+export interface AuditEntry {
+  id: string                    // Unique identifier for the entry
+  action: AuditAction           // Kind of change
+  actor: Actor                  // Who made the change
+  at: string                    // When the change was made (ISO string)
+  changes: AuditChange[]        // Field-level before/after values
+  reason?: string               // Reason given for the change (optional)
 }
 
 /**
@@ -41,26 +209,61 @@ export interface DamageAssessment {
 export interface Claim {
   id: string                    // Unique claim identifier
   policyNumber: string          // Insurance policy number
+  coverageType?: CoverageType   // Policy coverage the claim is made under (default: collision)
   customerName: string          // Customer's full name
   customerEmail: string         // Customer's email address
   customerPhone: string         // Customer's phone number
+  customerZip?: string          // Customer's home ZIP code, used for repair shop distances (optional)
   vehicleMake: string           // Vehicle manufacturer (e.g., "Toyota")
   vehicleModel: string          // Vehicle model (e.g., "Camry")
   vehicleYear: number           // Vehicle year (e.g., 2020)
   accidentDate: string          // Date of the accident (ISO string)
   accidentDescription: string   // Customer's description of the accident
-  photos: string[]              // Array of base64 encoded photo data
-  videos: string[]              // Array of base64 encoded video data
-  status: 'pending' | 'processing' | 'approved' | 'rejected'  // Current claim status
+  photos: string[]              // Media store IDs of the damage photos
+  videos: string[]              // Media store IDs of the damage videos
+  status: ClaimStatus           // Current claim status
+  statusHistory?: StatusTransition[]  // Every status change, oldest first
+  signOffs?: SignOff[]          // Every approval sign-off, oldest first
   damageAssessments: DamageAssessment[]  // AI-generated damage assessments
-  totalEstimatedCost: number    // Total estimated repair cost
+  totalEstimatedCost: number    // Total estimated repair cost (estimate total when itemized)
+  estimate?: Estimate           // Itemized estimate for the approved assessments (optional)
   repairShopId?: string         // ID of assigned repair shop (optional)
+  appointment?: ShopAppointment // Booked drop-off at the assigned shop (optional)
+  repairOrder?: RepairOrder     // Repair progress at the assigned shop (opened on approval)
+  shopEstimate?: ShopEstimate   // Assigned shop's own itemized estimate (optional)
+  supplements?: Supplement[]    // Additional work proposed after approval, oldest first
   createdAt: string             // Claim creation timestamp
   updatedAt: string             // Last update timestamp
   aiAnalysisComplete: boolean   // Whether AI analysis has been completed
   processingTime?: number       // Time taken for AI analysis (in minutes)
+  analysisMetadata?: DamageAnalysisMetadata  // Which analyzer produced the assessments (optional)
+  duplicateFlags?: DuplicateFlag[]  // Possible duplicates of other claims (optional)
+  fraudRisk?: FraudAssessment   // Fraud risk score and indicators (optional)
+  autoApproval?: AutoApprovalEvaluation  // Straight-through processing rule results (optional)
+  ledger?: LedgerEntry[]        // Reserve and payment entries, oldest first (set once approved)
+  auditLog?: AuditEntry[]       // Every recorded change to the claim, oldest first
 }
 
+/**
+ * Claim Updates
+ * 
+ * Fields that may be changed through updateClaim. Status changes must go
+ * through changeClaimStatus so they are validated and recorded, the
+ * histories and the ledger are only ever appended to by the reducer,
+ * duplicate flags and fraud scores are maintained by their checks,
+ * appointments are booked against shop capacity, repair orders only
+ * move forward through their stages, shop estimates are submitted by the
+ * shop and decided on line by line, and supplements each go through their
+ * own approval.
+ */
+export type ClaimUpdates = Partial<
+  Omit<
+    Claim,
+    'status' | 'statusHistory' | 'signOffs' | 'ledger' | 'duplicateFlags' | 'fraudRisk' | 'appointment' | 'repairOrder' |
+    'shopEstimate' | 'supplements' | 'auditLog'
+  >
+>
+
 /**
  * InProgressClaim Interface
  * 
@@ -70,11 +273,13 @@ export interface Claim {
 export interface InProgressClaim {
   id: string                    // Unique identifier for the draft
   formData: Partial<Claim>      // Partial claim data (form fields)
-  photos: string[]              // Uploaded photos (base64)
-  videos: string[]              // Uploaded videos (base64)
+  photos: string[]              // Media store IDs of uploaded photos
+  videos: string[]              // Media store IDs of uploaded videos
   damageAssessments: DamageAssessment[]  // AI assessments (if completed)
   analysisComplete: boolean     // Whether AI analysis is complete
+  analysisMetadata?: DamageAnalysisMetadata  // Metadata of the last analysis run (optional)
   approvedAssessments: Set<string>  // Set of approved assessment IDs
+  currentStep?: number          // Wizard step the draft was saved on (1-based)
   lastSaved: string             // Last save timestamp
 }
 
@@ -88,6 +293,7 @@ interface ClaimsState {
   inProgressClaims: InProgressClaim[]  // Array of draft claims
   loading: boolean              // Loading state indicator
   error: string | null          // Error message if any
+  hydrated: boolean             // Whether stored data has been loaded (nothing is saved before)
 }
 
 /**
@@ -97,14 +303,25 @@ interface ClaimsState {
  * Each action has a type and optional payload for state updates.
  */
 type ClaimsAction =
-  | { type: 'ADD_CLAIM'; payload: Claim }
-  | { type: 'UPDATE_CLAIM'; payload: { id: string; updates: Partial<Claim> } }
+  | { type: 'ADD_CLAIM'; payload: { claim: Claim; actor: Actor } }
+  | { type: 'UPDATE_CLAIM'; payload: { id: string; updates: ClaimUpdates; actor: Actor } }
+  | { type: 'TRANSITION_STATUS'; payload: { id: string; transition: StatusTransition } }
+  | { type: 'SIGN_OFF'; payload: { id: string; signOff: SignOff; transition?: StatusTransition } }
+  | { type: 'SET_DUPLICATE_FLAGS'; payload: Record<string, DuplicateFlag[]> }
+  | { type: 'SET_FRAUD_RISK'; payload: { id: string; fraudRisk: FraudAssessment } }
+  | { type: 'ADD_LEDGER_ENTRY'; payload: { id: string; entry: LedgerEntry; transition?: StatusTransition } }
+  | { type: 'SET_APPOINTMENT'; payload: { id: string; appointment?: ShopAppointment; actor: Actor; reason?: string } }
+  | { type: 'SET_REPAIR_ORDER'; payload: { id: string; repairOrder: RepairOrder; auditAction: AuditAction; actor: Actor; notes?: string } }
+  | { type: 'SET_SHOP_ESTIMATE'; payload: { id: string; shopEstimate: ShopEstimate; auditAction: AuditAction; actor: Actor; notes?: string } }
+  | { type: 'ADD_SUPPLEMENT'; payload: { id: string; supplement: Supplement } }
+  | { type: 'DECIDE_SUPPLEMENT'; payload: { id: string; supplementId: string; approve: boolean; actor: Actor; reason?: string } }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'LOAD_CLAIMS'; payload: Claim[] }
   | { type: 'SAVE_IN_PROGRESS'; payload: InProgressClaim }
   | { type: 'DELETE_IN_PROGRESS'; payload: string }
   | { type: 'LOAD_IN_PROGRESS'; payload: InProgressClaim[] }
+  | { type: 'MIGRATE_MEDIA'; payload: Map<string, string> }
 
 /**
  * Initial State
@@ -115,7 +332,8 @@ const initialState: ClaimsState = {
   claims: [],
   inProgressClaims: [],
   loading: false,
-  error: null
+  error: null,
+  hydrated: false
 }
 
 /**
@@ -130,22 +348,231 @@ const initialState: ClaimsState = {
  */
 const claimsReducer = (state: ClaimsState, action: ClaimsAction): ClaimsState => {
   switch (action.type) {
-    case 'ADD_CLAIM':
-      // Add a new claim to the beginning of the claims array
+    case 'ADD_CLAIM': {
+      // Add a new claim to the beginning of the claims array, recording its initial values
+      const { claim, actor } = action.payload
+      const created = createAuditEntry('created', actor, diffClaims({}, claim))
       return {
         ...state,
-        claims: [action.payload, ...state.claims]
+        claims: [{ ...claim, auditLog: [created] }, ...state.claims]
       }
+    }
     case 'UPDATE_CLAIM':
       // Update an existing claim with new data and update timestamp
       return {
         ...state,
         claims: state.claims.map(claim =>
           claim.id === action.payload.id
-            ? { ...claim, ...action.payload.updates, updatedAt: new Date().toISOString() }
+            ? recordClaimChange(
+                claim,
+                { ...claim, ...action.payload.updates, updatedAt: new Date().toISOString() },
+                'updated',
+                action.payload.actor
+              )
+            : claim
+        )
+      }
+    case 'TRANSITION_STATUS': {
+      // Move a claim to a new status and append the transition to its history.
+      // A newly approved claim gets its initial reserve from the estimate and
+      // a repair order at its shop.
+      const { transition } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                withRepairOrder(withInitialReserve({
+                  ...claim,
+                  status: transition.to,
+                  statusHistory: [...(claim.statusHistory || []), transition],
+                  updatedAt: transition.at
+                }, transition.actor), transition.actor),
+                'status_changed',
+                transition.actor,
+                transition.reason
+              )
+            : claim
+        )
+      }
+    }
+    case 'SIGN_OFF': {
+      // Append an approval sign-off, moving the claim on if the sign-off changes its status
+      const { signOff, transition } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                withRepairOrder(withInitialReserve({
+                  ...claim,
+                  signOffs: [...(claim.signOffs || []), signOff],
+                  ...(transition && {
+                    status: transition.to,
+                    statusHistory: [...(claim.statusHistory || []), transition]
+                  }),
+                  updatedAt: signOff.at
+                }, signOff.actor), signOff.actor),
+                transition ? 'status_changed' : 'signed_off',
+                signOff.actor
+              )
+            : claim
+        )
+      }
+    }
+    case 'SET_DUPLICATE_FLAGS':
+      // Replace the duplicate flags of every claim the last duplicate check changed
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          action.payload[claim.id]
+            ? recordClaimChange(
+                claim,
+                { ...claim, duplicateFlags: action.payload[claim.id] },
+                'duplicates_flagged',
+                systemActor
+              )
+            : claim
+        )
+      }
+    case 'SET_FRAUD_RISK':
+      // Store a new fraud risk score on a claim
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                { ...claim, fraudRisk: action.payload.fraudRisk },
+                'risk_scored',
+                systemActor
+              )
+            : claim
+        )
+      }
+    case 'ADD_LEDGER_ENTRY': {
+      // Append a ledger entry, settling or unsettling the claim if the entry changes its balance
+      const { entry, transition } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                {
+                  ...claim,
+                  ledger: [...(claim.ledger || []), entry],
+                  ...(transition && {
+                    status: transition.to,
+                    statusHistory: [...(claim.statusHistory || []), transition]
+                  }),
+                  updatedAt: entry.at
+                },
+                'ledger_entry',
+                entry.actor,
+                entry.note
+              )
+            : claim
+        )
+      }
+    }
+    case 'SET_APPOINTMENT': {
+      // Book (and assign the shop) or cancel a claim's drop-off appointment
+      const { appointment, actor, reason } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                {
+                  ...claim,
+                  appointment,
+                  repairShopId: appointment ? appointment.shopId : claim.repairShopId,
+                  updatedAt: new Date().toISOString()
+                },
+                appointment ? 'appointment_booked' : 'appointment_cancelled',
+                actor,
+                reason
+              )
             : claim
         )
       }
+    }
+    case 'SET_REPAIR_ORDER': {
+      // Open a repair order, record its next stage, survey or comeback
+      const { repairOrder, auditAction, actor, notes } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                { ...claim, repairOrder, updatedAt: new Date().toISOString() },
+                auditAction,
+                actor,
+                notes
+              )
+            : claim
+        )
+      }
+    }
+    case 'SET_SHOP_ESTIMATE': {
+      // Submit a shop estimate or record a decision on one of its lines
+      const { shopEstimate, auditAction, actor, notes } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                { ...claim, shopEstimate, updatedAt: new Date().toISOString() },
+                auditAction,
+                actor,
+                notes
+              )
+            : claim
+        )
+      }
+    }
+    case 'ADD_SUPPLEMENT': {
+      // Append a proposed supplement
+      const { supplement } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                { ...claim, supplements: [...(claim.supplements || []), supplement], updatedAt: supplement.proposedAt },
+                'supplement_proposed',
+                supplement.proposedBy,
+                supplement.justification
+              )
+            : claim
+        )
+      }
+    }
+    case 'DECIDE_SUPPLEMENT': {
+      // Approve or reject a supplement; approval raises the total and reserve
+      const { supplementId, approve, actor, reason } = action.payload
+      return {
+        ...state,
+        claims: state.claims.map(claim =>
+          claim.id === action.payload.id
+            ? recordClaimChange(
+                claim,
+                applySupplementDecision(claim, supplementId, approve, actor, reason),
+                approve ? 'supplement_approved' : 'supplement_rejected',
+                actor,
+                reason
+              )
+            : claim
+        )
+      }
+    }
     case 'SET_LOADING':
       // Update loading state
       return {
@@ -162,7 +589,8 @@ const claimsReducer = (state: ClaimsState, action: ClaimsAction): ClaimsState =>
       // Load claims from storage
       return {
         ...state,
-        claims: action.payload
+        claims: action.payload,
+        hydrated: true
       }
     case 'SAVE_IN_PROGRESS':
       // Save or update an in-progress claim (replaces existing if same ID)
@@ -185,6 +613,33 @@ const claimsReducer = (state: ClaimsState, action: ClaimsAction): ClaimsState =>
         ...state,
         inProgressClaims: action.payload
       }
+    case 'MIGRATE_MEDIA': {
+      // Replace inline base64 media with the media store IDs it was saved under.
+      // The audit entry records counts and IDs only: the inline data is what
+      // overflowed localStorage in the first place.
+      const replace = (values: string[]) => values.map(value => action.payload.get(value) || value)
+      const migrated = (values: string[]) => values.filter(value => action.payload.has(value)).length
+      return {
+        ...state,
+        claims: state.claims.map(claim => {
+          const changes: AuditChange[] = (['photos', 'videos'] as const)
+            .filter(field => migrated(claim[field]) > 0)
+            .map(field => ({ field, path: field, before: `${migrated(claim[field])} inline`, after: replace(claim[field]) }))
+          if (changes.length === 0) return claim
+          return {
+            ...claim,
+            photos: replace(claim.photos),
+            videos: replace(claim.videos),
+            auditLog: [...(claim.auditLog || []), createAuditEntry('media_migrated', systemActor, changes)]
+          }
+        }),
+        inProgressClaims: state.inProgressClaims.map(claim => ({
+          ...claim,
+          photos: replace(claim.photos),
+          videos: replace(claim.videos || [])
+        }))
+      }
+    }
     default:
       return state
   }
@@ -199,8 +654,20 @@ const claimsReducer = (state: ClaimsState, action: ClaimsAction): ClaimsState =>
 interface ClaimsContextType {
   state: ClaimsState
   dispatch: React.Dispatch<ClaimsAction>
-  addClaim: (claim: Omit<Claim, 'id' | 'createdAt' | 'updatedAt'>) => void
-  updateClaim: (id: string, updates: Partial<Claim>) => void
+  addClaim: (claim: Omit<Claim, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>
+  updateClaim: (id: string, updates: ClaimUpdates) => string | null
+  changeClaimStatus: (id: string, status: ClaimStatus, reason?: string) => string | null
+  recordLedgerEntry: (id: string, input: LedgerEntryInput) => string | null
+  bookAppointment: (id: string, input: AppointmentInput) => string | null
+  cancelAppointment: (id: string, reason?: string) => string | null
+  openRepairOrder: (id: string) => string | null
+  advanceRepairStage: (id: string, stage: RepairStage, notes?: string) => string | null
+  recordRepairSurvey: (id: string, rating: number, comments?: string) => string | null
+  reportRepairComeback: (id: string, reason: string) => string | null
+  submitShopEstimate: (id: string, input: ShopEstimateInput) => string | null
+  decideShopEstimateLine: (id: string, lineId: string, input: LineDecisionInput) => string | null
+  proposeSupplement: (id: string, input: SupplementInput) => string | null
+  decideSupplement: (id: string, supplementId: string, approve: boolean, reason?: string) => string | null
   getClaim: (id: string) => Claim | undefined
   saveInProgressClaim: (inProgressClaim: InProgressClaim) => void
   getInProgressClaim: (id: string) => InProgressClaim | undefined
@@ -209,6 +676,9 @@ interface ClaimsContextType {
   saveToStorage: () => void
 }
 
+// Media references held by a persisted claim or draft
+type MediaReferences = { photos?: string[]; videos?: string[]; supplements?: Array<{ photos: string[] }> }
+
 // Create the React Context
 const ClaimsContext = createContext<ClaimsContextType | undefined>(undefined)
 
@@ -222,63 +692,153 @@ const ClaimsContext = createContext<ClaimsContextType | undefined>(undefined)
  */
 export const ClaimsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(claimsReducer, initialState)
+  const { user, actor, getDeniedReason } = useSession()
+  const hasLoadedRef = useRef(false)
 
-  // Load data from localStorage when component mounts
+  // Load data from localStorage when component mounts (once, even under StrictMode)
   useEffect(() => {
+    if (hasLoadedRef.current) return
+    hasLoadedRef.current = true
     loadFromStorage()
   }, [])
 
-  // Save data to localStorage whenever claims or in-progress data changes
+  // Save data to localStorage whenever claims or in-progress data changes.
+  // Skipped until stored data is loaded so the empty initial state never overwrites it.
   useEffect(() => {
+    if (!state.hydrated) return
     saveToStorage()
-  }, [state.claims, state.inProgressClaims])
+  }, [state.claims, state.inProgressClaims, state.hydrated])
 
   /**
    * Load Data from localStorage
    * 
    * Retrieves saved claims and in-progress data from browser storage.
+   * Older data is upgraded by the persistence migrations; records that fail
+   * validation are quarantined and reported through the error state.
    * Handles conversion of Set objects back from arrays for approvedAssessments.
    */
   const loadFromStorage = () => {
     try {
-      const savedClaims = localStorage.getItem('car-insurance-claims')
-      const savedInProgress = localStorage.getItem('car-insurance-in-progress')
-      
-      if (savedClaims) {
-        const claims = JSON.parse(savedClaims)
-        dispatch({ type: 'LOAD_CLAIMS', payload: claims })
-      }
+      const claims = loadCollection('claims')
+      const inProgress = loadCollection('inProgress')
       
-      if (savedInProgress) {
-        const inProgress = JSON.parse(savedInProgress)
-        // Convert approvedAssessments back to Set objects (localStorage can't store Sets directly)
-        const parsedInProgress = inProgress.map((claim: any) => ({
-          ...claim,
-          approvedAssessments: new Set(claim.approvedAssessments || [])
-        }))
-        dispatch({ type: 'LOAD_IN_PROGRESS', payload: parsedInProgress })
+      // Convert approvedAssessments back to Set objects (localStorage can't store Sets directly)
+      const parsedInProgress = inProgress.records.map((claim: any) => ({
+        ...claim,
+        approvedAssessments: new Set<string>(claim.approvedAssessments)
+      }))
+
+      dispatch({ type: 'LOAD_IN_PROGRESS', payload: parsedInProgress })
+      dispatch({ type: 'LOAD_CLAIMS', payload: claims.records })
+
+      const quarantined = claims.quarantined + inProgress.quarantined
+      if (quarantined > 0) {
+        dispatch({
+          type: 'SET_ERROR',
+          payload: `${quarantined} stored record(s) could not be loaded and were moved to "${STORAGE_KEYS.quarantine}".`
+        })
       }
+
+      const records = [...claims.records, ...inProgress.records]
+      migrateStoredMedia(records).then(migrated => {
+        // Quarantined records may still reference media, so nothing is released then
+        if (quarantined === 0) releaseUnusedMedia(records, migrated)
+      })
+      scoreUnscoredClaims(claims.records)
     } catch (error) {
       console.error('Error loading from localStorage:', error)
+      dispatch({ type: 'LOAD_CLAIMS', payload: [] })
+    }
+  }
+
+  /**
+   * Score Unscored Claims
+   * 
+   * Scores the fraud risk of stored claims saved before fraud scoring existed.
+   * 
+   * @param claims - Claims loaded from storage
+   */
+  const scoreUnscoredClaims = async (claims: Claim[]) => {
+    for (const claim of claims.filter(c => !c.fraudRisk)) {
+      try {
+        const fraudRisk = await scoreClaim(claim, claims)
+        dispatch({ type: 'SET_FRAUD_RISK', payload: { id: claim.id, fraudRisk } })
+      } catch (error) {
+        console.error('Error scoring fraud risk:', error)
+      }
+    }
+  }
+
+  /**
+   * Migrate Stored Media
+   * 
+   * One-time migration for data saved before media moved to IndexedDB.
+   * Inline base64 photos and videos are written to the media store and replaced
+   * by their media IDs; the next save then drops the base64 from localStorage.
+   * 
+   * @param records - Persisted claims and drafts that may contain inline media
+   * @returns Map of data URL -> media ID for the media that was migrated
+   */
+  const migrateStoredMedia = async (records: MediaReferences[]) => {
+    const inlineMedia = records
+      .flatMap(record => [...(record.photos || []), ...(record.videos || [])])
+      .filter(isInlineMedia)
+
+    if (inlineMedia.length === 0) return new Map<string, string>()
+
+    try {
+      const mapping = await migrateInlineMedia(inlineMedia)
+      dispatch({ type: 'MIGRATE_MEDIA', payload: mapping })
+      return mapping
+    } catch (error) {
+      console.error('Error migrating media to IndexedDB:', error)
+      return new Map<string, string>()
+    }
+  }
+
+  /**
+   * Release Unused Media
+   * 
+   * Deletes stored media that no claim or draft references any more. Runs
+   * once on load, when no form can be holding unsaved uploads.
+   * 
+   * @param records - Persisted claims and drafts
+   * @param migrated - Media IDs that inline media was just migrated to
+   */
+  const releaseUnusedMedia = async (records: MediaReferences[], migrated: Map<string, string>) => {
+    const referenced = new Set<string>([
+      ...migrated.values(),
+      ...records.flatMap(record => [
+        ...(record.photos || []),
+        ...(record.videos || []),
+        ...(record.supplements || []).flatMap(supplement => supplement.photos)
+      ])
+    ])
+
+    try {
+      await deleteUnreferencedMedia(referenced)
+    } catch (error) {
+      console.error('Error releasing unused media:', error)
     }
   }
 
   /**
    * Save Data to localStorage
    * 
-   * Persists claims and in-progress data to browser storage.
+   * Persists claims and in-progress data to browser storage in the current
+   * versioned envelope format.
    * Converts Set objects to arrays for localStorage compatibility.
    */
   const saveToStorage = () => {
     try {
-      localStorage.setItem('car-insurance-claims', JSON.stringify(state.claims))
+      saveCollection('claims', state.claims)
       
       // Convert Sets to arrays for localStorage storage (localStorage can't store Sets)
       const inProgressForStorage = state.inProgressClaims.map(claim => ({
         ...claim,
         approvedAssessments: Array.from(claim.approvedAssessments)
       }))
-      localStorage.setItem('car-insurance-in-progress', JSON.stringify(inProgressForStorage))
+      saveCollection('inProgress', inProgressForStorage)
     } catch (error) {
       console.error('Error saving to localStorage:', error)
     }
@@ -287,11 +847,15 @@ export const ClaimsProvider: React.FC<{ children: ReactNode }> = ({ children })
   /**
    * Add New Claim
    * 
-   * Creates a new claim with auto-generated ID and timestamps.
+   * Creates a new claim with auto-generated ID and timestamps, flags it and
+   * any claims it overlaps as possible duplicates, scores its fraud risk,
+   * then runs the straight-through processing rules. A claim that passes every enabled
+   * rule is approved right away; the rule results are stored on the claim
+   * either way.
    * 
    * @param claimData - Claim data without ID and timestamps
    */
-  const addClaim = (claimData: Omit<Claim, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addClaim = async (claimData: Omit<Claim, 'id' | 'createdAt' | 'updatedAt'>) => {
     const newClaim: Claim = {
       ...claimData,
       id: `claim_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -303,19 +867,549 @@ export const ClaimsProvider: React.FC<{ children: ReactNode }> = ({ children })
     console.log('ClaimsContext - Generated claim ID:', newClaim.id)
     console.log('ClaimsContext - Adding claim:', newClaim)
     
-    dispatch({ type: 'ADD_CLAIM', payload: newClaim })
+    newClaim.duplicateFlags = findDuplicateFlags(newClaim, state.claims)
+    try {
+      newClaim.fraudRisk = await scoreClaim(newClaim, state.claims)
+    } catch (error) {
+      console.error('Error scoring fraud risk:', error)
+    }
+    
+    const autoApprovalSettings = loadAutoApprovalSettings()
+    if (autoApprovalSettings.enabled) {
+      newClaim.autoApproval = evaluateAutoApproval(newClaim, autoApprovalSettings)
+    }
+    
+    dispatch({ type: 'ADD_CLAIM', payload: { claim: newClaim, actor } })
+    
+    const flagUpdates = reconcileDuplicateFlags(newClaim, state.claims)
+    if (Object.keys(flagUpdates).length > 0) {
+      dispatch({ type: 'SET_DUPLICATE_FLAGS', payload: flagUpdates })
+    }
+    
+    if (newClaim.autoApproval?.approved && validateTransition(newClaim, 'approved') === null) {
+      // Sign off like any approver, within the lowest tier's authority
+      const tiers = loadAuthorityTiers()
+      const approver = getAutoApprover(tiers)
+      const signOff = createSignOff(newClaim, approver, tiers)
+      if (validateApproval(newClaim, approver, tiers) === null && signOff.decision === 'approved') {
+        const transition = createStatusTransition(
+          newClaim,
+          'approved',
+          signOff.actor,
+          `Passed all ${newClaim.autoApproval.results.length} straight-through processing rules`
+        )
+        dispatch({ type: 'SIGN_OFF', payload: { id: newClaim.id, signOff, transition } })
+      }
+    }
   }
 
   /**
    * Update Existing Claim
    * 
    * Updates a claim with new data and automatically updates the timestamp.
+ * The changed fields are recorded in the claim's audit log, and the claim is
+   * checked for duplicates and scored for fraud risk again with its new values.
    * 
    * @param id - Claim ID to update
    * @param updates - Partial data to update
+   * @returns Error message if the update was refused, null on success
+   */
+  const updateClaim = (id: string, updates: ClaimUpdates) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('claim:edit')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const costError = validateCostChange(claim, updates.totalEstimatedCost)
+    if (costError) {
+      return costError
+    }
+
+    dispatch({ type: 'UPDATE_CLAIM', payload: { id, updates, actor } })
+    
+    const flagUpdates = reconcileDuplicateFlags({ ...claim, ...updates }, state.claims)
+    if (Object.keys(flagUpdates).length > 0) {
+      dispatch({ type: 'SET_DUPLICATE_FLAGS', payload: flagUpdates })
+    }
+    
+    const updated = { ...claim, ...updates, duplicateFlags: flagUpdates[id] || claim.duplicateFlags }
+    scoreClaim(updated, state.claims)
+      .then(fraudRisk => {
+        if (!fraudAssessmentsEqual(claim.fraudRisk, fraudRisk)) {
+          dispatch({ type: 'SET_FRAUD_RISK', payload: { id, fraudRisk } })
+        }
+      })
+      .catch(error => console.error('Error scoring fraud risk:', error))
+    return null
+  }
+
+  /**
+   * Change Claim Status
+   * 
+   * Moves a claim to a new status if the lifecycle and the signed-in user's
+   * role allow it and records the transition in the claim's status history.
+   * Approving records a sign-off; above the approver's authority limit the
+   * claim goes to (or stays in) awaiting_second_approval instead. Closing
+   * requires the outstanding reserve to be zero.
+   * 
+   * @param id - Claim ID to change
+   * @param status - Requested status
+   * @param reason - Reason for the change (required for reject and reopen)
+   * @returns Error message if the change was refused, null on success
+   */
+  const changeClaimStatus = (id: string, status: ClaimStatus, reason?: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const error = validateTransition(claim, status, reason)
+    if (error) {
+      return error
+    }
+
+    const rule = getTransitionRule(claim.status, status)
+    const deniedReason = rule && getDeniedReason(transitionPermissions[rule.action])
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    if (status === 'closed') {
+      const { outstanding } = getLedgerSummary(claim.ledger)
+      if (outstanding > 0) {
+        return `$${outstanding.toLocaleString()} of the reserve is still outstanding; pay it or adjust the reserve before closing`
+      }
+    }
+
+    if (status === 'approved') {
+      const tiers = loadAuthorityTiers()
+      const approvalError = validateApproval(claim, user, tiers)
+      if (approvalError) {
+        return approvalError
+      }
+
+      const signOff = createSignOff(claim, user, tiers)
+      const to: ClaimStatus = signOff.decision === 'approved' ? 'approved' : 'awaiting_second_approval'
+      dispatch({
+        type: 'SIGN_OFF',
+        payload: {
+          id,
+          signOff,
+          transition: to === claim.status ? undefined : createStatusTransition(claim, to, actor)
+        }
+      })
+      return null
+    }
+
+    const transition = createStatusTransition(claim, status, actor, reason)
+    dispatch({ type: 'TRANSITION_STATUS', payload: { id, transition } })
+    return null
+  }
+
+  /**
+   * Record Ledger Entry
+   * 
+   * Appends a reserve, payment, recovery or void entry to a claim's ledger
+   * if the signed-in user's role allows it and the entry fits the claim's
+   * balance. A claim whose outstanding reserve reaches zero moves to paid,
+   * and a paid claim whose balance is reopened moves back to approved.
+   * 
+   * @param id - Claim ID to record the entry against
+   * @param input - Entry entered by the user
+   * @returns Error message if the entry was refused, null on success
    */
-  const updateClaim = (id: string, updates: Partial<Claim>) => {
-    dispatch({ type: 'UPDATE_CLAIM', payload: { id, updates } })
+  const recordLedgerEntry = (id: string, input: LedgerEntryInput) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason(ledgerEntryPermissions[input.type])
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const error = validateLedgerEntry(claim, input)
+    if (error) {
+      return error
+    }
+
+    const entry = createLedgerEntry(claim, input, actor)
+    const settlementStatus = getSettlementStatus({ ...claim, ledger: [...(claim.ledger || []), entry] })
+    const transition = settlementStatus ? createStatusTransition(claim, settlementStatus, actor) : undefined
+    dispatch({ type: 'ADD_LEDGER_ENTRY', payload: { id, entry, transition } })
+    return null
+  }
+
+  /**
+   * Book Appointment
+   * 
+   * Books a drop-off slot for a claim and assigns the claim to that shop.
+   * A claim has at most one appointment; booking again moves it to the new
+   * slot. The slot must be free and the shop must have a bay free for every
+   * day of the repair.
+   * 
+   * @param id - Claim ID to book for
+   * @param input - Shop, date and time chosen by the user
+   * @returns Error message if the booking was refused, null on success
+   */
+  const bookAppointment = (id: string, input: AppointmentInput) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('claim:edit')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const error = validateBooking(getRepairShopById(input.shopId), claim, input, state.claims)
+    if (error) {
+      return error
+    }
+
+    dispatch({ type: 'SET_APPOINTMENT', payload: { id, appointment: createAppointment(claim, input, actor), actor } })
+    return null
+  }
+
+  /**
+   * Cancel Appointment
+   * 
+   * Frees the claim's drop-off slot. The repair shop stays assigned.
+   * 
+   * @param id - Claim ID whose appointment to cancel
+   * @param reason - Why the appointment was cancelled (optional)
+   * @returns Error message if the cancellation was refused, null on success
+   */
+  const cancelAppointment = (id: string, reason?: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim?.appointment) {
+      return 'The claim has no appointment'
+    }
+
+    const deniedReason = getDeniedReason('claim:edit')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    dispatch({ type: 'SET_APPOINTMENT', payload: { id, actor, reason } })
+    return null
+  }
+
+  /**
+   * Open Repair Order
+   * 
+   * Opens a repair order by hand for an approved claim that had no repair
+   * shop when it was approved.
+   * 
+   * @param id - Claim ID to open the order for
+   * @returns Error message if the order was refused, null on success
+   */
+  const openRepairOrder = (id: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('repairs:update')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const error = validateOpenRepairOrder(claim)
+    if (error) {
+      return error
+    }
+
+    dispatch({
+      type: 'SET_REPAIR_ORDER',
+      payload: { id, repairOrder: createRepairOrder(claim, actor), auditAction: 'repair_order_opened', actor }
+    })
+    return null
+  }
+
+  /**
+   * Advance Repair Stage
+   * 
+   * Moves a claim's repair order to a later stage, recording the time, the
+   * user and any notes.
+   * 
+   * @param id - Claim ID whose repair order is updated
+   * @param stage - Stage the repair has reached
+   * @param notes - Notes for the stage (optional)
+   * @returns Error message if the change was refused, null on success
+   */
+  const advanceRepairStage = (id: string, stage: RepairStage, notes?: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('repairs:update')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    if (!claim.repairOrder) {
+      return 'This claim has no repair order'
+    }
+
+    const error = validateStageChange(claim, stage)
+    if (error) {
+      return error
+    }
+
+    const entry = createStageEntry(stage, actor, notes)
+    dispatch({
+      type: 'SET_REPAIR_ORDER',
+      payload: {
+        id,
+        repairOrder: { ...claim.repairOrder, stages: [...claim.repairOrder.stages, entry] },
+        auditAction: 'repair_stage_changed',
+        actor,
+        notes: entry.notes
+      }
+    })
+    return null
+  }
+
+  /**
+   * Record Repair Survey
+   * 
+   * Records the customer's post-repair satisfaction survey on a delivered
+   * repair. Survey results feed the shop's scorecard.
+   * 
+   * @param id - Claim ID whose repair was surveyed
+   * @param rating - Satisfaction from 1 to 5
+   * @param comments - Customer's comments (optional)
+   * @returns Error message if the survey was refused, null on success
+   */
+  const recordRepairSurvey = (id: string, rating: number, comments?: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('repairs:update')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    if (!claim.repairOrder) {
+      return 'This claim has no repair order'
+    }
+
+    const error = validateRepairSurvey(claim, rating)
+    if (error) {
+      return error
+    }
+
+    const survey = { rating, comments: comments?.trim() || undefined, at: new Date().toISOString(), actor }
+    dispatch({
+      type: 'SET_REPAIR_ORDER',
+      payload: {
+        id,
+        repairOrder: { ...claim.repairOrder, survey },
+        auditAction: 'repair_survey_recorded',
+        actor,
+        notes: survey.comments
+      }
+    })
+    return null
+  }
+
+  /**
+   * Report Repair Comeback
+   * 
+   * Records that a delivered vehicle came back to the shop for rework.
+   * 
+   * @param id - Claim ID whose vehicle came back
+   * @param reason - Rework needed
+   * @returns Error message if the report was refused, null on success
+   */
+  const reportRepairComeback = (id: string, reason: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('repairs:update')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    if (!claim.repairOrder) {
+      return 'This claim has no repair order'
+    }
+
+    const error = validateRepairComeback(claim, reason)
+    if (error) {
+      return error
+    }
+
+    const comeback = createRepairComeback(reason, actor)
+    dispatch({
+      type: 'SET_REPAIR_ORDER',
+      payload: {
+        id,
+        repairOrder: { ...claim.repairOrder, comebacks: [...(claim.repairOrder.comebacks || []), comeback] },
+        auditAction: 'repair_comeback_reported',
+        actor,
+        notes: comeback.reason
+      }
+    })
+    return null
+  }
+
+  /**
+   * Submit Shop Estimate
+   * 
+   * Records the assigned repair shop's itemized estimate on a claim,
+   * replacing any earlier one along with the decisions made on it.
+   * 
+   * @param id - Claim ID the estimate is for
+   * @param input - Lines entered through the form or imported from a file
+   * @returns Error message if the estimate was refused, null on success
+   */
+  const submitShopEstimate = (id: string, input: ShopEstimateInput) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('estimates:submit')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const errors = validateShopEstimate(claim, input, user)
+    if (Object.keys(errors).length > 0) {
+      return Object.values(errors)[0]
+    }
+
+    const shopEstimate = createShopEstimate(claim, input, actor)
+    dispatch({
+      type: 'SET_SHOP_ESTIMATE',
+      payload: {
+        id,
+        shopEstimate,
+        auditAction: 'shop_estimate_submitted',
+        actor,
+        notes: shopEstimate.notes
+      }
+    })
+    return null
+  }
+
+  /**
+   * Decide Shop Estimate Line
+   * 
+   * Accepts, negotiates or rejects one line of a claim's shop estimate.
+   * A line can be decided again, replacing the earlier decision.
+   * 
+   * @param id - Claim ID whose shop estimate is reviewed
+   * @param lineId - Shop estimate line decided on
+   * @param input - Decision, negotiated amount and reason
+   * @returns Error message if the decision was refused, null on success
+   */
+  const decideShopEstimateLine = (id: string, lineId: string, input: LineDecisionInput) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('estimates:review')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const error = validateLineDecision(claim, lineId, input)
+    if (error || !claim.shopEstimate) {
+      return error
+    }
+
+    dispatch({
+      type: 'SET_SHOP_ESTIMATE',
+      payload: {
+        id,
+        shopEstimate: applyLineDecision(claim.shopEstimate, lineId, input, actor),
+        auditAction: 'shop_estimate_line_decided',
+        actor,
+        notes: input.note?.trim() || undefined
+      }
+    })
+    return null
+  }
+
+  /**
+   * Propose Supplement
+   * 
+   * Adds a pending supplement for additional damage found during the repair.
+   * Shop users may only propose supplements for their own shop's claims.
+   * 
+   * @param id - Claim ID the supplement is for
+   * @param input - Additional lines, photos and justification
+   * @returns Error message if the supplement was refused, null on success
+   */
+  const proposeSupplement = (id: string, input: SupplementInput) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason('supplements:propose')
+    if (deniedReason) {
+      return deniedReason
+    }
+    if (user.shopId && user.shopId !== claim.repairShopId) {
+      return 'This claim is assigned to another repair shop'
+    }
+
+    const errors = validateSupplement(claim, input)
+    if (Object.keys(errors).length > 0) {
+      return Object.values(errors)[0]
+    }
+
+    dispatch({ type: 'ADD_SUPPLEMENT', payload: { id, supplement: createSupplement(claim, input, actor) } })
+    return null
+  }
+
+  /**
+   * Decide Supplement
+   * 
+   * Approves or rejects a pending supplement. Approval needs authority for
+   * the claim's new total and cannot come from whoever proposed it.
+   * 
+   * @param id - Claim ID the supplement belongs to
+   * @param supplementId - Supplement to decide
+   * @param approve - Whether to approve (false = reject)
+   * @param reason - Reason for the decision (required to reject)
+   * @returns Error message if the decision was refused, null on success
+   */
+  const decideSupplement = (id: string, supplementId: string, approve: boolean, reason?: string) => {
+    const claim = state.claims.find(c => c.id === id)
+    if (!claim) {
+      return 'Claim not found'
+    }
+
+    const deniedReason = getDeniedReason(approve ? 'claim:approve' : 'claim:reject')
+    if (deniedReason) {
+      return deniedReason
+    }
+
+    const error = validateSupplementDecision(claim, supplementId, approve, user, loadAuthorityTiers(), reason)
+    if (error) {
+      return error
+    }
+
+    dispatch({ type: 'DECIDE_SUPPLEMENT', payload: { id, supplementId, approve, actor, reason: reason?.trim() || undefined } })
+    return null
   }
 
   /**
@@ -374,6 +1468,18 @@ export const ClaimsProvider: React.FC<{ children: ReactNode }> = ({ children })
     dispatch,
     addClaim,
     updateClaim,
+    changeClaimStatus,
+    recordLedgerEntry,
+    bookAppointment,
+    cancelAppointment,
+    openRepairOrder,
+    advanceRepairStage,
+    recordRepairSurvey,
+    reportRepairComeback,
+    submitShopEstimate,
+    decideShopEstimateLine,
+    proposeSupplement,
+    decideSupplement,
     getClaim,
     saveInProgressClaim,
     getInProgressClaim,
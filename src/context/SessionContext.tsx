@@ -0,0 +1,111 @@
+/**
+ * SessionContext.tsx
+ *
+ * Holds the signed-in user for the local session model and answers
+ * permission questions for the rest of the application.
+ *
+ * Key Features:
+ * - Signed-in user chosen from the local user directory
+ * - Session kept in localStorage across reloads
+ * - Permission checks and denial explanations for the current role
+ * - Claim visibility, limiting repair shop users to their own shop's claims
+ */
+
+import React, { createContext, useContext, useState, ReactNode } from 'react'
+import { AppUser, defaultUser, getUserById } from '../data/users'
+import { Permission, hasPermission, getPermissionDeniedReason, getClaimAccessDeniedReason } from '../services/permissions'
+import type { Actor, Claim } from './ClaimsContext'
+
+const SESSION_STORAGE_KEY = 'car-insurance-session'
+
+/**
+ * SessionContextType Interface
+ *
+ * Defines the shape of the session context value.
+ */
+interface SessionContextType {
+  user: AppUser                 // Signed-in user
+  actor: Actor                  // Signed-in user as recorded on claim changes
+  switchUser: (id: string) => void  // Sign in as another user
+  can: (permission: Permission) => boolean  // Whether the user has a permission
+  getDeniedReason: (permission: Permission) => string | null  // Why a permission is missing
+  getClaimDeniedReason: (claim: Pick<Claim, 'repairShopId'>) => string | null  // Why a claim may not be seen
+}
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined)
+
+/**
+ * Load Session User
+ *
+ * @returns The user saved in the session, or the default user
+ */
+const loadSessionUser = (): AppUser => {
+  try {
+    const savedId = localStorage.getItem(SESSION_STORAGE_KEY)
+    return (savedId && getUserById(savedId)) || defaultUser
+  } catch (error) {
+    console.error('Error loading session:', error)
+    return defaultUser
+  }
+}
+
+/**
+ * SessionProvider Component
+ *
+ * Provides the signed-in user to all child components.
+ *
+ * @param children - React children components
+ */
+export const SessionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AppUser>(loadSessionUser)
+
+  /**
+   * Switch User
+   *
+   * Signs in as another user from the directory and remembers the choice.
+   *
+   * @param id - ID of the user to sign in as
+   */
+  const switchUser = (id: string) => {
+    const nextUser = getUserById(id)
+    if (!nextUser) return
+
+    setUser(nextUser)
+    try {
+      localStorage.setItem(SESSION_STORAGE_KEY, nextUser.id)
+    } catch (error) {
+      console.error('Error saving session:', error)
+    }
+  }
+
+  const value: SessionContextType = {
+    user,
+    actor: { id: user.id, name: user.name },
+    switchUser,
+    can: (permission) => hasPermission(user.role, permission),
+    getDeniedReason: (permission) => getPermissionDeniedReason(user.role, permission),
+    getClaimDeniedReason: (claim) => getClaimAccessDeniedReason(user, claim)
+  }
+
+  return (
+    <SessionContext.Provider value={value}>
+      {children}
+    </SessionContext.Provider>
+  )
+}
+
+/**
+ * useSession Hook
+ *
+ * Custom hook to consume the SessionContext.
+ *
+ * @returns SessionContextType - The context value
+ * @throws Error if used outside of SessionProvider
+ */
+export const useSession = () => {
+  const context = useContext(SessionContext)
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider')
+  }
+  return context
+}
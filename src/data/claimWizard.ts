@@ -0,0 +1,32 @@
+/**
+ * claimWizard.ts
+ * 
+ * Shared definitions for the new claim wizard and the drafts it saves.
+ * 
+ * Key Features:
+ * - Ordered list of wizard steps (used for progress display and draft status)
+ * - Draft ID generation, so every new claim gets its own draft
+ */
+
+/**
+ * Claim Wizard Steps
+ * 
+ * Step titles in order; step numbers are 1-based positions in this list.
+ */
+export const claimWizardSteps = ['Basic Information', 'Upload Photos', 'AI Analysis & Review']
+
+/**
+ * Get Wizard Step Title
+ * 
+ * @param step - 1-based step number
+ * @returns Title of the step, or an empty string for unknown steps
+ */
+export const getWizardStepTitle = (step: number) => claimWizardSteps[step - 1] || ''
+
+/**
+ * Create Draft ID
+ * 
+ * @returns Unique ID for a new in-progress claim
+ */
+export const createDraftId = () =>
+  `draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
@@ -0,0 +1,175 @@
+/**
+ * policies.ts
+ *
+ * This file contains the local policy store: every policy claims can be made
+ * against, with its holder, coverage period, covered vehicles and the
+ * coverages it includes.
+ *
+ * Key Features:
+ * - TypeScript interfaces for policies, covered vehicles and coverages
+ * - Mock data for active, lapsed and cancelled policies
+ * - Lookup by policy number and coverage-period check
+ *
+ * Coverage follows dates, not the current status: a lapsed policy still
+ * covers losses within its coverage period, and a cancelled one covers
+ * losses up to its cancellation date.
+ *
+ * This data is used in:
+ * - services/policyCoverage.ts (policy verification and net payable amount)
+ * - services/autoApproval.ts (active policy rule)
+ * - services/fraudScoring.ts (early claim indicator)
+ */
+
+/**
+ * Policy Status
+ */
+export type PolicyStatus = 'active' | 'lapsed' | 'cancelled'
+
+/**
+ * Coverage Type
+ */
+export type CoverageType = 'collision' | 'comprehensive' | 'glass'
+
+export const coverageTypeLabels: Record<CoverageType, string> = {
+  collision: 'Collision',
+  comprehensive: 'Comprehensive',
+  glass: 'Glass'
+}
+
+/**
+ * CoveredVehicle Interface
+ *
+ * A vehicle insured under a policy.
+ */
+export interface CoveredVehicle {
+  make: string                  // Vehicle manufacturer (e.g., "Toyota")
+  model: string                 // Vehicle model (e.g., "Camry")
+  year: number                  // Vehicle year (e.g., 2022)
+  vin: string                   // Vehicle identification number
+}
+
+/**
+ * Coverage Interface
+ *
+ * One coverage included in a policy.
+ */
+export interface Coverage {
+  type: CoverageType            // Kind of loss covered
+  limit: number                 // Most the insurer pays per claim, in dollars
+  deductible: number            // Amount the policyholder pays per claim, in dollars
+}
+
+/**
+ * Policy Interface
+ *
+ * An auto insurance policy claims can be made against.
+ */
+export interface Policy {
+  policyNumber: string          // Policy number (e.g., "POL-2024-001")
+  holderName: string            // Name of the policyholder
+  status: PolicyStatus          // Current policy status
+  effectiveDate: string         // First day of coverage (YYYY-MM-DD)
+  expirationDate: string        // Last day of coverage (YYYY-MM-DD)
+  cancellationDate?: string     // Day a cancelled policy stopped covering (YYYY-MM-DD)
+  coveredVehicles: CoveredVehicle[]  // Vehicles insured under the policy
+  coverages: Coverage[]         // Coverages included in the policy
+}
+
+export const policies: Policy[] = [
+  {
+    policyNumber: 'POL-2024-001',
+    holderName: 'John Smith',
+    status: 'active',
+    effectiveDate: '2024-01-01',
+    expirationDate: '2026-12-31',
+    coveredVehicles: [{ make: 'Toyota', model: 'Camry', year: 2022, vin: '4T1B11HK5NU123456' }],
+    coverages: [
+      { type: 'collision', limit: 25000, deductible: 500 },
+      { type: 'comprehensive', limit: 25000, deductible: 250 },
+      { type: 'glass', limit: 2000, deductible: 0 }
+    ]
+  },
+  {
+    policyNumber: 'POL-2024-002',
+    holderName: 'Sarah Johnson',
+    status: 'active',
+    effectiveDate: '2024-01-01',
+    expirationDate: '2026-12-31',
+    coveredVehicles: [{ make: 'Honda', model: 'Civic', year: 2021, vin: '2HGFC2F59MH234567' }],
+    coverages: [
+      { type: 'collision', limit: 15000, deductible: 1000 },
+      { type: 'comprehensive', limit: 15000, deductible: 500 }
+    ]
+  },
+  {
+    policyNumber: 'POL-2024-003',
+    holderName: 'Michael Brown',
+    status: 'active',
+    effectiveDate: '2024-01-01',
+    expirationDate: '2026-12-31',
+    coveredVehicles: [
+      { make: 'Ford', model: 'F-150', year: 2023, vin: '1FTFW1E50PFA34567' },
+      { make: 'Ford', model: 'Escape', year: 2020, vin: '1FMCU9G67LUB45678' }
+    ],
+    coverages: [
+      { type: 'collision', limit: 40000, deductible: 500 },
+      { type: 'comprehensive', limit: 40000, deductible: 500 },
+      { type: 'glass', limit: 3000, deductible: 100 }
+    ]
+  },
+  {
+    policyNumber: 'POL-2024-004',
+    holderName: 'Emily Davis',
+    status: 'lapsed',
+    effectiveDate: '2024-01-01',
+    expirationDate: '2024-12-31',
+    coveredVehicles: [{ make: 'Chevrolet', model: 'Malibu', year: 2019, vin: '1G1ZD5ST4KF156789' }],
+    coverages: [
+      { type: 'collision', limit: 10000, deductible: 1000 }
+    ]
+  },
+  {
+    policyNumber: 'POL-2024-005',
+    holderName: 'Robert Wilson',
+    status: 'cancelled',
+    effectiveDate: '2024-03-01',
+    expirationDate: '2025-02-28',
+    cancellationDate: '2024-09-15',
+    coveredVehicles: [{ make: 'Nissan', model: 'Altima', year: 2020, vin: '1N4BL4BV8LC167890' }],
+    coverages: [
+      { type: 'collision', limit: 20000, deductible: 500 },
+      { type: 'comprehensive', limit: 20000, deductible: 500 }
+    ]
+  }
+]
+
+/**
+ * Get Policy by Number
+ *
+ * @param policyNumber - Policy number to find (case-insensitive)
+ * @returns Policy object or undefined if not found
+ */
+export const getPolicyByNumber = (policyNumber: string) =>
+  policies.find(policy => policy.policyNumber.toLowerCase() === policyNumber.trim().toLowerCase())
+
+/**
+ * Get Coverage End Date
+ *
+ * @param policy - Policy to check
+ * @returns Last day of coverage: the cancellation date of a cancelled policy,
+ *          the expiration date otherwise
+ */
+export const getCoverageEndDate = (policy: Policy) =>
+  policy.status === 'cancelled' && policy.cancellationDate && policy.cancellationDate < policy.expirationDate
+    ? policy.cancellationDate
+    : policy.expirationDate
+
+/**
+ * Is Policy In Force
+ *
+ * @param policy - Policy to check
+ * @param date - Date to check coverage on (YYYY-MM-DD), e.g. the accident date
+ * @returns Whether the date falls within the policy's coverage period
+ */
+export const isPolicyInForce = (policy: Policy, date: string) =>
+  date >= policy.effectiveDate && date <= getCoverageEndDate(policy)
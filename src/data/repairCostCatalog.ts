@@ -0,0 +1,395 @@
+/**
+ * repairCostCatalog.ts
+ * 
+ * This file contains the standardized repair cost catalog shared by the
+ * damage analyzers, the claim wizard and the Repair Cost Database page.
+ * 
+ * Key Features:
+ * - TypeScript interface for catalog items
+ * - Catalog of repair items by damage type, severity and vehicle category
+ * - Lookup of the closest catalog item for a damage assessment
+ * - Vehicle category classification from make and model
+ * 
+ * This data is used in:
+ * - RepairCostDatabase.tsx (catalog browser, deep-linkable by item ID)
+ * - damageAnalysis.ts (links each assessment to the item it was priced from)
+ * - NewClaim.tsx / ClaimDetails.tsx (cost database references)
+ * - fraudScoring.ts (catalog norm for the cost indicator)
+ */
+
+export type CatalogDamageType = 'scratch' | 'dent' | 'structural' | 'glass' | 'paint' | 'mechanical'
+export type DamageSeverity = 'minor' | 'moderate' | 'severe'
+export type VehicleCategory = 'compact' | 'sedan' | 'suv' | 'luxury' | 'truck'
+
+/**
+ * RepairCostItem Interface
+ * 
+ * A single priced repair in the catalog.
+ */
+export interface RepairCostItem {
+  id: string                    // Catalog item ID (e.g., "dent_2")
+  damageType: CatalogDamageType // Type of damage the item repairs
+  severity: DamageSeverity      // Severity the item is priced for
+  vehicleCategory: VehicleCategory  // Vehicle category the item is priced for
+  description: string           // Description of the repair
+  baseCost: number              // Standard labor cost in dollars
+  laborHours: number            // Estimated labor hours
+  partsCost: number             // Replacement parts cost in dollars
+  totalCost: number             // Combined labor and parts cost in dollars
+  confidence: 'high' | 'medium' | 'low'  // Reliability of the price
+  lastUpdated: string           // Date the price was last reviewed
+}
+
+// Catalog category shown alongside items of each damage type
+export const damageTypeCategories: Record<CatalogDamageType, string> = {
+  scratch: 'Paint & Body',
+  dent: 'Body Repair',
+  structural: 'Structural',
+  glass: 'Glass',
+  paint: 'Paint & Body',
+  mechanical: 'Mechanical'
+}
+
+/**
+ * Repair Cost Catalog
+ * 
+ * Standardized prices for common repairs, grouped by damage type.
+ */
+export const repairCostCatalog: RepairCostItem[] = [
+  // Scratches
+  {
+    id: 'scratch_1',
+    damageType: 'scratch',
+    severity: 'minor',
+    vehicleCategory: 'compact',
+    description: 'Surface scratch on door panel',
+    baseCost: 150,
+    laborHours: 1.5,
+    partsCost: 50,
+    totalCost: 200,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'scratch_2',
+    damageType: 'scratch',
+    severity: 'moderate',
+    vehicleCategory: 'sedan',
+    description: 'Deep scratch requiring paint touch-up',
+    baseCost: 300,
+    laborHours: 3,
+    partsCost: 100,
+    totalCost: 400,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'scratch_3',
+    damageType: 'scratch',
+    severity: 'severe',
+    vehicleCategory: 'luxury',
+    description: 'Multiple deep scratches requiring full panel repaint',
+    baseCost: 800,
+    laborHours: 6,
+    partsCost: 200,
+    totalCost: 1000,
+    confidence: 'medium',
+    lastUpdated: '2024-01-15'
+  },
+  // Dents
+  {
+    id: 'dent_1',
+    damageType: 'dent',
+    severity: 'minor',
+    vehicleCategory: 'compact',
+    description: 'Small dent on fender',
+    baseCost: 200,
+    laborHours: 2,
+    partsCost: 0,
+    totalCost: 200,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'dent_2',
+    damageType: 'dent',
+    severity: 'moderate',
+    vehicleCategory: 'suv',
+    description: 'Medium dent requiring paintless dent repair',
+    baseCost: 400,
+    laborHours: 4,
+    partsCost: 0,
+    totalCost: 400,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'dent_3',
+    damageType: 'dent',
+    severity: 'severe',
+    vehicleCategory: 'truck',
+    description: 'Large dent requiring panel replacement',
+    baseCost: 1200,
+    laborHours: 8,
+    partsCost: 500,
+    totalCost: 1700,
+    confidence: 'medium',
+    lastUpdated: '2024-01-15'
+  },
+  // Glass
+  {
+    id: 'glass_1',
+    damageType: 'glass',
+    severity: 'minor',
+    vehicleCategory: 'sedan',
+    description: 'Windshield chip repair',
+    baseCost: 100,
+    laborHours: 1,
+    partsCost: 50,
+    totalCost: 150,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'glass_2',
+    damageType: 'glass',
+    severity: 'moderate',
+    vehicleCategory: 'suv',
+    description: 'Side window replacement',
+    baseCost: 300,
+    laborHours: 2,
+    partsCost: 200,
+    totalCost: 500,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'glass_3',
+    damageType: 'glass',
+    severity: 'severe',
+    vehicleCategory: 'luxury',
+    description: 'Full windshield replacement with calibration',
+    baseCost: 800,
+    laborHours: 4,
+    partsCost: 600,
+    totalCost: 1400,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  // Structural
+  {
+    id: 'structural_1',
+    damageType: 'structural',
+    severity: 'minor',
+    vehicleCategory: 'compact',
+    description: 'Minor frame alignment',
+    baseCost: 500,
+    laborHours: 6,
+    partsCost: 100,
+    totalCost: 600,
+    confidence: 'medium',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'structural_2',
+    damageType: 'structural',
+    severity: 'moderate',
+    vehicleCategory: 'sedan',
+    description: 'Frame straightening and reinforcement',
+    baseCost: 1500,
+    laborHours: 12,
+    partsCost: 400,
+    totalCost: 1900,
+    confidence: 'medium',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'structural_3',
+    damageType: 'structural',
+    severity: 'severe',
+    vehicleCategory: 'truck',
+    description: 'Major structural repair with new components',
+    baseCost: 3500,
+    laborHours: 24,
+    partsCost: 1200,
+    totalCost: 4700,
+    confidence: 'low',
+    lastUpdated: '2024-01-15'
+  },
+  // Paint
+  {
+    id: 'paint_1',
+    damageType: 'paint',
+    severity: 'minor',
+    vehicleCategory: 'compact',
+    description: 'Single panel paint touch-up',
+    baseCost: 250,
+    laborHours: 3,
+    partsCost: 100,
+    totalCost: 350,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'paint_2',
+    damageType: 'paint',
+    severity: 'moderate',
+    vehicleCategory: 'sedan',
+    description: 'Multi-panel paint job with blending',
+    baseCost: 800,
+    laborHours: 8,
+    partsCost: 300,
+    totalCost: 1100,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'paint_3',
+    damageType: 'paint',
+    severity: 'severe',
+    vehicleCategory: 'luxury',
+    description: 'Full vehicle repaint with premium finish',
+    baseCost: 2500,
+    laborHours: 20,
+    partsCost: 800,
+    totalCost: 3300,
+    confidence: 'medium',
+    lastUpdated: '2024-01-15'
+  },
+  // Mechanical
+  {
+    id: 'mechanical_1',
+    damageType: 'mechanical',
+    severity: 'minor',
+    vehicleCategory: 'compact',
+    description: 'Bumper bracket replacement',
+    baseCost: 150,
+    laborHours: 2,
+    partsCost: 80,
+    totalCost: 230,
+    confidence: 'high',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'mechanical_2',
+    damageType: 'mechanical',
+    severity: 'moderate',
+    vehicleCategory: 'suv',
+    description: 'Suspension component repair',
+    baseCost: 600,
+    laborHours: 6,
+    partsCost: 300,
+    totalCost: 900,
+    confidence: 'medium',
+    lastUpdated: '2024-01-15'
+  },
+  {
+    id: 'mechanical_3',
+    damageType: 'mechanical',
+    severity: 'severe',
+    vehicleCategory: 'truck',
+    description: 'Engine/transmission damage assessment',
+    baseCost: 2000,
+    laborHours: 16,
+    partsCost: 1500,
+    totalCost: 3500,
+    confidence: 'low',
+    lastUpdated: '2024-01-15'
+  }
+]
+
+// Used to find the nearest severity when no item matches exactly
+const severityRank: Record<DamageSeverity, number> = { minor: 0, moderate: 1, severe: 2 }
+
+// Vehicle classification lists (lowercase) used by getVehicleCategory
+const luxuryMakes = [
+  'acura', 'audi', 'bmw', 'cadillac', 'genesis', 'infiniti', 'jaguar', 'land rover',
+  'lexus', 'lincoln', 'mercedes', 'mercedes-benz', 'porsche', 'tesla', 'volvo'
+]
+const truckModels = [
+  'f-150', 'f-250', 'silverado', 'sierra', 'ram', 'tacoma', 'tundra', 'ranger',
+  'colorado', 'frontier', 'titan', 'ridgeline', 'gladiator'
+]
+const suvModels = [
+  'rav4', 'cr-v', 'explorer', 'escape', 'highlander', 'pilot', 'tahoe', 'suburban',
+  'equinox', 'rogue', 'pathfinder', 'wrangler', 'cherokee', 'grand cherokee', 'santa fe',
+  'tucson', 'outback', 'forester', 'cx-5', 'sportage', 'sorento', '4runner', 'traverse'
+]
+const compactModels = [
+  'civic', 'corolla', 'focus', 'sentra', 'elantra', 'mazda3', 'golf', 'fit', 'yaris',
+  'versa', 'spark', 'rio', 'forte', 'impreza', 'jetta', 'mini'
+]
+
+/**
+ * Get Vehicle Category
+ * 
+ * Classifies a vehicle into a catalog category from its make and model.
+ * Vehicles that match no list are priced as sedans.
+ * 
+ * @param make - Vehicle manufacturer (e.g., "Toyota")
+ * @param model - Vehicle model (e.g., "RAV4")
+ * @returns Catalog vehicle category
+ */
+export const getVehicleCategory = (make: string, model: string): VehicleCategory => {
+  const normalizedMake = make.trim().toLowerCase()
+  const normalizedModel = model.trim().toLowerCase()
+
+  if (truckModels.includes(normalizedModel)) return 'truck'
+  if (luxuryMakes.includes(normalizedMake)) return 'luxury'
+  if (suvModels.includes(normalizedModel)) return 'suv'
+  if (compactModels.includes(normalizedModel)) return 'compact'
+  return 'sedan'
+}
+
+/**
+ * Get Repair Cost Item by ID
+ * 
+ * @param id - Catalog item ID
+ * @returns Catalog item or undefined if not found
+ */
+export const getRepairCostItemById = (id: string): RepairCostItem | undefined => {
+  return repairCostCatalog.find(item => item.id === id)
+}
+
+/**
+ * Find Repair Cost Items
+ * 
+ * @param criteria - Damage type, severity and/or vehicle category to match
+ * @returns Catalog items matching every given criterion
+ */
+export const findRepairCostItems = (criteria: {
+  damageType?: CatalogDamageType
+  severity?: DamageSeverity
+  vehicleCategory?: VehicleCategory
+}): RepairCostItem[] => {
+  return repairCostCatalog.filter(item =>
+    (!criteria.damageType || item.damageType === criteria.damageType) &&
+    (!criteria.severity || item.severity === criteria.severity) &&
+    (!criteria.vehicleCategory || item.vehicleCategory === criteria.vehicleCategory)
+  )
+}
+
+/**
+ * Find Closest Repair Cost Item
+ * 
+ * Picks the catalog item used to price a damage assessment. Items of the
+ * same damage type are ranked by how close their severity is, then by
+ * whether they match the vehicle category.
+ * 
+ * @param damageType - Type of damage
+ * @param severity - Severity of the damage
+ * @param vehicleCategory - Category of the damaged vehicle
+ * @returns Closest catalog item, or undefined if the damage type is not catalogued
+ */
+export const findClosestRepairCostItem = (
+  damageType: CatalogDamageType,
+  severity: DamageSeverity,
+  vehicleCategory: VehicleCategory
+): RepairCostItem | undefined => {
+  const score = (item: RepairCostItem) =>
+    Math.abs(severityRank[item.severity] - severityRank[severity]) * 2 +
+    (item.vehicleCategory === vehicleCategory ? 0 : 1)
+
+  return findRepairCostItems({ damageType })
+    .sort((a, b) => score(a) - score(b))[0]
+}
@@ -6,16 +6,98 @@
  * 
  * Key Features:
  * - TypeScript interface for repair shop data structure
- * - Mock data for 5 different repair shops with realistic information
- * - Utility function to find shops by ID
- * - Centralized data source for consistency across components
+ * - Default network of 5 repair shops, used to seed the shop store
+ * - Structured weekly hours with a time zone and holiday closures
+ * - Active/suspended network status
+ * - Bay and drop-off slot capacity for appointment booking
  * 
  * This data is used in:
+ * - shopStore.ts (persisted shop records, seeded from the defaults)
  * - RepairShops.tsx (main repair shops directory)
  * - ClaimDetails.tsx (repair shop assignment)
  * - NewClaim.tsx (default shop assignment)
+ * - shopRecommendation.ts (ranking shops for a claim)
+ * - geoDistance.ts (distance from the claim's customer)
+ * - shopHours.ts (open/closed status)
+ * - shopBooking.ts (drop-off appointments and wait times)
  */
 
+/**
+ * Weekday
+ * 
+ * Day of the week, used as the key of a shop's weekly hours.
+ */
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
+
+// Weekdays in JavaScript Date.getDay() order (Sunday first)
+export const weekdays: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+export const weekdayLabels: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday'
+}
+
+/**
+ * OpeningInterval Interface
+ * 
+ * One period a shop is open on a weekday, in the shop's local time.
+ */
+export interface OpeningInterval {
+  open: string                  // Opening time, 24-hour "HH:MM"
+  close: string                 // Closing time, 24-hour "HH:MM" (after the opening time)
+}
+
+/**
+ * HolidayClosure Interface
+ * 
+ * A date a shop is closed all day.
+ */
+export interface HolidayClosure {
+  date: string                  // Date in the shop's local time (YYYY-MM-DD)
+  name: string                  // Holiday name shown to users
+}
+
+// Holidays most partner shops close for
+export const standardHolidayClosures: HolidayClosure[] = [
+  { date: '2026-01-01', name: "New Year's Day" },
+  { date: '2026-05-25', name: 'Memorial Day' },
+  { date: '2026-07-03', name: 'Independence Day (observed)' },
+  { date: '2026-09-07', name: 'Labor Day' },
+  { date: '2026-11-26', name: 'Thanksgiving' },
+  { date: '2026-12-25', name: 'Christmas Day' },
+  { date: '2027-01-01', name: "New Year's Day" }
+]
+
+/**
+ * ShopCapacity Interface
+ * 
+ * How much work a shop can take on. Drop-off slots start at the day's first
+ * opening time and repeat every slotMinutes while the shop is open.
+ */
+export interface ShopCapacity {
+  bays: number                  // Vehicles the shop can repair at the same time
+  slotsPerDay: number           // Drop-off appointments offered per open day
+  slotMinutes: number           // Minutes between drop-off slots
+}
+
+/**
+ * RepairShopStatus
+ * 
+ * Network status of a shop. Suspended shops keep their existing claims but are
+ * no longer recommended or offered for new assignments.
+ */
+export type RepairShopStatus = 'active' | 'suspended'
+
+export const repairShopStatusLabels: Record<RepairShopStatus, string> = {
+  active: 'Active',
+  suspended: 'Suspended'
+}
+
 /**
  * RepairShop Interface
  * 
@@ -36,22 +118,24 @@ export interface RepairShop {
   reviewCount: number          // Number of customer reviews
   specialties: string[]        // Array of repair specialties
   certifications: string[]     // Array of professional certifications
-  distance: number             // Distance from customer location (miles)
-  estimatedWaitTime: string    // Estimated repair completion time
-  isOpen: boolean              // Whether the shop is currently open
-  hours: {                     // Operating hours for each day
-    [key: string]: string      // Day of week -> hours string
-  }
+  latitude: number             // Shop location, degrees north
+  longitude: number            // Shop location, degrees east (negative for west)
+  capacity: ShopCapacity       // Bays and drop-off slots, used for booking and wait times
+  timeZone: string             // IANA time zone the hours are given in (e.g., "America/Los_Angeles")
+  hours: Record<Weekday, OpeningInterval[]>  // Opening intervals per weekday (empty = closed all day)
+  holidayClosures: HolidayClosure[]  // Dates the shop is closed regardless of its weekly hours
+  status: RepairShopStatus     // Whether the shop takes new claims
 }
 
 /**
- * Mock Repair Shops Data
+ * Default Repair Shops
  * 
  * Realistic sample data for 5 different repair shops with varying specialties,
- * ratings, and operational details. This data simulates a real-world scenario
- * where customers can choose from multiple approved vendors.
+ * ratings, and operational details. The shop store starts from this list the
+ * first time the app runs; after that shops are managed on the Manage Shops
+ * screen.
  */
-export const repairShops: RepairShop[] = [
+export const defaultRepairShops: RepairShop[] = [
   {
     id: 'shop_001',
     name: 'Premium Auto Body & Paint',
@@ -66,18 +150,21 @@ export const repairShops: RepairShop[] = [
     reviewCount: 127,
     specialties: ['Collision Repair', 'Paint & Body', 'Frame Straightening'],
     certifications: ['I-CAR Gold Class', 'ASE Certified'],
-    distance: 2.3,
-    estimatedWaitTime: '3-5 days',
-    isOpen: true,
+    latitude: 34.0736,
+    longitude: -118.4004,
+    capacity: { bays: 6, slotsPerDay: 4, slotMinutes: 60 },
+    timeZone: 'America/Los_Angeles',
     hours: {
-      'Monday': '8:00 AM - 6:00 PM',
-      'Tuesday': '8:00 AM - 6:00 PM',
-      'Wednesday': '8:00 AM - 6:00 PM',
-      'Thursday': '8:00 AM - 6:00 PM',
-      'Friday': '8:00 AM - 6:00 PM',
-      'Saturday': '9:00 AM - 4:00 PM',
-      'Sunday': 'Closed'
-    }
+      monday: [{ open: '08:00', close: '18:00' }],
+      tuesday: [{ open: '08:00', close: '18:00' }],
+      wednesday: [{ open: '08:00', close: '18:00' }],
+      thursday: [{ open: '08:00', close: '18:00' }],
+      friday: [{ open: '08:00', close: '18:00' }],
+      saturday: [{ open: '09:00', close: '16:00' }],
+      sunday: []
+    },
+    holidayClosures: standardHolidayClosures,
+    status: 'active'
   },
   {
     id: 'shop_002',
@@ -93,18 +180,21 @@ export const repairShops: RepairShop[] = [
     reviewCount: 89,
     specialties: ['Quick Repairs', 'Minor Dents', 'Scratch Removal'],
     certifications: ['I-CAR Silver Class'],
-    distance: 4.1,
-    estimatedWaitTime: '1-2 days',
-    isOpen: true,
+    latitude: 34.0622,
+    longitude: -118.3700,
+    capacity: { bays: 5, slotsPerDay: 6, slotMinutes: 30 },
+    timeZone: 'America/Los_Angeles',
     hours: {
-      'Monday': '7:00 AM - 7:00 PM',
-      'Tuesday': '7:00 AM - 7:00 PM',
-      'Wednesday': '7:00 AM - 7:00 PM',
-      'Thursday': '7:00 AM - 7:00 PM',
-      'Friday': '7:00 AM - 7:00 PM',
-      'Saturday': '8:00 AM - 5:00 PM',
-      'Sunday': 'Closed'
-    }
+      monday: [{ open: '07:00', close: '19:00' }],
+      tuesday: [{ open: '07:00', close: '19:00' }],
+      wednesday: [{ open: '07:00', close: '19:00' }],
+      thursday: [{ open: '07:00', close: '19:00' }],
+      friday: [{ open: '07:00', close: '19:00' }],
+      saturday: [{ open: '08:00', close: '17:00' }],
+      sunday: []
+    },
+    holidayClosures: standardHolidayClosures,
+    status: 'active'
   },
   {
     id: 'shop_003',
@@ -120,18 +210,25 @@ export const repairShops: RepairShop[] = [
     reviewCount: 203,
     specialties: ['Classic Restoration', 'Custom Paint', 'Metal Fabrication'],
     certifications: ['I-CAR Gold Class', 'ASE Master Certified'],
-    distance: 6.7,
-    estimatedWaitTime: '2-4 weeks',
-    isOpen: false,
+    latitude: 34.0480,
+    longitude: -118.2560,
+    capacity: { bays: 2, slotsPerDay: 1, slotMinutes: 60 },
+    timeZone: 'America/Los_Angeles',
     hours: {
-      'Monday': '9:00 AM - 5:00 PM',
-      'Tuesday': '9:00 AM - 5:00 PM',
-      'Wednesday': '9:00 AM - 5:00 PM',
-      'Thursday': '9:00 AM - 5:00 PM',
-      'Friday': '9:00 AM - 5:00 PM',
-      'Saturday': '10:00 AM - 3:00 PM',
-      'Sunday': 'Closed'
-    }
+      monday: [{ open: '09:00', close: '17:00' }],
+      tuesday: [{ open: '09:00', close: '17:00' }],
+      wednesday: [{ open: '09:00', close: '17:00' }],
+      thursday: [{ open: '09:00', close: '17:00' }],
+      friday: [{ open: '09:00', close: '17:00' }],
+      saturday: [{ open: '10:00', close: '15:00' }],
+      sunday: []
+    },
+    holidayClosures: [
+      ...standardHolidayClosures,
+      { date: '2026-11-27', name: 'Day after Thanksgiving' },
+      { date: '2026-12-24', name: 'Christmas Eve' }
+    ],
+    status: 'active'
   },
   {
     id: 'shop_004',
@@ -147,18 +244,21 @@ export const repairShops: RepairShop[] = [
     reviewCount: 156,
     specialties: ['Hybrid/Electric', 'Advanced Diagnostics', 'Computer Systems'],
     certifications: ['I-CAR Gold Class', 'ASE Hybrid/Electric'],
-    distance: 3.8,
-    estimatedWaitTime: '2-3 days',
-    isOpen: true,
+    latitude: 34.0250,
+    longitude: -118.3960,
+    capacity: { bays: 4, slotsPerDay: 4, slotMinutes: 60 },
+    timeZone: 'America/Los_Angeles',
     hours: {
-      'Monday': '8:00 AM - 6:00 PM',
-      'Tuesday': '8:00 AM - 6:00 PM',
-      'Wednesday': '8:00 AM - 6:00 PM',
-      'Thursday': '8:00 AM - 6:00 PM',
-      'Friday': '8:00 AM - 6:00 PM',
-      'Saturday': '9:00 AM - 4:00 PM',
-      'Sunday': 'Closed'
-    }
+      monday: [{ open: '08:00', close: '18:00' }],
+      tuesday: [{ open: '08:00', close: '18:00' }],
+      wednesday: [{ open: '08:00', close: '18:00' }],
+      thursday: [{ open: '08:00', close: '18:00' }],
+      friday: [{ open: '08:00', close: '18:00' }],
+      saturday: [{ open: '09:00', close: '16:00' }],
+      sunday: []
+    },
+    holidayClosures: standardHolidayClosures,
+    status: 'active'
   },
   {
     id: 'shop_005',
@@ -174,36 +274,20 @@ export const repairShops: RepairShop[] = [
     reviewCount: 67,
     specialties: ['Same Day Repairs', 'Minor Collisions', 'Paint Touch-ups'],
     certifications: ['I-CAR Silver Class'],
-    distance: 1.9,
-    estimatedWaitTime: 'Same day',
-    isOpen: true,
+    latitude: 34.0900,
+    longitude: -118.3440,
+    capacity: { bays: 3, slotsPerDay: 8, slotMinutes: 30 },
+    timeZone: 'America/Los_Angeles',
     hours: {
-      'Monday': '6:00 AM - 8:00 PM',
-      'Tuesday': '6:00 AM - 8:00 PM',
-      'Wednesday': '6:00 AM - 8:00 PM',
-      'Thursday': '6:00 AM - 8:00 PM',
-      'Friday': '6:00 AM - 8:00 PM',
-      'Saturday': '7:00 AM - 6:00 PM',
-      'Sunday': '8:00 AM - 4:00 PM'
-    }
+      monday: [{ open: '06:00', close: '20:00' }],
+      tuesday: [{ open: '06:00', close: '20:00' }],
+      wednesday: [{ open: '06:00', close: '20:00' }],
+      thursday: [{ open: '06:00', close: '20:00' }],
+      friday: [{ open: '06:00', close: '20:00' }],
+      saturday: [{ open: '07:00', close: '18:00' }],
+      sunday: [{ open: '08:00', close: '16:00' }]
+    },
+    holidayClosures: standardHolidayClosures.filter(closure => closure.name === 'Thanksgiving' || closure.name === 'Christmas Day'),
+    status: 'active'
   }
 ]
-
-/**
- * Get Repair Shop by ID
- * 
- * Utility function to find a specific repair shop by its unique identifier.
- * Returns undefined if no shop is found with the given ID.
- * 
- * @param id - The unique identifier of the repair shop to find
- * @returns RepairShop object if found, undefined otherwise
- * 
- * @example
- * const shop = getRepairShopById('shop_001')
- * if (shop) {
- *   console.log(`Found shop: ${shop.name}`)
- * }
- */
-export const getRepairShopById = (id: string): RepairShop | undefined => {
-  return repairShops.find(shop => shop.id === id)
-} 
\ No newline at end of file
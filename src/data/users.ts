@@ -0,0 +1,65 @@
+/**
+ * users.ts
+ *
+ * Local user directory used by the session model. Each user has a role that
+ * decides what they may do (see services/permissions.ts). The signed-in user
+ * is recorded as the actor on status transitions and audit entries.
+ */
+
+import type { Actor } from '../context/ClaimsContext'
+
+/**
+ * User Role
+ *
+ * - adjuster: creates, edits and submits claims, starts processing and approves small claims
+ * - supervisor: everything an adjuster can do, plus rejecting, reopening and larger approvals
+ * - manager: everything a supervisor can do, plus approvals of any value and authority limits
+ * - auditor: read-only access to claims, the approval queue and activity logs
+ * - shop: a repair shop's estimator, who submits estimates for the claims assigned to their shop
+ *
+ * How much each role may approve is configured in services/approvalAuthority.ts.
+ */
+export type UserRole = 'adjuster' | 'supervisor' | 'manager' | 'auditor' | 'shop'
+
+export const roleLabels: Record<UserRole, string> = {
+  adjuster: 'Adjuster',
+  supervisor: 'Supervisor',
+  manager: 'Manager',
+  auditor: 'Auditor',
+  shop: 'Repair Shop'
+}
+
+/**
+ * AppUser Interface
+ *
+ * A user who can sign in to the application.
+ */
+export interface AppUser extends Actor {
+  role: UserRole                // Role deciding the user's permissions
+  shopId?: string               // Repair shop the user works for (shop users only)
+}
+
+export const users: AppUser[] = [
+  { id: 'AGT-001', name: 'Claims Agent', role: 'adjuster' },
+  { id: 'SUP-001', name: 'Dana Whitfield', role: 'supervisor' },
+  { id: 'MGR-001', name: 'Marcus Bell', role: 'manager' },
+  { id: 'AUD-001', name: 'Priya Raman', role: 'auditor' },
+  { id: 'SHP-001', name: 'Luis Ortega (Premium Auto Body)', role: 'shop', shopId: 'shop_001' }
+]
+
+// User signed in when no session has been saved yet
+export const defaultUser = users[0]
+
+/**
+ * Get User by ID
+ *
+ * @param id - User ID to find
+ * @returns User object or undefined if not found
+ */
+export const getUserById = (id: string) => users.find(user => user.id === id)
+
+// Actor recorded for changes the application makes on its own (e.g., data migrations)
+export const systemActor: Actor = {
+  id: 'SYSTEM',
+  name: 'System'
+}
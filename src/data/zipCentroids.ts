@@ -0,0 +1,115 @@
+/**
+ * zipCentroids.ts
+ *
+ * This file contains an offline table of ZIP code centroids used to work out
+ * how far a customer is from each repair shop without calling a geocoding
+ * service. Coordinates are the approximate center of each ZIP code area.
+ *
+ * Key Features:
+ * - GeoPoint type shared by ZIP centroids and repair shop locations
+ * - Centroids for the Los Angeles area served by the partner repair shops
+ * - ZIP lookup that accepts ZIP+4 codes
+ *
+ * This data is used in:
+ * - geoDistance.ts (customer location and shop distances)
+ */
+
+/**
+ * GeoPoint Interface
+ *
+ * A location on the map.
+ */
+export interface GeoPoint {
+  latitude: number              // Degrees north (negative for south)
+  longitude: number             // Degrees east (negative for west)
+}
+
+/**
+ * ZipCentroid Interface
+ *
+ * Center point of one ZIP code area.
+ */
+export interface ZipCentroid extends GeoPoint {
+  zip: string                   // 5-digit ZIP code
+  city: string                  // Main city or neighborhood of the ZIP
+  state: string                 // State abbreviation
+}
+
+export const zipCentroids: ZipCentroid[] = [
+  { zip: '90001', city: 'Los Angeles', state: 'CA', latitude: 33.9731, longitude: -118.2479 },
+  { zip: '90004', city: 'Los Angeles', state: 'CA', latitude: 34.0762, longitude: -118.3029 },
+  { zip: '90005', city: 'Los Angeles', state: 'CA', latitude: 34.0591, longitude: -118.3019 },
+  { zip: '90006', city: 'Los Angeles', state: 'CA', latitude: 34.0480, longitude: -118.2934 },
+  { zip: '90010', city: 'Los Angeles', state: 'CA', latitude: 34.0623, longitude: -118.3148 },
+  { zip: '90012', city: 'Los Angeles', state: 'CA', latitude: 34.0614, longitude: -118.2385 },
+  { zip: '90013', city: 'Los Angeles', state: 'CA', latitude: 34.0448, longitude: -118.2434 },
+  { zip: '90015', city: 'Los Angeles', state: 'CA', latitude: 34.0399, longitude: -118.2668 },
+  { zip: '90017', city: 'Los Angeles', state: 'CA', latitude: 34.0528, longitude: -118.2642 },
+  { zip: '90019', city: 'Los Angeles', state: 'CA', latitude: 34.0487, longitude: -118.3388 },
+  { zip: '90020', city: 'Los Angeles', state: 'CA', latitude: 34.0665, longitude: -118.3091 },
+  { zip: '90024', city: 'Los Angeles', state: 'CA', latitude: 34.0658, longitude: -118.4347 },
+  { zip: '90025', city: 'Los Angeles', state: 'CA', latitude: 34.0453, longitude: -118.4451 },
+  { zip: '90026', city: 'Los Angeles', state: 'CA', latitude: 34.0766, longitude: -118.2646 },
+  { zip: '90027', city: 'Los Angeles', state: 'CA', latitude: 34.1044, longitude: -118.2929 },
+  { zip: '90028', city: 'Los Angeles', state: 'CA', latitude: 34.0992, longitude: -118.3264 },
+  { zip: '90029', city: 'Los Angeles', state: 'CA', latitude: 34.0895, longitude: -118.2944 },
+  { zip: '90034', city: 'Los Angeles', state: 'CA', latitude: 34.0290, longitude: -118.4005 },
+  { zip: '90035', city: 'Los Angeles', state: 'CA', latitude: 34.0525, longitude: -118.3834 },
+  { zip: '90036', city: 'Los Angeles', state: 'CA', latitude: 34.0700, longitude: -118.3490 },
+  { zip: '90038', city: 'Los Angeles', state: 'CA', latitude: 34.0890, longitude: -118.3271 },
+  { zip: '90039', city: 'Los Angeles', state: 'CA', latitude: 34.1121, longitude: -118.2596 },
+  { zip: '90041', city: 'Los Angeles', state: 'CA', latitude: 34.1377, longitude: -118.2078 },
+  { zip: '90042', city: 'Los Angeles', state: 'CA', latitude: 34.1148, longitude: -118.1923 },
+  { zip: '90045', city: 'Los Angeles', state: 'CA', latitude: 33.9561, longitude: -118.3987 },
+  { zip: '90046', city: 'Los Angeles', state: 'CA', latitude: 34.1072, longitude: -118.3650 },
+  { zip: '90048', city: 'Los Angeles', state: 'CA', latitude: 34.0732, longitude: -118.3728 },
+  { zip: '90049', city: 'Los Angeles', state: 'CA', latitude: 34.0917, longitude: -118.4914 },
+  { zip: '90056', city: 'Los Angeles', state: 'CA', latitude: 33.9884, longitude: -118.3707 },
+  { zip: '90057', city: 'Los Angeles', state: 'CA', latitude: 34.0621, longitude: -118.2776 },
+  { zip: '90064', city: 'Los Angeles', state: 'CA', latitude: 34.0372, longitude: -118.4252 },
+  { zip: '90066', city: 'Los Angeles', state: 'CA', latitude: 34.0025, longitude: -118.4301 },
+  { zip: '90067', city: 'Los Angeles', state: 'CA', latitude: 34.0576, longitude: -118.4134 },
+  { zip: '90068', city: 'Los Angeles', state: 'CA', latitude: 34.1281, longitude: -118.3283 },
+  { zip: '90069', city: 'West Hollywood', state: 'CA', latitude: 34.0900, longitude: -118.3814 },
+  { zip: '90071', city: 'Los Angeles', state: 'CA', latitude: 34.0522, longitude: -118.2551 },
+  { zip: '90077', city: 'Los Angeles', state: 'CA', latitude: 34.1080, longitude: -118.4560 },
+  { zip: '90094', city: 'Playa Vista', state: 'CA', latitude: 33.9760, longitude: -118.4170 },
+  { zip: '90210', city: 'Beverly Hills', state: 'CA', latitude: 34.1030, longitude: -118.4105 },
+  { zip: '90211', city: 'Beverly Hills', state: 'CA', latitude: 34.0650, longitude: -118.3830 },
+  { zip: '90212', city: 'Beverly Hills', state: 'CA', latitude: 34.0624, longitude: -118.4017 },
+  { zip: '90230', city: 'Culver City', state: 'CA', latitude: 33.9977, longitude: -118.3943 },
+  { zip: '90232', city: 'Culver City', state: 'CA', latitude: 34.0190, longitude: -118.3916 },
+  { zip: '90245', city: 'El Segundo', state: 'CA', latitude: 33.9170, longitude: -118.4018 },
+  { zip: '90254', city: 'Hermosa Beach', state: 'CA', latitude: 33.8643, longitude: -118.3960 },
+  { zip: '90266', city: 'Manhattan Beach', state: 'CA', latitude: 33.8896, longitude: -118.3995 },
+  { zip: '90272', city: 'Pacific Palisades', state: 'CA', latitude: 34.0480, longitude: -118.5260 },
+  { zip: '90291', city: 'Venice', state: 'CA', latitude: 33.9940, longitude: -118.4630 },
+  { zip: '90292', city: 'Marina del Rey', state: 'CA', latitude: 33.9770, longitude: -118.4450 },
+  { zip: '90301', city: 'Inglewood', state: 'CA', latitude: 33.9565, longitude: -118.3587 },
+  { zip: '90401', city: 'Santa Monica', state: 'CA', latitude: 34.0160, longitude: -118.4930 },
+  { zip: '90402', city: 'Santa Monica', state: 'CA', latitude: 34.0350, longitude: -118.5030 },
+  { zip: '90403', city: 'Santa Monica', state: 'CA', latitude: 34.0310, longitude: -118.4920 },
+  { zip: '90404', city: 'Santa Monica', state: 'CA', latitude: 34.0270, longitude: -118.4730 },
+  { zip: '90405', city: 'Santa Monica', state: 'CA', latitude: 34.0100, longitude: -118.4700 },
+  { zip: '90501', city: 'Torrance', state: 'CA', latitude: 33.8338, longitude: -118.3134 },
+  { zip: '90802', city: 'Long Beach', state: 'CA', latitude: 33.7670, longitude: -118.1960 },
+  { zip: '91101', city: 'Pasadena', state: 'CA', latitude: 34.1470, longitude: -118.1390 },
+  { zip: '91201', city: 'Glendale', state: 'CA', latitude: 34.1711, longitude: -118.2896 },
+  { zip: '91301', city: 'Agoura Hills', state: 'CA', latitude: 34.1240, longitude: -118.7570 },
+  { zip: '91403', city: 'Sherman Oaks', state: 'CA', latitude: 34.1520, longitude: -118.4630 },
+  { zip: '91423', city: 'Sherman Oaks', state: 'CA', latitude: 34.1500, longitude: -118.4330 },
+  { zip: '91505', city: 'Burbank', state: 'CA', latitude: 34.1740, longitude: -118.3450 },
+  { zip: '91601', city: 'North Hollywood', state: 'CA', latitude: 34.1683, longitude: -118.3715 },
+  { zip: '91604', city: 'Studio City', state: 'CA', latitude: 34.1420, longitude: -118.3920 }
+]
+
+/**
+ * Get ZIP Centroid
+ *
+ * @param zip - ZIP code, optionally ZIP+4 (e.g., "90210" or "90210-1234")
+ * @returns Centroid of the ZIP, or undefined if it is not in the table
+ */
+export const getZipCentroid = (zip: string): ZipCentroid | undefined => {
+  const fiveDigit = (zip || '').trim().slice(0, 5)
+  return zipCentroids.find(centroid => centroid.zip === fiveDigit)
+}
@@ -0,0 +1,284 @@
+/**
+ * AutoApprovalRules.tsx
+ *
+ * Admin screen for straight-through processing: the rules a new claim must
+ * pass to be approved automatically.
+ *
+ * Key Features:
+ * - Turn straight-through processing on or off
+ * - Enable, disable and tune each rule
+ * - Dry run of the edited rules against existing claims before saving
+ */
+
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Zap, Save, Play, CheckCircle, XCircle, Eye } from 'lucide-react'
+import { useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import {
+  AutoApprovalSettings,
+  AutoApprovalRuleType,
+  ruleDefinitions,
+  defaultAutoApprovalSettings,
+  loadAutoApprovalSettings,
+  saveAutoApprovalSettings,
+  validateAutoApprovalSettings,
+  dryRunAutoApproval
+} from '../services/autoApproval'
+import { statusLabels } from '../services/claimLifecycle'
+import { loadAuthorityTiers } from '../services/approvalAuthority'
+import NetPayableAmount from '../components/NetPayableAmount'
+
+const AutoApprovalRules: React.FC = () => {
+  const { state } = useClaims()
+  const { getDeniedReason } = useSession()
+  const [settings, setSettings] = useState<AutoApprovalSettings>(loadAutoApprovalSettings)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [saved, setSaved] = useState(false)
+  const [preview, setPreview] = useState<ReturnType<typeof dryRunAutoApproval> | null>(null)
+  const editDeniedReason = getDeniedReason('rules:edit')
+
+  /**
+   * Update Settings
+   *
+   * Applies a change to the edited settings. Any preview is cleared because
+   * it no longer reflects the rules on screen.
+   *
+   * @param next - Settings after the change
+   */
+  const updateSettings = (next: AutoApprovalSettings) => {
+    setSettings(next)
+    setSaved(false)
+    setPreview(null)
+  }
+
+  const updateRule = (type: AutoApprovalRuleType, changes: { enabled?: boolean; threshold?: number }) => {
+    updateSettings({
+      ...settings,
+      rules: settings.rules.map(rule => rule.type === type ? { ...rule, ...changes } : rule)
+    })
+  }
+
+  const handleSave = () => {
+    if (editDeniedReason) return
+
+    const validationErrors = validateAutoApprovalSettings(settings, loadAuthorityTiers())
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length > 0) return
+
+    try {
+      saveAutoApprovalSettings(settings)
+      setSaved(true)
+    } catch (error) {
+      console.error('Error saving auto-approval rules:', error)
+      setErrors({ save: 'Rules could not be saved. Please try again.' })
+    }
+  }
+
+  /**
+   * Handle Dry Run
+   *
+   * Evaluates the rules on screen against every existing claim without
+   * changing any claim.
+   */
+  const handleDryRun = () => {
+    const validationErrors = validateAutoApprovalSettings(settings, loadAuthorityTiers())
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length > 0) return
+
+    setPreview(dryRunAutoApproval(state.claims, settings))
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Straight-Through Processing</h1>
+        <p className="text-gray-600 mt-2">
+          New claims that pass every enabled rule are approved automatically instead of waiting in the approval queue.
+        </p>
+      </div>
+
+      {/* Rules */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Zap className="w-5 h-5 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Rules</h2>
+          </div>
+          <div className="flex items-center gap-3">
+            {saved && <span className="text-sm text-green-600">Saved</span>}
+            <button
+              onClick={() => updateSettings(defaultAutoApprovalSettings)}
+              disabled={!!editDeniedReason}
+              title={editDeniedReason || undefined}
+              className="btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!!editDeniedReason}
+              title={editDeniedReason || undefined}
+              className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4" />
+              Save Rules
+            </button>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-3 mb-6">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => updateSettings({ ...settings, enabled: e.target.checked })}
+            disabled={!!editDeniedReason}
+          />
+          <span className="font-medium text-gray-900">Auto-approve new claims that pass all enabled rules</span>
+        </label>
+
+        <div className="divide-y divide-gray-200">
+          {settings.rules.map(rule => {
+            const definition = ruleDefinitions[rule.type]
+            return (
+              <div key={rule.type} className="py-4 flex items-start justify-between gap-6">
+                <label className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={rule.enabled || !!definition.mandatory}
+                    onChange={(e) => updateRule(rule.type, { enabled: e.target.checked })}
+                    disabled={!!editDeniedReason || definition.mandatory}
+                  />
+                  <div>
+                    <p className="font-medium text-gray-900">{definition.label}</p>
+                    <p className="text-sm text-gray-600">{definition.description}</p>
+                  </div>
+                </label>
+                {definition.thresholdLabel && (
+                  <div className="w-48">
+                    <label className="block text-xs font-medium text-gray-700 mb-1">{definition.thresholdLabel}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={rule.threshold === undefined || Number.isNaN(rule.threshold) ? '' : rule.threshold}
+                      onChange={(e) => updateRule(rule.type, { threshold: parseFloat(e.target.value) })}
+                      disabled={!!editDeniedReason || !rule.enabled}
+                      className={`input-field ${errors[rule.type] ? 'border-red-500' : ''}`}
+                    />
+                    {errors[rule.type] && <p className="text-red-500 text-sm mt-1">{errors[rule.type]}</p>}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {errors.rules && <p className="text-red-500 text-sm mt-2">{errors.rules}</p>}
+        {errors.save && <p className="text-red-500 text-sm mt-2">{errors.save}</p>}
+        {editDeniedReason && <p className="text-sm text-gray-600 mt-2">{editDeniedReason}</p>}
+        <p className="text-xs text-gray-500 mt-4">
+          Saved rules apply to claims submitted afterwards. Existing claims keep the results they were evaluated with.
+        </p>
+      </div>
+
+      {/* Dry Run */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Dry Run</h2>
+            <p className="text-sm text-gray-600">
+              Preview the rules above against the {state.claims.length} existing claim(s). No claim is changed.
+            </p>
+          </div>
+          <button onClick={handleDryRun} className="btn-secondary flex items-center gap-2">
+            <Play className="w-4 h-4" />
+            Run Preview
+          </button>
+        </div>
+
+        {preview && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 bg-green-50 rounded-lg">
+                <p className="text-sm text-green-800">Would auto-approve</p>
+                <p className="text-2xl font-bold text-green-900">
+                  {preview.approvedCount} of {preview.evaluations.length}
+                </p>
+              </div>
+              <div className="md:col-span-2 p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-2">Claims stopped by each rule</p>
+                <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  {settings.rules.filter(rule => rule.enabled || ruleDefinitions[rule.type].mandatory).map(rule => (
+                    <div key={rule.type} className="flex justify-between">
+                      <span className="text-gray-600">{ruleDefinitions[rule.type].label}</span>
+                      <span className="font-medium text-gray-900">{preview.failuresByRule[rule.type] || 0}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Claim</th>
+                    <th className="py-2 pr-4 font-medium">Current Status</th>
+                    <th className="py-2 pr-4 font-medium text-right">Total</th>
+                    <th className="py-2 pr-4 font-medium">Result</th>
+                    <th className="py-2 font-medium"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.evaluations.map(({ claim, evaluation }) => (
+                    <tr key={claim.id}>
+                      <td className="py-2 pr-4">
+                        <p className="text-gray-900">{claim.policyNumber}</p>
+                        <p className="text-xs text-gray-500">{claim.customerName}</p>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600">{statusLabels[claim.status]}</td>
+                      <td className="py-2 pr-4 text-right">
+                        <p className="text-gray-900">${claim.totalEstimatedCost.toLocaleString()}</p>
+                        <NetPayableAmount claim={claim} className="text-xs" />
+                      </td>
+                      <td className="py-2 pr-4">
+                        {evaluation.approved ? (
+                          <span className="flex items-center gap-1 text-green-700">
+                            <CheckCircle className="w-4 h-4" />
+                            Auto-approve
+                          </span>
+                        ) : (
+                          <div>
+                            <span className="flex items-center gap-1 text-red-700">
+                              <XCircle className="w-4 h-4" />
+                              Manual review
+                            </span>
+                            {evaluation.results.filter(result => !result.passed).map(result => (
+                              <p key={result.type} className="text-xs text-gray-500">
+                                {ruleDefinitions[result.type].label}: {result.detail}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Link to={`/claim/${claim.id}`} className="text-primary-600 hover:text-primary-700 flex items-center justify-end">
+                          <Eye className="w-4 h-4 mr-1" />
+                          View
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AutoApprovalRules
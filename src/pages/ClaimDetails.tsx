@@ -1,7 +1,38 @@
 import React, { useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
 import { useClaims } from '../context/ClaimsContext'
-import { repairShops, getRepairShopById } from '../data/repairShops'
+import { useSession } from '../context/SessionContext'
+import { transitionPermissions } from '../services/permissions'
+import { getAvailableTransitions, TransitionRule, LifecycleAction, statusLabels } from '../services/claimLifecycle'
+import {
+  loadAuthorityTiers,
+  validateApproval,
+  getApprovalOutcome,
+  getNextApprovalRole,
+  getCurrentSignOffs,
+  getRequiredApprovalRole
+} from '../services/approvalAuthority'
+import { roleLabels } from '../data/users'
+import ReasonModal from '../components/ReasonModal'
+import { getRepairShopById, useRepairShops } from '../services/shopStore'
+import MediaThumbnail from '../components/MediaThumbnail'
+import ClaimActivityLog from '../components/ClaimActivityLog'
+import EstimateBreakdown from '../components/EstimateBreakdown'
+import ShopEstimateComparison from '../components/ShopEstimateComparison'
+import SupplementsPanel from '../components/SupplementsPanel'
+import { buildEstimate } from '../services/estimateEngine'
+import { getApprovedSupplementTotal } from '../services/supplements'
+import { ruleDefinitions } from '../services/autoApproval'
+import { getLedgerSummary } from '../services/claimLedger'
+import { recommendShops } from '../services/shopRecommendation'
+import { getCustomerLocation, getShopDistance, formatDistance } from '../services/geoDistance'
+import FraudRiskBadge from '../components/FraudRiskBadge'
+import NetPayableAmount from '../components/NetPayableAmount'
+import ClaimFinancials from '../components/ClaimFinancials'
+import ShopOpenStatusBadge from '../components/ShopOpenStatusBadge'
+import AppointmentBooking from '../components/AppointmentBooking'
+import RepairOrderTracker from '../components/RepairOrderTracker'
+import { getShopBookings, getRepairDays, getWaitEstimate, describeWait } from '../services/shopBooking'
 import { 
   ArrowLeft, 
   CheckCircle, 
@@ -20,15 +51,29 @@ import {
   BookOpen,
   MapPin,
   Star,
-  Wrench
+  Wrench,
+  RotateCcw,
+  Calculator,
+  UserCheck,
+  Zap,
+  Copy,
+  ShieldAlert,
+  Banknote,
+  Archive,
+  Lock
 } from 'lucide-react'
 
 const ClaimDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
-  const { getClaim, updateClaim, state } = useClaims()
+  const { getClaim, updateClaim, changeClaimStatus, cancelAppointment, state } = useClaims()
+  const { user, getDeniedReason, getClaimDeniedReason } = useSession()
   const [isUpdating, setIsUpdating] = useState(false)
   const [showRepairShopSelector, setShowRepairShopSelector] = useState(false)
+  const [reasonTransition, setReasonTransition] = useState<TransitionRule | null>(null)
+  const [statusError, setStatusError] = useState('')
+  const [activeTab, setActiveTab] = useState<'overview' | 'activity'>('overview')
+  const shops = useRepairShops()
   
   const claim = id ? getClaim(id) : null
 
@@ -58,14 +103,37 @@ const ClaimDetails: React.FC = () => {
     )
   }
 
+  const accessDeniedReason = getClaimDeniedReason(claim)
+  if (accessDeniedReason) {
+    return (
+      <div className="max-w-xl mx-auto card text-center py-12">
+        <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Restricted</h2>
+        <p className="text-gray-600 mb-6">{accessDeniedReason}</p>
+        <button
+          onClick={() => navigate('/')}
+          className="btn-primary"
+        >
+          Back to Dashboard
+        </button>
+      </div>
+    )
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
         return <Clock className="h-5 w-5 text-yellow-600" />
       case 'processing':
         return <AlertTriangle className="h-5 w-5 text-orange-600" />
+      case 'awaiting_second_approval':
+        return <UserCheck className="h-5 w-5 text-purple-600" />
       case 'approved':
         return <CheckCircle className="h-5 w-5 text-green-600" />
+      case 'paid':
+        return <Banknote className="h-5 w-5 text-teal-600" />
+      case 'closed':
+        return <Archive className="h-5 w-5 text-gray-600" />
       case 'rejected':
         return <XCircle className="h-5 w-5 text-red-600" />
       default:
@@ -79,8 +147,14 @@ const ClaimDetails: React.FC = () => {
         return 'status-pending'
       case 'processing':
         return 'status-processing'
+      case 'awaiting_second_approval':
+        return 'status-awaiting'
       case 'approved':
         return 'status-approved'
+      case 'paid':
+        return 'status-paid'
+      case 'closed':
+        return 'status-closed'
       case 'rejected':
         return 'status-rejected'
       default:
@@ -103,20 +177,75 @@ const ClaimDetails: React.FC = () => {
     })
   }
 
-  const handleStatusUpdate = async (newStatus: 'pending' | 'processing' | 'approved' | 'rejected') => {
+  /**
+   * Handle Status Update
+   * 
+   * Applies a lifecycle transition to the claim. Transitions that require a
+   * reason open the reason dialog first and are applied once it is confirmed.
+   * 
+   * @param rule - Lifecycle transition chosen by the user
+   * @param reason - Reason entered in the dialog (for reject and reopen)
+   */
+  const handleStatusUpdate = async (rule: TransitionRule, reason?: string) => {
+    if (rule.requiresReason && !reason) {
+      setReasonTransition(rule)
+      return
+    }
+    
+    setReasonTransition(null)
+    setStatusError('')
     setIsUpdating(true)
     
     // Simulate API call
     await new Promise(resolve => setTimeout(resolve, 1000))
     
-    updateClaim(claim.id, { 
-      status: newStatus,
-      processingTime: claim.processingTime || 3
-    })
+    const error = changeClaimStatus(claim.id, rule.to, reason)
+    if (error) {
+      setStatusError(error)
+    } else if (!claim.processingTime) {
+      updateClaim(claim.id, { processingTime: 3 })
+    }
     
     setIsUpdating(false)
   }
 
+  const getTransitionButtonClass = (action: LifecycleAction) => {
+    switch (action) {
+      case 'start_processing': return 'btn-primary'
+      case 'approve': return 'btn-success'
+      case 'reject': return 'btn-danger'
+      case 'close': return 'btn-primary'
+      default: return 'btn-secondary'
+    }
+  }
+
+  const getTransitionIcon = (action: LifecycleAction) => {
+    switch (action) {
+      case 'start_processing':
+        return <AlertTriangle className={`h-4 w-4 ${isUpdating ? 'animate-spin' : ''}`} />
+      case 'approve':
+        return <CheckCircle className="h-4 w-4" />
+      case 'reject':
+        return <XCircle className="h-4 w-4" />
+      case 'close':
+        return <Archive className="h-4 w-4" />
+      default:
+        return <RotateCcw className="h-4 w-4" />
+    }
+  }
+
+  const getStatusDotColor = (status: string) => {
+    switch (status) {
+      case 'approved': return 'bg-green-500'
+      case 'paid': return 'bg-teal-500'
+      case 'closed': return 'bg-gray-500'
+      case 'rejected': return 'bg-red-500'
+      case 'processing': return 'bg-orange-500'
+      case 'awaiting_second_approval': return 'bg-purple-500'
+      default: return 'bg-yellow-500'
+    }
+  }
+
   const getDamageTypeIcon = (type: string) => {
     switch (type) {
       case 'scratch': return '🔨'
@@ -137,15 +266,59 @@ const ClaimDetails: React.FC = () => {
     }
   }
 
+  // Why the signed-in user may not edit the claim (null if they may)
+  const editDeniedReason = getDeniedReason('claim:edit')
+
+  // Approval routing for the signed-in user: whether their sign-off approves or escalates the claim
+  const authorityTiers = loadAuthorityTiers()
+  const approvalOutcome = getApprovalOutcome(claim, user, authorityTiers)
+  const nextApprovalRole = getNextApprovalRole(user.role, authorityTiers)
+  const currentSignOffs = getCurrentSignOffs(claim)
+  const duplicateFlags = claim.duplicateFlags || []
+  const outstandingReserve = getLedgerSummary(claim.ledger).outstanding
+
+  // Lifecycle actions from the current status, with why each one is unavailable to the user
+  const transitions = getAvailableTransitions(claim.status).map(rule => ({
+    rule,
+    label: rule.action === 'approve' && approvalOutcome === 'escalated' && nextApprovalRole
+      ? `Approve & Send to ${roleLabels[nextApprovalRole]}`
+      : rule.label,
+    deniedReason: getDeniedReason(transitionPermissions[rule.action]) ||
+      (rule.action === 'approve' ? validateApproval(claim, user, authorityTiers) : null) ||
+      (rule.action === 'close' && outstandingReserve > 0
+        ? `$${outstandingReserve.toLocaleString()} of the reserve is still outstanding`
+        : null)
+  }))
+  const transitionDeniedReasons = Array.from(new Set(
+    transitions.map(({ deniedReason }) => deniedReason).filter((reason): reason is string => !!reason)
+  ))
+
   // Repair shop helper functions
+  const shopRecommendations = recommendShops(claim, shops.filter(shop => shop.status === 'active'), state.claims)
+
   const getCurrentRepairShop = () => {
-    return claim.repairShopId ? getRepairShopById(claim.repairShopId) || repairShops[0] : repairShops[0]
+    return claim.repairShopId
+      ? getRepairShopById(claim.repairShopId)
+      : shopRecommendations[0]?.shop
   }
 
   const handleRepairShopChange = async (shopId: string) => {
     setIsUpdating(true)
     try {
-      await updateClaim(claim.id, { repairShopId: shopId })
+      const editDeniedReason = getDeniedReason('claim:edit')
+      if (editDeniedReason) {
+        setStatusError(editDeniedReason)
+        return
+      }
+      // A drop-off booked at the previous shop no longer applies
+      if (claim.appointment && claim.appointment.shopId !== shopId) {
+        cancelAppointment(claim.id, 'Repair shop changed')
+      }
+      const error = updateClaim(claim.id, { repairShopId: shopId })
+      if (error) {
+        setStatusError(error)
+        return
+      }
       setShowRepairShopSelector(false)
     } catch (error) {
       console.error('Error updating repair shop:', error)
@@ -154,6 +327,18 @@ const ClaimDetails: React.FC = () => {
     }
   }
 
+  /**
+   * Handle Generate Estimate
+   * 
+   * Prices the claim's assessments into an itemized estimate. Used for claims
+   * submitted before estimates were itemized. Approved supplements stay on
+   * top of the new estimate.
+   */
+  const handleGenerateEstimate = () => {
+    const estimate = buildEstimate(claim.damageAssessments)
+    setStatusError(updateClaim(claim.id, { estimate, totalEstimatedCost: estimate.total + getApprovedSupplementTotal(claim) }) || '')
+  }
+
   const getRatingStars = (rating: number) => {
     return Array.from({ length: 5 }, (_, i) => (
       <Star
@@ -184,15 +369,67 @@ const ClaimDetails: React.FC = () => {
           <div className="flex items-center space-x-2">
             {getStatusIcon(claim.status)}
             <span className={`status-badge ${getStatusColor(claim.status)}`}>
-              {claim.status.charAt(0).toUpperCase() + claim.status.slice(1)}
+              {statusLabels[claim.status]}
             </span>
           </div>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-8">
+          {(['overview', 'activity'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === tab
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'overview' ? 'Overview' : `Activity (${claim.auditLog?.length || 0})`}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'activity' && <ClaimActivityLog claim={claim} />}
+
+      <div className={`grid grid-cols-1 lg:grid-cols-3 gap-8 ${activeTab === 'overview' ? '' : 'hidden'}`}>
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Possible Duplicates */}
+          {duplicateFlags.length > 0 && (
+            <div className="card border border-orange-200 bg-orange-50">
+              <div className="flex items-center gap-2 mb-2">
+                <Copy className="h-5 w-5 text-orange-600" />
+                <h2 className="text-lg font-semibold text-orange-900">Possible Duplicate Claims</h2>
+              </div>
+              <p className="text-sm text-orange-800 mb-4">
+                This claim overlaps with {duplicateFlags.length} other claim(s). Check them before approving.
+              </p>
+              <div className="space-y-3">
+                {duplicateFlags.map(flag => {
+                  const other = getClaim(flag.claimId)
+                  return (
+                    <div key={flag.claimId} className="p-3 bg-white rounded-lg border border-orange-100">
+                      {other ? (
+                        <Link to={`/claim/${other.id}`} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+                          {other.policyNumber} • {other.customerName} • {other.vehicleYear} {other.vehicleMake} {other.vehicleModel} ({statusLabels[other.status]})
+                        </Link>
+                      ) : (
+                        <p className="text-sm text-gray-500">Claim {flag.claimId} is no longer available</p>
+                      )}
+                      <p className="text-xs text-gray-600 mt-1">{flag.reasons.join(' • ')}</p>
+                      <p className="text-xs text-gray-500">Detected {formatDate(flag.detectedAt)}</p>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Customer & Vehicle Information */}
           <div className="card">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Customer & Vehicle Information</h2>
@@ -248,6 +485,12 @@ const ClaimDetails: React.FC = () => {
                   <div>
                     <p className="text-sm text-gray-600">Total Estimated Cost</p>
                     <p className="font-medium text-gray-900">${claim.totalEstimatedCost.toLocaleString()}</p>
+                    {getApprovedSupplementTotal(claim) > 0 && (
+                      <p className="text-xs text-gray-500">
+                        Includes ${getApprovedSupplementTotal(claim).toLocaleString()} in supplements
+                      </p>
+                    )}
+                    <NetPayableAmount claim={claim} />
                   </div>
                 </div>
               </div>
@@ -265,8 +508,9 @@ const ClaimDetails: React.FC = () => {
               <h2 className="text-xl font-semibold text-gray-900">Repair Shop Assignment</h2>
               <button
                 onClick={() => setShowRepairShopSelector(!showRepairShopSelector)}
-                className="btn-secondary flex items-center space-x-2"
-                disabled={isUpdating}
+                className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isUpdating || !!editDeniedReason}
+                title={editDeniedReason || undefined}
               >
                 <Edit className="h-4 w-4" />
                 <span>Change Shop</span>
@@ -277,79 +521,111 @@ const ClaimDetails: React.FC = () => {
               const currentShop = getCurrentRepairShop()
               return (
                 <div className="space-y-4">
-                  <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-2">
-                          <Wrench className="h-5 w-5 text-primary-600" />
-                          <h3 className="text-lg font-semibold text-gray-900">{currentShop.name}</h3>
-                        </div>
-                        
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div className="space-y-2">
-                            <div className="flex items-center space-x-2 text-sm text-gray-600">
-                              <MapPin className="h-4 w-4" />
-                              <span>{currentShop.address}, {currentShop.city}, {currentShop.state} {currentShop.zipCode}</span>
-                            </div>
-                            <div className="flex items-center space-x-2 text-sm text-gray-600">
-                              <Phone className="h-4 w-4" />
-                              <span>{currentShop.phone}</span>
-                            </div>
-                            <div className="flex items-center space-x-2 text-sm text-gray-600">
-                              <Mail className="h-4 w-4" />
-                              <span>{currentShop.email}</span>
-                            </div>
+                  {currentShop ? (
+                    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-3 mb-2">
+                            <Wrench className="h-5 w-5 text-primary-600" />
+                            <h3 className="text-lg font-semibold text-gray-900">{currentShop.name}</h3>
+                            {shopRecommendations[0]?.shop.id === currentShop.id && (
+                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                Top recommendation
+                              </span>
+                            )}
+                            {currentShop.status === 'suspended' && (
+                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                Suspended from the network
+                              </span>
+                            )}
                           </div>
                           
-                          <div className="space-y-2">
-                            <div className="flex items-center space-x-2">
-                              <div className="flex items-center space-x-1">
-                                {getRatingStars(currentShop.rating)}
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                                <MapPin className="h-4 w-4" />
+                                <span>{currentShop.address}, {currentShop.city}, {currentShop.state} {currentShop.zipCode}</span>
+                              </div>
+                              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                                <Phone className="h-4 w-4" />
+                                <span>{currentShop.phone}</span>
+                              </div>
+                              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                                <Mail className="h-4 w-4" />
+                                <span>{currentShop.email}</span>
                               </div>
-                              <span className="text-sm text-gray-600">
-                                {currentShop.rating} ({currentShop.reviewCount} reviews)
-                              </span>
-                            </div>
-                            <div className="text-sm text-gray-600">
-                              <span className="font-medium">Distance:</span> {currentShop.distance} mi away
-                            </div>
-                            <div className="text-sm text-gray-600">
-                              <span className="font-medium">Est. Wait Time:</span> {currentShop.estimatedWaitTime}
                             </div>
-                            <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                              currentShop.isOpen ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                            }`}>
-                              {currentShop.isOpen ? 'Open Now' : 'Closed'}
+                            
+                            <div className="space-y-2">
+                              <div className="flex items-center space-x-2">
+                                <div className="flex items-center space-x-1">
+                                  {getRatingStars(currentShop.rating)}
+                                </div>
+                                <span className="text-sm text-gray-600">
+                                  {currentShop.rating} ({currentShop.reviewCount} reviews)
+                                </span>
+                              </div>
+                              <div className="text-sm text-gray-600">
+                                <span className="font-medium">Distance:</span>{' '}
+                                {formatDistance(getShopDistance(currentShop, getCustomerLocation(claim)))}
+                                {claim.customerZip && ` from ${claim.customerZip}`}
+                              </div>
+                              <div className="text-sm text-gray-600">
+                                <span className="font-medium">Wait Time:</span>{' '}
+                                {describeWait(getWaitEstimate(
+                                  currentShop,
+                                  getShopBookings(currentShop.id, state.claims.filter(other => other.id !== claim.id)),
+                                  getRepairDays(claim)
+                                ))}
+                              </div>
+                              <ShopOpenStatusBadge shop={currentShop} showDetail />
                             </div>
                           </div>
-                        </div>
 
-                        <div className="mt-4 pt-4 border-t border-gray-200">
-                          <div className="flex flex-wrap gap-2">
-                            {currentShop.specialties.map((specialty, index) => (
-                              <span key={index} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                                {specialty}
-                              </span>
-                            ))}
+                          <div className="mt-4 pt-4 border-t border-gray-200">
+                            <div className="flex flex-wrap gap-2">
+                              {currentShop.specialties.map((specialty, index) => (
+                                <span key={index} className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                  {specialty}
+                                </span>
+                              ))}
+                            </div>
                           </div>
                         </div>
                       </div>
                     </div>
-                  </div>
+                  ) : (
+                    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 text-sm text-gray-600">
+                      {claim.repairShopId
+                        ? 'The assigned repair shop is no longer in the network. Choose another shop.'
+                        : 'No active repair shops are available.'}
+                    </div>
+                  )}
+
+                  {/* Drop-off Appointment */}
+                  {currentShop && <AppointmentBooking claim={claim} shop={currentShop} />}
 
                   {/* Repair Shop Selector */}
                   {showRepairShopSelector && (
                     <div className="border border-gray-200 rounded-lg p-4 bg-white">
-                      <h4 className="font-medium text-gray-900 mb-4">Select Alternative Repair Shop</h4>
-                      <div className="space-y-3 max-h-64 overflow-y-auto">
-                        {repairShops
-                          .filter(shop => shop.id !== currentShop.id)
-                          .map((shop) => (
+                      <h4 className="font-medium text-gray-900 mb-1">Select Alternative Repair Shop</h4>
+                      <p className="text-xs text-gray-500 mb-4">
+                        Ranked by fit with this claim's damage, distance, rating, wait time and open status.{' '}
+                        <Link to={`/repair-shops?claimId=${claim.id}`} className="text-primary-600 hover:text-primary-700">
+                          Compare all shops
+                        </Link>
+                      </p>
+                      <div className="space-y-3 max-h-96 overflow-y-auto">
+                        {shopRecommendations
+                          .filter(({ shop }) => shop.id !== currentShop?.id)
+                          .map(({ shop, rank, score, factors, distance }) => (
                             <div key={shop.id} className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50 cursor-pointer">
                               <div className="flex items-center justify-between">
                                 <div className="flex-1">
                                   <div className="flex items-center space-x-2 mb-1">
+                                    <span className="text-sm font-semibold text-primary-700">#{rank}</span>
                                     <h5 className="font-medium text-gray-900">{shop.name}</h5>
+                                    <span className="text-xs text-gray-500">{score}/100</span>
                                     <div className="flex items-center space-x-1">
                                       {getRatingStars(shop.rating)}
                                     </div>
@@ -357,15 +633,20 @@ const ClaimDetails: React.FC = () => {
                                   <div className="text-sm text-gray-600">
                                     <div>{shop.address}, {shop.city}</div>
                                     <div className="flex items-center space-x-4 mt-1">
-                                      <span>{shop.distance} mi away</span>
-                                      <span>Est. {shop.estimatedWaitTime}</span>
-                                      <span className={`px-2 py-1 rounded-full text-xs ${
-                                        shop.isOpen ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                                      }`}>
-                                        {shop.isOpen ? 'Open' : 'Closed'}
-                                      </span>
+                                      <span>{formatDistance(distance)}</span>
+                                      <ShopOpenStatusBadge shop={shop} />
                                     </div>
                                   </div>
+                                  <ul className="mt-2 space-y-0.5 text-xs text-gray-500">
+                                    {factors.map(factor => (
+                                      <li key={factor.type}>
+                                        <span className="font-medium text-gray-700">
+                                          {factor.label} {factor.points}/{factor.maxPoints}:
+                                        </span>{' '}
+                                        {factor.detail}
+                                      </li>
+                                    ))}
+                                  </ul>
                                 </div>
                                 <button
                                   onClick={() => handleRepairShopChange(shop.id)}
@@ -411,6 +692,14 @@ const ClaimDetails: React.FC = () => {
                           <p className="text-sm text-gray-600">
                             Confidence: {Math.round(assessment.confidence * 100)}%
                           </p>
+                          {assessment.catalogItemId && (
+                            <Link
+                              to={`/repair-costs?item=${assessment.catalogItemId}`}
+                              className="text-xs text-primary-600 hover:text-primary-700 font-mono"
+                            >
+                              Catalog item {assessment.catalogItemId}
+                            </Link>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
@@ -450,6 +739,46 @@ const ClaimDetails: React.FC = () => {
             </div>
           </div>
 
+          {/* Itemized Estimate */}
+          <div className="card">
+            <div className="flex items-center space-x-2 mb-6">
+              <Calculator className="h-5 w-5 text-gray-600" />
+              <h2 className="text-xl font-semibold text-gray-900">Itemized Estimate</h2>
+            </div>
+            
+            {claim.estimate ? (
+              <EstimateBreakdown estimate={claim.estimate} />
+            ) : (
+              <div className="text-center py-6">
+                <p className="text-gray-600 mb-4">
+                  This claim was submitted before estimates were itemized.
+                </p>
+                {claim.damageAssessments.length > 0 && (claim.status === 'pending' || claim.status === 'processing') && (
+                  <button
+                    onClick={handleGenerateEstimate}
+                    disabled={!!editDeniedReason}
+                    title={editDeniedReason || undefined}
+                    className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Generate Itemized Estimate
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Shop Estimate */}
+          <ShopEstimateComparison claim={claim} />
+
+          {/* Estimate History and Supplements */}
+          <SupplementsPanel claim={claim} />
+
+          {/* Financials */}
+          <ClaimFinancials claim={claim} />
+
+          {/* Repair Progress */}
+          <RepairOrderTracker claim={claim} />
+
           {/* Photos */}
           {(claim.photos.length > 0 || claim.videos.length > 0) && (
             <div className="card">
@@ -457,8 +786,9 @@ const ClaimDetails: React.FC = () => {
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                 {claim.photos.map((photo, index) => (
                   <div key={`photo-${index}`} className="relative group">
-                    <img
-                      src={photo}
+                    <MediaThumbnail
+                      mediaId={photo}
+                      kind="photo"
                       alt={`Damage photo ${index + 1}`}
                       className="w-full h-32 object-cover rounded-lg"
                     />
@@ -471,11 +801,11 @@ const ClaimDetails: React.FC = () => {
                 ))}
                 {claim.videos.map((video, index) => (
                   <div key={`video-${index}`} className="relative group">
-                    <video
-                      src={video}
+                    <MediaThumbnail
+                      mediaId={video}
+                      kind="video"
                       className="w-full h-32 object-cover rounded-lg"
                       controls
-                      preload="metadata"
                     />
                     <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all duration-200 rounded-lg flex items-center justify-center">
                       <button className="opacity-0 group-hover:opacity-100 transition-opacity p-2 bg-white rounded-full">
@@ -496,73 +826,147 @@ const ClaimDetails: React.FC = () => {
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Claim Actions</h3>
             
             <div className="space-y-3">
-              {claim.status === 'pending' && (
-                <>
-                  <button
-                    onClick={() => handleStatusUpdate('processing')}
-                    disabled={isUpdating}
-                    className="w-full btn-primary flex items-center justify-center space-x-2"
-                  >
-                    {isUpdating ? (
-                      <AlertTriangle className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <AlertTriangle className="h-4 w-4" />
-                    )}
-                    <span>Start Processing</span>
-                  </button>
-                  
-                  <button
-                    onClick={() => handleStatusUpdate('approved')}
-                    disabled={isUpdating}
-                    className="w-full btn-success flex items-center justify-center space-x-2"
-                  >
-                    <CheckCircle className="h-4 w-4" />
-                    <span>Approve Claim</span>
-                  </button>
-                  
-                  <button
-                    onClick={() => handleStatusUpdate('rejected')}
-                    disabled={isUpdating}
-                    className="w-full btn-danger flex items-center justify-center space-x-2"
-                  >
-                    <XCircle className="h-4 w-4" />
-                    <span>Reject Claim</span>
-                  </button>
-                </>
-              )}
-              
-              {claim.status === 'processing' && (
-                <>
-                  <button
-                    onClick={() => handleStatusUpdate('approved')}
-                    disabled={isUpdating}
-                    className="w-full btn-success flex items-center justify-center space-x-2"
-                  >
-                    <CheckCircle className="h-4 w-4" />
-                    <span>Approve Claim</span>
-                  </button>
-                  
-                  <button
-                    onClick={() => handleStatusUpdate('rejected')}
-                    disabled={isUpdating}
-                    className="w-full btn-danger flex items-center justify-center space-x-2"
-                  >
-                    <XCircle className="h-4 w-4" />
-                    <span>Reject Claim</span>
-                  </button>
-                </>
-              )}
-              
-              {(claim.status === 'approved' || claim.status === 'rejected') && (
+              {(claim.status === 'approved' || claim.status === 'paid' ||
+                claim.status === 'closed' || claim.status === 'rejected') && (
                 <div className="text-center py-4">
                   <p className="text-sm text-gray-600">
                     Claim has been {claim.status}
                   </p>
                 </div>
               )}
+              
+              {transitions.map(({ rule, label, deniedReason }) => (
+                <button
+                  key={rule.action}
+                  onClick={() => handleStatusUpdate(rule)}
+                  disabled={isUpdating || !!deniedReason}
+                  title={deniedReason || undefined}
+                  className={`w-full ${getTransitionButtonClass(rule.action)} flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  {getTransitionIcon(rule.action)}
+                  <span>{label}</span>
+                </button>
+              ))}
+              
+              {transitionDeniedReasons.map(reason => (
+                <p key={reason} className="text-xs text-gray-500">{reason}</p>
+              ))}
+              
+              {statusError && (
+                <p className="text-red-500 text-sm">{statusError}</p>
+              )}
             </div>
           </div>
 
+          {/* Approval Sign-offs */}
+          {(claim.status === 'awaiting_second_approval' || (claim.signOffs || []).length > 0) && (
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Approval Sign-offs</h3>
+              
+              {claim.status === 'awaiting_second_approval' && (
+                <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800">
+                  {(() => {
+                    const lastSignOff = currentSignOffs[currentSignOffs.length - 1]
+                    const nextRole = (lastSignOff && getNextApprovalRole(lastSignOff.role, authorityTiers)) ||
+                      getRequiredApprovalRole(claim.totalEstimatedCost, authorityTiers)
+                    return (
+                      <>
+                        Awaiting sign-off from a {roleLabels[nextRole]}.
+                        {lastSignOff && lastSignOff.authorityLimit !== null && (
+                          <> ${claim.totalEstimatedCost.toLocaleString()} exceeds the {roleLabels[lastSignOff.role]} limit of ${lastSignOff.authorityLimit.toLocaleString()}.</>
+                        )}
+                      </>
+                    )
+                  })()}
+                </div>
+              )}
+              
+              <div className="space-y-3">
+                {(claim.signOffs || []).map(signOff => (
+                  <div key={signOff.id} className="flex items-start space-x-3">
+                    <UserCheck className={`h-4 w-4 mt-0.5 ${signOff.decision === 'approved' ? 'text-green-600' : 'text-purple-600'}`} />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {signOff.actor.name} ({roleLabels[signOff.role]})
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {signOff.decision === 'approved' ? 'Approved' : 'Signed off and escalated'} at ${signOff.amount.toLocaleString()}
+                        {' '}• limit {signOff.authorityLimit === null ? 'none' : `$${signOff.authorityLimit.toLocaleString()}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(signOff.at)} at {formatTime(signOff.at)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Fraud Risk */}
+          {claim.fraudRisk && (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-primary-600" />
+                  <h3 className="text-lg font-semibold text-gray-900">Fraud Risk</h3>
+                </div>
+                <FraudRiskBadge fraudRisk={claim.fraudRisk} />
+              </div>
+              {claim.fraudRisk.indicators.length === 0 ? (
+                <p className="text-sm text-gray-600">No fraud indicators found.</p>
+              ) : (
+                <div className="space-y-3">
+                  {claim.fraudRisk.indicators.map(indicator => (
+                    <div key={indicator.type} className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{indicator.label}</p>
+                        <p className="text-xs text-gray-600">{indicator.detail}</p>
+                      </div>
+                      <span className="text-xs font-medium text-gray-500">+{indicator.weight}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-3">
+                Scored {formatDate(claim.fraudRisk.assessedAt)} at {formatTime(claim.fraudRisk.assessedAt)}
+              </p>
+            </div>
+          )}
+
+          {/* Straight-Through Processing */}
+          {claim.autoApproval && (
+            <div className="card">
+              <div className="flex items-center gap-2 mb-4">
+                <Zap className="h-5 w-5 text-primary-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Straight-Through Processing</h3>
+              </div>
+              <p className={`text-sm font-medium mb-3 ${claim.autoApproval.approved ? 'text-green-700' : 'text-gray-700'}`}>
+                {claim.autoApproval.approved
+                  ? 'Auto-approved: every rule passed'
+                  : 'Sent for manual review: not every rule passed'}
+              </p>
+              <div className="space-y-2">
+                {claim.autoApproval.results.map(result => (
+                  <div key={result.type} className="flex items-start space-x-2">
+                    {result.passed ? (
+                      <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+                    )}
+                    <div>
+                      <p className="text-sm text-gray-900">{ruleDefinitions[result.type].label}</p>
+                      <p className="text-xs text-gray-600">{result.detail}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Evaluated {formatDate(claim.autoApproval.evaluatedAt)} at {formatTime(claim.autoApproval.evaluatedAt)}
+              </p>
+            </div>
+          )}
+
           {/* Claim Timeline */}
           <div className="card">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Claim Timeline</h3>
@@ -586,10 +990,32 @@ const ClaimDetails: React.FC = () => {
                     <p className="text-xs text-gray-600">
                       Processing time: {claim.processingTime || 3} minutes
                     </p>
+                    {claim.analysisMetadata && (
+                      <p className="text-xs text-gray-600">
+                        Analyzer: {claim.analysisMetadata.analyzerName}
+                      </p>
+                    )}
                   </div>
                 </div>
               )}
               
+              {(claim.statusHistory || []).map((transition) => (
+                <div key={transition.id} className="flex items-start space-x-3">
+                  <div className={`w-2 h-2 ${getStatusDotColor(transition.to)} rounded-full mt-2`}></div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {statusLabels[transition.from]} → {statusLabels[transition.to]}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {transition.actor.name} • {formatDate(transition.at)} at {formatTime(transition.at)}
+                    </p>
+                    {transition.reason && (
+                      <p className="text-xs text-gray-600 italic mt-1">"{transition.reason}"</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+              
               <div className="flex items-start space-x-3">
                 <div className="w-2 h-2 bg-gray-300 rounded-full mt-2"></div>
                 <div>
@@ -609,7 +1035,9 @@ const ClaimDetails: React.FC = () => {
             <div className="space-y-3">
               <button 
                 onClick={() => navigate(`/edit-claim/${claim.id}`)}
-                className="w-full text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+                disabled={!!editDeniedReason}
+                title={editDeniedReason || undefined}
+                className="w-full text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <div className="flex items-center space-x-3">
                   <div className="p-2 bg-blue-100 rounded-lg">
@@ -617,7 +1045,7 @@ const ClaimDetails: React.FC = () => {
                   </div>
                   <div>
                     <p className="font-medium text-gray-900">Edit Claim</p>
-                    <p className="text-sm text-gray-600">Update claim details</p>
+                    <p className="text-sm text-gray-600">{editDeniedReason || 'Update claim details'}</p>
                   </div>
                 </div>
               </button>
@@ -649,6 +1077,18 @@ const ClaimDetails: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Reason Dialog for reject / reopen */}
+      {reasonTransition && (
+        <ReasonModal
+          title={reasonTransition.label}
+          description={`Please record why this claim is being moved to ${statusLabels[reasonTransition.to].toLowerCase()}. The reason is kept in the claim's status history.`}
+          confirmLabel={reasonTransition.label}
+          confirmClassName={getTransitionButtonClass(reasonTransition.action)}
+          onConfirm={(reason) => handleStatusUpdate(reasonTransition, reason)}
+          onCancel={() => setReasonTransition(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react'
 import { useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
 import { Link } from 'react-router-dom'
 import { 
   CheckCircle, 
@@ -17,17 +18,34 @@ import {
   CheckSquare,
   ArrowRight,
   Camera,
-  Video
+  Video,
+  UserCheck,
+  Banknote,
+  Archive
 } from 'lucide-react'
-import { Claim } from '../context/ClaimsContext'
+import { Claim, ClaimStatus } from '../context/ClaimsContext'
+import { canTransition, statusLabels } from '../services/claimLifecycle'
+import { loadAuthorityTiers, validateApproval, getApprovalOutcome } from '../services/approvalAuthority'
+import ReasonModal from '../components/ReasonModal'
+import ApprovalAuthorityCard from '../components/ApprovalAuthorityCard'
+import DuplicateBadge from '../components/DuplicateBadge'
+import FraudRiskBadge from '../components/FraudRiskBadge'
+import NetPayableAmount from '../components/NetPayableAmount'
+import { FraudRiskLevel } from '../services/fraudScoring'
 
 const ClaimsApproval: React.FC = () => {
-  const { state, updateClaim } = useClaims()
+  const { state, changeClaimStatus } = useClaims()
+  const { user, getDeniedReason } = useSession()
+  const approveDeniedReason = getDeniedReason('claim:approve')
+  const rejectDeniedReason = getDeniedReason('claim:reject')
   const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'processing'>('all')
-  const [sortBy, setSortBy] = useState<'date' | 'cost' | 'customer'>('date')
+  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'processing' | 'awaiting_second_approval'>('all')
+  const [riskFilter, setRiskFilter] = useState<'all' | FraudRiskLevel>('all')
+  const [sortBy, setSortBy] = useState<'date' | 'cost' | 'customer' | 'risk'>('date')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [selectedClaims, setSelectedClaims] = useState<Set<string>>(new Set())
+  const [rejectClaimIds, setRejectClaimIds] = useState<string[] | null>(null)
+  const [actionNotice, setActionNotice] = useState('')
 
 
   // Filter and sort claims
@@ -40,8 +58,9 @@ const ClaimsApproval: React.FC = () => {
         claim.vehicleModel.toLowerCase().includes(searchTerm.toLowerCase())
       
       const matchesStatus = statusFilter === 'all' || claim.status === statusFilter
+      const matchesRisk = riskFilter === 'all' || claim.fraudRisk?.level === riskFilter
       
-      return matchesSearch && matchesStatus
+      return matchesSearch && matchesStatus && matchesRisk
     })
 
     // Sort claims
@@ -57,12 +76,16 @@ const ClaimsApproval: React.FC = () => {
         case 'customer':
           comparison = a.customerName.localeCompare(b.customerName)
           break
+        case 'risk':
+          // Unscored claims sort below every scored claim
+          comparison = (a.fraudRisk?.score ?? -1) - (b.fraudRisk?.score ?? -1)
+          break
       }
       return sortOrder === 'asc' ? comparison : -comparison
     })
 
     return claims
-  }, [state.claims, searchTerm, statusFilter, sortBy, sortOrder])
+  }, [state.claims, searchTerm, statusFilter, riskFilter, sortBy, sortOrder])
 
   const handleSelectClaim = (claimId: string) => {
     setSelectedClaims(prev => {
@@ -84,22 +107,72 @@ const ClaimsApproval: React.FC = () => {
     }
   }
 
+  /**
+   * Apply Status Change
+   * 
+   * Moves the given claims to a new status through the claim lifecycle.
+   * Claims the change is refused for (by the lifecycle, the user's role or
+   * their approval authority) are skipped and reported in a notice, as are
+   * approvals above the user's limit that were sent for second approval.
+   * 
+   * @param claimIds - Claims to change
+   * @param status - Target status
+   * @param reason - Reason for the change (required when rejecting)
+   */
+  const applyStatusChange = (claimIds: string[], status: ClaimStatus, reason?: string) => {
+    const tiers = loadAuthorityTiers()
+    const escalatedIds = new Set(status === 'approved'
+      ? state.claims
+          .filter(claim => claimIds.includes(claim.id) && getApprovalOutcome(claim, user, tiers) === 'escalated')
+          .map(claim => claim.id)
+      : [])
+
+    const results = claimIds.map(claimId => ({ claimId, error: changeClaimStatus(claimId, status, reason) }))
+    const errors = results
+      .map(result => result.error)
+      .filter((error): error is string => error !== null)
+    const escalatedCount = results.filter(result => result.error === null && escalatedIds.has(result.claimId)).length
+
+    const notices: string[] = []
+    if (escalatedCount > 0) {
+      notices.push(`${escalatedCount} claim(s) exceeded your approval limit and were sent for second approval.`)
+    }
+    if (errors.length > 0) {
+      notices.push(`${errors.length} claim(s) were skipped: ${Array.from(new Set(errors)).join(' ')}`)
+    }
+    setActionNotice(notices.join(' '))
+  }
+
   const handleBulkAction = (action: 'approve' | 'reject') => {
-    selectedClaims.forEach(claimId => {
-      updateClaim(claimId, { 
-        status: action === 'approve' ? 'approved' : 'rejected',
-        updatedAt: new Date().toISOString()
-      })
-    })
+    const claimIds = Array.from(selectedClaims)
+    if (action === 'reject') {
+      // Ask for one reason that is recorded on every rejected claim
+      setRejectClaimIds(claimIds)
+      return
+    }
+    applyStatusChange(claimIds, 'approved')
     setSelectedClaims(new Set())
+  }
 
+  const handleConfirmReject = (reason: string) => {
+    if (!rejectClaimIds) return
+    applyStatusChange(rejectClaimIds, 'rejected', reason)
+    setSelectedClaims(prev => {
+      const remaining = new Set(prev)
+      rejectClaimIds.forEach(claimId => remaining.delete(claimId))
+      return remaining
+    })
+    setRejectClaimIds(null)
   }
 
   const getStatusIcon = (status: Claim['status']) => {
     switch (status) {
       case 'pending': return <Clock className="h-4 w-4 text-yellow-600" />
       case 'processing': return <AlertTriangle className="h-4 w-4 text-orange-600" />
+      case 'awaiting_second_approval': return <UserCheck className="h-4 w-4 text-purple-600" />
       case 'approved': return <CheckCircle className="h-4 w-4 text-green-600" />
+      case 'paid': return <Banknote className="h-4 w-4 text-teal-600" />
+      case 'closed': return <Archive className="h-4 w-4 text-gray-600" />
       case 'rejected': return <XCircle className="h-4 w-4 text-red-600" />
       default: return <Clock className="h-4 w-4 text-gray-600" />
     }
@@ -109,7 +182,10 @@ const ClaimsApproval: React.FC = () => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800'
       case 'processing': return 'bg-orange-100 text-orange-800'
+      case 'awaiting_second_approval': return 'bg-purple-100 text-purple-800'
       case 'approved': return 'bg-green-100 text-green-800'
+      case 'paid': return 'bg-teal-100 text-teal-800'
+      case 'closed': return 'bg-gray-100 text-gray-800'
       case 'rejected': return 'bg-red-100 text-red-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -117,6 +193,8 @@ const ClaimsApproval: React.FC = () => {
 
   const pendingClaims = filteredClaims.filter(claim => claim.status === 'pending')
   const processingClaims = filteredClaims.filter(claim => claim.status === 'processing')
+  const awaitingClaims = filteredClaims.filter(claim => claim.status === 'awaiting_second_approval')
+  const authorityTiers = loadAuthorityTiers()
   const totalValue = filteredClaims.reduce((sum, claim) => sum + claim.totalEstimatedCost, 0)
 
   return (
@@ -137,7 +215,7 @@ const ClaimsApproval: React.FC = () => {
       </div>
 
       {/* Statistics */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
         <div className="card">
           <div className="flex items-center justify-between">
             <div>
@@ -162,6 +240,18 @@ const ClaimsApproval: React.FC = () => {
           </div>
         </div>
 
+        <div className="card">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Awaiting Second Approval</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{awaitingClaims.length}</p>
+            </div>
+            <div className="p-3 bg-purple-100 rounded-lg">
+              <UserCheck className="h-6 w-6 text-purple-600" />
+            </div>
+          </div>
+        </div>
+
         <div className="card">
           <div className="flex items-center justify-between">
             <div>
@@ -210,6 +300,18 @@ const ClaimsApproval: React.FC = () => {
               <option value="all">All Status</option>
               <option value="pending">Pending</option>
               <option value="processing">Processing</option>
+              <option value="awaiting_second_approval">Awaiting Second Approval</option>
+            </select>
+
+            <select
+              value={riskFilter}
+              onChange={(e) => setRiskFilter(e.target.value as any)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            >
+              <option value="all">All Risk Levels</option>
+              <option value="high">High Risk</option>
+              <option value="medium">Medium Risk</option>
+              <option value="low">Low Risk</option>
             </select>
           </div>
 
@@ -224,6 +326,7 @@ const ClaimsApproval: React.FC = () => {
                 <option value="date">Date</option>
                 <option value="cost">Cost</option>
                 <option value="customer">Customer</option>
+                <option value="risk">Fraud Risk</option>
               </select>
               <button
                 onClick={() => setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
@@ -236,6 +339,15 @@ const ClaimsApproval: React.FC = () => {
         </div>
       </div>
 
+      {/* Read-only notice for users who cannot decide on claims */}
+      {approveDeniedReason && rejectDeniedReason && (
+        <div className="card bg-gray-50 border-gray-200">
+          <p className="text-sm text-gray-700">
+            You are viewing the approval queue read-only. {approveDeniedReason}
+          </p>
+        </div>
+      )}
+
       {/* Bulk Actions */}
       {selectedClaims.size > 0 && (
         <div className="card bg-blue-50 border-blue-200">
@@ -254,14 +366,18 @@ const ClaimsApproval: React.FC = () => {
             <div className="flex items-center space-x-3">
               <button
                 onClick={() => handleBulkAction('approve')}
-                className="btn-primary flex items-center space-x-2"
+                disabled={!!approveDeniedReason}
+                title={approveDeniedReason || undefined}
+                className="btn-primary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <CheckCircle className="h-4 w-4" />
                 <span>Approve Selected</span>
               </button>
               <button
                 onClick={() => handleBulkAction('reject')}
-                className="btn-secondary flex items-center space-x-2"
+                disabled={!!rejectDeniedReason}
+                title={rejectDeniedReason || undefined}
+                className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <XCircle className="h-4 w-4" />
                 <span>Reject Selected</span>
@@ -271,6 +387,23 @@ const ClaimsApproval: React.FC = () => {
         </div>
       )}
 
+      {actionNotice && (
+        <div className="card bg-yellow-50 border-yellow-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              <span className="text-sm text-yellow-800">{actionNotice}</span>
+            </div>
+            <button
+              onClick={() => setActionNotice('')}
+              className="text-sm text-yellow-700 hover:text-yellow-900"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Claims Table */}
       <div className="card">
         <div className="overflow-x-auto">
@@ -302,6 +435,9 @@ const ClaimsApproval: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Cost
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fraud Risk
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -326,8 +462,9 @@ const ClaimsApproval: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
-                      <div className="text-sm font-medium text-gray-900">
-                        {claim.policyNumber}
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-900">{claim.policyNumber}</span>
+                        <DuplicateBadge claim={claim} />
                       </div>
                       <div className="text-sm text-gray-500">
                         {claim.accidentDescription.substring(0, 50)}...
@@ -386,11 +523,15 @@ const ClaimsApproval: React.FC = () => {
                         ${claim.totalEstimatedCost.toLocaleString()}
                       </span>
                     </div>
+                    <NetPayableAmount claim={claim} className="text-xs ml-5" />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <FraudRiskBadge fraudRisk={claim.fraudRisk} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(claim.status)}`}>
                       {getStatusIcon(claim.status)}
-                      <span className="ml-1">{claim.status}</span>
+                      <span className="ml-1">{statusLabels[claim.status]}</span>
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -410,18 +551,26 @@ const ClaimsApproval: React.FC = () => {
                         <Eye className="h-4 w-4 mr-1" />
                         View
                       </Link>
-                      {claim.status === 'pending' && (
+                      {canTransition(claim.status, 'approved') && (
                         <>
                           <button
-                            onClick={() => updateClaim(claim.id, { status: 'approved' })}
-                            className="text-green-600 hover:text-green-900 flex items-center"
+                            onClick={() => applyStatusChange([claim.id], 'approved')}
+                            disabled={!!(approveDeniedReason || validateApproval(claim, user, authorityTiers))}
+                            title={approveDeniedReason || validateApproval(claim, user, authorityTiers) || (
+                              getApprovalOutcome(claim, user, authorityTiers) === 'escalated'
+                                ? 'Above your approval limit: your sign-off sends the claim for second approval'
+                                : undefined
+                            )}
+                            className="text-green-600 hover:text-green-900 flex items-center disabled:text-gray-400 disabled:cursor-not-allowed"
                           >
                             <CheckCircle className="h-4 w-4 mr-1" />
                             Approve
                           </button>
                           <button
-                            onClick={() => updateClaim(claim.id, { status: 'rejected' })}
-                            className="text-red-600 hover:text-red-900 flex items-center"
+                            onClick={() => setRejectClaimIds([claim.id])}
+                            disabled={!!rejectDeniedReason}
+                            title={rejectDeniedReason || undefined}
+                            className="text-red-600 hover:text-red-900 flex items-center disabled:text-gray-400 disabled:cursor-not-allowed"
                           >
                             <XCircle className="h-4 w-4 mr-1" />
                             Reject
@@ -446,6 +595,21 @@ const ClaimsApproval: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Approval Authority Limits */}
+      <ApprovalAuthorityCard />
+
+      {/* Reject Reason Dialog */}
+      {rejectClaimIds && (
+        <ReasonModal
+          title={rejectClaimIds.length > 1 ? `Reject ${rejectClaimIds.length} Claims` : 'Reject Claim'}
+          description="Please record why the claim is being rejected. The reason is kept in the claim's status history."
+          confirmLabel="Reject"
+          confirmClassName="btn-danger"
+          onConfirm={handleConfirmReject}
+          onCancel={() => setRejectClaimIds(null)}
+        />
+      )}
     </div>
   )
 }
@@ -1,20 +1,25 @@
 import React from 'react'
 import { Link } from 'react-router-dom'
 import { useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
 import { Plus, Clock, CheckCircle, AlertTriangle, TrendingUp, DollarSign, Car, BookOpen, CheckSquare, Wrench } from 'lucide-react'
 import ClaimCard from '../components/ClaimCard'
 
 const Dashboard: React.FC = () => {
-  const { state } = useClaims()
+  const { state, dispatch } = useClaims()
+  const { can, getClaimDeniedReason } = useSession()
+
+  // Repair shop users only see the claims assigned to their shop
+  const claims = state.claims.filter(claim => !getClaimDeniedReason(claim))
 
   // Calculate statistics
-  const totalClaims = state.claims.length
-  const pendingClaims = state.claims.filter(claim => claim.status === 'pending').length
-  const processingClaims = state.claims.filter(claim => claim.status === 'processing').length
-  const approvedClaims = state.claims.filter(claim => claim.status === 'approved').length
-  const totalValue = state.claims.reduce((sum, claim) => sum + claim.totalEstimatedCost, 0)
-  const avgProcessingTime = state.claims.length > 0 
-    ? state.claims.reduce((sum, claim) => sum + (claim.processingTime || 0), 0) / state.claims.length
+  const totalClaims = claims.length
+  const pendingClaims = claims.filter(claim => claim.status === 'pending').length
+  const processingClaims = claims.filter(claim => claim.status === 'processing').length
+  const approvedClaims = claims.filter(claim => claim.status === 'approved').length
+  const totalValue = claims.reduce((sum, claim) => sum + claim.totalEstimatedCost, 0)
+  const avgProcessingTime = claims.length > 0 
+    ? claims.reduce((sum, claim) => sum + (claim.processingTime || 0), 0) / claims.length
     : 0
 
   const stats = [
@@ -62,7 +67,7 @@ const Dashboard: React.FC = () => {
     }
   ]
 
-  const recentClaims = state.claims.slice(0, 5)
+  const recentClaims = claims.slice(0, 5)
 
   return (
     <div className="space-y-8">
@@ -72,15 +77,35 @@ const Dashboard: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Claims Dashboard</h1>
           <p className="text-gray-600 mt-2">Monitor and manage insurance claims with AI-powered insights</p>
         </div>
-        <Link
-          to="/new-claim"
-          className="btn-primary flex items-center space-x-2"
-        >
-          <Plus className="h-4 w-4" />
-          <span>New Claim</span>
-        </Link>
+        {can('claim:create') && (
+          <Link
+            to="/new-claim"
+            className="btn-primary flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Claim</span>
+          </Link>
+        )}
       </div>
 
+      {/* Storage Warning */}
+      {state.error && (
+        <div className="card bg-yellow-50 border-yellow-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              <span className="text-sm text-yellow-800">{state.error}</span>
+            </div>
+            <button
+              onClick={() => dispatch({ type: 'SET_ERROR', payload: null })}
+              className="text-sm text-yellow-700 hover:text-yellow-900"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Statistics Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {stats.map((stat, index) => {
@@ -120,9 +145,11 @@ const Dashboard: React.FC = () => {
             <Car className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No claims yet</h3>
             <p className="text-gray-600 mb-6">Get started by creating your first claim</p>
-            <Link to="/new-claim" className="btn-primary">
-              Create First Claim
-            </Link>
+            {can('claim:create') && (
+              <Link to="/new-claim" className="btn-primary">
+                Create First Claim
+              </Link>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -167,17 +194,19 @@ const Dashboard: React.FC = () => {
         <div className="card">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
           <div className="space-y-3">
-            <Link to="/claims-approval" className="w-full text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors block">
-              <div className="flex items-center space-x-3">
-                <div className="p-2 bg-blue-100 rounded-lg">
-                  <CheckSquare className="h-4 w-4 text-blue-600" />
-                </div>
-                <div>
-                  <p className="font-medium text-gray-900">Review & Approve Claims</p>
-                  <p className="text-sm text-gray-600">{pendingClaims} claims awaiting review</p>
+            {can('approvals:view') && (
+              <Link to="/claims-approval" className="w-full text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors block">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 bg-blue-100 rounded-lg">
+                    <CheckSquare className="h-4 w-4 text-blue-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">Review & Approve Claims</p>
+                    <p className="text-sm text-gray-600">{pendingClaims} claims awaiting review</p>
+                  </div>
                 </div>
-              </div>
-            </Link>
+              </Link>
+            )}
             
             <Link to="/repair-shops" className="w-full text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors block">
               <div className="flex items-center space-x-3">
@@ -0,0 +1,144 @@
+/**
+ * Drafts.tsx
+ *
+ * Lists every claim the agent has started but not yet submitted, so several
+ * first-notice-of-loss calls can be worked on in parallel.
+ *
+ * Key Features:
+ * - All in-progress claims, most recently saved first
+ * - Wizard step each draft was saved on
+ * - Resume (opens /new-claim/:draftId) and discard actions
+ */
+
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { FileText, Plus, Trash2, ArrowRight, Clock, Camera, Car } from 'lucide-react'
+import { useClaims, InProgressClaim } from '../context/ClaimsContext'
+import { claimWizardSteps, getWizardStepTitle } from '../data/claimWizard'
+
+const Drafts: React.FC = () => {
+  const { state, deleteInProgressClaim } = useClaims()
+
+  const drafts = [...state.inProgressClaims].sort(
+    (a, b) => new Date(b.lastSaved).getTime() - new Date(a.lastSaved).getTime()
+  )
+
+  /**
+   * Handle Discard
+   *
+   * Deletes a draft after the user confirms.
+   *
+   * @param draft - Draft to discard
+   */
+  const handleDiscard = (draft: InProgressClaim) => {
+    if (window.confirm(`Discard the draft for ${getDraftTitle(draft)}? This cannot be undone.`)) {
+      deleteInProgressClaim(draft.id)
+    }
+  }
+
+  const getDraftTitle = (draft: InProgressClaim) =>
+    draft.formData.customerName || draft.formData.policyNumber || 'Untitled claim'
+
+  const formatSavedTime = (value: string) => {
+    const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000)
+    if (minutes < 1) return 'just now'
+    if (minutes < 60) return `${minutes} min ago`
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`
+    return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Drafts</h1>
+          <p className="text-gray-600 mt-2">Claims you have started but not yet submitted</p>
+        </div>
+        <Link to="/new-claim" className="btn-primary flex items-center space-x-2">
+          <Plus className="h-4 w-4" />
+          <span>New Claim</span>
+        </Link>
+      </div>
+
+      {drafts.length === 0 ? (
+        <div className="card text-center py-12">
+          <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No drafts</h3>
+          <p className="text-gray-600">Claims you save while filling in the wizard will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map(draft => {
+            const step = draft.currentStep || 1
+            const vehicle = [draft.formData.vehicleYear, draft.formData.vehicleMake, draft.formData.vehicleModel]
+              .filter(Boolean)
+              .join(' ')
+
+            return (
+              <div key={draft.id} className="card">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-3">
+                      <h3 className="text-lg font-semibold text-gray-900">{getDraftTitle(draft)}</h3>
+                      {draft.formData.policyNumber && draft.formData.customerName && (
+                        <span className="text-sm text-gray-500">{draft.formData.policyNumber}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-6 text-sm text-gray-600">
+                      {vehicle && (
+                        <span className="flex items-center space-x-1">
+                          <Car className="h-4 w-4" />
+                          <span>{vehicle}</span>
+                        </span>
+                      )}
+                      <span className="flex items-center space-x-1">
+                        <Camera className="h-4 w-4" />
+                        <span>{draft.photos.length} photo(s), {(draft.videos || []).length} video(s)</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Clock className="h-4 w-4" />
+                        <span>Saved {formatSavedTime(draft.lastSaved)}</span>
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <div className="w-40 bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-primary-600 h-2 rounded-full"
+                          style={{ width: `${(step / claimWizardSteps.length) * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-gray-600">
+                        Step {step} of {claimWizardSteps.length}: {getWizardStepTitle(step)}
+                        {draft.analysisComplete && ' • AI analysis complete'}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleDiscard(draft)}
+                      className="btn-secondary flex items-center space-x-2"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span>Discard</span>
+                    </button>
+                    <Link
+                      to={`/new-claim/${draft.id}`}
+                      className="btn-primary flex items-center space-x-2"
+                    >
+                      <span>Resume</span>
+                      <ArrowRight className="h-4 w-4" />
+                    </Link>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Drafts
@@ -8,15 +8,15 @@
  * Key Features:
  * - Pre-populated form with existing claim data
  * - Photo and video upload with preview
- * - AI damage analysis simulation
+ * - AI damage analysis through the pluggable analyzer registry
  * - Individual assessment approval/rejection
  * - Cost database integration
  * - Repair shop assignment
- * - Validation and error handling
+ * - Validation and error handling, including policy verification
  * 
  * State Management:
  * - Form data for claim details
- * - Media arrays for photos and videos
+ * - Media ID arrays for photos and videos
  * - AI analysis state and results
  * - Validation errors
  * - Loading states
@@ -24,8 +24,18 @@
 
 import React, { useState, useRef, useEffect } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
-import { useClaims, DamageAssessment, Claim } from '../context/ClaimsContext'
-import { Upload, Camera, X, Loader2, CheckCircle, Car, FileText, Search, ArrowRight, BookOpen, Save, RefreshCw, ArrowLeft } from 'lucide-react'
+import { useClaims, DamageAssessment, ClaimUpdates } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { Upload, X, Loader2, CheckCircle, ArrowRight, Save, RefreshCw, ArrowLeft } from 'lucide-react'
+import { getActiveDamageAnalyzer, DamageAnalysisMetadata } from '../services/damageAnalysis'
+import { saveMedia } from '../services/mediaStore'
+import MediaThumbnail from '../components/MediaThumbnail'
+import { buildEstimate } from '../services/estimateEngine'
+import { getApprovedSupplementTotal } from '../services/supplements'
+import { verifyPolicy } from '../services/policyCoverage'
+import NetPayableAmount from '../components/NetPayableAmount'
+import { validateZipCode } from '../services/geoDistance'
+import { getZipCentroid } from '../data/zipCentroids'
 
 /**
  * EditClaim Component
@@ -37,6 +47,7 @@ const EditClaim: React.FC = () => {
   const navigate = useNavigate()
   const { id } = useParams<{ id: string }>()
   const { getClaim, updateClaim } = useClaims()
+  const { getDeniedReason } = useSession()
   const fileInputRef = useRef<HTMLInputElement>(null)
   
   // Get the existing claim data
@@ -48,6 +59,7 @@ const EditClaim: React.FC = () => {
     customerName: '',
     customerEmail: '',
     customerPhone: '',
+    customerZip: '',
     vehicleMake: '',
     vehicleModel: '',
     vehicleYear: new Date().getFullYear(),
@@ -55,7 +67,7 @@ const EditClaim: React.FC = () => {
     accidentDescription: ''
   })
   
-  // Media state - stores base64 encoded photos and videos
+  // Media state - stores media store IDs of photos and videos
   const [photos, setPhotos] = useState<string[]>([])
   const [videos, setVideos] = useState<string[]>([])
   
@@ -63,6 +75,7 @@ const EditClaim: React.FC = () => {
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisComplete, setAnalysisComplete] = useState(false)
   const [damageAssessments, setDamageAssessments] = useState<DamageAssessment[]>([])
+  const [analysisMetadata, setAnalysisMetadata] = useState<DamageAnalysisMetadata | undefined>()
   
   // Form navigation and validation state
   const [currentStep, setCurrentStep] = useState(1)
@@ -84,6 +97,7 @@ const EditClaim: React.FC = () => {
         customerName: existingClaim.customerName,
         customerEmail: existingClaim.customerEmail,
         customerPhone: existingClaim.customerPhone,
+        customerZip: existingClaim.customerZip || '',
         vehicleMake: existingClaim.vehicleMake,
         vehicleModel: existingClaim.vehicleModel,
         vehicleYear: existingClaim.vehicleYear,
@@ -95,6 +109,7 @@ const EditClaim: React.FC = () => {
       setVideos(existingClaim.videos)
       setDamageAssessments(existingClaim.damageAssessments)
       setAnalysisComplete(existingClaim.aiAnalysisComplete)
+      setAnalysisMetadata(existingClaim.analysisMetadata)
       
       // Auto-approve existing assessments
       if (existingClaim.damageAssessments.length > 0) {
@@ -127,48 +142,44 @@ const EditClaim: React.FC = () => {
   /**
    * Handle Media Upload
    * 
-   * Processes uploaded files (images and videos) and converts them to base64 strings.
-   * Uses a counter-based approach to ensure all files are processed before updating state.
+   * Stores uploaded files (images and videos) in the IndexedDB media store and keeps
+   * only their media IDs in component state. All files are stored before state is
+   * updated, so multiple files uploaded together are added in one go.
    * 
    * @param e - File input change event
    */
-  const handleMediaUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (files) {
+  const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    
+    // Reset the file input value to allow re-uploading the same file
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    
+    if (files.length === 0) return
+    
+    try {
       const newPhotos: string[] = []
       const newVideos: string[] = []
-      let processedFiles = 0
-      const totalFiles = files.length
       
-      Array.from(files).forEach(file => {
-        const reader = new FileReader()
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            if (file.type.startsWith('image/')) {
-              newPhotos.push(e.target.result as string)
-            } else if (file.type.startsWith('video/')) {
-              newVideos.push(e.target.result as string)
-            }
-            
-            processedFiles++
-            
-            // Check if all files have been processed
-            if (processedFiles === totalFiles) {
-              if (newPhotos.length > 0) {
-                setPhotos(prev => [...prev, ...newPhotos])
-              }
-              if (newVideos.length > 0) {
-                setVideos(prev => [...prev, ...newVideos])
-              }
-            }
-          }
+      for (const file of files) {
+        if (file.type.startsWith('image/')) {
+          newPhotos.push(await saveMedia(file))
+        } else if (file.type.startsWith('video/')) {
+          newVideos.push(await saveMedia(file))
         }
-        reader.readAsDataURL(file)
-      })
-    }
-    // Reset the file input value to allow re-uploading the same file
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
+      }
+      
+      if (newPhotos.length > 0) {
+        setPhotos(prev => [...prev, ...newPhotos])
+      }
+      if (newVideos.length > 0) {
+        setVideos(prev => [...prev, ...newVideos])
+      }
+      setErrors(prev => ({ ...prev, media: '' }))
+    } catch (error) {
+      console.error('Error storing media:', error)
+      setErrors(prev => ({ ...prev, media: 'Some files could not be saved. Please try again.' }))
     }
   }
 
@@ -195,54 +206,49 @@ const EditClaim: React.FC = () => {
   }
 
   /**
-   * Simulate AI Analysis
+   * Run Damage Analysis
    * 
-   * Simulates AI-powered damage analysis by generating mock assessments.
-   * In a real application, this would call an AI service to analyze uploaded media.
+   * Re-analyzes the claim media with the active DamageAnalyzer from the analysis registry.
    * 
    * @returns Promise<void>
    */
-  const simulateAIAnalysis = async () => {
+  const runDamageAnalysis = async () => {
     setIsAnalyzing(true)
+    setErrors(prev => ({ ...prev, analysis: '' }))
     
-    // Simulate AI processing time
-    await new Promise(resolve => setTimeout(resolve, 3000))
-    
-    // Generate mock damage assessments
-    const mockAssessments: DamageAssessment[] = [
-      {
-        id: `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_1`,
-        type: 'dent',
-        severity: 'moderate',
-        location: 'Front bumper',
-        estimatedCost: 850,
-        confidence: 0.92
-      },
-      {
-        id: `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_2`,
-        type: 'scratch',
-        severity: 'minor',
-        location: 'Driver side door',
-        estimatedCost: 320,
-        confidence: 0.88
-      },
-      {
-        id: `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_3`,
-        type: 'paint',
-        severity: 'minor',
-        location: 'Hood',
-        estimatedCost: 450,
-        confidence: 0.85
-      }
-    ]
-    
-    setDamageAssessments(mockAssessments)
-    // Auto-approve all assessments initially
-    setApprovedAssessments(new Set(mockAssessments.map(a => a.id)))
-    setAnalysisComplete(true)
-    setIsAnalyzing(false)
+    try {
+      const analyzer = getActiveDamageAnalyzer()
+      const result = await analyzer.analyze(photos, videos, {
+        make: formData.vehicleMake,
+        model: formData.vehicleModel,
+        year: Number(formData.vehicleYear)
+      })
+      
+      setDamageAssessments(result.assessments)
+      setAnalysisMetadata(result.metadata)
+      // Auto-approve all assessments initially
+      setApprovedAssessments(new Set(result.assessments.map(a => a.id)))
+      setAnalysisComplete(true)
+    } catch (error) {
+      console.error('Damage analysis failed:', error)
+      setErrors(prev => ({ ...prev, analysis: 'Damage analysis failed. Please try again.' }))
+    } finally {
+      setIsAnalyzing(false)
+    }
   }
 
+  // Policy problems of details that were not changed (e.g., a policy that
+  // lapsed since, or a legacy claim) are shown as warnings only
+  const policyIssues = verifyPolicy(formData).errors
+  const policyDetailsChanged = !!existingClaim && (
+    formData.policyNumber.trim().toLowerCase() !== existingClaim.policyNumber.trim().toLowerCase() ||
+    formData.accidentDate !== existingClaim.accidentDate ||
+    formData.vehicleMake.trim() !== existingClaim.vehicleMake.trim() ||
+    formData.vehicleModel.trim() !== existingClaim.vehicleModel.trim() ||
+    String(formData.vehicleYear) !== String(existingClaim.vehicleYear)
+  )
+  const policyWarnings = policyDetailsChanged ? [] : Object.values(policyIssues)
+
   /**
    * Validate Form
    * 
@@ -258,10 +264,19 @@ const EditClaim: React.FC = () => {
     if (!formData.customerName) newErrors.customerName = 'Customer name is required'
     if (!formData.customerEmail) newErrors.customerEmail = 'Email is required'
     if (!formData.customerPhone) newErrors.customerPhone = 'Phone number is required'
+    // Claims saved before ZIP codes were collected may still have none
+    const zipError = formData.customerZip.trim() ? validateZipCode(formData.customerZip) : null
+    if (zipError) newErrors.customerZip = zipError
     if (!formData.vehicleMake) newErrors.vehicleMake = 'Vehicle make is required'
     if (!formData.vehicleModel) newErrors.vehicleModel = 'Vehicle model is required'
     if (!formData.accidentDate) newErrors.accidentDate = 'Accident date is required'
     if (!formData.accidentDescription) newErrors.accidentDescription = 'Accident description is required'
+    // Policy details verified at intake are only re-verified when they change
+    if (policyDetailsChanged) {
+      Object.entries(policyIssues).forEach(([field, message]) => {
+        if (!newErrors[field]) newErrors[field] = message
+      })
+    }
     
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -301,26 +316,45 @@ const EditClaim: React.FC = () => {
       return
     }
     
+    // Checked here as well as on the route so the save itself is refused for read-only roles
+    const deniedReason = getDeniedReason('claim:edit')
+    if (deniedReason) {
+      setErrors({ submit: deniedReason })
+      return
+    }
+    
     setIsSaving(true)
     
     try {
-      // Calculate total cost from approved assessments
-      const totalCost = damageAssessments
-        .filter(assessment => approvedAssessments.has(assessment.id))
-        .reduce((sum, assessment) => sum + assessment.estimatedCost, 0)
+      // Re-price the approved assessments unless they are the ones already estimated,
+      // so saving unrelated edits does not silently re-rate the estimate
+      const approvedList = damageAssessments.filter(assessment => approvedAssessments.has(assessment.id))
+      const estimatedIds = new Set(existingClaim.estimate?.lineItems.map(line => line.assessmentId))
+      const estimateIsCurrent = existingClaim.estimate !== undefined &&
+        approvedList.length === estimatedIds.size &&
+        approvedList.every(assessment => estimatedIds.has(assessment.id))
+      const estimate = estimateIsCurrent && existingClaim.estimate
+        ? existingClaim.estimate
+        : buildEstimate(approvedList)
       
-      // Update the claim with new data
-      const updatedClaim: Partial<Claim> = {
+      // Update the claim with new data; approved supplements stay on top of the estimate
+      const updatedClaim: ClaimUpdates = {
         ...formData,
         photos,
         videos,
         damageAssessments,
-        totalEstimatedCost: totalCost,
+        totalEstimatedCost: estimate.total + getApprovedSupplementTotal(existingClaim),
+        estimate,
         aiAnalysisComplete: analysisComplete,
+        analysisMetadata,
         updatedAt: new Date().toISOString()
       }
       
-      updateClaim(existingClaim.id, updatedClaim)
+      const updateError = updateClaim(existingClaim.id, updatedClaim)
+      if (updateError) {
+        setErrors({ submit: updateError })
+        return
+      }
       
       // Navigate back to claim details
       navigate(`/claim/${existingClaim.id}`)
@@ -467,6 +501,9 @@ const EditClaim: React.FC = () => {
                   {errors.policyNumber && (
                     <p className="text-red-500 text-sm mt-1">{errors.policyNumber}</p>
                   )}
+                  {policyWarnings.map(warning => (
+                    <p key={warning} className="text-yellow-700 text-sm mt-1">Policy check: {warning}</p>
+                  ))}
                 </div>
 
                 <div>
@@ -526,6 +563,29 @@ const EditClaim: React.FC = () => {
                   )}
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    ZIP Code
+                  </label>
+                  <input
+                    type="text"
+                    name="customerZip"
+                    value={formData.customerZip}
+                    onChange={handleInputChange}
+                    className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                      errors.customerZip ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder="Customer's home ZIP code"
+                  />
+                  {errors.customerZip ? (
+                    <p className="text-red-500 text-sm mt-1">{errors.customerZip}</p>
+                  ) : !formData.customerZip.trim() ? (
+                    <p className="text-gray-500 text-sm mt-1">No ZIP code on file; repair shop distances will be unknown</p>
+                  ) : !getZipCentroid(formData.customerZip) && (
+                    <p className="text-gray-500 text-sm mt-1">Not in the ZIP table; repair shop distances will be unknown</p>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Vehicle Make *
@@ -662,6 +722,9 @@ const EditClaim: React.FC = () => {
                     <p className="text-sm text-gray-500 mt-2">
                       Drag and drop files here, or click to browse
                     </p>
+                    {errors.media && (
+                      <p className="text-red-500 text-sm mt-2">{errors.media}</p>
+                    )}
                   </div>
 
                   {/* Photo Preview */}
@@ -671,8 +734,9 @@ const EditClaim: React.FC = () => {
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                         {photos.map((photo, index) => (
                           <div key={index} className="relative group">
-                            <img
-                              src={photo}
+                            <MediaThumbnail
+                              mediaId={photo}
+                              kind="photo"
                               alt={`Photo ${index + 1}`}
                               className="w-full h-24 object-cover rounded-lg"
                             />
@@ -696,8 +760,9 @@ const EditClaim: React.FC = () => {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         {videos.map((video, index) => (
                           <div key={index} className="relative group">
-                            <video
-                              src={video}
+                            <MediaThumbnail
+                              mediaId={video}
+                              kind="video"
                               controls
                               className="w-full h-32 object-cover rounded-lg"
                             />
@@ -722,7 +787,7 @@ const EditClaim: React.FC = () => {
                     {!analysisComplete && (
                       <button
                         type="button"
-                        onClick={simulateAIAnalysis}
+                        onClick={runDamageAnalysis}
                         disabled={isAnalyzing || (photos.length === 0 && videos.length === 0)}
                         className="btn-primary flex items-center space-x-2"
                       >
@@ -736,6 +801,17 @@ const EditClaim: React.FC = () => {
                     )}
                   </div>
 
+                  {errors.analysis && (
+                    <p className="text-red-500 text-sm mb-4">{errors.analysis}</p>
+                  )}
+
+                  {analysisComplete && analysisMetadata && (
+                    <p className="text-sm text-gray-500 mb-4">
+                      Analyzed by {analysisMetadata.analyzerName}
+                      {analysisMetadata.modelVersion && ` (${analysisMetadata.modelVersion})`}
+                    </p>
+                  )}
+
                   {analysisComplete && damageAssessments.length > 0 && (
                     <div className="space-y-4">
                       {damageAssessments.map((assessment) => (
@@ -874,12 +950,22 @@ const EditClaim: React.FC = () => {
                         <div className="flex justify-between items-center">
                           <span className="font-medium">Total Estimated Cost</span>
                           <span className="text-xl font-bold text-gray-900">
-                            ${damageAssessments
-                              .filter(assessment => approvedAssessments.has(assessment.id))
-                              .reduce((sum, assessment) => sum + assessment.estimatedCost, 0)
-                              .toLocaleString()}
+                            ${(buildEstimate(
+                              damageAssessments.filter(assessment => approvedAssessments.has(assessment.id))
+                            ).total + getApprovedSupplementTotal(existingClaim)).toLocaleString()}
                           </span>
                         </div>
+                        <div className="text-right">
+                          <NetPayableAmount
+                            claim={{
+                              policyNumber: formData.policyNumber,
+                              coverageType: existingClaim.coverageType,
+                              totalEstimatedCost: buildEstimate(
+                                damageAssessments.filter(assessment => approvedAssessments.has(assessment.id))
+                              ).total + getApprovedSupplementTotal(existingClaim)
+                            }}
+                          />
+                        </div>
                       </div>
                     </div>
                   </div>
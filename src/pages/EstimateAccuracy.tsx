@@ -0,0 +1,128 @@
+/**
+ * EstimateAccuracy.tsx
+ *
+ * Report separating the accuracy of original estimates from supplement growth.
+ *
+ * Key Features:
+ * - Average error of the original estimate against the final paid cost
+ * - Supplement growth as a share of the original estimates
+ * - Per-claim original estimate, supplements and final cost
+ */
+
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { Target, TrendingUp, Layers } from 'lucide-react'
+import { useClaims } from '../context/ClaimsContext'
+import { getEstimateAccuracyReport } from '../services/supplements'
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const formatPercent = (value: number | null, signed = false) => {
+  if (value === null) return '—'
+  const percent = Math.round(value * 1000) / 10
+  return `${signed && percent > 0 ? '+' : ''}${percent}%`
+}
+
+const EstimateAccuracy: React.FC = () => {
+  const { state } = useClaims()
+  const report = getEstimateAccuracyReport(state.claims)
+  const rows = [...report.rows].sort((a, b) => b.supplementGrowth - a.supplementGrowth)
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Estimate Accuracy</h1>
+        <p className="text-gray-600 mt-2">
+          {report.claimCount} approved claim(s), {report.settledCount} settled. Supplements are taken out of the
+          final cost before the original estimate is measured.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="card">
+          <div className="flex items-center space-x-2 mb-2">
+            <Target className="h-5 w-5 text-primary-600" />
+            <h2 className="text-sm font-medium text-gray-600">Original Estimate Error</h2>
+          </div>
+          <p className="text-3xl font-bold text-gray-900">{formatPercent(report.averageOriginalError)}</p>
+          <p className="text-xs text-gray-500 mt-1">Average absolute error over {report.settledCount} settled claim(s)</p>
+        </div>
+        <div className="card">
+          <div className="flex items-center space-x-2 mb-2">
+            <TrendingUp className="h-5 w-5 text-primary-600" />
+            <h2 className="text-sm font-medium text-gray-600">Supplement Growth</h2>
+          </div>
+          <p className="text-3xl font-bold text-gray-900">{formatPercent(report.supplementGrowth, true)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {formatCurrency(report.supplementTotal)} on {formatCurrency(report.originalTotal)} of original estimates
+          </p>
+        </div>
+        <div className="card">
+          <div className="flex items-center space-x-2 mb-2">
+            <Layers className="h-5 w-5 text-primary-600" />
+            <h2 className="text-sm font-medium text-gray-600">Claims Supplemented</h2>
+          </div>
+          <p className="text-3xl font-bold text-gray-900">{formatPercent(report.supplementedShare)}</p>
+          <p className="text-xs text-gray-500 mt-1">Share of approved claims with an approved supplement</p>
+        </div>
+      </div>
+
+      {/* Claims */}
+      <div className="card">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Claims</h2>
+        {rows.length === 0 ? (
+          <p className="text-gray-600">No claims have been approved yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                  <th className="py-2 pr-4">Claim</th>
+                  <th className="py-2 pr-4 text-right">Original</th>
+                  <th className="py-2 pr-4 text-right">Supplements</th>
+                  <th className="py-2 pr-4 text-right">Growth</th>
+                  <th className="py-2 pr-4 text-right">Final Cost</th>
+                  <th className="py-2 text-right">Original Error</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(row => (
+                  <tr key={row.claim.id} className="text-sm">
+                    <td className="py-3 pr-4">
+                      <Link to={`/claim/${row.claim.id}`} className="text-primary-600 hover:text-primary-700 font-medium">
+                        {row.claim.customerName}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {row.claim.vehicleYear} {row.claim.vehicleMake} {row.claim.vehicleModel}
+                      </div>
+                    </td>
+                    <td className="py-3 pr-4 text-right text-gray-900">{formatCurrency(row.original)}</td>
+                    <td className="py-3 pr-4 text-right text-gray-700">
+                      {row.supplementCount > 0 ? `${formatCurrency(row.supplementTotal)} (${row.supplementCount})` : '—'}
+                    </td>
+                    <td className="py-3 pr-4 text-right text-gray-700">
+                      {row.supplementCount > 0 ? formatPercent(row.supplementGrowth, true) : '—'}
+                    </td>
+                    <td className="py-3 pr-4 text-right text-gray-900">
+                      {row.finalCost !== null ? formatCurrency(row.finalCost) : 'Open'}
+                    </td>
+                    <td className={`py-3 text-right font-medium ${
+                      row.originalError !== null && Math.abs(row.originalError) >= 0.1 ? 'text-red-600' : 'text-gray-900'
+                    }`}>
+                      {formatPercent(row.originalError, true)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default EstimateAccuracy
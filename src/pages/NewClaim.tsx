@@ -6,57 +6,71 @@
  * 
  * Key Features:
  * - Multi-step form with validation
- * - Photo and video upload with preview
- * - AI damage analysis simulation
- * - Progress saving and loading
- * - Import existing ticket data
+ * - Photo and video upload with preview (stored in the IndexedDB media store)
+ * - AI damage analysis through the pluggable analyzer registry
+ * - Progress saving and loading, one draft per claim (/new-claim/:draftId)
+ * - Import ticket data from existing claims and external ticket sources
+ * - Policy verification against the policy store, with the net payable amount
  * - Individual assessment approval/rejection
  * - Cost database integration
  * - Default repair shop assignment
  * 
  * State Management:
  * - Form data for claim details
- * - Media arrays for photos and videos
+ * - Media ID arrays for photos and videos
  * - AI analysis state and results
  * - Progress persistence
  * - Import functionality
  */
 
 import React, { useState, useRef, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useParams, Navigate, Link } from 'react-router-dom'
 import { useClaims, InProgressClaim } from '../context/ClaimsContext'
-import { Upload, Camera, X, Loader2, CheckCircle, Car, FileText, Search, ArrowRight, BookOpen, Save, RefreshCw } from 'lucide-react'
-import { DamageAssessment, Claim } from '../context/ClaimsContext'
+import { Upload, Camera, X, Loader2, CheckCircle, Car, FileText, BookOpen, Save, RefreshCw, Wrench } from 'lucide-react'
+import { DamageAssessment } from '../context/ClaimsContext'
+import { getActiveDamageAnalyzer, DamageAnalysisMetadata } from '../services/damageAnalysis'
+import { saveMedia } from '../services/mediaStore'
+import MediaThumbnail from '../components/MediaThumbnail'
+import { getRepairCostItemById, damageTypeCategories } from '../data/repairCostCatalog'
+import { buildEstimate } from '../services/estimateEngine'
+import { claimWizardSteps, createDraftId } from '../data/claimWizard'
+import { TicketSearchResult, CLAIMS_TICKET_SOURCE_ID } from '../services/ticketSources'
+import ImportTicketModal from '../components/ImportTicketModal'
+import { CoverageType, coverageTypeLabels, getCoverageEndDate } from '../data/policies'
+import { verifyPolicy, getCoverage, calculateNetPayable, describePayableAmount } from '../services/policyCoverage'
+import { recommendShops, getRecommendedShop } from '../services/shopRecommendation'
+import { validateZipCode } from '../services/geoDistance'
+import { getZipCentroid } from '../data/zipCentroids'
 
 /**
  * NewClaim Component
  * 
  * Main component for creating new insurance claims with AI-powered analysis.
  * Provides a step-by-step interface for claim submission with progress persistence.
+ * 
+ * @param draftId - ID under which this claim's progress is saved
  */
-const NewClaim: React.FC = () => {
+const NewClaim: React.FC<{ draftId: string }> = ({ draftId }) => {
   const navigate = useNavigate()
-  const { addClaim, saveInProgressClaim, getInProgressClaim, deleteInProgressClaim } = useClaims()
+  const { state, addClaim, saveInProgressClaim, getInProgressClaim, deleteInProgressClaim } = useClaims()
   const fileInputRef = useRef<HTMLInputElement>(null)
   
-  // Fixed session ID for persistence across page reloads
-  // This ensures that saved progress is always associated with the same session
-  const sessionId = 'new-claim-session'
-  
   // Form data state - contains all the basic claim information
   const [formData, setFormData] = useState({
     policyNumber: '',
     customerName: '',
     customerEmail: '',
     customerPhone: '',
+    customerZip: '',
     vehicleMake: '',
     vehicleModel: '',
     vehicleYear: new Date().getFullYear(),
     accidentDate: '',
-    accidentDescription: ''
+    accidentDescription: '',
+    coverageType: undefined as CoverageType | undefined
   })
   
-  // Media state - stores base64 encoded photos and videos
+  // Media state - stores media store IDs of photos and videos
   const [photos, setPhotos] = useState<string[]>([])
   const [videos, setVideos] = useState<string[]>([])
   
@@ -64,6 +78,8 @@ const NewClaim: React.FC = () => {
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [analysisComplete, setAnalysisComplete] = useState(false)
   const [damageAssessments, setDamageAssessments] = useState<DamageAssessment[]>([])
+  const [analysisMetadata, setAnalysisMetadata] = useState<DamageAnalysisMetadata | undefined>()
+  const [analysisError, setAnalysisError] = useState('')
   
   // Form navigation and validation state
   const [currentStep, setCurrentStep] = useState(1)
@@ -72,87 +88,13 @@ const NewClaim: React.FC = () => {
   
   // Import ticket functionality - allows importing data from existing tickets
   const [showImportModal, setShowImportModal] = useState(false)
-  const [importSearchTerm, setImportSearchTerm] = useState('')
-  const [selectedTicket, setSelectedTicket] = useState<Claim | null>(null)
+  const [selectedTicket, setSelectedTicket] = useState<TicketSearchResult | null>(null)
   
   // Persistence functionality - tracks save state and progress
   const [lastSaved, setLastSaved] = useState<string>('')
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [hasSavedProgress, setHasSavedProgress] = useState(false)
 
-  // Mock existing tickets for import functionality
-  // In a real application, this data would come from an API
-  const existingTickets: Claim[] = [
-    {
-      id: 'ticket_001',
-      policyNumber: 'POL-2024-001',
-      customerName: 'John Smith',
-      customerEmail: 'john.smith@email.com',
-      customerPhone: '(555) 123-4567',
-      vehicleMake: 'Toyota',
-      vehicleModel: 'Camry',
-      vehicleYear: 2022,
-      accidentDate: '2024-01-15',
-      accidentDescription: 'Rear-end collision at traffic light. Vehicle sustained damage to rear bumper and trunk area.',
-      photos: [],
-      videos: [],
-      status: 'pending',
-      damageAssessments: [],
-      totalEstimatedCost: 0,
-      createdAt: '2024-01-15T10:30:00Z',
-      updatedAt: '2024-01-15T10:30:00Z',
-      aiAnalysisComplete: false
-    },
-    {
-      id: 'ticket_002',
-      policyNumber: 'POL-2024-002',
-      customerName: 'Sarah Johnson',
-      customerEmail: 'sarah.johnson@email.com',
-      customerPhone: '(555) 987-6543',
-      vehicleMake: 'Honda',
-      vehicleModel: 'Civic',
-      vehicleYear: 2021,
-      accidentDate: '2024-01-20',
-      accidentDescription: 'Side impact collision. Driver side door and fender damaged. Airbags deployed.',
-      photos: [],
-      videos: [],
-      status: 'processing',
-      damageAssessments: [],
-      totalEstimatedCost: 0,
-      createdAt: '2024-01-20T14:15:00Z',
-      updatedAt: '2024-01-20T14:15:00Z',
-      aiAnalysisComplete: false
-    },
-    {
-      id: 'ticket_003',
-      policyNumber: 'POL-2024-003',
-      customerName: 'Michael Brown',
-      customerEmail: 'michael.brown@email.com',
-      customerPhone: '(555) 456-7890',
-      vehicleMake: 'Ford',
-      vehicleModel: 'F-150',
-      vehicleYear: 2023,
-      accidentDate: '2024-01-25',
-      accidentDescription: 'Parking lot incident. Minor scratches and dents on passenger side. No structural damage.',
-      photos: [],
-      videos: [],
-      status: 'approved',
-      damageAssessments: [],
-      totalEstimatedCost: 0,
-      createdAt: '2024-01-25T09:45:00Z',
-      updatedAt: '2024-01-25T09:45:00Z',
-      aiAnalysisComplete: false
-    }
-  ]
-
-  // Filter existing tickets based on search term for import functionality
-  const filteredTickets = existingTickets.filter(ticket =>
-    ticket.policyNumber.toLowerCase().includes(importSearchTerm.toLowerCase()) ||
-    ticket.customerName.toLowerCase().includes(importSearchTerm.toLowerCase()) ||
-    ticket.vehicleMake.toLowerCase().includes(importSearchTerm.toLowerCase()) ||
-    ticket.vehicleModel.toLowerCase().includes(importSearchTerm.toLowerCase())
-  )
-
   /**
    * Load saved data on component mount
    * 
@@ -160,13 +102,14 @@ const NewClaim: React.FC = () => {
    * This allows users to continue working on a claim after leaving the page.
    */
   useEffect(() => {
-    const savedData = getInProgressClaim(sessionId)
+    const savedData = getInProgressClaim(draftId)
     if (savedData) {
       setFormData(prev => ({ ...prev, ...savedData.formData }))
       setPhotos(savedData.photos)
       setVideos(savedData.videos || [])
       setDamageAssessments(savedData.damageAssessments)
       setAnalysisComplete(savedData.analysisComplete)
+      setAnalysisMetadata(savedData.analysisMetadata)
       setApprovedAssessments(savedData.approvedAssessments)
       setLastSaved(savedData.lastSaved)
       setHasUnsavedChanges(false)
@@ -174,7 +117,42 @@ const NewClaim: React.FC = () => {
     } else {
       setHasSavedProgress(false)
     }
-  }, [sessionId, getInProgressClaim])
+  }, [draftId, getInProgressClaim])
+
+  /**
+   * Resume on the saved step
+   * 
+   * Applied only the first time the draft is found, so that later saves do
+   * not move the user between steps.
+   */
+  const hasRestoredStepRef = useRef(false)
+  useEffect(() => {
+    const savedData = getInProgressClaim(draftId)
+    if (savedData && !hasRestoredStepRef.current) {
+      hasRestoredStepRef.current = true
+      setCurrentStep(savedData.currentStep || 1)
+    }
+  }, [draftId, getInProgressClaim])
+
+  /**
+   * Get In-Progress Data
+   * 
+   * Snapshot of the current wizard state in the shape stored for drafts.
+   * 
+   * @returns InProgressClaim for this draft
+   */
+  const getInProgressData = (): InProgressClaim => ({
+    id: draftId,
+    formData,
+    photos,
+    videos,
+    damageAssessments,
+    analysisComplete,
+    analysisMetadata,
+    approvedAssessments,
+    currentStep,
+    lastSaved: new Date().toISOString()
+  })
 
   /**
    * Auto-save functionality
@@ -184,17 +162,7 @@ const NewClaim: React.FC = () => {
    */
   useEffect(() => {
     const saveData = () => {
-      const inProgressData: InProgressClaim = {
-        id: sessionId,
-        formData,
-        photos,
-        videos,
-        damageAssessments,
-        analysisComplete,
-        approvedAssessments,
-        lastSaved: new Date().toISOString()
-      }
-      saveInProgressClaim(inProgressData)
+      saveInProgressClaim(getInProgressData())
       setLastSaved(new Date().toISOString())
       setHasUnsavedChanges(false)
     }
@@ -207,7 +175,7 @@ const NewClaim: React.FC = () => {
     }, 30000)
 
     return () => clearInterval(interval)
-  }, [formData, photos, videos, damageAssessments, analysisComplete, approvedAssessments, hasUnsavedChanges, sessionId, saveInProgressClaim])
+  }, [formData, photos, videos, damageAssessments, analysisComplete, analysisMetadata, approvedAssessments, currentStep, hasUnsavedChanges, draftId, saveInProgressClaim])
 
   /**
    * Save on page unload
@@ -218,23 +186,13 @@ const NewClaim: React.FC = () => {
   useEffect(() => {
     const handleBeforeUnload = () => {
       if (hasUnsavedChanges) {
-        const inProgressData: InProgressClaim = {
-          id: sessionId,
-          formData,
-          photos,
-          videos,
-          damageAssessments,
-          analysisComplete,
-          approvedAssessments,
-          lastSaved: new Date().toISOString()
-        }
-        saveInProgressClaim(inProgressData)
+        saveInProgressClaim(getInProgressData())
       }
     }
 
     window.addEventListener('beforeunload', handleBeforeUnload)
     return () => window.removeEventListener('beforeunload', handleBeforeUnload)
-  }, [formData, photos, videos, damageAssessments, analysisComplete, approvedAssessments, hasUnsavedChanges, sessionId, saveInProgressClaim])
+  }, [formData, photos, videos, damageAssessments, analysisComplete, analysisMetadata, approvedAssessments, currentStep, hasUnsavedChanges, draftId, saveInProgressClaim])
 
   /**
    * Save Progress
@@ -243,17 +201,7 @@ const NewClaim: React.FC = () => {
    * Called when user clicks the save button or through auto-save.
    */
   const saveProgress = () => {
-    const inProgressData: InProgressClaim = {
-      id: sessionId,
-      formData,
-      photos,
-      videos,
-      damageAssessments,
-      analysisComplete,
-      approvedAssessments,
-      lastSaved: new Date().toISOString()
-    }
-    saveInProgressClaim(inProgressData)
+    saveInProgressClaim(getInProgressData())
     setLastSaved(new Date().toISOString())
     setHasUnsavedChanges(false)
     setHasSavedProgress(true)
@@ -266,7 +214,7 @@ const NewClaim: React.FC = () => {
    * Used when user wants to start fresh.
    */
   const clearSavedProgress = () => {
-    deleteInProgressClaim(sessionId)
+    deleteInProgressClaim(draftId)
     setLastSaved('')
     setHasUnsavedChanges(false)
     setHasSavedProgress(false)
@@ -279,59 +227,53 @@ const NewClaim: React.FC = () => {
    * Called when user clicks the "Load Progress" button.
    */
   const loadSavedProgress = () => {
-    const savedData = getInProgressClaim(sessionId)
+    const savedData = getInProgressClaim(draftId)
     if (savedData) {
       setFormData(prev => ({ ...prev, ...savedData.formData }))
       setPhotos(savedData.photos)
       setVideos(savedData.videos || [])
       setDamageAssessments(savedData.damageAssessments)
       setAnalysisComplete(savedData.analysisComplete)
+      setAnalysisMetadata(savedData.analysisMetadata)
       setApprovedAssessments(savedData.approvedAssessments)
       setLastSaved(savedData.lastSaved)
       setHasUnsavedChanges(false)
       setHasSavedProgress(true)
-      // Reset to step 1 if we have form data
-      if (Object.keys(savedData.formData).length > 0) {
-        setCurrentStep(1)
-      }
+      // Return to the step the draft was saved on
+      setCurrentStep(savedData.currentStep || 1)
     }
   }
 
   /**
    * Handle Import Ticket
    * 
-   * Imports data from an existing ticket to pre-fill the form.
-   * This allows users to create new claims based on existing ticket information.
+   * Imports data from a ticket found in any ticket source to pre-fill the form.
+   * The ticket's fields arrive already mapped to form fields by its source.
    * 
-   * @param ticket - The existing ticket to import data from
+   * @param result - The ticket to import data from
    */
-  const handleImportTicket = (ticket: Claim) => {
-    setFormData({
-      policyNumber: ticket.policyNumber,
-      customerName: ticket.customerName,
-      customerEmail: ticket.customerEmail,
-      customerPhone: ticket.customerPhone,
-      vehicleMake: ticket.vehicleMake,
-      vehicleModel: ticket.vehicleModel,
-      vehicleYear: ticket.vehicleYear,
-      accidentDate: ticket.accidentDate,
-      accidentDescription: ticket.accidentDescription
-    })
+  const handleImportTicket = (result: TicketSearchResult) => {
+    setFormData(prev => ({ ...prev, ...result.formData }))
     
-    if (ticket.photos.length > 0) {
+    // Tickets that are existing claims also bring their photos and assessments
+    const ticket = result.sourceId === CLAIMS_TICKET_SOURCE_ID
+      ? state.claims.find(claim => claim.id === result.id)
+      : undefined
+    
+    if (ticket && ticket.photos.length > 0) {
       setPhotos(ticket.photos)
     }
     
-    if (ticket.damageAssessments.length > 0) {
+    if (ticket && ticket.damageAssessments.length > 0) {
       setDamageAssessments(ticket.damageAssessments)
       setAnalysisComplete(ticket.aiAnalysisComplete)
+      setAnalysisMetadata(ticket.analysisMetadata)
       // Auto-approve all imported assessments
       setApprovedAssessments(new Set(ticket.damageAssessments.map(a => a.id)))
     }
     
-    setSelectedTicket(ticket)
+    setSelectedTicket(result)
     setShowImportModal(false)
-    setImportSearchTerm('')
   }
 
   /**
@@ -346,16 +288,19 @@ const NewClaim: React.FC = () => {
       customerName: '',
       customerEmail: '',
       customerPhone: '',
+      customerZip: '',
       vehicleMake: '',
       vehicleModel: '',
       vehicleYear: new Date().getFullYear(),
       accidentDate: '',
-      accidentDescription: ''
+      accidentDescription: '',
+      coverageType: undefined
     })
     setPhotos([])
     setVideos([])
     setDamageAssessments([])
     setAnalysisComplete(false)
+    setAnalysisMetadata(undefined)
     setSelectedTicket(null)
     setApprovedAssessments(new Set())
   }
@@ -368,7 +313,7 @@ const NewClaim: React.FC = () => {
    * 
    * @param e - Input change event
    */
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
     // Clear error when user starts typing
@@ -381,50 +326,45 @@ const NewClaim: React.FC = () => {
   /**
    * Handle Media Upload
    * 
-   * Processes uploaded files (images and videos) and converts them to base64 strings.
-   * Uses a counter-based approach to ensure all files are processed before updating state.
-   * This prevents race conditions when multiple files are uploaded simultaneously.
+   * Stores uploaded files (images and videos) in the IndexedDB media store and keeps
+   * only their media IDs in component state. All files are stored before state is
+   * updated, so multiple files uploaded together are added in one go.
    * 
    * @param e - File input change event
    */
-  const handleMediaUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (files) {
+  const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    
+    // Reset the file input value to allow re-uploading the same file
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    
+    if (files.length === 0) return
+    
+    try {
       const newPhotos: string[] = []
       const newVideos: string[] = []
-      let processedFiles = 0
-      const totalFiles = files.length
       
-      Array.from(files).forEach(file => {
-        const reader = new FileReader()
-        reader.onload = (e) => {
-          if (e.target?.result) {
-            if (file.type.startsWith('image/')) {
-              newPhotos.push(e.target.result as string)
-            } else if (file.type.startsWith('video/')) {
-              newVideos.push(e.target.result as string)
-            }
-            
-            processedFiles++
-            
-            // Check if all files have been processed
-            if (processedFiles === totalFiles) {
-              if (newPhotos.length > 0) {
-                setPhotos(prev => [...prev, ...newPhotos])
-              }
-              if (newVideos.length > 0) {
-                setVideos(prev => [...prev, ...newVideos])
-              }
-              setHasUnsavedChanges(true)
-            }
-          }
+      for (const file of files) {
+        if (file.type.startsWith('image/')) {
+          newPhotos.push(await saveMedia(file))
+        } else if (file.type.startsWith('video/')) {
+          newVideos.push(await saveMedia(file))
         }
-        reader.readAsDataURL(file)
-      })
-    }
-    // Reset the file input value to allow re-uploading the same file
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
+      }
+      
+      if (newPhotos.length > 0) {
+        setPhotos(prev => [...prev, ...newPhotos])
+      }
+      if (newVideos.length > 0) {
+        setVideos(prev => [...prev, ...newVideos])
+      }
+      setHasUnsavedChanges(true)
+      setErrors(prev => ({ ...prev, media: '' }))
+    } catch (error) {
+      console.error('Error storing media:', error)
+      setErrors(prev => ({ ...prev, media: 'Some files could not be saved. Please try again.' }))
     }
   }
 
@@ -453,56 +393,75 @@ const NewClaim: React.FC = () => {
   }
 
   /**
-   * Simulate AI Analysis
+   * Run Damage Analysis
    * 
-   * Simulates AI-powered damage analysis by generating mock assessments.
-   * In a real application, this would call an AI service to analyze uploaded media.
+   * Sends the uploaded media to the active DamageAnalyzer from the analysis registry.
+   * The analyzer decides how damage is detected (simulated, recorded fixture or remote model);
+   * this page only stores the results.
    * 
    * Features:
-   * - 3-second processing simulation
-   * - Generates realistic damage assessments
+   * - Works with any registered analyzer
    * - Auto-approves all assessments initially
-   * - Uses unique IDs for each assessment
+   * - Keeps analysis metadata for the submitted claim
+   * - Surfaces analyzer failures instead of leaving the spinner running
    */
-  const simulateAIAnalysis = async () => {
+  const runDamageAnalysis = async () => {
     setIsAnalyzing(true)
+    setAnalysisError('')
     
-    // Simulate AI processing time
-    await new Promise(resolve => setTimeout(resolve, 3000))
-    
-    // Generate mock damage assessments with cost database references
-    const mockAssessments: DamageAssessment[] = [
-      {
-        id: `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_1`,
-        type: 'dent',
-        severity: 'moderate',
-        location: 'Front bumper',
-        estimatedCost: 850,
-        confidence: 0.92
-      },
-      {
-        id: `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_2`,
-        type: 'scratch',
-        severity: 'minor',
-        location: 'Driver side door',
-        estimatedCost: 320,
-        confidence: 0.88
-      },
-      {
-        id: `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_3`,
-        type: 'paint',
-        severity: 'minor',
-        location: 'Hood',
-        estimatedCost: 450,
-        confidence: 0.85
-      }
-    ]
-    
-    setDamageAssessments(mockAssessments)
-    // Auto-approve all assessments initially
-    setApprovedAssessments(new Set(mockAssessments.map(a => a.id)))
-    setAnalysisComplete(true)
-    setIsAnalyzing(false)
+    try {
+      const analyzer = getActiveDamageAnalyzer()
+      const result = await analyzer.analyze(photos, videos, {
+        make: formData.vehicleMake,
+        model: formData.vehicleModel,
+        year: Number(formData.vehicleYear)
+      })
+      
+      setDamageAssessments(result.assessments)
+      setAnalysisMetadata(result.metadata)
+      // Auto-approve all assessments initially
+      setApprovedAssessments(new Set(result.assessments.map(a => a.id)))
+      setAnalysisComplete(true)
+      setHasUnsavedChanges(true)
+    } catch (error) {
+      console.error('Damage analysis failed:', error)
+      setAnalysisError('Damage analysis failed. Please try again.')
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }
+
+  // Policy found for the entered details and the coverage the claim is made under
+  const policyCheck = verifyPolicy(formData)
+  const selectedCoverage = policyCheck.policy && getCoverage(policyCheck.policy, formData.coverageType)
+
+  /**
+   * Get Policy Errors
+   * 
+   * Checks the entered details against the policy store.
+   * 
+   * @returns Errors keyed by form field (empty when the policy is verified)
+   */
+  const getPolicyErrors = () => {
+    const policyErrors = { ...policyCheck.errors }
+    if (policyCheck.policy && !selectedCoverage && formData.coverageType) {
+      policyErrors.coverageType = `Policy ${policyCheck.policy.policyNumber} does not include ${coverageTypeLabels[formData.coverageType].toLowerCase()} coverage`
+    }
+    return policyErrors
+  }
+
+  /**
+   * Handle Details Next
+   * 
+   * Moves on to the media step once the policy has been verified.
+   */
+  const handleDetailsNext = () => {
+    const policyErrors = getPolicyErrors()
+    if (Object.keys(policyErrors).length > 0) {
+      setErrors(prev => ({ ...prev, ...policyErrors }))
+      return
+    }
+    setCurrentStep(2)
   }
 
   /**
@@ -520,10 +479,15 @@ const NewClaim: React.FC = () => {
     if (!formData.customerName) newErrors.customerName = 'Customer name is required'
     if (!formData.customerEmail) newErrors.customerEmail = 'Email is required'
     if (!formData.customerPhone) newErrors.customerPhone = 'Phone number is required'
+    const zipError = validateZipCode(formData.customerZip)
+    if (zipError) newErrors.customerZip = zipError
     if (!formData.vehicleMake) newErrors.vehicleMake = 'Vehicle make is required'
     if (!formData.vehicleModel) newErrors.vehicleModel = 'Vehicle model is required'
     if (!formData.accidentDate) newErrors.accidentDate = 'Accident date is required'
     if (!formData.accidentDescription) newErrors.accidentDescription = 'Accident description is required'
+    Object.entries(getPolicyErrors()).forEach(([field, message]) => {
+      if (!newErrors[field]) newErrors[field] = message
+    })
     
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -536,7 +500,7 @@ const NewClaim: React.FC = () => {
    * Creates a new claim with approved assessments and default repair shop assignment.
    * Clears saved progress and navigates to the dashboard.
    */
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (!validateForm()) return
     
     // Only include approved assessments
@@ -544,21 +508,26 @@ const NewClaim: React.FC = () => {
       approvedAssessments.has(assessment.id)
     )
     
-    const totalEstimatedCost = approvedAssessmentsList.reduce((sum, assessment) => sum + assessment.estimatedCost, 0)
+    // Price the approved assessments into an itemized estimate
+    const estimate = buildEstimate(approvedAssessmentsList)
     
     const newClaim = {
       ...formData,
+      coverageType: selectedCoverage?.type,
       photos,
       videos,
       status: 'pending' as const,
       damageAssessments: approvedAssessmentsList,
-      totalEstimatedCost,
-      repairShopId: 'shop_001', // Default to Premium Auto Body & Paint
+      totalEstimatedCost: estimate.total,
+      estimate,
+      repairShopId: getRecommendedShop({ damageAssessments: approvedAssessmentsList, customerZip: formData.customerZip, estimate }, state.claims)?.id,
       aiAnalysisComplete: analysisComplete,
-      processingTime: isAnalyzing ? undefined : 3 // 3 minutes for demo
+      analysisMetadata,
+      // Analysis duration rounded up to whole minutes
+      processingTime: analysisMetadata ? Math.ceil(analysisMetadata.durationMs / 60000) : undefined
     }
     
-    addClaim(newClaim)
+    await addClaim(newClaim)
     
     // Clear saved progress after successful submission
     clearSavedProgress()
@@ -604,21 +573,12 @@ const NewClaim: React.FC = () => {
   }
 
   const getCostDatabaseReference = (assessment: DamageAssessment) => {
-    // Mock cost database reference - in real app this would come from actual database
-    const references = {
-      'dent': { category: 'Body Repair', itemCode: 'DENT-001', confidence: 'high' },
-      'scratch': { category: 'Paint & Body', itemCode: 'SCRATCH-001', confidence: 'high' },
-      'paint': { category: 'Paint & Body', itemCode: 'PAINT-001', confidence: 'medium' },
-      'structural': { category: 'Structural', itemCode: 'STRUCT-001', confidence: 'low' },
-      'glass': { category: 'Glass', itemCode: 'GLASS-001', confidence: 'high' }
-    }
-    return references[assessment.type] || { category: 'General', itemCode: 'GEN-001', confidence: 'medium' }
+    // Repair cost catalog item the analyzer priced this assessment from
+    return assessment.catalogItemId ? getRepairCostItemById(assessment.catalogItemId) : undefined
   }
 
   const getApprovedTotalCost = () => {
-    return damageAssessments
-      .filter(assessment => approvedAssessments.has(assessment.id))
-      .reduce((sum, assessment) => sum + assessment.estimatedCost, 0)
+    return buildEstimate(damageAssessments.filter(assessment => approvedAssessments.has(assessment.id))).total
   }
 
   return (
@@ -665,7 +625,7 @@ const NewClaim: React.FC = () => {
 
       {/* Progress Steps */}
       <div className="flex items-center space-x-4">
-        {[1, 2, 3].map((step) => (
+        {claimWizardSteps.map((_, index) => index + 1).map((step) => (
           <div key={step} className="flex items-center">
             <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
               currentStep >= step 
@@ -674,7 +634,7 @@ const NewClaim: React.FC = () => {
             }`}>
               {step}
             </div>
-            {step < 3 && (
+            {step < claimWizardSteps.length && (
               <div className={`w-16 h-0.5 mx-2 ${
                 currentStep > step ? 'bg-primary-600' : 'bg-gray-200'
               }`} />
@@ -682,9 +642,7 @@ const NewClaim: React.FC = () => {
           </div>
         ))}
         <div className="ml-4 text-sm text-gray-600">
-          {currentStep === 1 && 'Basic Information'}
-          {currentStep === 2 && 'Upload Photos'}
-          {currentStep === 3 && 'AI Analysis & Review'}
+          {claimWizardSteps[currentStep - 1]}
         </div>
       </div>
 
@@ -712,10 +670,10 @@ const NewClaim: React.FC = () => {
                   </div>
                   <div>
                     <p className="font-medium text-blue-900">
-                      Imported from Ticket: {selectedTicket.policyNumber}
+                      Imported from {selectedTicket.sourceName}: {selectedTicket.id}
                     </p>
                     <p className="text-sm text-blue-700">
-                      Customer: {selectedTicket.customerName} • Vehicle: {selectedTicket.vehicleYear} {selectedTicket.vehicleMake} {selectedTicket.vehicleModel}
+                      Customer: {selectedTicket.formData.customerName || '—'} • Vehicle: {selectedTicket.formData.vehicleYear} {selectedTicket.formData.vehicleMake} {selectedTicket.formData.vehicleModel}
                     </p>
                   </div>
                 </div>
@@ -745,6 +703,18 @@ const NewClaim: React.FC = () => {
               {errors.policyNumber && (
                 <p className="text-red-500 text-sm mt-1">{errors.policyNumber}</p>
               )}
+              {policyCheck.policy && (
+                <div className="mt-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                  <p className="font-medium flex items-center">
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    {policyCheck.policy.holderName} • {policyCheck.policy.status}
+                  </p>
+                  <p className="text-xs mt-1">
+                    Covered {policyCheck.policy.effectiveDate} to {getCoverageEndDate(policyCheck.policy)} • {' '}
+                    {policyCheck.policy.coveredVehicles.map(vehicle => `${vehicle.year} ${vehicle.make} ${vehicle.model}`).join(', ')}
+                  </p>
+                </div>
+              )}
             </div>
 
             <div>
@@ -798,6 +768,25 @@ const NewClaim: React.FC = () => {
               )}
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                ZIP Code *
+              </label>
+              <input
+                type="text"
+                name="customerZip"
+                value={formData.customerZip}
+                onChange={handleInputChange}
+                className={`input-field ${errors.customerZip ? 'border-red-500' : ''}`}
+                placeholder="Customer's home ZIP code"
+              />
+              {errors.customerZip ? (
+                <p className="text-red-500 text-sm mt-1">{errors.customerZip}</p>
+              ) : formData.customerZip && !getZipCentroid(formData.customerZip) && (
+                <p className="text-gray-500 text-sm mt-1">Not in the ZIP table; repair shop distances will be unknown</p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Vehicle Make *
@@ -863,6 +852,29 @@ const NewClaim: React.FC = () => {
                 <p className="text-red-500 text-sm mt-1">{errors.accidentDate}</p>
               )}
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Coverage
+              </label>
+              <select
+                name="coverageType"
+                value={selectedCoverage?.type || formData.coverageType || ''}
+                onChange={handleInputChange}
+                disabled={!policyCheck.policy}
+                className={`input-field ${errors.coverageType ? 'border-red-500' : ''}`}
+              >
+                {!policyCheck.policy && <option value="">Enter a valid policy number first</option>}
+                {policyCheck.policy?.coverages.map(coverage => (
+                  <option key={coverage.type} value={coverage.type}>
+                    {coverageTypeLabels[coverage.type]} (${coverage.deductible.toLocaleString()} deductible, ${coverage.limit.toLocaleString()} limit)
+                  </option>
+                ))}
+              </select>
+              {errors.coverageType && (
+                <p className="text-red-500 text-sm mt-1">{errors.coverageType}</p>
+              )}
+            </div>
           </div>
 
           <div className="mt-6">
@@ -884,7 +896,7 @@ const NewClaim: React.FC = () => {
 
           <div className="flex justify-end mt-6">
             <button
-              onClick={() => setCurrentStep(2)}
+              onClick={handleDetailsNext}
               className="btn-primary"
               disabled={!formData.policyNumber || !formData.customerName}
             >
@@ -925,6 +937,9 @@ const NewClaim: React.FC = () => {
                   <Upload className="h-4 w-4 mr-2" />
                   Select Media
                 </button>
+                {errors.media && (
+                  <p className="text-red-500 text-sm">{errors.media}</p>
+                )}
               </div>
             </div>
 
@@ -936,8 +951,9 @@ const NewClaim: React.FC = () => {
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                   {photos.map((photo, index) => (
                     <div key={index} className="relative group">
-                      <img
-                        src={photo}
+                      <MediaThumbnail
+                        mediaId={photo}
+                        kind="photo"
                         alt={`Damage photo ${index + 1}`}
                         className="w-full h-32 object-cover rounded-lg"
                       />
@@ -961,8 +977,9 @@ const NewClaim: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {videos.map((video, index) => (
                     <div key={index} className="relative group">
-                      <video
-                        src={video}
+                      <MediaThumbnail
+                        mediaId={video}
+                        kind="video"
                         controls
                         className="w-full h-48 object-cover rounded-lg"
                       />
@@ -1012,11 +1029,14 @@ const NewClaim: React.FC = () => {
                 Our AI will analyze the uploaded photos to assess damage and estimate repair costs.
               </p>
               <button
-                onClick={simulateAIAnalysis}
+                onClick={runDamageAnalysis}
                 className="btn-primary"
               >
                 Start AI Analysis
               </button>
+              {analysisError && (
+                <p className="text-red-500 text-sm mt-4">{analysisError}</p>
+              )}
             </div>
           )}
 
@@ -1037,6 +1057,12 @@ const NewClaim: React.FC = () => {
               <div className="flex items-center space-x-2 text-green-600">
                 <CheckCircle className="h-5 w-5" />
                 <span className="font-medium">Analysis Complete</span>
+                {analysisMetadata && (
+                  <span className="text-sm text-gray-500">
+                    • {analysisMetadata.analyzerName}
+                    {analysisMetadata.modelVersion && ` (${analysisMetadata.modelVersion})`}
+                  </span>
+                )}
               </div>
 
                              <div>
@@ -1118,22 +1144,39 @@ const NewClaim: React.FC = () => {
                                    <BookOpen className="w-4 h-4 text-blue-600" />
                                    <span className="text-sm font-medium text-gray-900">Cost Database Reference</span>
                                  </div>
-                                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                   costRef.confidence === 'high' ? 'bg-green-100 text-green-800' :
-                                   costRef.confidence === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                                   'bg-red-100 text-red-800'
-                                 }`}>
-                                   {costRef.confidence} confidence
-                                 </span>
+                                 {costRef && (
+                                   <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                     costRef.confidence === 'high' ? 'bg-green-100 text-green-800' :
+                                     costRef.confidence === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                                     'bg-red-100 text-red-800'
+                                   }`}>
+                                     {costRef.confidence} confidence
+                                   </span>
+                                 )}
                                </div>
-                               <div className="mt-2 grid grid-cols-2 gap-4 text-sm text-gray-600">
-                                 <div>
-                                   <span className="font-medium">Category:</span> {costRef.category}
-                                 </div>
-                                 <div>
-                                   <span className="font-medium">Item Code:</span> {costRef.itemCode}
+                               {costRef ? (
+                                 <div className="mt-2 grid grid-cols-2 gap-4 text-sm text-gray-600">
+                                   <div>
+                                     <span className="font-medium">Category:</span> {damageTypeCategories[costRef.damageType]}
+                                   </div>
+                                   <div>
+                                     <span className="font-medium">Item Code:</span>{' '}
+                                     <Link
+                                       to={`/repair-costs?item=${costRef.id}`}
+                                       target="_blank"
+                                       rel="noopener noreferrer"
+                                       className="text-primary-600 hover:text-primary-700 font-mono"
+                                     >
+                                       {costRef.id}
+                                     </Link>
+                                   </div>
+                                   <div className="col-span-2">
+                                     <span className="font-medium">Catalog Item:</span> {costRef.description} (${costRef.totalCost.toLocaleString()}, {costRef.vehicleCategory})
+                                   </div>
                                  </div>
-                               </div>
+                               ) : (
+                                 <p className="mt-2 text-sm text-gray-500">No matching catalog item for this damage.</p>
+                               )}
                              </div>
                            </div>
                          </div>
@@ -1148,7 +1191,7 @@ const NewClaim: React.FC = () => {
                    <div>
                      <span className="text-lg font-medium text-gray-900">Total Estimated Cost</span>
                      <p className="text-sm text-gray-600 mt-1">
-                       Based on {approvedAssessments.size} approved assessment{approvedAssessments.size !== 1 ? 's' : ''}
+                       Based on {approvedAssessments.size} approved assessment{approvedAssessments.size !== 1 ? 's' : ''}, including labor, parts, paint &amp; materials and tax
                      </p>
                    </div>
                    <div className="text-right">
@@ -1157,13 +1200,50 @@ const NewClaim: React.FC = () => {
                      </span>
                      {approvedAssessments.size < damageAssessments.length && (
                        <p className="text-sm text-gray-500 mt-1">
-                         ${damageAssessments.reduce((sum, a) => sum + a.estimatedCost, 0).toLocaleString()} total if all approved
+                         ${buildEstimate(damageAssessments).total.toLocaleString()} total if all approved
                        </p>
                      )}
+                     {selectedCoverage && (() => {
+                       const payable = calculateNetPayable(getApprovedTotalCost(), selectedCoverage)
+                       return (
+                         <p className="text-sm font-medium text-green-700 mt-1" title={describePayableAmount(payable)}>
+                           Net payable ${payable.netPayable.toLocaleString()}
+                         </p>
+                       )
+                     })()}
                    </div>
                  </div>
                </div>
 
+              {(() => {
+                const approvedList = damageAssessments.filter(assessment => approvedAssessments.has(assessment.id))
+                const recommendation = recommendShops({
+                  damageAssessments: approvedList,
+                  customerZip: formData.customerZip,
+                  estimate: buildEstimate(approvedList)
+                }, undefined, state.claims)[0]
+                if (!recommendation) return null
+                return (
+                  <div className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center space-x-2 mb-2">
+                      <Wrench className="h-4 w-4 text-primary-600" />
+                      <span className="font-medium text-gray-900">Recommended Repair Shop: {recommendation.shop.name}</span>
+                      <span className="text-sm text-gray-500">({recommendation.score}/100)</span>
+                    </div>
+                    <ul className="text-sm text-gray-600 space-y-1">
+                      {recommendation.factors.map(factor => (
+                        <li key={factor.type}>
+                          <span className="font-medium">{factor.label}:</span> {factor.detail}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-gray-500 mt-2">
+                      The claim is assigned to this shop; it can be changed on the claim details page.
+                    </p>
+                  </div>
+                )
+              })()}
+
               <div className="flex justify-between">
                 <button
                   onClick={() => setCurrentStep(2)}
@@ -1185,99 +1265,31 @@ const NewClaim: React.FC = () => {
 
       {/* Import Ticket Modal */}
       {showImportModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[80vh] overflow-hidden">
-            <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900">Import Existing Ticket</h3>
-              <button
-                onClick={() => setShowImportModal(false)}
-                className="text-gray-400 hover:text-gray-600"
-              >
-                <X className="h-6 w-6" />
-              </button>
-            </div>
-
-            <div className="p-6">
-              {/* Search */}
-              <div className="mb-6">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <input
-                    type="text"
-                    placeholder="Search by policy number, customer name, or vehicle..."
-                    value={importSearchTerm}
-                    onChange={(e) => setImportSearchTerm(e.target.value)}
-                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  />
-                </div>
-              </div>
-
-              {/* Ticket List */}
-              <div className="space-y-3 max-h-96 overflow-y-auto">
-                {filteredTickets.length === 0 ? (
-                  <div className="text-center py-8 text-gray-500">
-                    <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                    <p>No tickets found matching your search</p>
-                  </div>
-                ) : (
-                  filteredTickets.map((ticket) => (
-                    <div
-                      key={ticket.id}
-                      onClick={() => handleImportTicket(ticket)}
-                      className="p-4 border border-gray-200 rounded-lg hover:border-primary-300 hover:bg-primary-50 cursor-pointer transition-colors"
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-3 mb-2">
-                            <div className="p-2 bg-gray-100 rounded-lg">
-                              <FileText className="h-4 w-4 text-gray-600" />
-                            </div>
-                            <div>
-                              <p className="font-medium text-gray-900">{ticket.policyNumber}</p>
-                              <p className="text-sm text-gray-600">{ticket.customerName}</p>
-                            </div>
-                          </div>
-                          <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
-                            <div>
-                              <span className="font-medium">Vehicle:</span> {ticket.vehicleYear} {ticket.vehicleMake} {ticket.vehicleModel}
-                            </div>
-                            <div>
-                              <span className="font-medium">Status:</span> 
-                              <span className={`ml-1 px-2 py-1 rounded-full text-xs font-medium ${
-                                ticket.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                                ticket.status === 'processing' ? 'bg-orange-100 text-orange-800' :
-                                ticket.status === 'approved' ? 'bg-green-100 text-green-800' :
-                                'bg-red-100 text-red-800'
-                              }`}>
-                                {ticket.status.charAt(0).toUpperCase() + ticket.status.slice(1)}
-                              </span>
-                            </div>
-                          </div>
-                          <p className="text-sm text-gray-600 mt-2 line-clamp-2">
-                            {ticket.accidentDescription}
-                          </p>
-                        </div>
-                        <ArrowRight className="h-5 w-5 text-gray-400" />
-                      </div>
-                    </div>
-                  ))
-                )}
-              </div>
-            </div>
-
-            <div className="flex justify-end p-6 border-t border-gray-200">
-              <button
-                onClick={() => setShowImportModal(false)}
-                className="btn-secondary"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
+        <ImportTicketModal
+          claims={state.claims}
+          onSelect={handleImportTicket}
+          onClose={() => setShowImportModal(false)}
+        />
       )}
     </div>
   )
 }
 
-export default NewClaim 
\ No newline at end of file
+/**
+ * NewClaimRoute Component
+ * 
+ * Route entry for the claim wizard. /new-claim starts a fresh draft with its
+ * own ID; /new-claim/:draftId opens (or resumes) that draft. The wizard is
+ * keyed by draft ID so switching drafts never carries state across.
+ */
+const NewClaimRoute: React.FC = () => {
+  const { draftId } = useParams<{ draftId: string }>()
+
+  if (!draftId) {
+    return <Navigate to={`/new-claim/${createDraftId()}`} replace />
+  }
+
+  return <NewClaim key={draftId} draftId={draftId} />
+}
+
+export default NewClaimRoute 
\ No newline at end of file
@@ -0,0 +1,154 @@
+/**
+ * RepairBoard.tsx
+ *
+ * Board of all repairs in progress, grouped by repair shop.
+ *
+ * Key Features:
+ * - Active repair orders per shop with their current stage
+ * - Time spent in the current stage and progress through the stages
+ * - Average time per stage and per repair across all repair orders
+ */
+
+import React from 'react'
+import { Link } from 'react-router-dom'
+import { ClipboardList, Clock, Timer } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useRepairShops } from '../services/shopStore'
+import {
+  repairStages,
+  repairStageLabels,
+  getCurrentRepairStage,
+  getStageDurations,
+  getCycleTimeStats,
+  isRepairActive,
+  formatDuration
+} from '../services/repairOrders'
+
+const RepairBoard: React.FC = () => {
+  const { state } = useClaims()
+  const shops = useRepairShops()
+
+  const activeRepairs = state.claims.filter(claim => isRepairActive(claim.repairOrder))
+  const repairsByShop = activeRepairs.reduce<Record<string, Claim[]>>((groups, claim) => {
+    const shopId = claim.repairShopId || ''
+    groups[shopId] = [...(groups[shopId] || []), claim]
+    return groups
+  }, {})
+  const shopIds = Object.keys(repairsByShop).sort((a, b) =>
+    (shops.find(shop => shop.id === a)?.name || '').localeCompare(shops.find(shop => shop.id === b)?.name || '')
+  )
+  const cycleStats = getCycleTimeStats(state.claims)
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Repairs in Progress</h1>
+        <p className="text-gray-600 mt-2">
+          {activeRepairs.length} active repair order(s) across {shopIds.length} shop(s)
+        </p>
+      </div>
+
+      {/* Cycle Times */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-2">
+            <Timer className="h-5 w-5 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Cycle Time</h2>
+          </div>
+          <span className="text-sm text-gray-600">
+            Average repair (received to ready):{' '}
+            <span className="font-medium">
+              {cycleStats.averageCycleHours !== null ? formatDuration(cycleStats.averageCycleHours) : '—'}
+            </span>
+            {' '}over {cycleStats.completedCount} completed repair(s)
+          </span>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          {cycleStats.stages.map(({ stage, count, averageHours }) => (
+            <div key={stage} className="bg-gray-50 rounded-lg p-3 text-center">
+              <div className="text-xs text-gray-500">{repairStageLabels[stage]}</div>
+              <div className="text-lg font-semibold text-gray-900">
+                {averageHours !== null ? formatDuration(averageHours) : '—'}
+              </div>
+              <div className="text-xs text-gray-500">{count} measured</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Repairs by Shop */}
+      {shopIds.length === 0 ? (
+        <div className="card text-center py-12">
+          <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No repairs are in progress.</p>
+        </div>
+      ) : (
+        shopIds.map(shopId => {
+          const shop = shops.find(candidate => candidate.id === shopId)
+          return (
+            <div key={shopId} className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">{shop?.name || 'Unknown shop'}</h2>
+                {shop && (
+                  <Link to={`/repair-shops/${shop.id}/calendar`} className="text-sm text-primary-600 hover:text-primary-700">
+                    Shop calendar
+                  </Link>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                      <th className="py-2 pr-4">Repair Order</th>
+                      <th className="py-2 pr-4">Vehicle</th>
+                      <th className="py-2 pr-4">Stage</th>
+                      <th className="py-2 pr-4">In Stage</th>
+                      <th className="py-2">Progress</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {repairsByShop[shopId].map(claim => {
+                      const order = claim.repairOrder!
+                      const stage = getCurrentRepairStage(order)
+                      const durations = getStageDurations(order)
+                      const inStage = durations[durations.length - 1]
+                      const progress = (repairStages.indexOf(stage) / (repairStages.length - 1)) * 100
+                      return (
+                        <tr key={claim.id} className="text-sm">
+                          <td className="py-3 pr-4">
+                            <Link to={`/claim/${claim.id}`} className="text-primary-600 hover:text-primary-700 font-medium">
+                              {order.number}
+                            </Link>
+                            <div className="text-xs text-gray-500">{claim.customerName}</div>
+                          </td>
+                          <td className="py-3 pr-4 text-gray-700">
+                            {claim.vehicleYear} {claim.vehicleMake} {claim.vehicleModel}
+                          </td>
+                          <td className="py-3 pr-4 font-medium text-gray-900">{repairStageLabels[stage]}</td>
+                          <td className="py-3 pr-4 text-gray-700">
+                            <span className="flex items-center space-x-1">
+                              <Clock className="h-4 w-4 text-gray-400" />
+                              <span>{inStage ? formatDuration(inStage.hours) : '—'}</span>
+                            </span>
+                          </td>
+                          <td className="py-3 w-48">
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                              <div className="bg-primary-600 h-2 rounded-full" style={{ width: `${progress}%` }} />
+                            </div>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
+
+export default RepairBoard
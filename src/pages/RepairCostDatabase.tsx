@@ -1,262 +1,8 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { Search, Download, BookOpen, Calculator, Car, Wrench, DollarSign } from 'lucide-react'
-
-interface RepairCostItem {
-  id: string
-  damageType: 'scratch' | 'dent' | 'structural' | 'glass' | 'paint' | 'mechanical'
-  severity: 'minor' | 'moderate' | 'severe'
-  vehicleCategory: 'compact' | 'sedan' | 'suv' | 'luxury' | 'truck'
-  description: string
-  baseCost: number
-  laborHours: number
-  partsCost: number
-  totalCost: number
-  confidence: 'high' | 'medium' | 'low'
-  lastUpdated: string
-}
-
-const repairCostData: RepairCostItem[] = [
-  // Scratches
-  {
-    id: 'scratch_1',
-    damageType: 'scratch',
-    severity: 'minor',
-    vehicleCategory: 'compact',
-    description: 'Surface scratch on door panel',
-    baseCost: 150,
-    laborHours: 1.5,
-    partsCost: 50,
-    totalCost: 200,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'scratch_2',
-    damageType: 'scratch',
-    severity: 'moderate',
-    vehicleCategory: 'sedan',
-    description: 'Deep scratch requiring paint touch-up',
-    baseCost: 300,
-    laborHours: 3,
-    partsCost: 100,
-    totalCost: 400,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'scratch_3',
-    damageType: 'scratch',
-    severity: 'severe',
-    vehicleCategory: 'luxury',
-    description: 'Multiple deep scratches requiring full panel repaint',
-    baseCost: 800,
-    laborHours: 6,
-    partsCost: 200,
-    totalCost: 1000,
-    confidence: 'medium',
-    lastUpdated: '2024-01-15'
-  },
-  // Dents
-  {
-    id: 'dent_1',
-    damageType: 'dent',
-    severity: 'minor',
-    vehicleCategory: 'compact',
-    description: 'Small dent on fender',
-    baseCost: 200,
-    laborHours: 2,
-    partsCost: 0,
-    totalCost: 200,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'dent_2',
-    damageType: 'dent',
-    severity: 'moderate',
-    vehicleCategory: 'suv',
-    description: 'Medium dent requiring paintless dent repair',
-    baseCost: 400,
-    laborHours: 4,
-    partsCost: 0,
-    totalCost: 400,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'dent_3',
-    damageType: 'dent',
-    severity: 'severe',
-    vehicleCategory: 'truck',
-    description: 'Large dent requiring panel replacement',
-    baseCost: 1200,
-    laborHours: 8,
-    partsCost: 500,
-    totalCost: 1700,
-    confidence: 'medium',
-    lastUpdated: '2024-01-15'
-  },
-  // Glass
-  {
-    id: 'glass_1',
-    damageType: 'glass',
-    severity: 'minor',
-    vehicleCategory: 'sedan',
-    description: 'Windshield chip repair',
-    baseCost: 100,
-    laborHours: 1,
-    partsCost: 50,
-    totalCost: 150,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'glass_2',
-    damageType: 'glass',
-    severity: 'moderate',
-    vehicleCategory: 'suv',
-    description: 'Side window replacement',
-    baseCost: 300,
-    laborHours: 2,
-    partsCost: 200,
-    totalCost: 500,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'glass_3',
-    damageType: 'glass',
-    severity: 'severe',
-    vehicleCategory: 'luxury',
-    description: 'Full windshield replacement with calibration',
-    baseCost: 800,
-    laborHours: 4,
-    partsCost: 600,
-    totalCost: 1400,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  // Structural
-  {
-    id: 'structural_1',
-    damageType: 'structural',
-    severity: 'minor',
-    vehicleCategory: 'compact',
-    description: 'Minor frame alignment',
-    baseCost: 500,
-    laborHours: 6,
-    partsCost: 100,
-    totalCost: 600,
-    confidence: 'medium',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'structural_2',
-    damageType: 'structural',
-    severity: 'moderate',
-    vehicleCategory: 'sedan',
-    description: 'Frame straightening and reinforcement',
-    baseCost: 1500,
-    laborHours: 12,
-    partsCost: 400,
-    totalCost: 1900,
-    confidence: 'medium',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'structural_3',
-    damageType: 'structural',
-    severity: 'severe',
-    vehicleCategory: 'truck',
-    description: 'Major structural repair with new components',
-    baseCost: 3500,
-    laborHours: 24,
-    partsCost: 1200,
-    totalCost: 4700,
-    confidence: 'low',
-    lastUpdated: '2024-01-15'
-  },
-  // Paint
-  {
-    id: 'paint_1',
-    damageType: 'paint',
-    severity: 'minor',
-    vehicleCategory: 'compact',
-    description: 'Single panel paint touch-up',
-    baseCost: 250,
-    laborHours: 3,
-    partsCost: 100,
-    totalCost: 350,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'paint_2',
-    damageType: 'paint',
-    severity: 'moderate',
-    vehicleCategory: 'sedan',
-    description: 'Multi-panel paint job with blending',
-    baseCost: 800,
-    laborHours: 8,
-    partsCost: 300,
-    totalCost: 1100,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'paint_3',
-    damageType: 'paint',
-    severity: 'severe',
-    vehicleCategory: 'luxury',
-    description: 'Full vehicle repaint with premium finish',
-    baseCost: 2500,
-    laborHours: 20,
-    partsCost: 800,
-    totalCost: 3300,
-    confidence: 'medium',
-    lastUpdated: '2024-01-15'
-  },
-  // Mechanical
-  {
-    id: 'mechanical_1',
-    damageType: 'mechanical',
-    severity: 'minor',
-    vehicleCategory: 'compact',
-    description: 'Bumper bracket replacement',
-    baseCost: 150,
-    laborHours: 2,
-    partsCost: 80,
-    totalCost: 230,
-    confidence: 'high',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'mechanical_2',
-    damageType: 'mechanical',
-    severity: 'moderate',
-    vehicleCategory: 'suv',
-    description: 'Suspension component repair',
-    baseCost: 600,
-    laborHours: 6,
-    partsCost: 300,
-    totalCost: 900,
-    confidence: 'medium',
-    lastUpdated: '2024-01-15'
-  },
-  {
-    id: 'mechanical_3',
-    damageType: 'mechanical',
-    severity: 'severe',
-    vehicleCategory: 'truck',
-    description: 'Engine/transmission damage assessment',
-    baseCost: 2000,
-    laborHours: 16,
-    partsCost: 1500,
-    totalCost: 3500,
-    confidence: 'low',
-    lastUpdated: '2024-01-15'
-  }
-]
+import { repairCostCatalog } from '../data/repairCostCatalog'
+import EstimateRatesCard from '../components/EstimateRatesCard'
 
 const RepairCostDatabase: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('')
@@ -264,8 +10,16 @@ const RepairCostDatabase: React.FC = () => {
   const [selectedSeverity, setSelectedSeverity] = useState<string>('all')
   const [selectedVehicleCategory, setSelectedVehicleCategory] = useState<string>('all')
   const [sortBy, setSortBy] = useState<'totalCost' | 'confidence' | 'lastUpdated'>('totalCost')
+  const [searchParams] = useSearchParams()
+  const highlightedItemId = searchParams.get('item')
+  const highlightedRowRef = useRef<HTMLTableRowElement>(null)
+
+  // Scroll a deep-linked catalog item (/repair-costs?item=<id>) into view
+  useEffect(() => {
+    highlightedRowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [highlightedItemId])
 
-  const filteredData = repairCostData.filter(item => {
+  const filteredData = repairCostCatalog.filter(item => {
     const matchesSearch = item.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.damageType.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesDamageType = selectedDamageType === 'all' || item.damageType === selectedDamageType
@@ -348,7 +102,7 @@ const RepairCostDatabase: React.FC = () => {
               </div>
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Total Items</p>
-                <p className="text-2xl font-bold text-gray-900">{repairCostData.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{repairCostCatalog.length}</p>
               </div>
             </div>
           </div>
@@ -360,7 +114,7 @@ const RepairCostDatabase: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Avg Cost</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  ${Math.round(repairCostData.reduce((sum, item) => sum + item.totalCost, 0) / repairCostData.length)}
+                  ${Math.round(repairCostCatalog.reduce((sum, item) => sum + item.totalCost, 0) / repairCostCatalog.length)}
                 </p>
               </div>
             </div>
@@ -373,7 +127,7 @@ const RepairCostDatabase: React.FC = () => {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">High Confidence</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {repairCostData.filter(item => item.confidence === 'high').length}
+                  {repairCostCatalog.filter(item => item.confidence === 'high').length}
                 </p>
               </div>
             </div>
@@ -392,6 +146,9 @@ const RepairCostDatabase: React.FC = () => {
         </div>
       </div>
 
+      {/* Estimate Rates */}
+      <EstimateRatesCard />
+
       {/* Filters and Search */}
       <div className="card mb-6">
         <div className="flex flex-col lg:flex-row gap-4">
@@ -505,7 +262,13 @@ const RepairCostDatabase: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {sortedData.map((item) => (
-                <tr key={item.id} className="hover:bg-gray-50 transition-colors">
+                <tr
+                  key={item.id}
+                  ref={item.id === highlightedItemId ? highlightedRowRef : undefined}
+                  className={`transition-colors ${
+                    item.id === highlightedItemId ? 'bg-yellow-50 ring-2 ring-inset ring-yellow-400' : 'hover:bg-gray-50'
+                  }`}
+                >
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       {getDamageTypeIcon(item.damageType)}
@@ -516,6 +279,7 @@ const RepairCostDatabase: React.FC = () => {
                   </td>
                   <td className="px-6 py-4">
                     <div className="text-sm text-gray-900">{item.description}</div>
+                    <div className="text-xs text-gray-500 font-mono">{item.id}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className="text-sm text-gray-900 capitalize">{item.vehicleCategory}</span>
@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import { 
   Search, 
   MapPin, 
@@ -11,18 +11,67 @@ import {
   Car, 
   ArrowRight,
   Navigation,
-  MessageSquare
+  MessageSquare,
+  Settings,
+  CalendarDays
 } from 'lucide-react'
-import { repairShops, RepairShop } from '../data/repairShops'
+import { useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { useRepairShops } from '../services/shopStore'
+import { getZipCentroid } from '../data/zipCentroids'
+import { getShopDistance, formatDistance } from '../services/geoDistance'
+import { getWeeklyHours } from '../services/shopHours'
+import { getShopBookings, getRepairDays, getWaitEstimate, describeWait, WaitEstimate } from '../services/shopBooking'
+import { getShopScorecards } from '../services/shopScorecards'
+import ShopOpenStatusBadge from '../components/ShopOpenStatusBadge'
+import ShopScorecardPanel from '../components/ShopScorecardPanel'
 
 const RepairShops: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [locationFilter, setLocationFilter] = useState('')
   const [ratingFilter, setRatingFilter] = useState<number>(0)
   const [specialtyFilter] = useState('')
-  const [sortBy, setSortBy] = useState<'distance' | 'rating' | 'name'>('distance')
+  const [sortBy, setSortBy] = useState<'distance' | 'performance' | 'rating' | 'name'>('distance')
   const [featuredShopId, setFeaturedShopId] = useState<string>('shop_001')
+  const { can } = useSession()
 
+  // Suspended shops are not listed in the directory
+  const allShops = useRepairShops()
+  const repairShops = useMemo(() => allShops.filter(shop => shop.status === 'active'), [allShops])
+
+  // Distances are measured from the customer of the claim the page was opened for,
+  // or from a ZIP code entered here
+  const [searchParams] = useSearchParams()
+  const { state } = useClaims()
+  const claim = state.claims.find(c => c.id === searchParams.get('claimId'))
+  const [customerZip, setCustomerZip] = useState(claim?.customerZip || '')
+  const customerLocation = getZipCentroid(customerZip)
+
+  const distances = useMemo(() => {
+    const byShop: Record<string, number | null> = {}
+    repairShops.forEach(shop => {
+      byShop[shop.id] = getShopDistance(shop, customerLocation)
+    })
+    return byShop
+  }, [repairShops, customerLocation])
+
+  // Wait times come from each shop's open capacity, for the claim's repair when
+  // the page was opened for a claim and for a one-day repair otherwise
+  const waits = useMemo(() => {
+    const otherClaims = state.claims.filter(other => other.id !== claim?.id)
+    const repairDays = claim ? getRepairDays(claim) : 1
+    const byShop: Record<string, WaitEstimate> = {}
+    repairShops.forEach(shop => {
+      byShop[shop.id] = getWaitEstimate(shop, getShopBookings(shop.id, otherClaims), repairDays)
+    })
+    return byShop
+  }, [repairShops, state.claims, claim])
+
+  // Scorecards are measured from the outcomes of every claim assigned to each shop
+  const scorecards = useMemo(
+    () => getShopScorecards(repairShops.map(shop => shop.id), state.claims),
+    [repairShops, state.claims]
+  )
 
   // Filter and sort shops
   const filteredShops = useMemo(() => {
@@ -52,7 +101,12 @@ const RepairShops: React.FC = () => {
       let comparison = 0
       switch (sortBy) {
         case 'distance':
-          comparison = a.distance - b.distance
+          // Shops with an unknown distance go last
+          comparison = (distances[a.id] ?? Infinity) - (distances[b.id] ?? Infinity) || 0
+          break
+        case 'performance':
+          // Shops without a score yet go last
+          comparison = (scorecards[b.id].score ?? -1) - (scorecards[a.id].score ?? -1)
           break
         case 'rating':
           comparison = b.rating - a.rating
@@ -65,7 +119,7 @@ const RepairShops: React.FC = () => {
     })
 
     return shops
-  }, [repairShops, searchTerm, locationFilter, ratingFilter, specialtyFilter, sortBy])
+  }, [repairShops, searchTerm, locationFilter, ratingFilter, specialtyFilter, sortBy, distances, scorecards])
 
   // Get the featured shop
   const featuredShop = repairShops.find(shop => shop.id === featuredShopId) || repairShops[0]
@@ -121,136 +175,158 @@ const RepairShops: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Local Repair Shops</h1>
           <p className="text-gray-600 mt-2">Find certified auto body repair shops in your area</p>
         </div>
-        <Link
-          to="/"
-          className="btn-secondary flex items-center space-x-2"
-        >
-          <ArrowRight className="h-4 w-4" />
-          <span>Back to Dashboard</span>
-        </Link>
+        <div className="flex items-center space-x-3">
+          {can('shops:edit') && (
+            <Link
+              to="/repair-shops/manage"
+              className="btn-secondary flex items-center space-x-2"
+            >
+              <Settings className="h-4 w-4" />
+              <span>Manage Shops</span>
+            </Link>
+          )}
+          <Link
+            to="/"
+            className="btn-secondary flex items-center space-x-2"
+          >
+            <ArrowRight className="h-4 w-4" />
+            <span>Back to Dashboard</span>
+          </Link>
+        </div>
       </div>
 
       {/* Featured Shop */}
-      <div className="card bg-gradient-to-r from-primary-50 to-blue-50 border-primary-200">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-900">Featured Local Shop</h2>
-          <div className="flex items-center space-x-2">
-            <span className="text-sm text-gray-600">Change featured shop:</span>
-            <select
-              value={featuredShopId}
-              onChange={(e) => setFeaturedShopId(e.target.value)}
-              className="px-3 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-            >
-              {repairShops.map((shop) => (
-                <option key={shop.id} value={shop.id}>
-                  {shop.name}
-                </option>
-              ))}
-            </select>
+      {featuredShop && (
+        <div className="card bg-gradient-to-r from-primary-50 to-blue-50 border-primary-200">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Featured Local Shop</h2>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-600">Change featured shop:</span>
+              <select
+                value={featuredShopId}
+                onChange={(e) => setFeaturedShopId(e.target.value)}
+                className="px-3 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {repairShops.map((shop) => (
+                  <option key={shop.id} value={shop.id}>
+                    {shop.name}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
-        </div>
-        
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2">
-            <div className="flex items-start justify-between mb-4">
-              <div>
-                <h3 className="text-2xl font-bold text-gray-900 mb-2">{featuredShop.name}</h3>
-                <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
-                  <MapPin className="h-4 w-4" />
-                  <span>{featuredShop.address}, {featuredShop.city}, {featuredShop.state} {featuredShop.zipCode}</span>
-                </div>
-                <div className="flex items-center space-x-2 mb-3">
-                  <div className="flex items-center space-x-1">
-                    {getRatingStars(featuredShop.rating)}
+          
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-2">{featuredShop.name}</h3>
+                  <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
+                    <MapPin className="h-4 w-4" />
+                    <span>{featuredShop.address}, {featuredShop.city}, {featuredShop.state} {featuredShop.zipCode}</span>
+                  </div>
+                  <div className="flex items-center space-x-2 mb-3">
+                    <div className="flex items-center space-x-1">
+                      {getRatingStars(featuredShop.rating)}
+                    </div>
+                    <span className="text-sm text-gray-600">
+                      {featuredShop.rating} ({featuredShop.reviewCount} reviews)
+                    </span>
+                    <span className="text-lg font-semibold text-primary-600 ml-2">
+                      {formatDistance(distances[featuredShop.id])}
+                    </span>
                   </div>
-                  <span className="text-sm text-gray-600">
-                    {featuredShop.rating} ({featuredShop.reviewCount} reviews)
-                  </span>
-                  <span className="text-lg font-semibold text-primary-600 ml-2">
-                    {featuredShop.distance} mi away
-                  </span>
                 </div>
-              </div>
-              <div className="text-right">
-                <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
-                  featuredShop.isOpen ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                }`}>
-                  {featuredShop.isOpen ? 'Open Now' : 'Closed'}
+                <div className="text-right">
+                  <ShopOpenStatusBadge shop={featuredShop} showDetail />
                 </div>
               </div>
-            </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              <div>
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Specialties:</h4>
-                <div className="flex flex-wrap">
-                  {getSpecialtyBadges(featuredShop.specialties)}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Specialties:</h4>
+                  <div className="flex flex-wrap">
+                    {getSpecialtyBadges(featuredShop.specialties)}
+                  </div>
                 </div>
-              </div>
-              <div>
-                <h4 className="text-sm font-medium text-gray-700 mb-2">Certifications:</h4>
-                <div className="flex flex-wrap">
-                  {getCertificationBadges(featuredShop.certifications)}
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Certifications:</h4>
+                  <div className="flex flex-wrap">
+                    {getCertificationBadges(featuredShop.certifications)}
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
-              <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <Phone className="h-4 w-4" />
-                <span>{featuredShop.phone}</span>
-              </div>
-              <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <Mail className="h-4 w-4" />
-                <span>{featuredShop.email}</span>
-              </div>
-              <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <Globe className="h-4 w-4" />
-                <a href={`https://${featuredShop.website}`} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:text-primary-800">
-                  {featuredShop.website}
-                </a>
-              </div>
-              <div className="flex items-center space-x-2 text-sm text-gray-600">
-                <Clock className="h-4 w-4" />
-                <span>Est. {featuredShop.estimatedWaitTime}</span>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <Phone className="h-4 w-4" />
+                  <span>{featuredShop.phone}</span>
+                </div>
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <Mail className="h-4 w-4" />
+                  <span>{featuredShop.email}</span>
+                </div>
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <Globe className="h-4 w-4" />
+                  <a href={`https://${featuredShop.website}`} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:text-primary-800">
+                    {featuredShop.website}
+                  </a>
+                </div>
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <Clock className="h-4 w-4" />
+                  <span>{describeWait(waits[featuredShop.id])}</span>
+                </div>
               </div>
+
+              <ShopScorecardPanel scorecard={scorecards[featuredShop.id]} />
             </div>
-          </div>
 
-          <div className="lg:col-span-1">
-            <div className="bg-white rounded-lg p-4 border border-gray-200">
-              <h4 className="text-sm font-medium text-gray-700 mb-3">Hours:</h4>
-              <div className="space-y-1 text-sm text-gray-600">
-                {Object.entries(featuredShop.hours).map(([day, hours]) => (
-                  <div key={day} className="flex justify-between">
-                    <span className="font-medium">{day}:</span>
-                    <span>{hours}</span>
-                  </div>
-                ))}
-              </div>
-              
-              <div className="mt-4 space-y-2">
-                <button className="w-full btn-primary flex items-center justify-center space-x-2">
-                  <Phone className="h-4 w-4" />
-                  <span>Call Now</span>
-                </button>
-                <button className="w-full btn-secondary flex items-center justify-center space-x-2">
-                  <MessageSquare className="h-4 w-4" />
-                  <span>Send Message</span>
-                </button>
-                <button className="w-full btn-secondary flex items-center justify-center space-x-2">
-                  <Navigation className="h-4 w-4" />
-                  <span>Get Directions</span>
-                </button>
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-lg p-4 border border-gray-200">
+                <h4 className="text-sm font-medium text-gray-700 mb-3">Hours:</h4>
+                <div className="space-y-1 text-sm text-gray-600">
+                  {getWeeklyHours(featuredShop).map(({ weekday, label, hours }) => (
+                    <div key={weekday} className="flex justify-between">
+                      <span className="font-medium">{label}:</span>
+                      <span>{hours}</span>
+                    </div>
+                  ))}
+                </div>
+                
+                <div className="mt-4 space-y-2">
+                  <button className="w-full btn-primary flex items-center justify-center space-x-2">
+                    <Phone className="h-4 w-4" />
+                    <span>Call Now</span>
+                  </button>
+                  <button className="w-full btn-secondary flex items-center justify-center space-x-2">
+                    <MessageSquare className="h-4 w-4" />
+                    <span>Send Message</span>
+                  </button>
+                  <button className="w-full btn-secondary flex items-center justify-center space-x-2">
+                    <Navigation className="h-4 w-4" />
+                    <span>Get Directions</span>
+                  </button>
+                </div>
               </div>
             </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Search and Filters */}
       <div className="card">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="relative">
+            <Navigation className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Customer ZIP code"
+              value={customerZip}
+              onChange={(e) => setCustomerZip(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
             <input
@@ -292,10 +368,20 @@ const RepairShops: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
           >
             <option value="distance">Sort by Distance</option>
+            <option value="performance">Sort by Scorecard</option>
             <option value="rating">Sort by Rating</option>
             <option value="name">Sort by Name</option>
           </select>
         </div>
+        <p className="text-sm text-gray-500 mt-3">
+          {!customerLocation
+            ? customerZip
+              ? `ZIP ${customerZip} is not in the ZIP code table, so distances are unknown.`
+              : 'Enter a ZIP code to see how far each shop is from the customer.'
+            : claim && customerZip === claim.customerZip
+              ? `Straight-line distances from ${claim.customerName}'s ZIP code ${customerZip}.`
+              : `Straight-line distances from ZIP code ${customerZip}.`}
+        </p>
       </div>
 
       {/* Results */}
@@ -320,11 +406,9 @@ const RepairShops: React.FC = () => {
               </div>
               <div className="text-right">
                 <div className="text-lg font-semibold text-primary-600">
-                  {shop.distance} mi
-                </div>
-                <div className={`text-sm ${shop.isOpen ? 'text-green-600' : 'text-red-600'}`}>
-                  {shop.isOpen ? 'Open' : 'Closed'}
+                  {formatDistance(distances[shop.id])}
                 </div>
+                <ShopOpenStatusBadge shop={shop} />
               </div>
             </div>
 
@@ -363,17 +447,20 @@ const RepairShops: React.FC = () => {
                 </div>
                 <div className="flex items-center space-x-2 text-sm text-gray-600">
                   <Clock className="h-4 w-4" />
-                  <span>Est. {shop.estimatedWaitTime}</span>
+                  <span>{describeWait(waits[shop.id])}</span>
                 </div>
               </div>
 
+              {/* Scorecard */}
+              <ShopScorecardPanel scorecard={scorecards[shop.id]} />
+
               {/* Hours */}
               <div>
                 <h4 className="text-sm font-medium text-gray-700 mb-1">Hours:</h4>
                 <div className="grid grid-cols-2 gap-1 text-xs text-gray-600">
-                  {Object.entries(shop.hours).map(([day, hours]) => (
-                    <div key={day} className="flex justify-between">
-                      <span className="font-medium">{day}:</span>
+                  {getWeeklyHours(shop).map(({ weekday, label, hours }) => (
+                    <div key={weekday} className="flex justify-between">
+                      <span className="font-medium">{label}:</span>
                       <span>{hours}</span>
                     </div>
                   ))}
@@ -394,6 +481,13 @@ const RepairShops: React.FC = () => {
                   <Navigation className="h-4 w-4" />
                   <span>Directions</span>
                 </button>
+                <Link
+                  to={`/repair-shops/${shop.id}/calendar`}
+                  className="btn-secondary flex items-center space-x-2"
+                  title="Drop-off calendar"
+                >
+                  <CalendarDays className="h-4 w-4" />
+                </Link>
               </div>
             </div>
           </div>
@@ -0,0 +1,200 @@
+/**
+ * ShopAdmin.tsx
+ *
+ * Admin screen for the repair shop network. Shops are kept in the shop store,
+ * so partner shops can be added or changed here without a redeploy.
+ *
+ * Key Features:
+ * - List of every network shop with its status and open claims
+ * - Create and edit shops with validated contact details and hours
+ * - Suspend and reactivate shops
+ * - Delete shops that no claim references
+ */
+
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Plus, Edit, Trash2, PauseCircle, PlayCircle, ArrowLeft, Wrench } from 'lucide-react'
+import { useClaims } from '../context/ClaimsContext'
+import { RepairShop, repairShopStatusLabels } from '../data/repairShops'
+import {
+  useRepairShops,
+  createEmptyRepairShop,
+  setRepairShopStatus,
+  deleteRepairShop,
+  getOpenClaimsForShop,
+  getClaimsForShop
+} from '../services/shopStore'
+import RepairShopForm from '../components/RepairShopForm'
+
+const ShopAdmin: React.FC = () => {
+  const { state } = useClaims()
+  const shops = useRepairShops()
+  const [editing, setEditing] = useState<{ shop: RepairShop; isNew: boolean } | null>(null)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [notice, setNotice] = useState('')
+
+  const handleStatusToggle = (shop: RepairShop) => {
+    try {
+      setRepairShopStatus(shop.id, shop.status === 'active' ? 'suspended' : 'active')
+      setNotice(`${shop.name} is now ${shop.status === 'active' ? 'suspended' : 'active'}`)
+      setErrors({})
+    } catch (error) {
+      console.error('Error updating repair shop status:', error)
+      setErrors({ [shop.id]: 'The status could not be changed. Please try again.' })
+    }
+  }
+
+  /**
+   * Handle Delete
+   *
+   * Deletes a shop after confirmation. Shops referenced by claims are
+   * refused by the store and the reason is shown on the shop's row.
+   */
+  const handleDelete = (shop: RepairShop) => {
+    if (!window.confirm(`Delete ${shop.name}? This cannot be undone.`)) return
+
+    try {
+      const error = deleteRepairShop(shop.id, state.claims)
+      if (error) {
+        setErrors({ [shop.id]: error })
+        return
+      }
+      setNotice(`${shop.name} was deleted`)
+      setErrors({})
+      if (editing?.shop.id === shop.id) setEditing(null)
+    } catch (error) {
+      console.error('Error deleting repair shop:', error)
+      setErrors({ [shop.id]: 'The shop could not be deleted. Please try again.' })
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Manage Repair Shops</h1>
+          <p className="text-gray-600 mt-2">
+            Add partner shops, keep their details up to date and suspend shops that should not receive new claims.
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Link to="/repair-shops" className="btn-secondary flex items-center space-x-2">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Shop Directory</span>
+          </Link>
+          <button
+            onClick={() => { setEditing({ shop: createEmptyRepairShop(), isNew: true }); setNotice('') }}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Shop</span>
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <RepairShopForm
+          key={editing.shop.id}
+          shop={editing.shop}
+          isNew={editing.isNew}
+          onSaved={(shop) => { setEditing(null); setNotice(`${shop.name} was saved`) }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {/* Shop List */}
+      <div className="card">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Wrench className="w-5 h-5 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Network Shops ({shops.length})</h2>
+          </div>
+          {notice && <span className="text-sm text-green-600">{notice}</span>}
+        </div>
+
+        {shops.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No repair shops yet. Add the first partner shop.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="py-3 pr-4">Shop</th>
+                  <th className="py-3 pr-4">Contact</th>
+                  <th className="py-3 pr-4">Status</th>
+                  <th className="py-3 pr-4">Open Claims</th>
+                  <th className="py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {shops.map(shop => {
+                  const openClaims = getOpenClaimsForShop(shop.id, state.claims)
+                  const claimCount = getClaimsForShop(shop.id, state.claims).length
+                  return (
+                    <tr key={shop.id} className="align-top">
+                      <td className="py-4 pr-4">
+                        <div className="font-medium text-gray-900">{shop.name}</div>
+                        <div className="text-sm text-gray-500">
+                          {shop.address}, {shop.city}, {shop.state} {shop.zipCode}
+                        </div>
+                      </td>
+                      <td className="py-4 pr-4 text-sm text-gray-600">
+                        <div>{shop.phone}</div>
+                        <div>{shop.email}</div>
+                      </td>
+                      <td className="py-4 pr-4">
+                        <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                          shop.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {repairShopStatusLabels[shop.status]}
+                        </span>
+                      </td>
+                      <td className="py-4 pr-4 text-sm text-gray-600">
+                        {openClaims.length === 0 ? 'None' : openClaims.map(claim => (
+                          <Link key={claim.id} to={`/claim/${claim.id}`} className="block text-primary-600 hover:text-primary-700">
+                            {claim.customerName} - {claim.vehicleMake} {claim.vehicleModel}
+                          </Link>
+                        ))}
+                      </td>
+                      <td className="py-4">
+                        <div className="flex items-center justify-end space-x-2">
+                          <button
+                            onClick={() => { setEditing({ shop, isNew: false }); setNotice('') }}
+                            className="btn-secondary text-sm px-3 py-1 flex items-center space-x-1"
+                          >
+                            <Edit className="h-4 w-4" />
+                            <span>Edit</span>
+                          </button>
+                          <button
+                            onClick={() => handleStatusToggle(shop)}
+                            className="btn-secondary text-sm px-3 py-1 flex items-center space-x-1"
+                          >
+                            {shop.status === 'active' ? <PauseCircle className="h-4 w-4" /> : <PlayCircle className="h-4 w-4" />}
+                            <span>{shop.status === 'active' ? 'Suspend' : 'Reactivate'}</span>
+                          </button>
+                          <button
+                            onClick={() => handleDelete(shop)}
+                            disabled={claimCount > 0}
+                            title={claimCount > 0 ? `Referenced by ${claimCount} claim(s); suspend the shop instead` : undefined}
+                            className="btn-danger text-sm px-3 py-1 flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span>Delete</span>
+                          </button>
+                        </div>
+                        {errors[shop.id] && <p className="text-red-500 text-sm mt-2 text-right">{errors[shop.id]}</p>}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ShopAdmin
@@ -0,0 +1,149 @@
+/**
+ * ShopCalendar.tsx
+ *
+ * Week calendar of one repair shop's drop-off slots and bay usage.
+ *
+ * Key Features:
+ * - Drop-off slots per day with the claim booked into each
+ * - Bays in use per day, including vehicles still being repaired
+ * - Closed days and holiday closures
+ * - Week-by-week navigation in the shop's time zone
+ */
+
+import React, { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, ChevronLeft, ChevronRight, CalendarDays, Wrench } from 'lucide-react'
+import { useClaims } from '../context/ClaimsContext'
+import { useRepairShops } from '../services/shopStore'
+import { getShopBookings, getDayAvailability, getWaitEstimate, describeWait, formatAppointmentDate } from '../services/shopBooking'
+import { getLocalTime, addDays, formatTime } from '../services/shopHours'
+
+const ShopCalendar: React.FC = () => {
+  const { shopId } = useParams<{ shopId: string }>()
+  const { state } = useClaims()
+  const shops = useRepairShops()
+  const [weekOffset, setWeekOffset] = useState(0)
+  const shop = shops.find(candidate => candidate.id === shopId)
+
+  if (!shop) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Repair Shop Not Found</h2>
+        <Link to="/repair-shops" className="btn-primary">
+          Back to Repair Shops
+        </Link>
+      </div>
+    )
+  }
+
+  const bookings = getShopBookings(shop.id, state.claims)
+  const today = getLocalTime(new Date(), shop.timeZone)
+
+  // Weeks start on Monday
+  const daysSinceMonday = (new Date(`${today.date}T00:00:00Z`).getUTCDay() + 6) % 7
+  const weekStart = addDays(today.date, weekOffset * 7 - daysSinceMonday).date
+  const days = Array.from({ length: 7 }, (_, index) => getDayAvailability(shop, addDays(weekStart, index).date, bookings))
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{shop.name}</h1>
+          <p className="text-gray-600 mt-2">
+            Drop-off calendar · {shop.capacity.bays} bays · {shop.capacity.slotsPerDay} drop-off slots per day · {describeWait(getWaitEstimate(shop, bookings))}
+          </p>
+        </div>
+        <Link to="/repair-shops" className="btn-secondary flex items-center space-x-2">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Repair Shops</span>
+        </Link>
+      </div>
+
+      <div className="card">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-primary-600" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              Week of {formatAppointmentDate(weekStart)}
+            </h2>
+            {shop.status !== 'active' && (
+              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                Suspended: no new bookings
+              </span>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setWeekOffset(weekOffset - 1)} className="btn-secondary px-2 py-1" title="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button onClick={() => setWeekOffset(0)} className="btn-secondary text-sm px-3 py-1">
+              This week
+            </button>
+            <button onClick={() => setWeekOffset(weekOffset + 1)} className="btn-secondary px-2 py-1" title="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+          {days.map(day => {
+            const holiday = shop.holidayClosures.find(closure => closure.date === day.date)
+            const inRepair = day.repairs.filter(({ appointment }) => appointment.date !== day.date)
+            return (
+              <div
+                key={day.date}
+                className={`border rounded-lg p-3 ${day.date === today.date ? 'border-primary-400 bg-primary-50' : 'border-gray-200'}`}
+              >
+                <div className="font-medium text-gray-900">{formatAppointmentDate(day.date)}</div>
+                {!day.isOpen ? (
+                  <p className="text-sm text-gray-500 mt-2">{holiday ? `Closed for ${holiday.name}` : 'Closed'}</p>
+                ) : (
+                  <>
+                    <p className={`text-xs mt-1 ${day.repairs.length >= day.bays ? 'text-red-600' : 'text-gray-500'}`}>
+                      {day.repairs.length} of {day.bays} bays in use
+                    </p>
+                    <ul className="mt-3 space-y-2">
+                      {day.slots.map(slot => (
+                        <li key={slot.time} className="text-sm">
+                          <span className="font-medium text-gray-700">{formatTime(slot.time)}</span>{' '}
+                          {slot.booking ? (
+                            <Link to={`/claim/${slot.booking.claim.id}`} className="text-primary-600 hover:text-primary-700">
+                              {slot.booking.claim.customerName}
+                              <span className="block text-xs text-gray-500">
+                                {slot.booking.claim.vehicleYear} {slot.booking.claim.vehicleMake} {slot.booking.claim.vehicleModel} · {slot.booking.appointment.repairDays} day(s)
+                              </span>
+                            </Link>
+                          ) : (
+                            <span className={slot.available ? 'text-green-600' : 'text-gray-400'}>
+                              {slot.available ? 'Open' : slot.unavailableReason}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {inRepair.length > 0 && (
+                      <div className="mt-3 pt-3 border-t border-gray-200">
+                        <p className="text-xs font-medium text-gray-700 mb-1 flex items-center space-x-1">
+                          <Wrench className="h-3 w-3" />
+                          <span>In repair</span>
+                        </p>
+                        {inRepair.map(({ claim }) => (
+                          <Link key={claim.id} to={`/claim/${claim.id}`} className="block text-xs text-primary-600 hover:text-primary-700">
+                            {claim.customerName}
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ShopCalendar
@@ -0,0 +1,375 @@
+/**
+ * ShopEstimates.tsx
+ *
+ * Shop-facing page for submitting a repair shop's own itemized estimate
+ * against a claim assigned to the shop.
+ *
+ * Key Features:
+ * - Claims assigned to the signed-in shop (all shops for staff entering on a shop's behalf)
+ * - Line entry by damage, category, quantity and unit price
+ * - CSV/JSON file import and copying the AI estimate lines as a starting point
+ * - Field-level validation before the estimate is submitted
+ */
+
+import React, { useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { FileSpreadsheet, Plus, Trash2, Upload, CheckCircle } from 'lucide-react'
+import { Claim, useClaims } from '../context/ClaimsContext'
+import { useSession } from '../context/SessionContext'
+import { useRepairShops } from '../services/shopStore'
+import { EstimateLineCategory, estimateCategoryLabels } from '../services/estimateEngine'
+import {
+  ShopEstimateSource,
+  getAiEstimateLines,
+  parseShopEstimateFile,
+  validateShopEstimate
+} from '../services/shopEstimates'
+
+// Line as edited in the form (numbers kept as typed)
+interface LineDraft {
+  assessmentId: string
+  category: EstimateLineCategory
+  description: string
+  quantity: string
+  unitPrice: string
+}
+
+const emptyLine = (): LineDraft => ({ assessmentId: '', category: 'labor', description: '', quantity: '1', unitPrice: '' })
+
+const formatCurrency = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+const ShopEstimates: React.FC = () => {
+  const { state, submitShopEstimate } = useClaims()
+  const { user } = useSession()
+  const shops = useRepairShops()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [lines, setLines] = useState<LineDraft[]>([emptyLine()])
+  const [source, setSource] = useState<{ type: ShopEstimateSource; fileName?: string }>({ type: 'form' })
+  const [notes, setNotes] = useState('')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submittedClaimId, setSubmittedClaimId] = useState('')
+
+  // Shop users only see their own shop's claims
+  const claims = state.claims.filter(claim =>
+    claim.repairShopId &&
+    claim.status !== 'closed' &&
+    claim.status !== 'rejected' &&
+    (!user.shopId || claim.repairShopId === user.shopId)
+  )
+  const selectedClaim = claims.find(claim => claim.id === searchParams.get('claimId'))
+  const getShopName = (shopId?: string) => shops.find(shop => shop.id === shopId)?.name || 'Unknown shop'
+
+  const selectClaim = (claim: Claim) => {
+    setSearchParams({ claimId: claim.id })
+    setLines([emptyLine()])
+    setSource({ type: 'form' })
+    setNotes('')
+    setErrors({})
+    setSubmittedClaimId('')
+  }
+
+  const updateLine = (index: number, field: keyof LineDraft, value: string) => {
+    setLines(lines.map((line, lineIndex) => lineIndex === index ? { ...line, [field]: value } : line))
+  }
+
+  const copyAiLines = (claim: Claim) => {
+    setLines(getAiEstimateLines(claim).map(line => ({
+      assessmentId: line.assessmentId,
+      category: line.category,
+      description: line.description,
+      quantity: '1',
+      unitPrice: String(line.amount)
+    })))
+    setSource({ type: 'form' })
+    setErrors({})
+  }
+
+  /**
+   * Handle File Import
+   *
+   * Replaces the form's lines with the lines read from a CSV or JSON file.
+   *
+   * @param event - File input change event
+   */
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !selectedClaim) return
+
+    try {
+      const imported = parseShopEstimateFile(await file.text(), file.name, selectedClaim)
+      setLines(imported.map(line => ({
+        assessmentId: line.assessmentId || '',
+        category: line.category,
+        description: line.description,
+        quantity: Number.isFinite(line.quantity) ? String(line.quantity) : '',
+        unitPrice: Number.isFinite(line.unitPrice) ? String(line.unitPrice) : ''
+      })))
+      setSource({ type: 'file', fileName: file.name })
+      setErrors({})
+    } catch (error) {
+      console.error('Error importing shop estimate:', error)
+      setErrors({ lines: `${file.name} could not be read as a CSV or JSON estimate.` })
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedClaim) return
+
+    const input = {
+      lines: lines.map(line => ({
+        assessmentId: line.assessmentId || undefined,
+        category: line.category,
+        description: line.description,
+        quantity: parseFloat(line.quantity),
+        unitPrice: parseFloat(line.unitPrice)
+      })),
+      source: source.type,
+      fileName: source.fileName,
+      notes
+    }
+    const validationErrors = validateShopEstimate(selectedClaim, input, user)
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors)
+      return
+    }
+
+    const error = submitShopEstimate(selectedClaim.id, input)
+    if (error) {
+      setErrors({ claim: error })
+      return
+    }
+    setErrors({})
+    setSubmittedClaimId(selectedClaim.id)
+  }
+
+  const lineTotal = lines.reduce((sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.unitPrice) || 0), 0)
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Shop Estimates</h1>
+        <p className="text-gray-600 mt-2">
+          {user.shopId
+            ? `Submit ${getShopName(user.shopId)}'s estimate for claims assigned to your shop`
+            : "Enter a repair shop's estimate for a claim assigned to it"}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Claims */}
+        <div className="card lg:col-span-1">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Assigned Claims</h2>
+          {claims.length === 0 ? (
+            <p className="text-sm text-gray-600">No open claims are assigned to {user.shopId ? 'your shop' : 'a repair shop'}.</p>
+          ) : (
+            <ul className="space-y-2">
+              {claims.map(claim => (
+                <li key={claim.id}>
+                  <button
+                    onClick={() => selectClaim(claim)}
+                    className={`w-full text-left rounded-lg p-3 border ${
+                      claim.id === selectedClaim?.id ? 'border-primary-400 bg-primary-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-medium text-gray-900">
+                      {claim.vehicleYear} {claim.vehicleMake} {claim.vehicleModel}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {claim.customerName} · {getShopName(claim.repairShopId)}
+                    </div>
+                    <div className="text-xs mt-1">
+                      {claim.shopEstimate ? (
+                        <span className="text-green-600">Estimate submitted ({formatCurrency(claim.shopEstimate.total)})</span>
+                      ) : (
+                        <span className="text-yellow-600">Awaiting estimate</span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Estimate Form */}
+        <div className="card lg:col-span-2">
+          {!selectedClaim ? (
+            <div className="text-center py-12">
+              <FileSpreadsheet className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Choose a claim to enter its estimate.</p>
+            </div>
+          ) : submittedClaimId === selectedClaim.id ? (
+            <div className="text-center py-12">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <p className="text-gray-900 font-medium">Estimate submitted for review.</p>
+              <Link to={`/claim/${selectedClaim.id}`} className="text-sm text-primary-600 hover:text-primary-700">
+                View the claim
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {selectedClaim.vehicleYear} {selectedClaim.vehicleMake} {selectedClaim.vehicleModel}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    {selectedClaim.damageAssessments.length} damage item(s) ·{' '}
+                    {source.type === 'file' ? `Imported from ${source.fileName}` : 'Entered by hand'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => copyAiLines(selectedClaim)}
+                    className="text-primary-600 hover:text-primary-700 font-medium"
+                  >
+                    Start from AI estimate
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-primary-600 hover:text-primary-700 font-medium flex items-center space-x-1"
+                  >
+                    <Upload className="h-4 w-4" />
+                    <span>Import CSV/JSON</span>
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    onChange={handleFileImport}
+                    className="hidden"
+                  />
+                </div>
+              </div>
+              {selectedClaim.shopEstimate && (
+                <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg p-2">
+                  An estimate was already submitted. Submitting again replaces it and clears the adjuster's line decisions.
+                </p>
+              )}
+
+              <div className="space-y-3">
+                {lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                    <div className="col-span-12 md:col-span-3">
+                      <select
+                        value={line.assessmentId}
+                        onChange={(e) => updateLine(index, 'assessmentId', e.target.value)}
+                        className={`input-field ${errors[`lines.${index}.assessmentId`] ? 'border-red-500' : ''}`}
+                      >
+                        <option value="">No specific damage</option>
+                        {selectedClaim.damageAssessments.map(assessment => (
+                          <option key={assessment.id} value={assessment.id}>
+                            {assessment.type} – {assessment.location}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-span-6 md:col-span-2">
+                      <select
+                        value={line.category}
+                        onChange={(e) => updateLine(index, 'category', e.target.value)}
+                        className={`input-field ${errors[`lines.${index}.category`] ? 'border-red-500' : ''}`}
+                      >
+                        {(Object.keys(estimateCategoryLabels) as EstimateLineCategory[]).map(category => (
+                          <option key={category} value={category}>{estimateCategoryLabels[category]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="col-span-6 md:col-span-3">
+                      <input
+                        type="text"
+                        value={line.description}
+                        onChange={(e) => updateLine(index, 'description', e.target.value)}
+                        className={`input-field ${errors[`lines.${index}.description`] ? 'border-red-500' : ''}`}
+                        placeholder="Description"
+                      />
+                    </div>
+                    <div className="col-span-4 md:col-span-1">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, 'quantity', e.target.value)}
+                        className={`input-field ${errors[`lines.${index}.quantity`] ? 'border-red-500' : ''}`}
+                        title="Hours for labor and materials, count for parts"
+                      />
+                    </div>
+                    <div className="col-span-6 md:col-span-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unitPrice}
+                        onChange={(e) => updateLine(index, 'unitPrice', e.target.value)}
+                        className={`input-field ${errors[`lines.${index}.unitPrice`] ? 'border-red-500' : ''}`}
+                        placeholder="Unit price"
+                      />
+                    </div>
+                    <div className="col-span-2 md:col-span-1 flex justify-end">
+                      <button
+                        type="button"
+                        onClick={() => setLines(lines.filter((_, lineIndex) => lineIndex !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="Remove line"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    {['assessmentId', 'category', 'description', 'quantity', 'unitPrice']
+                      .filter(field => errors[`lines.${index}.${field}`])
+                      .map(field => (
+                        <p key={field} className="col-span-12 text-red-500 text-sm">{errors[`lines.${index}.${field}`]}</p>
+                      ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setLines([...lines, emptyLine()])}
+                  className="btn-secondary text-sm flex items-center space-x-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Line</span>
+                </button>
+                <span className="text-sm text-gray-700">
+                  Subtotal before tax: <span className="font-semibold">{formatCurrency(lineTotal)}</span>
+                </span>
+              </div>
+              {errors.lines && <p className="text-red-500 text-sm">{errors.lines}</p>}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="input-field"
+                  rows={2}
+                  placeholder="e.g., Hidden damage found behind the bumper cover"
+                />
+              </div>
+
+              {errors.claim && <p className="text-red-500 text-sm">{errors.claim}</p>}
+              <div className="flex justify-end">
+                <button type="submit" className="btn-primary">
+                  Submit Estimate
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ShopEstimates
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest'
+import type { Claim, SignOff } from '../context/ClaimsContext'
+import type { AppUser } from '../data/users'
+import {
+  createSignOff,
+  defaultAuthorityTiers,
+  getApprovalOutcome,
+  getCurrentSignOffs,
+  getNextApprovalRole,
+  getRequiredApprovalRole,
+  loadAuthorityTiers,
+  saveAuthorityTiers,
+  validateApproval,
+  validateAuthorityTiers
+} from './approvalAuthority'
+import { adjuster, auditor, makeClaim, manager, supervisor, toActor } from '../test/fixtures'
+
+const tiers = defaultAuthorityTiers
+
+/**
+ * Escalated Claim
+ *
+ * @param amount - Claim value
+ * @param signOffs - Sign-offs already given in the current round
+ * @returns A claim awaiting second approval after the given sign-offs
+ */
+const escalatedClaim = (amount: number, signOffs: SignOff[]): Claim => makeClaim({
+  status: 'awaiting_second_approval',
+  totalEstimatedCost: amount,
+  statusHistory: [
+    { id: 'transition_1', from: 'pending', to: 'processing', actor: toActor(adjuster), at: '2025-05-02T10:00:00.000Z' },
+    { id: 'transition_2', from: 'processing', to: 'awaiting_second_approval', actor: toActor(adjuster), at: '2025-05-02T11:00:00.000Z' }
+  ],
+  signOffs
+})
+
+/**
+ * Signed
+ *
+ * @param claim - Claim being signed off
+ * @param approver - User who signed
+ * @param at - When the sign-off was given
+ * @returns A sign-off given at a fixed time
+ */
+const signed = (claim: Claim, approver: AppUser, at: string): SignOff => ({
+  ...createSignOff(claim, approver, tiers),
+  at
+})
+
+describe('validateAuthorityTiers', () => {
+  it('accepts the default tiers', () => {
+    expect(validateAuthorityTiers(defaultAuthorityTiers)).toEqual({})
+  })
+
+  it('requires limits to increase and the highest tier to be unlimited', () => {
+    expect(validateAuthorityTiers([
+      { role: 'adjuster', limit: 5000 },
+      { role: 'supervisor', limit: 5000 },
+      { role: 'manager', limit: 50000 }
+    ])).toEqual({
+      supervisor: 'Limit must be higher than the Adjuster limit',
+      manager: 'The highest tier must have no limit'
+    })
+  })
+
+  it('requires a positive limit below the highest tier', () => {
+    expect(validateAuthorityTiers([
+      { role: 'adjuster', limit: 0 },
+      { role: 'manager', limit: null }
+    ])).toEqual({ adjuster: 'Limit must be greater than zero' })
+  })
+})
+
+describe('loadAuthorityTiers', () => {
+  it('falls back to the defaults until tiers are saved', () => {
+    expect(loadAuthorityTiers()).toEqual(defaultAuthorityTiers)
+
+    const saved = [{ role: 'supervisor' as const, limit: 10000 }, { role: 'manager' as const, limit: null }]
+    saveAuthorityTiers(saved)
+    expect(loadAuthorityTiers()).toEqual(saved)
+  })
+})
+
+describe('getRequiredApprovalRole', () => {
+  it('picks the lowest role whose limit covers the amount', () => {
+    expect(getRequiredApprovalRole(2500, tiers)).toBe('adjuster')
+    expect(getRequiredApprovalRole(2500.01, tiers)).toBe('supervisor')
+    expect(getRequiredApprovalRole(15000, tiers)).toBe('supervisor')
+    expect(getRequiredApprovalRole(250000, tiers)).toBe('manager')
+  })
+})
+
+describe('getApprovalOutcome', () => {
+  it('approves within the approver\'s limit and escalates above it', () => {
+    expect(getApprovalOutcome(makeClaim({ totalEstimatedCost: 2000 }), adjuster, tiers)).toBe('approved')
+    expect(getApprovalOutcome(makeClaim({ totalEstimatedCost: 8000 }), adjuster, tiers)).toBe('escalated')
+    expect(getApprovalOutcome(makeClaim({ totalEstimatedCost: 8000 }), supervisor, tiers)).toBe('approved')
+    expect(getApprovalOutcome(makeClaim({ totalEstimatedCost: 80000 }), manager, tiers)).toBe('approved')
+  })
+})
+
+describe('createSignOff', () => {
+  it('records the approver\'s role, limit and the amount signed off', () => {
+    expect(createSignOff(makeClaim({ totalEstimatedCost: 8000 }), adjuster, tiers)).toMatchObject({
+      actor: toActor(adjuster),
+      role: 'adjuster',
+      authorityLimit: 2500,
+      amount: 8000,
+      decision: 'escalated'
+    })
+    expect(createSignOff(makeClaim(), manager, tiers).authorityLimit).toBeNull()
+  })
+})
+
+describe('validateApproval', () => {
+  it('refuses roles without approval authority', () => {
+    expect(validateApproval(makeClaim(), auditor, tiers)).toBe('Auditors have no approval authority')
+  })
+
+  it('lets any approver sign off first', () => {
+    expect(validateApproval(makeClaim({ totalEstimatedCost: 8000 }), adjuster, tiers)).toBeNull()
+  })
+
+  it('refuses a second sign-off from the same person', () => {
+    const claim = makeClaim({ totalEstimatedCost: 80000 })
+    const escalated = escalatedClaim(80000, [signed(claim, supervisor, '2025-05-02T11:00:00.000Z')])
+
+    expect(validateApproval(escalated, supervisor, tiers)).toMatch(/already signed off/)
+  })
+
+  it('requires each further sign-off to come from a higher tier', () => {
+    const claim = makeClaim({ totalEstimatedCost: 8000 })
+    const escalated = escalatedClaim(8000, [signed(claim, adjuster, '2025-05-02T11:00:00.000Z')])
+    const otherAdjuster = { ...adjuster, id: 'AGT-002', name: 'Second Agent' }
+
+    expect(validateApproval(escalated, otherAdjuster, tiers)).toBe('This claim is awaiting sign-off from a Supervisor')
+    expect(validateApproval(escalated, supervisor, tiers)).toBeNull()
+    expect(validateApproval(escalated, manager, tiers)).toBeNull()
+  })
+
+  it('ignores sign-offs from before the claim was reopened', () => {
+    const claim = makeClaim({ totalEstimatedCost: 8000 })
+    const reopened = makeClaim({
+      status: 'processing',
+      totalEstimatedCost: 8000,
+      statusHistory: [
+        { id: 'transition_1', from: 'pending', to: 'approved', actor: toActor(supervisor), at: '2025-05-02T11:00:00.000Z' },
+        { id: 'transition_2', from: 'approved', to: 'processing', actor: toActor(supervisor), at: '2025-05-03T09:00:00.000Z', reason: 'Customer appealed' }
+      ],
+      signOffs: [signed(claim, supervisor, '2025-05-02T11:00:00.000Z')]
+    })
+
+    expect(getCurrentSignOffs(reopened)).toEqual([])
+    expect(validateApproval(reopened, supervisor, tiers)).toBeNull()
+  })
+})
+
+describe('getNextApprovalRole', () => {
+  it('returns the next tier up', () => {
+    expect(getNextApprovalRole('adjuster', tiers)).toBe('supervisor')
+    expect(getNextApprovalRole('supervisor', tiers)).toBe('manager')
+    expect(getNextApprovalRole('manager', tiers)).toBeUndefined()
+    expect(getNextApprovalRole('auditor', tiers)).toBeUndefined()
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * approvalAuthority.ts
+ *
+ * This file decides how far each approver's sign-off goes. Every role with
+ * approval authority has a limit on the claim value it may approve on its own;
+ * above that, a sign-off sends the claim to the next level as
+ * "awaiting second approval" until someone with enough authority approves it.
+ *
+ * Key Features:
+ * - Configurable authority tiers (role + limit), persisted in localStorage
+ * - Approval outcome for an approver: approved or escalated to the next level
+ * - Validation that each further sign-off comes from a new, higher-level approver
+ * - Sign-off records stored on the claim
+ *
+ * Default tiers:
+ * - adjuster:   up to $2,500
+ * - supervisor: up to $15,000
+ * - manager:    no limit
+ */
+
+import type { Claim, SignOff } from '../context/ClaimsContext'
+import type { AppUser, UserRole } from '../data/users'
+import { roleLabels } from '../data/users'
+
+const TIERS_STORAGE_KEY = 'car-insurance-authority-tiers'
+
+/**
+ * AuthorityTier Interface
+ *
+ * Approval authority of one role.
+ */
+export interface AuthorityTier {
+  role: UserRole                // Role the tier applies to
+  limit: number | null          // Highest claim value the role may approve (null = no limit)
+}
+
+/**
+ * Default Authority Tiers
+ *
+ * Ordered from lowest to highest authority.
+ */
+export const defaultAuthorityTiers: AuthorityTier[] = [
+  { role: 'adjuster', limit: 2500 },
+  { role: 'supervisor', limit: 15000 },
+  { role: 'manager', limit: null }
+]
+
+/**
+ * Load Authority Tiers
+ *
+ * @returns Saved tiers, or the defaults if none are saved
+ */
+export const loadAuthorityTiers = (): AuthorityTier[] => {
+  try {
+    const saved = localStorage.getItem(TIERS_STORAGE_KEY)
+    return saved ? JSON.parse(saved) : defaultAuthorityTiers
+  } catch (error) {
+    console.error('Error loading authority tiers:', error)
+    return defaultAuthorityTiers
+  }
+}
+
+/**
+ * Validate Authority Tiers
+ *
+ * Limits must be positive and increase from one tier to the next, and the
+ * last tier must have no limit so every claim can be approved by someone.
+ *
+ * @param tiers - Tiers entered by the user
+ * @returns Validation errors keyed by role (empty when valid)
+ */
+export const validateAuthorityTiers = (tiers: AuthorityTier[]): Record<string, string> => {
+  const errors: Record<string, string> = {}
+
+  tiers.forEach((tier, index) => {
+    const isLast = index === tiers.length - 1
+    const previous = tiers[index - 1]
+
+    if (isLast) {
+      if (tier.limit !== null) errors[tier.role] = 'The highest tier must have no limit'
+      return
+    }
+    if (tier.limit === null || !(tier.limit > 0)) {
+      errors[tier.role] = 'Limit must be greater than zero'
+    } else if (previous && previous.limit !== null && tier.limit <= previous.limit) {
+      errors[tier.role] = `Limit must be higher than the ${roleLabels[previous.role]} limit`
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Save Authority Tiers
+ *
+ * @param tiers - Validated tiers to use for new approvals
+ */
+export const saveAuthorityTiers = (tiers: AuthorityTier[]) => {
+  localStorage.setItem(TIERS_STORAGE_KEY, JSON.stringify(tiers))
+}
+
+/**
+ * Get Authority Tier
+ *
+ * @param role - Role to look up
+ * @param tiers - Configured tiers
+ * @returns The role's tier, or undefined if the role has no approval authority
+ */
+export const getAuthorityTier = (role: UserRole, tiers: AuthorityTier[]) =>
+  tiers.find(tier => tier.role === role)
+
+/**
+ * Covers Amount
+ *
+ * @param limit - Authority limit (null = no limit)
+ * @param amount - Claim value
+ * @returns Whether the limit is enough to approve the amount
+ */
+const coversAmount = (limit: number | null, amount: number) => limit === null || amount <= limit
+
+/**
+ * Get Required Approval Role
+ *
+ * @param amount - Claim value
+ * @param tiers - Configured tiers
+ * @returns Lowest role whose limit covers the amount
+ */
+export const getRequiredApprovalRole = (amount: number, tiers: AuthorityTier[]): UserRole =>
+  (tiers.find(tier => coversAmount(tier.limit, amount)) || tiers[tiers.length - 1]).role
+
+/**
+ * Get Current Sign-Offs
+ *
+ * Sign-offs of the current approval round: those given since the claim last
+ * entered a status other than awaiting_second_approval. Reopening or
+ * rejecting a claim therefore starts a new round.
+ *
+ * @param claim - Claim to inspect
+ * @returns Sign-offs counting towards the claim's current approval
+ */
+export const getCurrentSignOffs = (claim: Claim): SignOff[] => {
+  const roundStart = [...(claim.statusHistory || [])]
+    .reverse()
+    .find(transition => transition.to !== 'awaiting_second_approval')
+  return (claim.signOffs || []).filter(signOff => !roundStart || signOff.at >= roundStart.at)
+}
+
+/**
+ * Validate Approval
+ *
+ * Checks whether a user may sign off on a claim. Each sign-off in a round
+ * must come from a different person with more authority than everyone who
+ * signed before.
+ *
+ * @param claim - Claim to approve
+ * @param approver - User signing off
+ * @param tiers - Configured tiers
+ * @returns Error message if the user may not sign off, null otherwise
+ */
+export const validateApproval = (claim: Claim, approver: AppUser, tiers: AuthorityTier[]): string | null => {
+  const tier = getAuthorityTier(approver.role, tiers)
+  if (!tier) {
+    return `${roleLabels[approver.role]}s have no approval authority`
+  }
+
+  const signOffs = getCurrentSignOffs(claim)
+  if (signOffs.some(signOff => signOff.actor.id === approver.id)) {
+    return 'You have already signed off on this claim. The next sign-off must come from another approver.'
+  }
+
+  const tierIndex = tiers.indexOf(tier)
+  const highestSigned = Math.max(-1, ...signOffs.map(signOff => tiers.findIndex(item => item.role === signOff.role)))
+  if (tierIndex <= highestSigned) {
+    const nextRole = tiers[highestSigned + 1]?.role || getRequiredApprovalRole(claim.totalEstimatedCost, tiers)
+    return `This claim is awaiting sign-off from a ${roleLabels[nextRole]}`
+  }
+
+  return null
+}
+
+/**
+ * Get Approval Outcome
+ *
+ * @param claim - Claim to approve
+ * @param approver - User signing off
+ * @param tiers - Configured tiers
+ * @returns 'approved' if the approver's limit covers the claim value,
+ *          'escalated' if the claim must go to the next level
+ */
+export const getApprovalOutcome = (
+  claim: Claim,
+  approver: AppUser,
+  tiers: AuthorityTier[]
+): SignOff['decision'] => {
+  const tier = getAuthorityTier(approver.role, tiers)
+  return tier && coversAmount(tier.limit, claim.totalEstimatedCost) ? 'approved' : 'escalated'
+}
+
+/**
+ * Create Sign-Off
+ *
+ * Builds the sign-off record for a validated approval.
+ *
+ * @param claim - Claim being approved
+ * @param approver - User signing off
+ * @param tiers - Configured tiers
+ * @returns SignOff to append to the claim
+ */
+export const createSignOff = (claim: Claim, approver: AppUser, tiers: AuthorityTier[]): SignOff => ({
+  id: `signoff_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  actor: { id: approver.id, name: approver.name },
+  role: approver.role,
+  authorityLimit: getAuthorityTier(approver.role, tiers)?.limit ?? null,
+  amount: claim.totalEstimatedCost,
+  decision: getApprovalOutcome(claim, approver, tiers),
+  at: new Date().toISOString()
+})
+
+/**
+ * Get Next Approval Role
+ *
+ * @param role - Role of the approver who escalated
+ * @param tiers - Configured tiers
+ * @returns Role of the next tier up, or undefined for the highest tier
+ */
+export const getNextApprovalRole = (role: UserRole, tiers: AuthorityTier[]): UserRole | undefined => {
+  const index = tiers.findIndex(tier => tier.role === role)
+  return index === -1 ? undefined : tiers[index + 1]?.role
+}
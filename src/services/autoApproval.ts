@@ -0,0 +1,351 @@
+/**
+ * autoApproval.ts
+ *
+ * This file is the rules engine for straight-through processing. Every new
+ * claim is checked against the configured rules right after it is added; a
+ * claim that passes all enabled rules is approved automatically instead of
+ * waiting in the approval queue. The result of every rule is stored on the
+ * claim so reviewers can see why it was or was not auto-approved.
+ *
+ * Key Features:
+ * - Rule definitions with optional thresholds (confidence, cost limit)
+ * - Rule settings persisted in localStorage and editable on the admin screen
+ * - Per-claim evaluation recording the outcome of each rule
+ * - Dry run of unsaved settings against existing claims
+ *
+ * Rules:
+ * - min_confidence:       every damage assessment at or above a confidence threshold
+ * - max_total_cost:       total estimated cost at or below a limit
+ * - no_structural_damage: no assessment of structural damage
+ * - active_policy:        policy found and in force on the accident date
+ * - no_duplicate_flags:   claim not flagged as a possible duplicate
+ * - not_high_risk:        fraud risk below the high-risk score (always applied)
+ * - within_authority:     total within the lowest approval authority tier (always applied)
+ */
+
+import type { Actor, Claim } from '../context/ClaimsContext'
+import type { AppUser } from '../data/users'
+import { roleLabels } from '../data/users'
+import { getPolicyByNumber, getCoverageEndDate, isPolicyInForce } from '../data/policies'
+import { AuthorityTier, loadAuthorityTiers } from './approvalAuthority'
+import { fraudRiskLevelLabels } from './fraudScoring'
+
+const SETTINGS_STORAGE_KEY = 'car-insurance-auto-approval-rules'
+
+export type AutoApprovalRuleType =
+  | 'min_confidence'
+  | 'max_total_cost'
+  | 'no_structural_damage'
+  | 'active_policy'
+  | 'no_duplicate_flags'
+  | 'not_high_risk'
+  | 'within_authority'
+
+/**
+ * AutoApprovalRule Interface
+ *
+ * Configuration of one rule.
+ */
+export interface AutoApprovalRule {
+  type: AutoApprovalRuleType    // Which check the rule performs
+  enabled: boolean              // Whether the rule takes part in evaluation
+  threshold?: number            // Rule parameter (percent or dollars), for rules that take one
+}
+
+/**
+ * AutoApprovalSettings Interface
+ *
+ * Straight-through processing configuration.
+ */
+export interface AutoApprovalSettings {
+  enabled: boolean              // Whether new claims are evaluated at all
+  rules: AutoApprovalRule[]     // Rules in evaluation order
+}
+
+/**
+ * RuleResult Interface
+ *
+ * Outcome of one rule for one claim.
+ */
+export interface RuleResult {
+  type: AutoApprovalRuleType    // Rule that was evaluated
+  passed: boolean               // Whether the claim satisfied the rule
+  detail: string                // What the rule found (e.g., "Lowest confidence 87%")
+}
+
+/**
+ * AutoApprovalEvaluation Interface
+ *
+ * Rule evaluation stored on a claim.
+ */
+export interface AutoApprovalEvaluation {
+  approved: boolean             // Whether every enabled rule passed
+  results: RuleResult[]         // Outcome of each enabled rule
+  evaluatedAt: string           // When the rules were evaluated (ISO string)
+}
+
+/**
+ * RuleDefinition Interface
+ *
+ * Describes a rule type and how to evaluate it.
+ */
+interface RuleDefinition {
+  label: string                 // Display name
+  description: string           // What the rule checks
+  thresholdLabel?: string       // Label of the threshold input (absent for rules without one)
+  mandatory?: boolean           // Applied even when disabled or missing from the settings
+  evaluate: (claim: Claim, threshold: number) => Omit<RuleResult, 'type'>
+}
+
+export const ruleDefinitions: Record<AutoApprovalRuleType, RuleDefinition> = {
+  min_confidence: {
+    label: 'High AI confidence',
+    description: 'Every damage assessment has at least the given confidence.',
+    thresholdLabel: 'Minimum confidence (%)',
+    evaluate: (claim, threshold) => {
+      if (claim.damageAssessments.length === 0) {
+        return { passed: false, detail: 'No damage assessments' }
+      }
+      // Analyzers report confidence as a fraction; the threshold is a percent
+      const lowest = Math.round(Math.min(...claim.damageAssessments.map(assessment => assessment.confidence)) * 100)
+      return { passed: lowest >= threshold, detail: `Lowest confidence ${lowest}%` }
+    }
+  },
+  max_total_cost: {
+    label: 'Low total cost',
+    description: 'The total estimated cost is at or below the given limit.',
+    thresholdLabel: 'Cost limit ($)',
+    evaluate: (claim, threshold) => ({
+      passed: claim.totalEstimatedCost <= threshold,
+      detail: `Total $${claim.totalEstimatedCost.toLocaleString()}`
+    })
+  },
+  no_structural_damage: {
+    label: 'No structural damage',
+    description: 'None of the damage assessments is structural.',
+    evaluate: (claim) => {
+      const structural = claim.damageAssessments.filter(assessment => assessment.type === 'structural').length
+      return {
+        passed: structural === 0,
+        detail: structural === 0 ? 'No structural damage' : `${structural} structural assessment(s)`
+      }
+    }
+  },
+  active_policy: {
+    label: 'Active policy',
+    description: 'The policy exists and is in force on the accident date.',
+    evaluate: (claim) => {
+      const policy = getPolicyByNumber(claim.policyNumber)
+      if (!policy) {
+        return { passed: false, detail: `Policy ${claim.policyNumber} not found` }
+      }
+      return isPolicyInForce(policy, claim.accidentDate)
+        ? { passed: true, detail: `Policy covered ${policy.effectiveDate} to ${getCoverageEndDate(policy)}` }
+        : { passed: false, detail: `Policy ${policy.status}, covered ${policy.effectiveDate} to ${getCoverageEndDate(policy)}` }
+    }
+  },
+  no_duplicate_flags: {
+    label: 'No duplicate flags',
+    description: 'The claim has not been flagged as a possible duplicate of another claim.',
+    evaluate: (claim) => {
+      const flags = claim.duplicateFlags || []
+      return {
+        passed: flags.length === 0,
+        detail: flags.length === 0 ? 'No duplicate flags' : `${flags.length} possible duplicate(s)`
+      }
+    }
+  },
+  not_high_risk: {
+    label: 'Not high fraud risk',
+    description: 'The fraud risk score is below the high-risk level. Always applied.',
+    mandatory: true,
+    evaluate: (claim) => {
+      if (!claim.fraudRisk) {
+        return { passed: false, detail: 'Fraud risk not scored' }
+      }
+      return {
+        passed: claim.fraudRisk.level !== 'high',
+        detail: `Score ${claim.fraudRisk.score} (${fraudRiskLevelLabels[claim.fraudRisk.level]})`
+      }
+    }
+  },
+  within_authority: {
+    label: 'Within approval authority',
+    description: 'The total estimated cost is within the lowest approval authority tier. Always applied.',
+    mandatory: true,
+    evaluate: (claim) => {
+      const tier = loadAuthorityTiers()[0]
+      if (!tier || tier.limit === null || claim.totalEstimatedCost <= tier.limit) {
+        return { passed: true, detail: `Total $${claim.totalEstimatedCost.toLocaleString()}` }
+      }
+      return {
+        passed: false,
+        detail: `Total above the ${roleLabels[tier.role]} limit of $${tier.limit.toLocaleString()}`
+      }
+    }
+  }
+}
+
+/**
+ * Default Auto-Approval Settings
+ */
+export const defaultAutoApprovalSettings: AutoApprovalSettings = {
+  enabled: true,
+  rules: [
+    { type: 'min_confidence', enabled: true, threshold: 85 },
+    { type: 'max_total_cost', enabled: true, threshold: 2500 },
+    { type: 'no_structural_damage', enabled: true },
+    { type: 'active_policy', enabled: true },
+    { type: 'no_duplicate_flags', enabled: true },
+    { type: 'not_high_risk', enabled: true },
+    { type: 'within_authority', enabled: true }
+  ]
+}
+
+// Actor recorded on claims approved by straight-through processing
+export const autoApprovalActor: Actor = {
+  id: 'STP',
+  name: 'Straight-Through Processing'
+}
+
+/**
+ * Get Auto-Approver
+ *
+ * Straight-through processing signs off with the authority of the lowest
+ * tier, so its sign-offs sit in the approval trail like anyone else's.
+ *
+ * @param tiers - Configured authority tiers
+ * @returns Approver to sign off automatically approved claims
+ */
+export const getAutoApprover = (tiers: AuthorityTier[]): AppUser => ({
+  ...autoApprovalActor,
+  role: tiers[0]?.role || 'adjuster'
+})
+
+/**
+ * Load Auto-Approval Settings
+ *
+ * Rules added since the settings were saved are appended with their defaults,
+ * and mandatory rules are always enabled.
+ *
+ * @returns Saved settings, or the defaults if none are saved
+ */
+export const loadAutoApprovalSettings = (): AutoApprovalSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    if (!saved) return defaultAutoApprovalSettings
+
+    const settings: AutoApprovalSettings = JSON.parse(saved)
+    const missing = defaultAutoApprovalSettings.rules.filter(rule =>
+      !settings.rules.some(savedRule => savedRule.type === rule.type)
+    )
+    return {
+      ...settings,
+      rules: [...settings.rules, ...missing].map(rule =>
+        ruleDefinitions[rule.type].mandatory ? { ...rule, enabled: true } : rule
+      )
+    }
+  } catch (error) {
+    console.error('Error loading auto-approval rules:', error)
+    return defaultAutoApprovalSettings
+  }
+}
+
+/**
+ * Validate Auto-Approval Settings
+ *
+ * The cost limit may not exceed the lowest authority tier, since
+ * straight-through processing approves with that tier's authority.
+ *
+ * @param settings - Settings entered by the user
+ * @param tiers - Configured authority tiers
+ * @returns Validation errors keyed by rule type (empty when valid)
+ */
+export const validateAutoApprovalSettings = (
+  settings: AutoApprovalSettings,
+  tiers: AuthorityTier[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  const lowestTier = tiers[0]
+
+  settings.rules.forEach(rule => {
+    if (!ruleDefinitions[rule.type].thresholdLabel) return
+    const threshold = rule.threshold ?? NaN
+    if (rule.type === 'min_confidence' && !(threshold >= 0 && threshold <= 100)) {
+      errors[rule.type] = 'Confidence must be between 0 and 100'
+    } else if (rule.type === 'max_total_cost' && !(threshold >= 0)) {
+      errors[rule.type] = 'Cost limit cannot be negative'
+    } else if (rule.type === 'max_total_cost' && lowestTier && lowestTier.limit !== null && threshold > lowestTier.limit) {
+      errors[rule.type] = `Cost limit cannot exceed the ${roleLabels[lowestTier.role]} approval limit of $${lowestTier.limit.toLocaleString()}`
+    }
+  })
+
+  if (settings.enabled && !settings.rules.some(rule => rule.enabled)) {
+    errors.rules = 'Enable at least one rule, or turn straight-through processing off'
+  }
+
+  return errors
+}
+
+/**
+ * Save Auto-Approval Settings
+ *
+ * @param settings - Validated settings to use for new claims
+ */
+export const saveAutoApprovalSettings = (settings: AutoApprovalSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+}
+
+/**
+ * Evaluate Auto-Approval
+ *
+ * Runs every enabled rule, and every mandatory rule, against a claim.
+ *
+ * @param claim - Claim to evaluate
+ * @param settings - Rules to apply
+ * @returns Evaluation with the outcome of each rule; approved only when
+ *          at least one rule ran and all of them passed
+ */
+export const evaluateAutoApproval = (claim: Claim, settings: AutoApprovalSettings): AutoApprovalEvaluation => {
+  const results = settings.rules
+    .filter(rule => rule.enabled || ruleDefinitions[rule.type].mandatory)
+    .map(rule => ({
+      type: rule.type,
+      ...ruleDefinitions[rule.type].evaluate(claim, rule.threshold ?? 0)
+    }))
+
+  return {
+    approved: results.length > 0 && results.every(result => result.passed),
+    results,
+    evaluatedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Dry Run Auto-Approval
+ *
+ * Previews settings against existing claims without changing them.
+ *
+ * @param claims - Claims to evaluate
+ * @param settings - Rules to preview
+ * @returns Evaluation per claim, the number that would be auto-approved and
+ *          how many claims each rule would stop
+ */
+export const dryRunAutoApproval = (claims: Claim[], settings: AutoApprovalSettings) => {
+  const evaluations = claims.map(claim => ({ claim, evaluation: evaluateAutoApproval(claim, settings) }))
+  const failuresByRule = {} as Record<AutoApprovalRuleType, number>
+
+  evaluations.forEach(({ evaluation }) => {
+    evaluation.results
+      .filter(result => !result.passed)
+      .forEach(result => {
+        failuresByRule[result.type] = (failuresByRule[result.type] || 0) + 1
+      })
+  })
+
+  return {
+    evaluations,
+    approvedCount: evaluations.filter(({ evaluation }) => evaluation.approved).length,
+    failuresByRule
+  }
+}
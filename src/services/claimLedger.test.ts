@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest'
+import type { Claim } from '../context/ClaimsContext'
+import {
+  createLedgerEntry,
+  getLedgerSummary,
+  getSettlementStatus,
+  validateLedgerEntry,
+  withInitialReserve
+} from './claimLedger'
+import type { LedgerEntry, LedgerEntryInput } from './claimLedger'
+import { adjuster, makeClaim, toActor } from '../test/fixtures'
+
+const actor = toActor(adjuster)
+
+/**
+ * Entry
+ *
+ * @param id - Entry ID
+ * @param type - Kind of movement
+ * @param amount - Amount in dollars
+ * @param voidedEntryId - Entry voided (void entries only)
+ * @returns A recorded ledger entry
+ */
+const entry = (id: string, type: LedgerEntry['type'], amount: number, voidedEntryId?: string): LedgerEntry => ({
+  id,
+  type,
+  amount,
+  payee: type === 'payment' ? 'Premium Auto Body' : 'Claim reserve',
+  payeeType: type === 'payment' ? 'repair_shop' : 'insurer',
+  method: type === 'payment' ? 'ach' : 'internal',
+  reference: `REF-${id}`,
+  at: '2025-05-03T09:00:00.000Z',
+  actor,
+  voidedEntryId
+})
+
+/**
+ * Input
+ *
+ * @param overrides - Fields to set on top of a $200 ACH payment to the shop
+ * @returns Entry fields as entered by the user
+ */
+const input = (overrides: Partial<LedgerEntryInput> = {}): LedgerEntryInput => ({
+  type: 'payment',
+  amount: 200,
+  payee: 'Premium Auto Body',
+  payeeType: 'repair_shop',
+  method: 'ach',
+  reference: 'ACH-1001',
+  ...overrides
+})
+
+/**
+ * Approved Claim
+ *
+ * @param ledger - Entries already recorded
+ * @returns An approved $1,000 claim with the given ledger
+ */
+const approvedClaim = (ledger: LedgerEntry[]): Claim => makeClaim({ status: 'approved', ledger })
+
+describe('getLedgerSummary', () => {
+  it('totals reserve, payments and recoveries', () => {
+    expect(getLedgerSummary([
+      entry('1', 'reserve_set', 1000),
+      entry('2', 'reserve_adjustment', 250),
+      entry('3', 'payment', 800),
+      entry('4', 'deductible_recovery', 100)
+    ])).toEqual({ reserve: 1250, paid: 800, recovered: 100, outstanding: 450, netIncurred: 700 })
+  })
+
+  it('leaves voided entries out', () => {
+    expect(getLedgerSummary([
+      entry('1', 'reserve_set', 1000),
+      entry('2', 'payment', 800),
+      entry('3', 'void', 800, '2')
+    ])).toMatchObject({ paid: 0, outstanding: 1000 })
+  })
+
+  it('treats a missing ledger as empty', () => {
+    expect(getLedgerSummary()).toEqual({ reserve: 0, paid: 0, recovered: 0, outstanding: 0, netIncurred: 0 })
+  })
+})
+
+describe('validateLedgerEntry', () => {
+  const reserved = approvedClaim([entry('1', 'reserve_set', 1000), entry('2', 'payment', 600)])
+
+  it('only takes entries on approved or paid claims', () => {
+    expect(validateLedgerEntry(makeClaim({ status: 'closed' }), input()))
+      .toBe('Ledger entries can only be recorded on approved or paid claims')
+  })
+
+  it('requires a reference on everything but a void', () => {
+    expect(validateLedgerEntry(reserved, input({ reference: ' ' }))).toBe('A reference number is required for a payment')
+  })
+
+  it('sets the initial reserve only once', () => {
+    const reserve = input({ type: 'reserve_set', amount: 1000, payee: 'Claim reserve', payeeType: 'insurer' })
+
+    expect(validateLedgerEntry(approvedClaim([]), reserve)).toBeNull()
+    expect(validateLedgerEntry(approvedClaim([]), { ...reserve, amount: 0 }))
+      .toBe('The initial reserve must be greater than zero')
+    expect(validateLedgerEntry(reserved, reserve))
+      .toBe('The initial reserve has already been set; record an adjustment instead')
+  })
+
+  it('keeps the reserve at or above what has been paid', () => {
+    const adjustment = input({ type: 'reserve_adjustment', payee: 'Claim reserve', payeeType: 'insurer' })
+
+    expect(validateLedgerEntry(approvedClaim([]), { ...adjustment, amount: 100 }))
+      .toBe('Set the initial reserve before adjusting it')
+    expect(validateLedgerEntry(reserved, { ...adjustment, amount: 0 })).toBe('A reserve adjustment cannot be zero')
+    expect(validateLedgerEntry(reserved, { ...adjustment, amount: -400 })).toBeNull()
+    expect(validateLedgerEntry(reserved, { ...adjustment, amount: -401 }))
+      .toBe('The reserve cannot drop below the $600 already paid')
+  })
+
+  it('keeps payments within the outstanding reserve', () => {
+    expect(validateLedgerEntry(reserved, input({ amount: 400 }))).toBeNull()
+    expect(validateLedgerEntry(reserved, input({ amount: 401 })))
+      .toBe('The payment exceeds the outstanding reserve of $400')
+    expect(validateLedgerEntry(reserved, input({ payee: '' }))).toBe('A payee is required for a payment')
+    expect(validateLedgerEntry(reserved, input({ amount: -5 }))).toBe('A payment must be greater than zero')
+  })
+
+  it('caps recoveries at the policy deductible', () => {
+    const recovery = input({ type: 'deductible_recovery', payee: 'John Smith', payeeType: 'customer', method: 'card' })
+
+    expect(validateLedgerEntry(reserved, { ...recovery, amount: 500 })).toBeNull()
+    expect(validateLedgerEntry(reserved, { ...recovery, amount: 501 }))
+      .toBe('Recoveries cannot exceed the $500 deductible')
+  })
+
+  it('voids an entry only once', () => {
+    const voidInput = input({ type: 'void', amount: 0, reference: '', voidedEntryId: '2' })
+    const voided = approvedClaim([...reserved.ledger as LedgerEntry[], entry('3', 'void', 600, '2')])
+
+    expect(validateLedgerEntry(reserved, voidInput)).toBeNull()
+    expect(validateLedgerEntry(reserved, { ...voidInput, voidedEntryId: 'missing' })).toBe('Choose an entry to void')
+    expect(validateLedgerEntry(voided, voidInput)).toBe('This entry has already been voided')
+    expect(validateLedgerEntry(voided, { ...voidInput, voidedEntryId: '3' })).toBe('Choose an entry to void')
+  })
+
+  it('refuses to void a reserve that payments rest on', () => {
+    expect(validateLedgerEntry(reserved, input({ type: 'void', amount: 0, reference: '', voidedEntryId: '1' })))
+      .toBe('Voiding this entry would leave less reserve than has already been paid')
+  })
+})
+
+describe('createLedgerEntry', () => {
+  it('copies the amount and reference of the entry a void cancels', () => {
+    const claim = approvedClaim([entry('1', 'reserve_set', 1000), entry('2', 'payment', 600)])
+    const created = createLedgerEntry(claim, input({ type: 'void', amount: 0, reference: ' ', voidedEntryId: '2' }), actor)
+
+    expect(created).toMatchObject({ type: 'void', amount: 600, reference: 'VOID-REF-2', voidedEntryId: '2', actor })
+  })
+
+  it('trims the payee, reference and note', () => {
+    const created = createLedgerEntry(
+      approvedClaim([]),
+      input({ payee: ' Premium Auto Body ', reference: ' ACH-1001 ', note: '  ' }),
+      actor
+    )
+
+    expect(created).toMatchObject({ payee: 'Premium Auto Body', reference: 'ACH-1001', note: undefined })
+  })
+})
+
+describe('withInitialReserve', () => {
+  it('reserves the estimate when a claim is approved', () => {
+    const claim = withInitialReserve(approvedClaim([]), actor)
+
+    expect(claim.ledger).toHaveLength(1)
+    expect(claim.ledger?.[0]).toMatchObject({ type: 'reserve_set', amount: 1000, reference: 'RES-ABC123' })
+  })
+
+  it('leaves claims that are not approved or already reserved unchanged', () => {
+    const pending = makeClaim()
+    const reserved = approvedClaim([entry('1', 'reserve_set', 1000)])
+
+    expect(withInitialReserve(pending, actor)).toBe(pending)
+    expect(withInitialReserve(reserved, actor)).toBe(reserved)
+  })
+})
+
+describe('getSettlementStatus', () => {
+  it('moves a claim to paid once nothing is outstanding', () => {
+    expect(getSettlementStatus(approvedClaim([entry('1', 'reserve_set', 1000), entry('2', 'payment', 1000)])))
+      .toBe('paid')
+    expect(getSettlementStatus(approvedClaim([entry('1', 'reserve_set', 1000), entry('2', 'payment', 600)])))
+      .toBeNull()
+  })
+
+  it('moves a paid claim back to approved when its balance reopens', () => {
+    const claim = makeClaim({
+      status: 'paid',
+      ledger: [entry('1', 'reserve_set', 1000), entry('2', 'payment', 1000), entry('3', 'reserve_adjustment', 200)]
+    })
+
+    expect(getSettlementStatus(claim)).toBe('approved')
+  })
+})
@@ -0,0 +1,286 @@
+/**
+ * claimLedger.ts
+ *
+ * This file keeps the money side of a claim: the reserve set aside for it and
+ * every payment made against it. Entries are only ever appended; a mistake is
+ * corrected by voiding the entry, which leaves both the entry and the void in
+ * the ledger.
+ *
+ * Key Features:
+ * - Initial reserve set from the estimate when a claim is approved
+ * - Reserve adjustments, payments to the repair shop and customer, deductible recovery and voids
+ * - Payee, method, reference number and timestamp on every entry
+ * - Summary of reserve, paid, recovered and outstanding amounts
+ * - Validation that keeps payments within the outstanding reserve
+ *
+ * Once a claim's outstanding reserve reaches zero it moves to paid, and from
+ * there it can be closed (see claimLifecycle.ts).
+ */
+
+import type { Actor, Claim } from '../context/ClaimsContext'
+import { getClaimPayable } from './policyCoverage'
+
+export type LedgerEntryType =
+  | 'reserve_set'
+  | 'reserve_adjustment'
+  | 'payment'
+  | 'deductible_recovery'
+  | 'void'
+
+export type PayeeType = 'repair_shop' | 'customer' | 'insurer'
+
+export type PaymentMethod = 'check' | 'ach' | 'wire' | 'card' | 'internal'
+
+export const ledgerEntryTypeLabels: Record<LedgerEntryType, string> = {
+  reserve_set: 'Initial reserve',
+  reserve_adjustment: 'Reserve adjustment',
+  payment: 'Payment',
+  deductible_recovery: 'Deductible recovery',
+  void: 'Void'
+}
+
+export const payeeTypeLabels: Record<PayeeType, string> = {
+  repair_shop: 'Repair shop',
+  customer: 'Customer',
+  insurer: 'Insurer'
+}
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  check: 'Check',
+  ach: 'ACH transfer',
+  wire: 'Wire transfer',
+  card: 'Card',
+  internal: 'Internal'
+}
+
+/**
+ * LedgerEntry Interface
+ *
+ * One money movement recorded against a claim.
+ */
+export interface LedgerEntry {
+  id: string                    // Unique identifier for the entry
+  type: LedgerEntryType         // Kind of movement
+  amount: number                // Amount in dollars (adjustments may be negative)
+  payee: string                 // Who receives the money, or who pays it for a recovery
+  payeeType: PayeeType          // Kind of payee
+  method: PaymentMethod         // How the money moved
+  reference: string             // Check number, transfer ID or other reference
+  at: string                    // When the entry was recorded (ISO string)
+  actor: Actor                  // Who recorded the entry
+  note?: string                 // Free-text note (optional)
+  voidedEntryId?: string        // Entry this one voids (void entries only)
+}
+
+/**
+ * LedgerEntryInput Type
+ *
+ * Fields entered by the user when recording an entry.
+ */
+export type LedgerEntryInput = Pick<LedgerEntry, 'type' | 'amount' | 'payee' | 'payeeType' | 'method' | 'reference'> &
+  Partial<Pick<LedgerEntry, 'note' | 'voidedEntryId'>>
+
+/**
+ * LedgerSummary Interface
+ *
+ * Totals of a claim's ledger, ignoring voided entries.
+ */
+export interface LedgerSummary {
+  reserve: number               // Initial reserve plus adjustments
+  paid: number                  // Payments to the repair shop and customer
+  recovered: number             // Deductible collected from the customer
+  outstanding: number           // Reserve not yet paid out
+  netIncurred: number           // Paid minus recovered
+}
+
+// Only claims in these statuses take new ledger entries
+const OPEN_LEDGER_STATUSES: Claim['status'][] = ['approved', 'paid']
+
+/**
+ * Get Voided Entry IDs
+ *
+ * @param ledger - Ledger entries of a claim
+ * @returns IDs of every entry that has been voided
+ */
+export const getVoidedEntryIds = (ledger: LedgerEntry[]) =>
+  new Set(ledger.filter(entry => entry.type === 'void').map(entry => entry.voidedEntryId))
+
+/**
+ * Get Ledger Summary
+ *
+ * @param ledger - Ledger entries of a claim (may be missing on older claims)
+ * @returns Totals of the entries that have not been voided
+ */
+export const getLedgerSummary = (ledger: LedgerEntry[] = []): LedgerSummary => {
+  const voided = getVoidedEntryIds(ledger)
+  const total = (...types: LedgerEntryType[]) => ledger
+    .filter(entry => types.includes(entry.type) && !voided.has(entry.id))
+    .reduce((sum, entry) => sum + entry.amount, 0)
+
+  const reserve = total('reserve_set', 'reserve_adjustment')
+  const paid = total('payment')
+  const recovered = total('deductible_recovery')
+
+  return {
+    reserve,
+    paid,
+    recovered,
+    outstanding: Math.max(0, reserve - paid),
+    netIncurred: paid - recovered
+  }
+}
+
+/**
+ * Has Active Reserve
+ *
+ * @param ledger - Ledger entries of a claim
+ * @returns Whether an initial reserve has been set and not voided
+ */
+const hasActiveReserve = (ledger: LedgerEntry[]) => {
+  const voided = getVoidedEntryIds(ledger)
+  return ledger.some(entry => entry.type === 'reserve_set' && !voided.has(entry.id))
+}
+
+/**
+ * Validate Ledger Entry
+ *
+ * Checks an entry against the claim's status and current ledger.
+ *
+ * @param claim - Claim the entry is recorded against
+ * @param input - Entry entered by the user
+ * @returns Error message if the entry cannot be recorded, null otherwise
+ */
+export const validateLedgerEntry = (claim: Claim, input: LedgerEntryInput): string | null => {
+  const ledger = claim.ledger || []
+  const summary = getLedgerSummary(ledger)
+  const label = ledgerEntryTypeLabels[input.type].toLowerCase()
+
+  if (!OPEN_LEDGER_STATUSES.includes(claim.status)) {
+    return 'Ledger entries can only be recorded on approved or paid claims'
+  }
+
+  if (!Number.isFinite(input.amount)) {
+    return 'Amount must be a number'
+  }
+
+  if (input.type !== 'void' && !input.reference.trim()) {
+    return `A reference number is required for a ${label}`
+  }
+
+  switch (input.type) {
+    case 'reserve_set':
+      if (hasActiveReserve(ledger)) return 'The initial reserve has already been set; record an adjustment instead'
+      if (input.amount <= 0) return 'The initial reserve must be greater than zero'
+      return null
+    case 'reserve_adjustment':
+      if (!hasActiveReserve(ledger)) return 'Set the initial reserve before adjusting it'
+      if (input.amount === 0) return 'A reserve adjustment cannot be zero'
+      if (summary.reserve + input.amount < summary.paid) {
+        return `The reserve cannot drop below the $${summary.paid.toLocaleString()} already paid`
+      }
+      return null
+    case 'payment':
+      if (!input.payee.trim()) return 'A payee is required for a payment'
+      if (input.amount <= 0) return 'A payment must be greater than zero'
+      if (input.amount > summary.outstanding) {
+        return `The payment exceeds the outstanding reserve of $${summary.outstanding.toLocaleString()}`
+      }
+      return null
+    case 'deductible_recovery': {
+      if (!input.payee.trim()) return 'Enter who paid the deductible'
+      if (input.amount <= 0) return 'A recovery must be greater than zero'
+      const deductible = getClaimPayable(claim)?.deductible
+      if (deductible !== undefined && summary.recovered + input.amount > deductible) {
+        return `Recoveries cannot exceed the $${deductible.toLocaleString()} deductible`
+      }
+      return null
+    }
+    case 'void': {
+      const target = ledger.find(entry => entry.id === input.voidedEntryId)
+      if (!target || target.type === 'void') return 'Choose an entry to void'
+      if (getVoidedEntryIds(ledger).has(target.id)) return 'This entry has already been voided'
+      const isReserve = target.type === 'reserve_set' || target.type === 'reserve_adjustment'
+      if (isReserve && summary.reserve - target.amount < summary.paid) {
+        return 'Voiding this entry would leave less reserve than has already been paid'
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Create Ledger Entry
+ *
+ * @param claim - Claim the entry is recorded against
+ * @param input - Validated entry entered by the user
+ * @param actor - User recording the entry
+ * @returns LedgerEntry to append to the claim's ledger. Voids copy the amount
+ *          of the entry they void.
+ */
+export const createLedgerEntry = (claim: Claim, input: LedgerEntryInput, actor: Actor): LedgerEntry => {
+  const voided = input.type === 'void'
+    ? (claim.ledger || []).find(entry => entry.id === input.voidedEntryId)
+    : undefined
+
+  return {
+    id: `ledger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type: input.type,
+    amount: voided ? voided.amount : input.amount,
+    payee: input.payee.trim(),
+    payeeType: input.payeeType,
+    method: input.method,
+    reference: input.reference.trim() || (voided ? `VOID-${voided.reference}` : ''),
+    at: new Date().toISOString(),
+    actor,
+    note: input.note?.trim() || undefined,
+    voidedEntryId: voided?.id
+  }
+}
+
+/**
+ * With Initial Reserve
+ *
+ * Sets the initial reserve from the estimate on a claim that has just been
+ * approved. Claims that already have a reserve are returned unchanged.
+ *
+ * @param claim - Claim after its status change
+ * @param actor - User or process that approved the claim
+ * @returns The claim, with a reserve entry appended if one was needed
+ */
+export const withInitialReserve = (claim: Claim, actor: Actor): Claim => {
+  const ledger = claim.ledger || []
+  if (claim.status !== 'approved' || hasActiveReserve(ledger) || claim.totalEstimatedCost <= 0) {
+    return claim
+  }
+
+  const entry: LedgerEntry = {
+    id: `ledger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type: 'reserve_set',
+    amount: claim.totalEstimatedCost,
+    payee: 'Claim reserve',
+    payeeType: 'insurer',
+    method: 'internal',
+    reference: `RES-${claim.id.slice(-6).toUpperCase()}`,
+    at: new Date().toISOString(),
+    actor,
+    note: 'Set from the estimate on approval'
+  }
+  return { ...claim, ledger: [...ledger, entry] }
+}
+
+/**
+ * Get Settlement Status
+ *
+ * @param claim - Claim with its latest ledger
+ * @returns The status the claim should move to after a ledger change
+ *          ('paid' once nothing is outstanding, back to 'approved' when an
+ *          adjustment or void reopens the balance), or null if it stays put
+ */
+export const getSettlementStatus = (claim: Claim): 'approved' | 'paid' | null => {
+  const summary = getLedgerSummary(claim.ledger)
+  if (claim.status === 'approved' && summary.paid > 0 && summary.outstanding === 0) return 'paid'
+  if (claim.status === 'paid' && summary.outstanding > 0) return 'approved'
+  return null
+}
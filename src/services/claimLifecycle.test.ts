@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import type { ClaimStatus } from '../context/ClaimsContext'
+import {
+  canTransition,
+  createStatusTransition,
+  getAvailableTransitions,
+  validateCostChange,
+  validateTransition
+} from './claimLifecycle'
+import { adjuster, makeClaim, toActor } from '../test/fixtures'
+
+describe('getAvailableTransitions', () => {
+  it('offers processing, approval and rejection on a pending claim', () => {
+    expect(getAvailableTransitions('pending').map(rule => rule.action)).toEqual([
+      'start_processing',
+      'approve',
+      'reject'
+    ])
+  })
+
+  it('leaves escalation and settlement steps out', () => {
+    const statuses: ClaimStatus[] = ['pending', 'processing', 'approved', 'paid']
+    const actions = statuses.flatMap(status => getAvailableTransitions(status).map(rule => rule.action))
+    expect(actions).not.toContain('escalate')
+    expect(actions).not.toContain('mark_paid')
+    expect(actions).not.toContain('reverse_payment')
+  })
+
+  it('only offers reopening on a closed or rejected claim', () => {
+    expect(getAvailableTransitions('closed').map(rule => rule.action)).toEqual(['reopen'])
+    expect(getAvailableTransitions('rejected').map(rule => rule.action)).toEqual(['reopen'])
+  })
+})
+
+describe('canTransition', () => {
+  it('allows moves in the transition table', () => {
+    expect(canTransition('pending', 'processing')).toBe(true)
+    expect(canTransition('approved', 'closed')).toBe(true)
+    expect(canTransition('rejected', 'processing')).toBe(true)
+  })
+
+  it('refuses moves outside the table', () => {
+    expect(canTransition('closed', 'approved')).toBe(false)
+    expect(canTransition('rejected', 'approved')).toBe(false)
+    expect(canTransition('pending', 'closed')).toBe(false)
+  })
+
+  it('refuses the moves that follow the payments ledger', () => {
+    expect(canTransition('approved', 'paid')).toBe(false)
+    expect(canTransition('paid', 'approved')).toBe(false)
+  })
+})
+
+describe('validateTransition', () => {
+  it('accepts an allowed move', () => {
+    expect(validateTransition(makeClaim(), 'processing')).toBeNull()
+  })
+
+  it('names both statuses when a move is not allowed', () => {
+    expect(validateTransition(makeClaim({ status: 'closed' }), 'approved'))
+      .toBe('A closed claim cannot be moved to approved')
+  })
+
+  it('refuses to mark a claim paid directly', () => {
+    expect(validateTransition(makeClaim({ status: 'approved' }), 'paid'))
+      .toBe('Paid status follows the payments ledger and cannot be changed directly')
+  })
+
+  it('requires a reason to reject or reopen', () => {
+    expect(validateTransition(makeClaim(), 'rejected')).toBe('A reason is required to reject claim')
+    expect(validateTransition(makeClaim({ status: 'closed' }), 'processing', '   '))
+      .toBe('A reason is required to reopen claim')
+    expect(validateTransition(makeClaim({ status: 'closed' }), 'processing', 'Customer appealed')).toBeNull()
+  })
+})
+
+describe('validateCostChange', () => {
+  it('allows any cost on a claim that has not been signed off', () => {
+    expect(validateCostChange(makeClaim({ status: 'pending' }), 2500)).toBeNull()
+    expect(validateCostChange(makeClaim({ status: 'processing' }), 2500)).toBeNull()
+    expect(validateCostChange(makeClaim({ status: 'rejected' }), 2500)).toBeNull()
+  })
+
+  it('refuses a new cost once approval has started', () => {
+    for (const status of ['awaiting_second_approval', 'approved', 'paid', 'closed'] as const) {
+      expect(validateCostChange(makeClaim({ status }), 1200)).toMatch(/cannot have their estimated cost changed/)
+    }
+  })
+
+  it('ignores an unchanged or missing cost on a locked claim', () => {
+    const claim = makeClaim({ status: 'approved' })
+    expect(validateCostChange(claim)).toBeNull()
+    expect(validateCostChange(claim, 1000.001)).toBeNull()
+  })
+})
+
+describe('createStatusTransition', () => {
+  it('records the action, actor and trimmed reason', () => {
+    const transition = createStatusTransition(
+      makeClaim({ status: 'closed' }),
+      'processing',
+      toActor(adjuster),
+      '  Customer appealed  '
+    )
+
+    expect(transition).toMatchObject({
+      from: 'closed',
+      to: 'processing',
+      action: 'reopen',
+      actor: { id: adjuster.id, name: adjuster.name },
+      reason: 'Customer appealed'
+    })
+  })
+
+  it('leaves a blank reason out', () => {
+    expect(createStatusTransition(makeClaim(), 'processing', toActor(adjuster), ' ').reason).toBeUndefined()
+  })
+})
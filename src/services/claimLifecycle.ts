@@ -0,0 +1,251 @@
+/**
+ * claimLifecycle.ts
+ *
+ * This file is the single source of truth for how a claim's status may change.
+ * Pages ask it which actions are available and the claims context uses it to
+ * validate and record every transition.
+ *
+ * Key Features:
+ * - Explicit table of allowed status transitions
+ * - Mandatory reasons for rejecting and reopening claims
+ * - Settlement steps driven by the claim's payments ledger
+ * - Status history entries recording who, when, from, to and why
+ * - Cost locked once approval starts; later changes go through supplements
+ *
+ * Allowed transitions:
+ * - pending                  -> processing, approved, awaiting_second_approval, rejected
+ * - processing               -> approved, awaiting_second_approval, rejected
+ * - awaiting_second_approval -> approved, rejected
+ * - approved                 -> paid, closed, processing (reopen, reason required)
+ * - paid                     -> approved, closed, processing (reopen, reason required)
+ * - closed                   -> processing (reopen, reason required)
+ * - rejected                 -> processing (reopen, reason required)
+ *
+ * Moves to awaiting_second_approval are never chosen directly: approving a
+ * claim above the approver's authority limit lands there instead (see
+ * approvalAuthority.ts). Likewise, moves between approved and paid follow
+ * the payments ledger: a claim is paid once its outstanding reserve reaches
+ * zero (see claimLedger.ts).
+ */
+
+import type { Actor, Claim, ClaimStatus, StatusTransition } from '../context/ClaimsContext'
+
+/**
+ * Lifecycle Action
+ *
+ * Name of the user-facing action that performs a transition.
+ */
+export type LifecycleAction =
+  | 'start_processing'
+  | 'approve'
+  | 'escalate'
+  | 'reject'
+  | 'mark_paid'
+  | 'reverse_payment'
+  | 'close'
+  | 'reopen'
+
+export const statusLabels: Record<ClaimStatus, string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  awaiting_second_approval: 'Awaiting Second Approval',
+  approved: 'Approved',
+  paid: 'Paid',
+  closed: 'Closed',
+  rejected: 'Rejected'
+}
+
+/**
+ * TransitionRule Interface
+ *
+ * Describes one allowed move between statuses.
+ */
+export interface TransitionRule {
+  action: LifecycleAction       // Action performing the transition
+  label: string                 // Button label for the action
+  from: ClaimStatus[]           // Statuses the action is available from
+  to: ClaimStatus               // Status the claim ends up in
+  requiresReason: boolean       // Whether a reason must be recorded
+  automatic?: boolean           // Applied by approval routing or the ledger rather than offered as an action
+}
+
+/**
+ * Transition Rules
+ *
+ * Ordered list of every allowed transition.
+ */
+export const transitionRules: TransitionRule[] = [
+  {
+    action: 'start_processing',
+    label: 'Start Processing',
+    from: ['pending'],
+    to: 'processing',
+    requiresReason: false
+  },
+  {
+    action: 'approve',
+    label: 'Approve Claim',
+    from: ['pending', 'processing', 'awaiting_second_approval'],
+    to: 'approved',
+    requiresReason: false
+  },
+  {
+    action: 'escalate',
+    label: 'Send for Second Approval',
+    from: ['pending', 'processing'],
+    to: 'awaiting_second_approval',
+    requiresReason: false,
+    automatic: true
+  },
+  {
+    action: 'reject',
+    label: 'Reject Claim',
+    from: ['pending', 'processing', 'awaiting_second_approval'],
+    to: 'rejected',
+    requiresReason: true
+  },
+  {
+    action: 'mark_paid',
+    label: 'Mark as Paid',
+    from: ['approved'],
+    to: 'paid',
+    requiresReason: false,
+    automatic: true
+  },
+  {
+    action: 'reverse_payment',
+    label: 'Reverse Payment',
+    from: ['paid'],
+    to: 'approved',
+    requiresReason: false,
+    automatic: true
+  },
+  {
+    action: 'close',
+    label: 'Close Claim',
+    from: ['approved', 'paid'],
+    to: 'closed',
+    requiresReason: false
+  },
+  {
+    action: 'reopen',
+    label: 'Reopen Claim',
+    from: ['approved', 'paid', 'closed', 'rejected'],
+    to: 'processing',
+    requiresReason: true
+  }
+]
+
+// Actions applied only by recording ledger entries, never requested directly
+const settlementActions: LifecycleAction[] = ['mark_paid', 'reverse_payment']
+
+/**
+ * Get Available Transitions
+ *
+ * @param status - Current claim status
+ * @returns Transition rules a user can choose from the given status
+ */
+export const getAvailableTransitions = (status: ClaimStatus): TransitionRule[] =>
+  transitionRules.filter(rule => rule.from.includes(status) && !rule.automatic)
+
+/**
+ * Get Transition Rule
+ *
+ * @param from - Current claim status
+ * @param to - Requested claim status
+ * @returns The matching rule, or undefined if the transition is not allowed
+ */
+export const getTransitionRule = (from: ClaimStatus, to: ClaimStatus): TransitionRule | undefined =>
+  transitionRules.find(rule => rule.to === to && rule.from.includes(from))
+
+/**
+ * Can Transition
+ *
+ * @param from - Current claim status
+ * @param to - Requested claim status
+ * @returns Whether the lifecycle allows moving from one status to the other
+ *          (moves that follow the payments ledger are not included)
+ */
+export const canTransition = (from: ClaimStatus, to: ClaimStatus) => {
+  const rule = getTransitionRule(from, to)
+  return rule !== undefined && !settlementActions.includes(rule.action)
+}
+
+/**
+ * Validate Transition
+ *
+ * Checks a requested status change against the lifecycle rules.
+ *
+ * @param claim - Claim being changed
+ * @param to - Requested status
+ * @param reason - Reason given by the user (optional)
+ * @returns Error message if the transition is not allowed, null otherwise
+ */
+export const validateTransition = (claim: Claim, to: ClaimStatus, reason?: string): string | null => {
+  const rule = getTransitionRule(claim.status, to)
+
+  if (!rule) {
+    return `A ${claim.status} claim cannot be moved to ${to}`
+  }
+
+  if (settlementActions.includes(rule.action)) {
+    return 'Paid status follows the payments ledger and cannot be changed directly'
+  }
+
+  if (rule.requiresReason && !reason?.trim()) {
+    return `A reason is required to ${rule.label.toLowerCase()}`
+  }
+
+  return null
+}
+
+// Statuses in which sign-offs and the reserve rest on the current cost
+export const costLockedStatuses: ClaimStatus[] = ['awaiting_second_approval', 'approved', 'paid', 'closed']
+
+/**
+ * Validate Cost Change
+ *
+ * Once a claim has been signed off, its estimated cost may no longer be
+ * edited: additional work goes through a supplement, which needs its own
+ * approval and moves the reserve. Reopen the claim to re-price it.
+ *
+ * @param claim - Claim being edited
+ * @param totalEstimatedCost - New total estimated cost (undefined when unchanged)
+ * @returns Error message if the cost may not change, null otherwise
+ */
+export const validateCostChange = (claim: Claim, totalEstimatedCost?: number): string | null => {
+  if (totalEstimatedCost === undefined) return null
+  if (Math.round(totalEstimatedCost * 100) === Math.round(claim.totalEstimatedCost * 100)) return null
+
+  if (costLockedStatuses.includes(claim.status)) {
+    return `Claims that are ${statusLabels[claim.status].toLowerCase()} cannot have their estimated cost changed. ` +
+      'Propose a supplement for additional work, or reopen the claim to re-price it.'
+  }
+  return null
+}
+
+/**
+ * Create Status Transition
+ *
+ * Builds the history entry recorded for a validated transition.
+ *
+ * @param claim - Claim being changed
+ * @param to - New status
+ * @param actor - User performing the change
+ * @param reason - Reason given by the user (optional)
+ * @returns StatusTransition to append to the claim's status history
+ */
+export const createStatusTransition = (
+  claim: Claim,
+  to: ClaimStatus,
+  actor: Actor,
+  reason?: string
+): StatusTransition => ({
+  id: `transition_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  from: claim.status,
+  to,
+  action: getTransitionRule(claim.status, to)?.action,
+  actor,
+  at: new Date().toISOString(),
+  reason: reason?.trim() || undefined
+})
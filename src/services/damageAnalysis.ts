@@ -0,0 +1,333 @@
+/**
+ * damageAnalysis.ts
+ *
+ * This file defines the pluggable damage analysis service used by the claim wizards.
+ * Pages never generate assessments themselves; they ask the registry for the active
+ * DamageAnalyzer and call analyze() on it.
+ *
+ * Key Features:
+ * - DamageAnalyzer interface shared by every analysis backend
+ * - Simulated analyzer (the original demo behaviour)
+ * - Recorded-fixture analyzer factory for demos and tests
+ * - Remote analyzer factory for a real model endpoint
+ * - Registry for registering, listing and selecting analyzers
+ * - Every assessment is linked to the repair cost catalog item it was priced from
+ *
+ * The default analyzer can be chosen with the VITE_DAMAGE_ANALYZER environment
+ * variable. Setting VITE_DAMAGE_ANALYZER_URL registers a remote analyzer and makes
+ * it the default unless VITE_DAMAGE_ANALYZER says otherwise.
+ */
+
+import type { DamageAssessment } from '../context/ClaimsContext'
+import { readMediaAsDataUrl } from './mediaStore'
+import { findClosestRepairCostItem, getVehicleCategory } from '../data/repairCostCatalog'
+
+/**
+ * VehicleInfo Interface
+ *
+ * Vehicle details passed to analyzers so they can adjust their findings.
+ */
+export interface VehicleInfo {
+  make: string                  // Vehicle manufacturer (e.g., "Toyota")
+  model: string                 // Vehicle model (e.g., "Camry")
+  year: number                  // Vehicle year (e.g., 2020)
+}
+
+/**
+ * DamageAnalysisMetadata Interface
+ *
+ * Describes how a set of assessments was produced.
+ * Stored on the claim so reviewers can tell which analyzer priced it.
+ */
+export interface DamageAnalysisMetadata {
+  analyzerId: string            // ID of the analyzer that produced the result
+  analyzerName: string          // Human readable analyzer name
+  modelVersion?: string         // Model version reported by the analyzer (optional)
+  startedAt: string             // Analysis start timestamp
+  completedAt: string           // Analysis completion timestamp
+  durationMs: number            // Time taken for the analysis in milliseconds
+  photoCount: number            // Number of photos analyzed
+  videoCount: number            // Number of videos analyzed
+}
+
+/**
+ * DamageAnalysisResult Interface
+ *
+ * Value returned by every DamageAnalyzer.
+ */
+export interface DamageAnalysisResult {
+  assessments: DamageAssessment[]      // Damage found in the submitted media
+  metadata: DamageAnalysisMetadata     // Information about the analysis run
+}
+
+/**
+ * DamageAnalyzer Interface
+ *
+ * Contract implemented by every damage analysis backend.
+ */
+export interface DamageAnalyzer {
+  id: string                    // Unique analyzer identifier used by the registry
+  name: string                  // Display name
+  description: string           // Short explanation of what the analyzer does
+  analyze: (photos: string[], videos: string[], vehicle: VehicleInfo) => Promise<DamageAnalysisResult>
+}
+
+/**
+ * Assessment template without an ID.
+ * Fixtures and remote responses are stored in this shape; IDs are assigned per run
+ * and catalogItemId is filled in from the repair cost catalog when not provided.
+ */
+export type AssessmentFixture = Omit<DamageAssessment, 'id'>
+
+/**
+ * Create Assessment ID
+ *
+ * Generates a unique ID for a freshly produced assessment.
+ *
+ * @param index - Position of the assessment in the result
+ * @returns Unique assessment ID
+ */
+const createAssessmentId = (index: number) =>
+  `damage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_${index + 1}`
+
+/**
+ * Run Timed Analysis
+ *
+ * Executes an analysis function and wraps its assessments with metadata.
+ * Assessments are linked to the closest repair cost catalog item for the vehicle.
+ *
+ * @param analyzer - Analyzer being run (used for metadata)
+ * @param photos - Photos submitted for analysis
+ * @param videos - Videos submitted for analysis
+ * @param vehicle - Vehicle the media shows
+ * @param run - Function producing the assessments
+ * @returns DamageAnalysisResult with timing metadata
+ */
+const runTimed = async (
+  analyzer: Pick<DamageAnalyzer, 'id' | 'name'>,
+  photos: string[],
+  videos: string[],
+  vehicle: VehicleInfo,
+  run: () => Promise<{ assessments: AssessmentFixture[]; modelVersion?: string }>
+): Promise<DamageAnalysisResult> => {
+  const started = Date.now()
+  const { assessments, modelVersion } = await run()
+  const completed = Date.now()
+  const vehicleCategory = getVehicleCategory(vehicle.make, vehicle.model)
+
+  return {
+    assessments: assessments.map((assessment, index) => ({
+      ...assessment,
+      id: createAssessmentId(index),
+      catalogItemId: assessment.catalogItemId ??
+        findClosestRepairCostItem(assessment.type, assessment.severity, vehicleCategory)?.id
+    })),
+    metadata: {
+      analyzerId: analyzer.id,
+      analyzerName: analyzer.name,
+      modelVersion,
+      startedAt: new Date(started).toISOString(),
+      completedAt: new Date(completed).toISOString(),
+      durationMs: completed - started,
+      photoCount: photos.length,
+      videoCount: videos.length
+    }
+  }
+}
+
+/**
+ * Simulated Damage Analyzer
+ *
+ * Reproduces the original demo behaviour: waits 3 seconds and reports
+ * the same three findings for every claim.
+ */
+export const simulatedDamageAnalyzer: DamageAnalyzer = {
+  id: 'simulated',
+  name: 'Simulated AI',
+  description: 'Demo analyzer that returns a fixed set of findings after a short delay',
+  analyze(photos, videos, vehicle) {
+    return runTimed(simulatedDamageAnalyzer, photos, videos, vehicle, async () => {
+      // Simulate AI processing time
+      await new Promise(resolve => setTimeout(resolve, 3000))
+
+      return {
+        modelVersion: 'simulated-1',
+        assessments: [
+          { type: 'dent', severity: 'moderate', location: 'Front bumper', estimatedCost: 850, confidence: 0.92 },
+          { type: 'scratch', severity: 'minor', location: 'Driver side door', estimatedCost: 320, confidence: 0.88 },
+          { type: 'paint', severity: 'minor', location: 'Hood', estimatedCost: 450, confidence: 0.85 }
+        ]
+      }
+    })
+  }
+}
+
+/**
+ * Create Fixture Damage Analyzer
+ *
+ * Builds an analyzer that replays recorded assessments.
+ * Useful for demos and tests where the output must be predictable.
+ *
+ * @param options - Analyzer identity, recorded assessments and optional delay
+ * @returns DamageAnalyzer replaying the fixtures
+ *
+ * @example
+ * registerDamageAnalyzer(createFixtureDamageAnalyzer({
+ *   id: 'glass-only',
+ *   name: 'Glass fixture',
+ *   fixtures: [{ type: 'glass', severity: 'minor', location: 'Windshield', estimatedCost: 150, confidence: 0.97 }]
+ * }))
+ */
+export const createFixtureDamageAnalyzer = (options: {
+  id: string
+  name: string
+  description?: string
+  fixtures: AssessmentFixture[]
+  delayMs?: number
+}): DamageAnalyzer => ({
+  id: options.id,
+  name: options.name,
+  description: options.description || 'Replays recorded damage assessments',
+  analyze(photos, videos, vehicle) {
+    return runTimed(options, photos, videos, vehicle, async () => {
+      if (options.delayMs) {
+        await new Promise(resolve => setTimeout(resolve, options.delayMs))
+      }
+      return { modelVersion: `fixture:${options.id}`, assessments: options.fixtures }
+    })
+  }
+})
+
+/**
+ * Create Remote Damage Analyzer
+ *
+ * Builds an analyzer that posts the media to a model endpoint.
+ * Media IDs are resolved from the media store and sent as data URLs.
+ * The endpoint receives { photos, videos, vehicle } and must answer with
+ * { assessments: AssessmentFixture[], modelVersion?: string }.
+ *
+ * @param options - Analyzer identity and endpoint URL
+ * @returns DamageAnalyzer backed by the remote endpoint
+ * @throws Error if the endpoint fails or returns an unexpected payload
+ */
+export const createRemoteDamageAnalyzer = (options: {
+  id: string
+  name: string
+  endpoint: string
+}): DamageAnalyzer => ({
+  id: options.id,
+  name: options.name,
+  description: `Remote damage analysis model at ${options.endpoint}`,
+  analyze(photos, videos, vehicle) {
+    return runTimed(options, photos, videos, vehicle, async () => {
+      const resolveMedia = async (references: string[]) =>
+        (await Promise.all(references.map(readMediaAsDataUrl))).filter(Boolean)
+
+      const response = await fetch(options.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          photos: await resolveMedia(photos),
+          videos: await resolveMedia(videos),
+          vehicle
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Damage analysis request failed with status ${response.status}`)
+      }
+
+      const payload = await response.json()
+      if (!payload || !Array.isArray(payload.assessments)) {
+        throw new Error('Damage analysis response did not include an assessments array')
+      }
+
+      return { assessments: payload.assessments, modelVersion: payload.modelVersion }
+    })
+  }
+})
+
+/**
+ * Demo Fixture Analyzer
+ *
+ * Recorded output for a typical rear-end collision, returned instantly.
+ */
+export const demoFixtureDamageAnalyzer = createFixtureDamageAnalyzer({
+  id: 'demo-fixture',
+  name: 'Recorded Demo (Rear-end Collision)',
+  fixtures: [
+    { type: 'dent', severity: 'severe', location: 'Rear bumper', estimatedCost: 1450, confidence: 0.94 },
+    { type: 'paint', severity: 'moderate', location: 'Trunk lid', estimatedCost: 780, confidence: 0.9 },
+    { type: 'glass', severity: 'minor', location: 'Left tail light', estimatedCost: 210, confidence: 0.83 }
+  ]
+})
+
+// Analyzer registry keyed by analyzer ID
+const analyzers = new Map<string, DamageAnalyzer>()
+
+/**
+ * Register Damage Analyzer
+ *
+ * Adds an analyzer to the registry, replacing any analyzer with the same ID.
+ *
+ * @param analyzer - The analyzer to register
+ */
+export const registerDamageAnalyzer = (analyzer: DamageAnalyzer) => {
+  analyzers.set(analyzer.id, analyzer)
+}
+
+/**
+ * Get Damage Analyzers
+ *
+ * @returns All registered analyzers in registration order
+ */
+export const getDamageAnalyzers = (): DamageAnalyzer[] => Array.from(analyzers.values())
+
+/**
+ * Get Damage Analyzer by ID
+ *
+ * @param id - Analyzer ID to find
+ * @returns DamageAnalyzer if registered, undefined otherwise
+ */
+export const getDamageAnalyzer = (id: string): DamageAnalyzer | undefined => analyzers.get(id)
+
+registerDamageAnalyzer(simulatedDamageAnalyzer)
+registerDamageAnalyzer(demoFixtureDamageAnalyzer)
+
+if (import.meta.env.VITE_DAMAGE_ANALYZER_URL) {
+  registerDamageAnalyzer(createRemoteDamageAnalyzer({
+    id: 'remote',
+    name: 'Damage Analysis Model',
+    endpoint: import.meta.env.VITE_DAMAGE_ANALYZER_URL
+  }))
+}
+
+let activeAnalyzerId =
+  import.meta.env.VITE_DAMAGE_ANALYZER ||
+  (analyzers.has('remote') ? 'remote' : simulatedDamageAnalyzer.id)
+
+/**
+ * Set Active Damage Analyzer
+ *
+ * Selects which registered analyzer the claim wizards use.
+ *
+ * @param id - ID of a registered analyzer
+ * @throws Error if no analyzer is registered with the given ID
+ */
+export const setActiveDamageAnalyzer = (id: string) => {
+  if (!analyzers.has(id)) {
+    throw new Error(`Unknown damage analyzer: ${id}`)
+  }
+  activeAnalyzerId = id
+}
+
+/**
+ * Get Active Damage Analyzer
+ *
+ * Returns the analyzer selected for the claim wizards.
+ * Falls back to the simulated analyzer if the configured ID is not registered.
+ *
+ * @returns The active DamageAnalyzer
+ */
+export const getActiveDamageAnalyzer = (): DamageAnalyzer =>
+  analyzers.get(activeAnalyzerId) || simulatedDamageAnalyzer
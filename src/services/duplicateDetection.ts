@@ -0,0 +1,182 @@
+/**
+ * duplicateDetection.ts
+ *
+ * This file finds claims that may duplicate each other. It runs whenever a
+ * claim is created or edited and links the claim with every other claim it
+ * overlaps; the links are stored on both claims as duplicate flags so that
+ * reviewers see them from either side.
+ *
+ * Key Features:
+ * - Comparison on policy number, customer email and phone, vehicle and accident date
+ * - Identical photo detection through content-addressed media IDs
+ * - Symmetric flags: both claims of a match are flagged, and stale flags are removed
+ *
+ * A pair of claims is flagged when:
+ * - they share at least one identical photo, or
+ * - they belong to the same customer (policy number, email or phone) and
+ *   involve the same vehicle or accidents within DATE_WINDOW_DAYS of each other
+ */
+
+import type { Claim, DuplicateFlag } from '../context/ClaimsContext'
+
+// Accidents this many days apart or closer count as overlapping
+export const DATE_WINDOW_DAYS = 7
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Normalize Text
+ *
+ * @param value - Free-text value entered on a claim
+ * @returns Lower-cased, trimmed value for comparison
+ */
+const normalizeText = (value: string) => (value || '').trim().toLowerCase()
+
+/**
+ * Normalize Phone
+ *
+ * @param value - Phone number in any format
+ * @returns Last ten digits, so "+1 (555) 123-4567" matches "555-123-4567"
+ */
+const normalizePhone = (value: string) => (value || '').replace(/\D/g, '').slice(-10)
+
+/**
+ * Days Between
+ *
+ * @param first - Date (YYYY-MM-DD or ISO string)
+ * @param second - Date (YYYY-MM-DD or ISO string)
+ * @returns Whole days between the two dates, or null if either is invalid
+ */
+const daysBetween = (first: string, second: string): number | null => {
+  const a = new Date(first.slice(0, 10)).getTime()
+  const b = new Date(second.slice(0, 10)).getTime()
+  if (Number.isNaN(a) || Number.isNaN(b)) return null
+  return Math.round(Math.abs(a - b) / MS_PER_DAY)
+}
+
+/**
+ * Is Same Customer
+ *
+ * @param claim - First claim
+ * @param other - Second claim
+ * @returns Whether both claims share a policy number, customer email or phone
+ */
+export const isSameCustomer = (claim: Claim, other: Claim) =>
+  (!!normalizeText(claim.policyNumber) && normalizeText(claim.policyNumber) === normalizeText(other.policyNumber)) ||
+  (!!normalizeText(claim.customerEmail) && normalizeText(claim.customerEmail) === normalizeText(other.customerEmail)) ||
+  (normalizePhone(claim.customerPhone).length >= 7 && normalizePhone(claim.customerPhone) === normalizePhone(other.customerPhone))
+
+/**
+ * Compare Claims
+ *
+ * Lists what two claims have in common and decides whether that is enough
+ * to flag them as possible duplicates.
+ *
+ * @param claim - Claim being checked
+ * @param other - Claim to compare it with
+ * @returns Reasons for the match, or an empty array if the claims are not
+ *          possible duplicates
+ */
+export const compareClaims = (claim: Claim, other: Claim): string[] => {
+  const reasons: string[] = []
+
+  const samePolicy = !!normalizeText(claim.policyNumber) &&
+    normalizeText(claim.policyNumber) === normalizeText(other.policyNumber)
+  const sameEmail = !!normalizeText(claim.customerEmail) &&
+    normalizeText(claim.customerEmail) === normalizeText(other.customerEmail)
+  const samePhone = normalizePhone(claim.customerPhone).length >= 7 &&
+    normalizePhone(claim.customerPhone) === normalizePhone(other.customerPhone)
+  const sameVehicle = !!normalizeText(claim.vehicleMake) &&
+    normalizeText(claim.vehicleMake) === normalizeText(other.vehicleMake) &&
+    normalizeText(claim.vehicleModel) === normalizeText(other.vehicleModel) &&
+    claim.vehicleYear === other.vehicleYear
+  const dayGap = daysBetween(claim.accidentDate, other.accidentDate)
+  const closeDates = dayGap !== null && dayGap <= DATE_WINDOW_DAYS
+  const otherPhotos = new Set(other.photos)
+  const sharedPhotos = claim.photos.filter(photo => otherPhotos.has(photo)).length
+
+  if (samePolicy) reasons.push('Same policy number')
+  if (sameEmail) reasons.push('Same customer email')
+  if (samePhone) reasons.push('Same customer phone')
+  if (sameVehicle) reasons.push(`Same vehicle (${claim.vehicleYear} ${claim.vehicleMake} ${claim.vehicleModel})`)
+  if (closeDates) reasons.push(dayGap === 0 ? 'Same accident date' : `Accident dates ${dayGap} day(s) apart`)
+  if (sharedPhotos > 0) reasons.push(`${sharedPhotos} identical photo(s)`)
+
+  const sameCustomer = samePolicy || sameEmail || samePhone
+  const isDuplicate = sharedPhotos > 0 || (sameCustomer && (sameVehicle || closeDates))
+  return isDuplicate ? reasons : []
+}
+
+/**
+ * Find Duplicate Flags
+ *
+ * @param claim - Claim being checked
+ * @param others - Claims to compare it with (the claim itself is skipped)
+ * @returns One flag per claim that may duplicate this one. Flags that were
+ *          already on the claim with the same reasons keep their detection time.
+ */
+export const findDuplicateFlags = (claim: Claim, others: Claim[]): DuplicateFlag[] => {
+  const now = new Date().toISOString()
+
+  return others
+    .filter(other => other.id !== claim.id)
+    .map(other => ({ other, reasons: compareClaims(claim, other) }))
+    .filter(({ reasons }) => reasons.length > 0)
+    .map(({ other, reasons }) => {
+      const existing = (claim.duplicateFlags || []).find(flag => flag.claimId === other.id)
+      const unchanged = existing && existing.reasons.join('|') === reasons.join('|')
+      return { claimId: other.id, reasons, detectedAt: unchanged ? existing.detectedAt : now }
+    })
+}
+
+/**
+ * Flags Equal
+ *
+ * @param first - Flags before a check
+ * @param second - Flags after a check
+ * @returns Whether both lists link the same claims for the same reasons
+ */
+const flagsEqual = (first: DuplicateFlag[], second: DuplicateFlag[]) =>
+  first.length === second.length &&
+  first.every(flag => second.some(other =>
+    other.claimId === flag.claimId && other.reasons.join('|') === flag.reasons.join('|')
+  ))
+
+/**
+ * Reconcile Duplicate Flags
+ *
+ * Re-checks a created or edited claim against all other claims and works out
+ * the flags every affected claim should have afterwards: the checked claim
+ * gets its matches, each matching claim gets a flag pointing back, and
+ * claims that no longer match lose their flag.
+ *
+ * @param claim - Claim that was created or edited (with its latest values)
+ * @param claims - All other claims
+ * @returns New flags keyed by claim ID, only for claims whose flags changed
+ */
+export const reconcileDuplicateFlags = (claim: Claim, claims: Claim[]): Record<string, DuplicateFlag[]> => {
+  const updates: Record<string, DuplicateFlag[]> = {}
+  const flags = findDuplicateFlags(claim, claims)
+
+  if (!flagsEqual(claim.duplicateFlags || [], flags)) {
+    updates[claim.id] = flags
+  }
+
+  claims
+    .filter(other => other.id !== claim.id)
+    .forEach(other => {
+      const current = other.duplicateFlags || []
+      const match = flags.find(flag => flag.claimId === other.id)
+      const existing = current.find(flag => flag.claimId === claim.id)
+      const next = current.filter(flag => flag.claimId !== claim.id)
+      if (match) {
+        const unchanged = existing && existing.reasons.join('|') === match.reasons.join('|')
+        next.push(unchanged ? existing : { ...match, claimId: claim.id })
+      }
+      if (!flagsEqual(current, next)) {
+        updates[other.id] = next
+      }
+    })
+
+  return updates
+}
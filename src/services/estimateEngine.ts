@@ -0,0 +1,211 @@
+/**
+ * estimateEngine.ts
+ *
+ * This file turns approved damage assessments into an itemized repair estimate.
+ * Each assessment is priced from the repair cost catalog item it is linked to,
+ * using configurable labor rates, parts pricing, paint/material allowances and
+ * sales tax. The resulting Estimate is stored on the claim and its total
+ * becomes the claim's totalEstimatedCost.
+ *
+ * Key Features:
+ * - Labor, parts and paint/material line items per assessment
+ * - Subtotals per line item category
+ * - Sales tax on configurable taxable categories
+ * - Estimate rates persisted in localStorage and editable on the cost database page
+ */
+
+import type { DamageAssessment } from '../context/ClaimsContext'
+import { getRepairCostItemById } from '../data/repairCostCatalog'
+
+const RATES_STORAGE_KEY = 'car-insurance-estimate-rates'
+
+export type EstimateLineCategory = 'labor' | 'parts' | 'paint_materials'
+
+export const estimateCategoryLabels: Record<EstimateLineCategory, string> = {
+  labor: 'Labor',
+  parts: 'Parts',
+  paint_materials: 'Paint & Materials'
+}
+
+/**
+ * EstimateRates Interface
+ *
+ * Pricing inputs used by the estimate engine.
+ */
+export interface EstimateRates {
+  laborRate: number             // Body shop labor rate in dollars per hour
+  partsMarkupPercent: number    // Markup applied to catalog parts prices (percent)
+  paintMaterialsPerHour: number // Paint/material allowance per refinish labor hour
+  taxRatePercent: number        // Sales tax rate (percent)
+  taxableCategories: EstimateLineCategory[]  // Categories sales tax applies to
+}
+
+/**
+ * EstimateLineItem Interface
+ *
+ * One priced line of an estimate.
+ */
+export interface EstimateLineItem {
+  id: string                    // Unique line identifier
+  assessmentId: string          // Damage assessment the line belongs to
+  catalogItemId?: string        // Catalog item the line was priced from (optional)
+  category: EstimateLineCategory  // Labor, parts or paint/materials
+  description: string           // What the line covers
+  quantity: number              // Hours for labor/materials, 1 for parts
+  unitPrice: number             // Price per unit in dollars
+  amount: number                // quantity x unitPrice, rounded to cents
+  taxable: boolean              // Whether sales tax applies to the line
+}
+
+/**
+ * Estimate Interface
+ *
+ * Itemized estimate produced by the engine and stored on the claim.
+ */
+export interface Estimate {
+  lineItems: EstimateLineItem[] // All priced lines
+  subtotals: Record<EstimateLineCategory, number>  // Sum of lines per category
+  subtotal: number              // Sum of all lines before tax
+  taxableAmount: number         // Portion of the subtotal subject to tax
+  tax: number                   // Sales tax amount
+  total: number                 // Subtotal plus tax
+  rates: EstimateRates          // Rates the estimate was calculated with
+  generatedAt: string           // When the estimate was calculated (ISO string)
+}
+
+/**
+ * Default Estimate Rates
+ */
+export const defaultEstimateRates: EstimateRates = {
+  laborRate: 100,
+  partsMarkupPercent: 0,
+  paintMaterialsPerHour: 35,
+  taxRatePercent: 7.25,
+  taxableCategories: ['parts', 'paint_materials']
+}
+
+// Damage types that require refinishing and therefore paint/material allowances
+const REFINISH_DAMAGE_TYPES: DamageAssessment['type'][] = ['scratch', 'paint', 'dent']
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Load Estimate Rates
+ *
+ * @returns Saved rates, or the defaults if none are saved or they are unreadable
+ */
+export const loadEstimateRates = (): EstimateRates => {
+  try {
+    const saved = localStorage.getItem(RATES_STORAGE_KEY)
+    return saved ? { ...defaultEstimateRates, ...JSON.parse(saved) } : defaultEstimateRates
+  } catch (error) {
+    console.error('Error loading estimate rates:', error)
+    return defaultEstimateRates
+  }
+}
+
+/**
+ * Validate Estimate Rates
+ *
+ * @param rates - Rates entered by the user
+ * @returns Validation errors keyed by field (empty when valid)
+ */
+export const validateEstimateRates = (rates: EstimateRates): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  if (!(rates.laborRate > 0)) errors.laborRate = 'Labor rate must be greater than zero'
+  if (!(rates.partsMarkupPercent >= 0)) errors.partsMarkupPercent = 'Parts markup cannot be negative'
+  if (!(rates.paintMaterialsPerHour >= 0)) errors.paintMaterialsPerHour = 'Paint & materials allowance cannot be negative'
+  if (!(rates.taxRatePercent >= 0 && rates.taxRatePercent <= 100)) errors.taxRatePercent = 'Tax rate must be between 0 and 100'
+  return errors
+}
+
+/**
+ * Save Estimate Rates
+ *
+ * @param rates - Validated rates to use for new estimates
+ */
+export const saveEstimateRates = (rates: EstimateRates) => {
+  localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates))
+}
+
+/**
+ * Price Assessment
+ *
+ * Builds the line items for a single damage assessment.
+ * Assessments without a catalog item are carried over as one labor line
+ * at the analyzer's estimated cost.
+ *
+ * @param assessment - Approved damage assessment
+ * @param rates - Rates to price with
+ * @returns Line items for the assessment
+ */
+const priceAssessment = (assessment: DamageAssessment, rates: EstimateRates): EstimateLineItem[] => {
+  const item = assessment.catalogItemId ? getRepairCostItemById(assessment.catalogItemId) : undefined
+  const label = `${assessment.type.charAt(0).toUpperCase() + assessment.type.slice(1)} - ${assessment.location}`
+  const line = (
+    category: EstimateLineCategory,
+    description: string,
+    quantity: number,
+    unitPrice: number
+  ): EstimateLineItem => ({
+    id: `${assessment.id}_${category}`,
+    assessmentId: assessment.id,
+    catalogItemId: item?.id,
+    category,
+    description,
+    quantity,
+    unitPrice: roundCents(unitPrice),
+    amount: roundCents(quantity * unitPrice),
+    taxable: rates.taxableCategories.includes(category)
+  })
+
+  if (!item) {
+    return [line('labor', `${label} (analyzer estimate, not in catalog)`, 1, assessment.estimatedCost)]
+  }
+
+  const lines = [line('labor', `${label}: ${item.description}`, item.laborHours, rates.laborRate)]
+
+  if (item.partsCost > 0) {
+    lines.push(line('parts', `${label}: parts`, 1, item.partsCost * (1 + rates.partsMarkupPercent / 100)))
+  }
+
+  if (REFINISH_DAMAGE_TYPES.includes(assessment.type) && rates.paintMaterialsPerHour > 0) {
+    lines.push(line('paint_materials', `${label}: paint & materials`, item.laborHours, rates.paintMaterialsPerHour))
+  }
+
+  return lines
+}
+
+/**
+ * Build Estimate
+ *
+ * @param assessments - Approved damage assessments to price
+ * @param rates - Rates to price with (defaults to the saved rates)
+ * @returns Itemized estimate with category subtotals, tax and total
+ */
+export const buildEstimate = (
+  assessments: DamageAssessment[],
+  rates: EstimateRates = loadEstimateRates()
+): Estimate => {
+  const lineItems = assessments.flatMap(assessment => priceAssessment(assessment, rates))
+
+  const subtotals: Record<EstimateLineCategory, number> = { labor: 0, parts: 0, paint_materials: 0 }
+  lineItems.forEach(line => {
+    subtotals[line.category] = roundCents(subtotals[line.category] + line.amount)
+  })
+
+  const subtotal = roundCents(lineItems.reduce((sum, line) => sum + line.amount, 0))
+  const taxableAmount = roundCents(lineItems.filter(line => line.taxable).reduce((sum, line) => sum + line.amount, 0))
+  const tax = roundCents(taxableAmount * rates.taxRatePercent / 100)
+
+  return {
+    lineItems,
+    subtotals,
+    subtotal,
+    taxableAmount,
+    tax,
+    total: roundCents(subtotal + tax),
+    rates,
+    generatedAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * exif.ts
+ *
+ * This file reads the capture date that cameras write into the EXIF block
+ * of JPEG photos. Only the few tags needed for the date are parsed, so no
+ * image library is required.
+ *
+ * Key Features:
+ * - JPEG APP1/EXIF segment lookup in the first part of the file
+ * - Little- and big-endian TIFF headers
+ * - DateTimeOriginal, falling back to DateTimeDigitized and DateTime
+ */
+
+// EXIF data sits near the start of the file; no need to read the whole image
+const HEADER_BYTES = 128 * 1024
+
+const JPEG_START = 0xffd8
+const APP1_MARKER = 0xffe1
+const START_OF_SCAN = 0xffda
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_DATE_TIME_DIGITIZED = 0x9004
+
+/**
+ * Read IFD Tags
+ *
+ * @param view - View over the file header
+ * @param tiffStart - Offset of the TIFF header that IFD offsets are relative to
+ * @param ifdOffset - Offset of the IFD relative to the TIFF header
+ * @param littleEndian - Byte order of the TIFF data
+ * @returns Map of tag number to the tag's 4-byte value field (a number or an offset)
+ *          and its count
+ */
+const readIfdTags = (view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean) => {
+  const tags = new Map<number, { count: number; value: number }>()
+  const start = tiffStart + ifdOffset
+  const entryCount = view.getUint16(start, littleEndian)
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = start + 2 + i * 12
+    tags.set(view.getUint16(entry, littleEndian), {
+      count: view.getUint32(entry + 4, littleEndian),
+      value: view.getUint32(entry + 8, littleEndian)
+    })
+  }
+
+  return tags
+}
+
+/**
+ * Read Date Tag
+ *
+ * @param view - View over the file header
+ * @param tiffStart - Offset of the TIFF header
+ * @param tag - ASCII tag entry holding an EXIF date ("YYYY:MM:DD HH:MM:SS")
+ * @returns Date as "YYYY-MM-DDTHH:MM:SS", or null if the value is not a valid date
+ */
+const readDateTag = (view: DataView, tiffStart: number, tag?: { count: number; value: number }) => {
+  if (!tag || tag.count < 19) return null
+
+  let text = ''
+  for (let i = 0; i < 19; i++) {
+    text += String.fromCharCode(view.getUint8(tiffStart + tag.value + i))
+  }
+
+  const match = text.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/)
+  if (!match || match[1] === '0000') return null
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`
+}
+
+/**
+ * Read EXIF Capture Date
+ *
+ * @param blob - Photo to inspect
+ * @returns Promise resolving to the capture date ("YYYY-MM-DDTHH:MM:SS", camera
+ *          local time), or null if the photo is not a JPEG or carries no date
+ */
+export const readExifCaptureDate = async (blob: Blob): Promise<string | null> => {
+  try {
+    const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer())
+    if (view.byteLength < 4 || view.getUint16(0) !== JPEG_START) return null
+
+    let offset = 2
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset)
+      if ((marker & 0xff00) !== 0xff00 || marker === START_OF_SCAN) return null
+
+      const isExif = marker === APP1_MARKER && view.getUint32(offset + 4) === 0x45786966  // "Exif"
+      if (isExif) {
+        const tiffStart = offset + 10
+        const littleEndian = view.getUint16(tiffStart) === 0x4949  // "II"
+        const ifd0 = readIfdTags(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian)
+        const exifPointer = ifd0.get(TAG_EXIF_IFD)
+        const exifIfd = exifPointer
+          ? readIfdTags(view, tiffStart, exifPointer.value, littleEndian)
+          : new Map<number, { count: number; value: number }>()
+
+        return readDateTag(view, tiffStart, exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ||
+          readDateTag(view, tiffStart, exifIfd.get(TAG_DATE_TIME_DIGITIZED)) ||
+          readDateTag(view, tiffStart, ifd0.get(TAG_DATE_TIME))
+      }
+
+      offset += 2 + view.getUint16(offset + 2)
+    }
+
+    return null
+  } catch (error) {
+    // Truncated or malformed EXIF data is treated as having no date
+    console.error('Error reading EXIF data:', error)
+    return null
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * fraudScoring.ts
+ *
+ * This file scores how likely a claim is to be fraudulent. Each indicator
+ * that applies adds its weight to a 0-100 risk score, and the indicators are
+ * kept with the score so reviewers can see why a claim was rated the way it was.
+ *
+ * Key Features:
+ * - Explainable indicators with a weight and a human-readable detail
+ * - Risk levels (low, medium, high) derived from the score
+ * - Photo capture dates read from EXIF data in the media store
+ *
+ * Indicators:
+ * - early_claim:            accident shortly after the policy took effect
+ * - description_mismatch:   description names other parts of the car than the assessed damage
+ * - photos_missing_dates:   photos without an EXIF capture date
+ * - photos_before_accident: photos taken before the accident date
+ * - cost_above_norm:        total cost far above the catalog price for the vehicle category
+ * - repeat_claimant:        other recent claims by the same customer
+ * - possible_duplicate:     claim flagged as a possible duplicate
+ */
+
+import type { Claim } from '../context/ClaimsContext'
+import { getPolicyByNumber } from '../data/policies'
+import { getVehicleCategory, findClosestRepairCostItem } from '../data/repairCostCatalog'
+import { getMediaCaptureDates } from './mediaStore'
+import { isSameCustomer } from './duplicateDetection'
+
+// Scores at or above these values are medium and high risk
+export const MEDIUM_RISK_SCORE = 30
+export const HIGH_RISK_SCORE = 60
+
+// Accidents this many days after the policy took effect count as early claims
+const EARLY_CLAIM_DAYS = 60
+
+// Totals more than this multiple of the catalog price count as above the norm
+const COST_NORM_MULTIPLIER = 2
+
+// Other claims by the same customer within this many days count as repeat claims
+const REPEAT_CLAIM_DAYS = 365
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+export type FraudRiskLevel = 'low' | 'medium' | 'high'
+
+export type FraudIndicatorType =
+  | 'early_claim'
+  | 'description_mismatch'
+  | 'photos_missing_dates'
+  | 'photos_before_accident'
+  | 'cost_above_norm'
+  | 'repeat_claimant'
+  | 'possible_duplicate'
+
+/**
+ * FraudIndicator Interface
+ *
+ * One reason a claim was rated as risky.
+ */
+export interface FraudIndicator {
+  type: FraudIndicatorType      // Which indicator applied
+  label: string                 // Display name (e.g., "Early claim")
+  detail: string                // What was found (e.g., "Accident 12 days after policy start")
+  weight: number                // Points added to the risk score
+}
+
+/**
+ * FraudAssessment Interface
+ *
+ * Fraud risk score stored on a claim.
+ */
+export interface FraudAssessment {
+  score: number                 // Risk score (0-100)
+  level: FraudRiskLevel         // Risk level derived from the score
+  indicators: FraudIndicator[]  // Indicators that applied, highest weight first
+  assessedAt: string            // When the claim was scored (ISO string)
+}
+
+export const fraudRiskLevelLabels: Record<FraudRiskLevel, string> = {
+  low: 'Low risk',
+  medium: 'Medium risk',
+  high: 'High risk'
+}
+
+// Words that place damage on a part of the car, used to compare the description with the assessments
+const vehicleAreas: Record<string, string[]> = {
+  front: ['front', 'hood', 'headlight', 'grille', 'windshield'],
+  rear: ['rear', 'trunk', 'tailgate', 'taillight', 'tail light'],
+  left: ['left', 'driver side', "driver's side"],
+  right: ['right', 'passenger side', "passenger's side"],
+  roof: ['roof', 'sunroof']
+}
+
+/**
+ * Find Vehicle Areas
+ *
+ * @param text - Accident description or damage location
+ * @returns Areas of the car the text mentions
+ */
+const findVehicleAreas = (text: string) => {
+  const normalized = text.toLowerCase()
+  return Object.keys(vehicleAreas).filter(area =>
+    vehicleAreas[area].some(word => new RegExp(`\\b${word}`).test(normalized))
+  )
+}
+
+/**
+ * Days Between
+ *
+ * @param from - Earlier date (YYYY-MM-DD or ISO string)
+ * @param to - Later date (YYYY-MM-DD or ISO string)
+ * @returns Whole days from the first date to the second (negative if the
+ *          second is earlier), or null if either is invalid
+ */
+const daysBetween = (from: string, to: string): number | null => {
+  const a = new Date(from.slice(0, 10)).getTime()
+  const b = new Date(to.slice(0, 10)).getTime()
+  if (Number.isNaN(a) || Number.isNaN(b)) return null
+  return Math.round((b - a) / MS_PER_DAY)
+}
+
+/**
+ * Get Fraud Risk Level
+ *
+ * @param score - Risk score (0-100)
+ * @returns Risk level for the score
+ */
+export const getFraudRiskLevel = (score: number): FraudRiskLevel => {
+  if (score >= HIGH_RISK_SCORE) return 'high'
+  if (score >= MEDIUM_RISK_SCORE) return 'medium'
+  return 'low'
+}
+
+/**
+ * Assess Fraud Risk
+ *
+ * @param claim - Claim to score
+ * @param otherClaims - All other claims, used to find repeat claimants
+ * @param photoDates - EXIF capture date per photo ID (null when the photo has none)
+ * @returns Fraud assessment with the score and every indicator that applied
+ */
+export const assessFraudRisk = (
+  claim: Claim,
+  otherClaims: Claim[],
+  photoDates: Record<string, string | null>
+): FraudAssessment => {
+  const indicators: FraudIndicator[] = []
+
+  // Early claim
+  const policy = getPolicyByNumber(claim.policyNumber)
+  const daysInForce = policy ? daysBetween(policy.effectiveDate, claim.accidentDate) : null
+  if (daysInForce !== null && daysInForce >= 0 && daysInForce <= EARLY_CLAIM_DAYS) {
+    indicators.push({
+      type: 'early_claim',
+      label: 'Early claim',
+      detail: `Accident ${daysInForce} day(s) after the policy took effect`,
+      weight: 25
+    })
+  }
+
+  // Description inconsistent with the assessed damage
+  const describedAreas = findVehicleAreas(claim.accidentDescription)
+  const assessedAreas = findVehicleAreas(claim.damageAssessments.map(assessment => assessment.location).join(' '))
+  if (describedAreas.length > 0 && assessedAreas.length > 0 &&
+      !describedAreas.some(area => assessedAreas.includes(area))) {
+    indicators.push({
+      type: 'description_mismatch',
+      label: 'Description does not match damage',
+      detail: `Description mentions ${describedAreas.join(', ')}; damage assessed at ${assessedAreas.join(', ')}`,
+      weight: 20
+    })
+  }
+
+  // Photo capture dates
+  const photoCount = claim.photos.length
+  const undated = claim.photos.filter(photo => !photoDates[photo]).length
+  const beforeAccident = claim.photos.filter(photo => {
+    const capturedAt = photoDates[photo]
+    return capturedAt && capturedAt.slice(0, 10) < claim.accidentDate.slice(0, 10)
+  }).length
+  if (beforeAccident > 0) {
+    indicators.push({
+      type: 'photos_before_accident',
+      label: 'Photos taken before the accident',
+      detail: `${beforeAccident} of ${photoCount} photo(s) dated before ${claim.accidentDate.slice(0, 10)}`,
+      weight: 30
+    })
+  }
+  if (undated > 0) {
+    indicators.push({
+      type: 'photos_missing_dates',
+      label: 'Photos without capture date',
+      detail: `${undated} of ${photoCount} photo(s) have no EXIF capture date`,
+      weight: undated === photoCount ? 10 : 5
+    })
+  }
+
+  // Cost compared with the catalog norm
+  const vehicleCategory = getVehicleCategory(claim.vehicleMake, claim.vehicleModel)
+  const catalogNorm = claim.damageAssessments.reduce((sum, assessment) =>
+    sum + (findClosestRepairCostItem(assessment.type, assessment.severity, vehicleCategory)?.totalCost || 0), 0)
+  if (catalogNorm > 0 && claim.totalEstimatedCost > catalogNorm * COST_NORM_MULTIPLIER) {
+    indicators.push({
+      type: 'cost_above_norm',
+      label: 'Cost above catalog norm',
+      detail: `$${claim.totalEstimatedCost.toLocaleString()} is ${(claim.totalEstimatedCost / catalogNorm).toFixed(1)}x ` +
+        `the catalog price of $${catalogNorm.toLocaleString()} for a ${vehicleCategory}`,
+      weight: 20
+    })
+  }
+
+  // Repeat claimant
+  const recentClaims = otherClaims.filter(other => {
+    if (other.id === claim.id || !isSameCustomer(claim, other)) return false
+    const gap = daysBetween(other.accidentDate, claim.accidentDate)
+    return gap !== null && Math.abs(gap) <= REPEAT_CLAIM_DAYS
+  }).length
+  if (recentClaims > 0) {
+    indicators.push({
+      type: 'repeat_claimant',
+      label: 'Repeat claimant',
+      detail: `${recentClaims} other claim(s) by this customer within ${REPEAT_CLAIM_DAYS} days`,
+      weight: recentClaims > 1 ? 20 : 10
+    })
+  }
+
+  // Possible duplicate
+  const duplicates = (claim.duplicateFlags || []).length
+  if (duplicates > 0) {
+    indicators.push({
+      type: 'possible_duplicate',
+      label: 'Possible duplicate',
+      detail: `Overlaps with ${duplicates} other claim(s)`,
+      weight: 20
+    })
+  }
+
+  const score = Math.min(100, indicators.reduce((sum, indicator) => sum + indicator.weight, 0))
+  return {
+    score,
+    level: getFraudRiskLevel(score),
+    indicators: indicators.sort((a, b) => b.weight - a.weight),
+    assessedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Score Claim
+ *
+ * Reads the capture dates of the claim's photos and assesses its fraud risk.
+ *
+ * @param claim - Claim to score
+ * @param otherClaims - All other claims
+ * @returns Promise resolving to the fraud assessment
+ */
+export const scoreClaim = async (claim: Claim, otherClaims: Claim[]): Promise<FraudAssessment> =>
+  assessFraudRisk(claim, otherClaims, await getMediaCaptureDates(claim.photos))
+
+/**
+ * Fraud Assessments Equal
+ *
+ * @param first - Previous assessment (if any)
+ * @param second - New assessment
+ * @returns Whether both have the same score and indicators, ignoring when they were made
+ */
+export const fraudAssessmentsEqual = (first: FraudAssessment | undefined, second: FraudAssessment) =>
+  !!first && first.score === second.score &&
+  JSON.stringify(first.indicators) === JSON.stringify(second.indicators)
@@ -0,0 +1,78 @@
+/**
+ * geoDistance.ts
+ *
+ * This file works out how far a claim's customer is from each repair shop.
+ * The customer is placed at the centroid of their ZIP code (from the offline
+ * table in zipCentroids.ts) and distances are straight-line great-circle
+ * distances computed with the haversine formula.
+ *
+ * Key Features:
+ * - Haversine distance in miles between two points
+ * - Customer location from the ZIP captured on the claim
+ * - Shop distance per claim, unknown when the ZIP is missing or not in the table
+ */
+
+import type { Claim } from '../context/ClaimsContext'
+import type { RepairShop } from '../data/repairShops'
+import { GeoPoint, getZipCentroid } from '../data/zipCentroids'
+
+const EARTH_RADIUS_MILES = 3958.8
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+/**
+ * Haversine Miles
+ *
+ * @param from - Start point
+ * @param to - End point
+ * @returns Great-circle distance between the points in miles
+ */
+export const haversineMiles = (from: GeoPoint, to: GeoPoint) => {
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLng = toRadians(to.longitude - from.longitude)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Get Customer Location
+ *
+ * @param claim - Claim (or claim being created) with the customer's ZIP
+ * @returns Centroid of the customer's ZIP, or undefined if it is unknown
+ */
+export const getCustomerLocation = (claim: Pick<Claim, 'customerZip'>): GeoPoint | undefined =>
+  claim.customerZip ? getZipCentroid(claim.customerZip) : undefined
+
+/**
+ * Get Shop Distance
+ *
+ * @param shop - Repair shop
+ * @param location - Customer location (if known)
+ * @returns Distance in miles rounded to one decimal, or null if the location is unknown
+ */
+export const getShopDistance = (shop: RepairShop, location?: GeoPoint): number | null =>
+  location ? Math.round(haversineMiles(location, shop) * 10) / 10 : null
+
+/**
+ * Format Distance
+ *
+ * @param distance - Distance in miles, or null if unknown
+ * @returns Display text (e.g., "2.3 mi" or "Distance unknown")
+ */
+export const formatDistance = (distance: number | null) =>
+  distance === null ? 'Distance unknown' : `${distance} mi`
+
+/**
+ * Validate ZIP Code
+ *
+ * @param zip - ZIP code entered for the customer
+ * @returns Error message if the ZIP is missing or malformed, null otherwise.
+ *          ZIPs missing from the offline table are accepted; their distances
+ *          are simply unknown.
+ */
+export const validateZipCode = (zip: string): string | null => {
+  if (!zip.trim()) return 'ZIP code is required'
+  if (!/^\d{5}(-\d{4})?$/.test(zip.trim())) return 'Enter a 5-digit ZIP code (e.g., 90210)'
+  return null
+}
@@ -0,0 +1,329 @@
+/**
+ * mediaStore.ts
+ *
+ * This file provides the IndexedDB-backed blob store for claim photos and videos.
+ * Claims and drafts only keep media IDs; the binary data lives here so that
+ * localStorage stays well below its quota.
+ *
+ * Key Features:
+ * - Content-addressed media IDs (identical files share one record)
+ * - Blob storage in IndexedDB instead of base64 strings in localStorage
+ * - Cached object URLs for rendering thumbnails and players
+ * - EXIF capture dates of photos recorded when they are stored
+ * - Helpers for migrating inline base64 data created by older versions
+ * - Sweep of media no longer referenced by any claim or draft
+ */
+
+import { readExifCaptureDate } from './exif'
+
+const DB_NAME = 'car-insurance-media'
+const DB_VERSION = 1
+const STORE_NAME = 'media'
+const MEDIA_ID_PREFIX = 'media_'
+
+/**
+ * MediaRecord Interface
+ *
+ * Shape of a record stored in the media object store.
+ */
+export interface MediaRecord {
+  id: string                    // Media ID referenced by claims and drafts
+  blob: Blob                    // Binary media content
+  mimeType: string              // MIME type (e.g., "image/jpeg")
+  size: number                  // Size in bytes
+  createdAt: string             // Time the media was first stored
+  capturedAt?: string | null    // EXIF capture date of a photo (null = none; absent = not read yet)
+}
+
+// Lazily opened database connection shared by all callers
+let databasePromise: Promise<IDBDatabase> | null = null
+
+// Object URLs created for stored media, keyed by media ID
+const objectUrls = new Map<string, string>()
+
+/**
+ * Open Database
+ *
+ * Opens (and on first use creates) the media database.
+ *
+ * @returns Promise resolving to the open database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * Run Request
+ *
+ * Executes a single request against the media object store.
+ *
+ * @param mode - Transaction mode
+ * @param operation - Function issuing the request on the store
+ * @returns Promise resolving to the request result
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Is Media ID
+ *
+ * @param value - A photo or video reference from a claim
+ * @returns Whether the value is a media store ID
+ */
+export const isMediaId = (value: string) => value.startsWith(MEDIA_ID_PREFIX)
+
+/**
+ * Is Inline Media
+ *
+ * @param value - A photo or video reference from a claim
+ * @returns Whether the value is legacy inline base64 data
+ */
+export const isInlineMedia = (value: string) => value.startsWith('data:')
+
+/**
+ * Data URL to Blob
+ *
+ * Converts a base64 data URL into a Blob.
+ *
+ * @param dataUrl - Data URL such as "data:image/png;base64,...."
+ * @returns Blob with the decoded content
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',')
+  const mimeType = header.match(/data:([^;]+)/)?.[1] || 'application/octet-stream'
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new Blob([bytes], { type: mimeType })
+}
+
+/**
+ * Create Media ID
+ *
+ * Derives the media ID from a SHA-256 hash of the content so that identical
+ * files always map to the same ID. Falls back to a random ID where
+ * SubtleCrypto is unavailable (non-secure contexts).
+ *
+ * @param blob - Media content
+ * @returns Media ID
+ */
+const createMediaId = async (blob: Blob): Promise<string> => {
+  if (window.crypto?.subtle) {
+    const digest = await window.crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+    const hex = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('')
+    return `${MEDIA_ID_PREFIX}${hex.substring(0, 32)}`
+  }
+  return `${MEDIA_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Save Media
+ *
+ * Stores a file, blob or base64 data URL and returns its media ID.
+ * Content that is already stored is not written twice.
+ *
+ * @param source - File/Blob from an upload or an inline data URL
+ * @returns Promise resolving to the media ID
+ */
+export const saveMedia = async (source: Blob | string): Promise<string> => {
+  const blob = typeof source === 'string' ? dataUrlToBlob(source) : source
+  const id = await createMediaId(blob)
+
+  const existing = await runRequest<number>('readonly', store => store.count(id))
+  if (existing === 0) {
+    const record: MediaRecord = {
+      id,
+      blob,
+      mimeType: blob.type,
+      size: blob.size,
+      createdAt: new Date().toISOString(),
+      capturedAt: blob.type.startsWith('image/') ? await readExifCaptureDate(blob) : null
+    }
+    await runRequest('readwrite', store => store.put(record))
+  }
+
+  return id
+}
+
+/**
+ * Get Media Record
+ *
+ * @param id - Media ID to look up
+ * @returns Promise resolving to the stored record, or undefined if missing
+ */
+export const getMediaRecord = (id: string): Promise<MediaRecord | undefined> =>
+  runRequest<MediaRecord | undefined>('readonly', store => store.get(id))
+
+/**
+ * Get Media Capture Dates
+ *
+ * Looks up the EXIF capture date of each photo. Records stored before capture
+ * dates were recorded are read on demand.
+ *
+ * @param ids - Media IDs of claim photos
+ * @returns Promise resolving to the capture date per ID ("YYYY-MM-DDTHH:MM:SS",
+ *          or null for photos without a date or missing from the store)
+ */
+export const getMediaCaptureDates = async (ids: string[]): Promise<Record<string, string | null>> => {
+  const dates: Record<string, string | null> = {}
+
+  for (const id of ids) {
+    const record = isMediaId(id) ? await getMediaRecord(id) : undefined
+    if (!record) {
+      dates[id] = null
+    } else if (record.capturedAt !== undefined) {
+      dates[id] = record.capturedAt
+    } else {
+      dates[id] = await readExifCaptureDate(record.blob)
+    }
+  }
+
+  return dates
+}
+
+/**
+ * Get Media URL
+ *
+ * Returns a URL that can be used as an <img> or <video> source.
+ * Legacy inline data is returned unchanged; stored media gets a cached object URL.
+ *
+ * @param reference - Media ID or legacy data URL
+ * @returns Promise resolving to a URL, or undefined if the media is missing
+ */
+export const getMediaUrl = async (reference: string): Promise<string | undefined> => {
+  if (!isMediaId(reference)) {
+    return reference
+  }
+
+  const cached = objectUrls.get(reference)
+  if (cached) {
+    return cached
+  }
+
+  const record = await getMediaRecord(reference)
+  if (!record) {
+    return undefined
+  }
+
+  const url = URL.createObjectURL(record.blob)
+  objectUrls.set(reference, url)
+  return url
+}
+
+/**
+ * Read Media as Data URL
+ *
+ * Loads stored media as a base64 data URL, for services that need to send
+ * the content over the network.
+ *
+ * @param reference - Media ID or legacy data URL
+ * @returns Promise resolving to the data URL, or undefined if the media is missing
+ */
+export const readMediaAsDataUrl = async (reference: string): Promise<string | undefined> => {
+  if (!isMediaId(reference)) {
+    return reference
+  }
+
+  const record = await getMediaRecord(reference)
+  if (!record) {
+    return undefined
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(record.blob)
+  })
+}
+
+/**
+ * Delete Media
+ *
+ * Removes media from the store and releases its object URL.
+ * Callers must make sure no claim or draft still references the ID.
+ *
+ * @param id - Media ID to delete
+ */
+export const deleteMedia = async (id: string) => {
+  const url = objectUrls.get(id)
+  if (url) {
+    URL.revokeObjectURL(url)
+    objectUrls.delete(id)
+  }
+  await runRequest('readwrite', store => store.delete(id))
+}
+
+/**
+ * Delete Unreferenced Media
+ *
+ * Removes every stored media record whose ID is not in the given set, e.g.
+ * photos removed from a form, discarded drafts and deleted claims. Media IDs
+ * are shared by identical files, so media is only ever released by sweeping
+ * against every reference rather than deleted along with one claim.
+ *
+ * @param referenced - Media IDs still referenced by claims and drafts
+ * @returns Promise resolving to the number of records deleted
+ */
+export const deleteUnreferencedMedia = async (referenced: Set<string>): Promise<number> => {
+  const ids = await runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys())
+  const unreferenced = ids.map(String).filter(id => !referenced.has(id))
+
+  for (const id of unreferenced) {
+    await deleteMedia(id)
+  }
+  return unreferenced.length
+}
+
+/**
+ * Migrate Inline Media
+ *
+ * Moves legacy base64 media into the store.
+ * Values that fail to migrate are left out of the mapping so they stay inline
+ * and are retried on the next load.
+ *
+ * @param values - Inline data URLs found in persisted claims and drafts
+ * @returns Promise resolving to a map of data URL -> media ID
+ */
+export const migrateInlineMedia = async (values: string[]): Promise<Map<string, string>> => {
+  const mapping = new Map<string, string>()
+
+  for (const value of values) {
+    if (mapping.has(value)) continue
+    try {
+      mapping.set(value, await saveMedia(value))
+    } catch (error) {
+      console.error('Error migrating inline media:', error)
+    }
+  }
+
+  return mapping
+}
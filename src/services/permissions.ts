@@ -0,0 +1,206 @@
+/**
+ * permissions.ts
+ *
+ * This file defines what each role may do. Route guards, action buttons and
+ * the claims context all ask it before letting a user act.
+ *
+ * Key Features:
+ * - Role -> permission table
+ * - Permission required for each lifecycle action and ledger entry type
+ * - Human-readable explanations for denied actions
+ *
+ * Roles:
+ * - adjuster:   create, edit and submit claims, start processing, approve within their limit, set reserves,
+ *               update repair progress, submit and review shop estimates, propose supplements
+ * - supervisor: adjuster permissions plus reject, reopen, payments, closing claims, rate and
+ *               straight-through rule changes, repair shop management
+ * - manager:    supervisor permissions plus changing approval authority limits
+ * - auditor:    read-only, including the approval queue
+ * - shop:       see, submit estimates and propose supplements for the claims assigned to their repair shop
+ *
+ * Every role but shop has claims:view and sees all claims; shop users only
+ * see the claims assigned to their own shop (see getClaimAccessDeniedReason).
+ *
+ * Having claim:approve lets a user sign off on a claim; whether that sign-off
+ * approves it or sends it on for second approval depends on the user's
+ * authority limit (see approvalAuthority.ts).
+ */
+
+import type { AppUser, UserRole } from '../data/users'
+import type { Claim } from '../context/ClaimsContext'
+import { roleLabels } from '../data/users'
+import type { LifecycleAction } from './claimLifecycle'
+import type { LedgerEntryType } from './claimLedger'
+
+/**
+ * Permission
+ *
+ * Name of an action a user may or may not perform.
+ */
+export type Permission =
+  | 'claims:view'
+  | 'claim:create'
+  | 'claim:edit'
+  | 'claim:process'
+  | 'claim:approve'
+  | 'claim:reject'
+  | 'claim:reopen'
+  | 'claim:close'
+  | 'ledger:reserve'
+  | 'ledger:pay'
+  | 'repairs:update'
+  | 'estimates:submit'
+  | 'estimates:review'
+  | 'supplements:propose'
+  | 'approvals:view'
+  | 'rates:edit'
+  | 'rules:edit'
+  | 'authority:edit'
+  | 'shops:edit'
+
+// Phrase describing each permission, used in denial explanations
+const permissionDescriptions: Record<Permission, string> = {
+  'claims:view': 'Viewing all claims',
+  'claim:create': 'Creating claims',
+  'claim:edit': 'Editing claims',
+  'claim:process': 'Starting claim processing',
+  'claim:approve': 'Approving claims',
+  'claim:reject': 'Rejecting claims',
+  'claim:reopen': 'Reopening claims',
+  'claim:close': 'Closing claims',
+  'ledger:reserve': 'Setting claim reserves',
+  'ledger:pay': 'Recording payments',
+  'repairs:update': 'Updating repair progress',
+  'estimates:submit': 'Submitting shop estimates',
+  'estimates:review': 'Reviewing shop estimates',
+  'supplements:propose': 'Proposing supplements',
+  'approvals:view': 'The approval queue',
+  'rates:edit': 'Changing estimate rates',
+  'rules:edit': 'Changing straight-through processing rules',
+  'authority:edit': 'Changing approval authority limits',
+  'shops:edit': 'Managing the repair shop network'
+}
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  adjuster: [
+    'claims:view',
+    'claim:create',
+    'claim:edit',
+    'claim:process',
+    'claim:approve',
+    'ledger:reserve',
+    'repairs:update',
+    'estimates:submit',
+    'estimates:review',
+    'supplements:propose',
+    'approvals:view'
+  ],
+  supervisor: [
+    'claims:view',
+    'claim:create',
+    'claim:edit',
+    'claim:process',
+    'claim:approve',
+    'claim:reject',
+    'claim:reopen',
+    'claim:close',
+    'ledger:reserve',
+    'ledger:pay',
+    'repairs:update',
+    'estimates:submit',
+    'estimates:review',
+    'supplements:propose',
+    'approvals:view',
+    'rates:edit',
+    'rules:edit',
+    'shops:edit'
+  ],
+  manager: [
+    'claims:view',
+    'claim:create',
+    'claim:edit',
+    'claim:process',
+    'claim:approve',
+    'claim:reject',
+    'claim:reopen',
+    'claim:close',
+    'ledger:reserve',
+    'ledger:pay',
+    'repairs:update',
+    'estimates:submit',
+    'estimates:review',
+    'supplements:propose',
+    'approvals:view',
+    'rates:edit',
+    'rules:edit',
+    'shops:edit',
+    'authority:edit'
+  ],
+  auditor: ['claims:view', 'approvals:view'],
+  shop: ['estimates:submit', 'supplements:propose']
+}
+
+// Permission required to perform each lifecycle action
+export const transitionPermissions: Record<LifecycleAction, Permission> = {
+  start_processing: 'claim:process',
+  approve: 'claim:approve',
+  escalate: 'claim:approve',
+  reject: 'claim:reject',
+  mark_paid: 'ledger:pay',
+  reverse_payment: 'ledger:pay',
+  close: 'claim:close',
+  reopen: 'claim:reopen'
+}
+
+// Permission required to record each kind of ledger entry
+export const ledgerEntryPermissions: Record<LedgerEntryType, Permission> = {
+  reserve_set: 'ledger:reserve',
+  reserve_adjustment: 'ledger:reserve',
+  payment: 'ledger:pay',
+  deductible_recovery: 'ledger:pay',
+  void: 'ledger:pay'
+}
+
+/**
+ * Has Permission
+ *
+ * @param role - Role of the user
+ * @param permission - Permission to check
+ * @returns Whether the role grants the permission
+ */
+export const hasPermission = (role: UserRole, permission: Permission) =>
+  rolePermissions[role].includes(permission)
+
+/**
+ * Get Permission Denied Reason
+ *
+ * @param role - Role of the user
+ * @param permission - Permission to check
+ * @returns Explanation of why the action is not allowed, or null if it is
+ */
+export const getPermissionDeniedReason = (role: UserRole, permission: Permission): string | null => {
+  if (hasPermission(role, permission)) return null
+
+  const allowedRoles = (Object.keys(rolePermissions) as UserRole[])
+    .filter(candidate => hasPermission(candidate, permission))
+    .map(candidate => roleLabels[candidate])
+
+  return `${permissionDescriptions[permission]} requires the ${allowedRoles.join(' or ')} role. ` +
+    `You are signed in as ${roleLabels[role]}.`
+}
+
+/**
+ * Get Claim Access Denied Reason
+ *
+ * @param user - Signed-in user
+ * @param claim - Claim the user wants to see
+ * @returns Explanation of why the user may not see the claim, or null if they may.
+ *          Users without claims:view only see claims assigned to their repair shop.
+ */
+export const getClaimAccessDeniedReason = (user: AppUser, claim: Pick<Claim, 'repairShopId'>): string | null => {
+  if (hasPermission(user.role, 'claims:view')) return null
+  if (user.shopId && claim.repairShopId === user.shopId) return null
+  return user.shopId
+    ? 'This claim is not assigned to your repair shop.'
+    : getPermissionDeniedReason(user.role, 'claims:view')
+}
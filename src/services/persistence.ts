@@ -0,0 +1,351 @@
+/**
+ * persistence.ts
+ *
+ * This file owns the on-disk format of claims and drafts in localStorage.
+ * Every collection is written inside a versioned envelope; on load, older
+ * data is upgraded by running the ordered migrations below, and records that
+ * still do not match the expected shape are moved to a quarantine key
+ * instead of being handed to the application.
+ *
+ * Key Features:
+ * - Versioned envelope ({ version, savedAt, data }) for each stored collection
+ * - Ordered migration functions, applied record by record
+ * - Shape validation for claims, damage assessments and drafts
+ * - Quarantine of unreadable or invalid records for later inspection
+ *
+ * Adding a field: bump CURRENT_SCHEMA_VERSION, append a migration that fills
+ * in the field for older records, and extend the validators if required.
+ */
+
+import { findClosestRepairCostItem, getVehicleCategory } from '../data/repairCostCatalog'
+
+export const STORAGE_KEYS = {
+  claims: 'car-insurance-claims',
+  inProgress: 'car-insurance-in-progress',
+  quarantine: 'car-insurance-quarantine'
+} as const
+
+// Version written by this build. Data without an envelope is version 1.
+export const CURRENT_SCHEMA_VERSION = 3
+
+export type CollectionKind = 'claims' | 'inProgress'
+
+/**
+ * PersistedEnvelope Interface
+ *
+ * Wrapper stored under each localStorage key.
+ */
+export interface PersistedEnvelope<T> {
+  version: number               // Schema version the data was written with
+  savedAt: string               // Time of the last save (ISO string)
+  data: T[]                     // Stored records
+}
+
+/**
+ * Migration Interface
+ *
+ * Upgrades records from the previous schema version to `version`.
+ * A migration may throw for records it cannot upgrade; those are quarantined.
+ */
+export interface Migration {
+  version: number               // Schema version produced by this migration
+  description: string           // What the migration changes
+  claims?: (record: any) => any // Upgrade for a stored claim
+  inProgress?: (record: any) => any  // Upgrade for a stored draft
+}
+
+/**
+ * QuarantinedRecord Interface
+ *
+ * A stored record that could not be loaded, kept for manual recovery.
+ */
+export interface QuarantinedRecord {
+  collection: CollectionKind    // Collection the record came from
+  version: number               // Schema version the record was stored with
+  errors: string[]              // Why the record was rejected
+  record: unknown               // The raw record (or raw text if unparseable)
+  quarantinedAt: string         // When the record was quarantined
+}
+
+/**
+ * LoadResult Interface
+ *
+ * Outcome of loading one collection.
+ */
+export interface LoadResult {
+  records: any[]                // Records that passed migration and validation
+  quarantined: number           // Number of records moved to quarantine
+}
+
+/**
+ * Link Assessments to Catalog
+ * 
+ * Fills in catalogItemId for assessments saved before they carried one.
+ *
+ * @param assessments - Stored damage assessments
+ * @param make - Vehicle make of the claim
+ * @param model - Vehicle model of the claim
+ * @returns Assessments with catalog item IDs where a match exists
+ */
+const linkAssessmentsToCatalog = (assessments: any[], make?: string, model?: string) => {
+  const vehicleCategory = getVehicleCategory(make || '', model || '')
+  return assessments.map(assessment => ({
+    ...assessment,
+    catalogItemId: assessment.catalogItemId ??
+      findClosestRepairCostItem(assessment.type, assessment.severity, vehicleCategory)?.id
+  }))
+}
+
+/**
+ * Migrations
+ *
+ * Ordered by version. Never edit a released migration; add a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Default list and flag fields missing from claims and drafts saved by early releases',
+    claims: record => ({
+      ...record,
+      photos: record.photos ?? [],
+      videos: record.videos ?? [],
+      damageAssessments: record.damageAssessments ?? [],
+      totalEstimatedCost: record.totalEstimatedCost ?? 0,
+      aiAnalysisComplete: record.aiAnalysisComplete ?? false
+    }),
+    inProgress: record => ({
+      ...record,
+      formData: record.formData ?? {},
+      photos: record.photos ?? [],
+      videos: record.videos ?? [],
+      damageAssessments: record.damageAssessments ?? [],
+      analysisComplete: record.analysisComplete ?? false,
+      approvedAssessments: record.approvedAssessments ?? []
+    })
+  },
+  {
+    version: 3,
+    description: 'Link damage assessments to the repair cost catalog item they are priced from',
+    claims: record => ({
+      ...record,
+      damageAssessments: linkAssessmentsToCatalog(record.damageAssessments, record.vehicleMake, record.vehicleModel)
+    }),
+    inProgress: record => ({
+      ...record,
+      damageAssessments: linkAssessmentsToCatalog(
+        record.damageAssessments,
+        record.formData.vehicleMake,
+        record.formData.vehicleModel
+      )
+    })
+  }
+]
+
+const CLAIM_STATUSES = ['pending', 'processing', 'awaiting_second_approval', 'approved', 'paid', 'closed', 'rejected']
+const DAMAGE_TYPES = ['scratch', 'dent', 'structural', 'glass', 'paint']
+const SEVERITIES = ['minor', 'moderate', 'severe']
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+const isStringArray = (value: unknown) =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+/**
+ * Validate Damage Assessments
+ *
+ * @param value - Stored damageAssessments field
+ * @returns List of validation errors (empty when valid)
+ */
+const validateAssessments = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return ['damageAssessments must be an array']
+
+  return value.flatMap((assessment, index) => {
+    const errors: string[] = []
+    if (!isObject(assessment)) return [`damageAssessments[${index}] must be an object`]
+    if (typeof assessment.id !== 'string') errors.push(`damageAssessments[${index}].id must be a string`)
+    if (!DAMAGE_TYPES.includes(assessment.type)) errors.push(`damageAssessments[${index}].type is not a known damage type`)
+    if (!SEVERITIES.includes(assessment.severity)) errors.push(`damageAssessments[${index}].severity is not a known severity`)
+    if (typeof assessment.estimatedCost !== 'number') errors.push(`damageAssessments[${index}].estimatedCost must be a number`)
+    return errors
+  })
+}
+
+/**
+ * Validate Claim
+ *
+ * @param record - Stored claim after migration
+ * @returns List of validation errors (empty when valid)
+ */
+export const validateClaim = (record: unknown): string[] => {
+  if (!isObject(record)) return ['claim must be an object']
+
+  const errors: string[] = []
+  const requiredStrings = ['id', 'policyNumber', 'customerName', 'createdAt', 'updatedAt']
+  requiredStrings.forEach(field => {
+    if (typeof record[field] !== 'string') errors.push(`${field} must be a string`)
+  })
+  if (!CLAIM_STATUSES.includes(record.status)) errors.push('status is not a known claim status')
+  if (!isStringArray(record.photos)) errors.push('photos must be an array of media IDs')
+  if (!isStringArray(record.videos)) errors.push('videos must be an array of media IDs')
+  if (typeof record.totalEstimatedCost !== 'number') errors.push('totalEstimatedCost must be a number')
+  errors.push(...validateAssessments(record.damageAssessments))
+  return errors
+}
+
+/**
+ * Validate Draft
+ *
+ * @param record - Stored in-progress claim after migration
+ * @returns List of validation errors (empty when valid)
+ */
+export const validateDraft = (record: unknown): string[] => {
+  if (!isObject(record)) return ['draft must be an object']
+
+  const errors: string[] = []
+  if (typeof record.id !== 'string') errors.push('id must be a string')
+  if (!isObject(record.formData)) errors.push('formData must be an object')
+  if (!isStringArray(record.photos)) errors.push('photos must be an array of media IDs')
+  if (!isStringArray(record.videos)) errors.push('videos must be an array of media IDs')
+  if (!isStringArray(record.approvedAssessments)) errors.push('approvedAssessments must be an array of IDs')
+  errors.push(...validateAssessments(record.damageAssessments))
+  return errors
+}
+
+const validators: Record<CollectionKind, (record: unknown) => string[]> = {
+  claims: validateClaim,
+  inProgress: validateDraft
+}
+
+/**
+ * Get Quarantined Records
+ *
+ * @returns Records that failed to load on this or earlier visits
+ */
+export const getQuarantinedRecords = (): QuarantinedRecord[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.quarantine)
+    return saved ? JSON.parse(saved) : []
+  } catch (error) {
+    console.error('Error reading quarantined records:', error)
+    return []
+  }
+}
+
+/**
+ * Quarantine Records
+ *
+ * Appends rejected records to the quarantine key.
+ *
+ * @param records - Records to keep aside
+ */
+const quarantineRecords = (records: QuarantinedRecord[]) => {
+  if (records.length === 0) return
+  try {
+    localStorage.setItem(
+      STORAGE_KEYS.quarantine,
+      JSON.stringify([...getQuarantinedRecords(), ...records])
+    )
+  } catch (error) {
+    console.error('Error quarantining records:', error)
+  }
+}
+
+/**
+ * Migrate Record
+ *
+ * Runs every migration newer than the stored version on a single record.
+ *
+ * @param collection - Collection the record belongs to
+ * @param record - Stored record
+ * @param fromVersion - Schema version the record was stored with
+ * @returns The upgraded record
+ */
+const migrateRecord = (collection: CollectionKind, record: unknown, fromVersion: number) =>
+  migrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration[collection]?.(current) ?? current, record as any)
+
+/**
+ * Load Collection
+ *
+ * Reads a collection from localStorage, upgrades it to the current schema
+ * and drops (quarantines) every record that cannot be used.
+ *
+ * @param collection - Which collection to load
+ * @returns Valid records and the number of quarantined ones
+ */
+export const loadCollection = (collection: CollectionKind): LoadResult => {
+  const raw = localStorage.getItem(STORAGE_KEYS[collection])
+  if (!raw) {
+    return { records: [], quarantined: 0 }
+  }
+
+  const now = new Date().toISOString()
+  const reject = (record: unknown, version: number, errors: string[]): QuarantinedRecord =>
+    ({ collection, version, errors, record, quarantinedAt: now })
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (error) {
+    quarantineRecords([reject(raw, 0, [`stored data is not valid JSON: ${(error as Error).message}`])])
+    return { records: [], quarantined: 1 }
+  }
+
+  // Data saved before the envelope was introduced is a bare array (version 1)
+  const envelope: PersistedEnvelope<unknown> | null = Array.isArray(parsed)
+    ? { version: 1, savedAt: now, data: parsed }
+    : isObject(parsed) && typeof parsed.version === 'number' && Array.isArray(parsed.data)
+      ? parsed as PersistedEnvelope<unknown>
+      : null
+
+  if (!envelope) {
+    quarantineRecords([reject(parsed, 0, ['stored data is not a recognised envelope'])])
+    return { records: [], quarantined: 1 }
+  }
+
+  if (envelope.version > CURRENT_SCHEMA_VERSION) {
+    quarantineRecords(envelope.data.map(record => reject(record, envelope.version, [
+      `stored with schema version ${envelope.version}, newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    ])))
+    return { records: [], quarantined: envelope.data.length }
+  }
+
+  const records: any[] = []
+  const rejected: QuarantinedRecord[] = []
+
+  envelope.data.forEach(record => {
+    try {
+      const migrated = migrateRecord(collection, record, envelope.version)
+      const errors = validators[collection](migrated)
+      if (errors.length > 0) {
+        rejected.push(reject(record, envelope.version, errors))
+      } else {
+        records.push(migrated)
+      }
+    } catch (error) {
+      rejected.push(reject(record, envelope.version, [`migration failed: ${(error as Error).message}`]))
+    }
+  })
+
+  quarantineRecords(rejected)
+  return { records, quarantined: rejected.length }
+}
+
+/**
+ * Save Collection
+ *
+ * Writes a collection to localStorage in the current envelope format.
+ *
+ * @param collection - Which collection to save
+ * @param data - Records to store (must be JSON-serialisable)
+ */
+export const saveCollection = <T>(collection: CollectionKind, data: T[]) => {
+  const envelope: PersistedEnvelope<T> = {
+    version: CURRENT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data
+  }
+  localStorage.setItem(STORAGE_KEYS[collection], JSON.stringify(envelope))
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { getPolicyByNumber, isPolicyInForce } from '../data/policies'
+import type { Policy } from '../data/policies'
+import {
+  calculateNetPayable,
+  describePayableAmount,
+  getClaimPayable,
+  getCoverage,
+  verifyPolicy
+} from './policyCoverage'
+
+const camryDetails = {
+  policyNumber: 'POL-2024-001',
+  accidentDate: '2025-05-01',
+  vehicleMake: 'Toyota',
+  vehicleModel: 'Camry',
+  vehicleYear: 2022
+}
+
+describe('isPolicyInForce', () => {
+  it('covers dates within the coverage period, whatever the current status', () => {
+    const lapsed = getPolicyByNumber('POL-2024-004') as Policy
+
+    expect(isPolicyInForce(lapsed, '2024-01-01')).toBe(true)
+    expect(isPolicyInForce(lapsed, '2024-12-31')).toBe(true)
+    expect(isPolicyInForce(lapsed, '2025-01-01')).toBe(false)
+    expect(isPolicyInForce(lapsed, '2023-12-31')).toBe(false)
+  })
+
+  it('ends the coverage of a cancelled policy on its cancellation date', () => {
+    const cancelled = getPolicyByNumber('POL-2024-005') as Policy
+
+    expect(isPolicyInForce(cancelled, '2024-09-15')).toBe(true)
+    expect(isPolicyInForce(cancelled, '2024-09-16')).toBe(false)
+  })
+})
+
+describe('verifyPolicy', () => {
+  it('verifies a covered vehicle within the coverage period', () => {
+    const { policy, errors } = verifyPolicy(camryDetails)
+
+    expect(policy?.policyNumber).toBe('POL-2024-001')
+    expect(errors).toEqual({})
+  })
+
+  it('matches the policy number and vehicle regardless of case and spacing', () => {
+    expect(verifyPolicy({
+      ...camryDetails,
+      policyNumber: ' pol-2024-001 ',
+      vehicleMake: 'toyota ',
+      vehicleModel: 'CAMRY',
+      vehicleYear: '2022'
+    }).errors).toEqual({})
+  })
+
+  it('requires a known policy number', () => {
+    expect(verifyPolicy({ ...camryDetails, policyNumber: '  ' }).errors)
+      .toEqual({ policyNumber: 'Policy number is required' })
+    expect(verifyPolicy({ ...camryDetails, policyNumber: 'POL-9999-999' }).errors)
+      .toEqual({ policyNumber: 'Policy POL-9999-999 was not found' })
+  })
+
+  it('accepts a lapsed policy for an accident within its coverage period', () => {
+    expect(verifyPolicy({
+      policyNumber: 'POL-2024-004',
+      accidentDate: '2024-06-01',
+      vehicleMake: 'Chevrolet',
+      vehicleModel: 'Malibu',
+      vehicleYear: 2019
+    }).errors).toEqual({})
+  })
+
+  it('refuses an accident after a cancelled policy stopped covering', () => {
+    expect(verifyPolicy({
+      policyNumber: 'POL-2024-005',
+      accidentDate: '2024-10-01',
+      vehicleMake: 'Nissan',
+      vehicleModel: 'Altima',
+      vehicleYear: 2020
+    }).errors).toEqual({
+      accidentDate: 'Accident date is outside the coverage period (2024-03-01 to 2024-09-15)'
+    })
+  })
+
+  it('refuses a vehicle not listed on the policy', () => {
+    expect(verifyPolicy({ ...camryDetails, vehicleYear: 2021 }).errors)
+      .toEqual({ vehicleMake: 'This vehicle is not covered by policy POL-2024-001' })
+  })
+
+  it('skips the date and vehicle checks until they are entered', () => {
+    expect(verifyPolicy({ ...camryDetails, accidentDate: '', vehicleMake: '', vehicleModel: '' }).errors).toEqual({})
+  })
+})
+
+describe('getCoverage', () => {
+  it('defaults to collision cover, or the first coverage without it', () => {
+    const camry = getPolicyByNumber('POL-2024-001') as Policy
+
+    expect(getCoverage(camry)?.type).toBe('collision')
+    expect(getCoverage(camry, 'glass')?.deductible).toBe(0)
+    expect(getCoverage(getPolicyByNumber('POL-2024-002') as Policy, 'glass')).toBeUndefined()
+    expect(getCoverage({ ...camry, coverages: camry.coverages.slice(1) })?.type).toBe('comprehensive')
+  })
+})
+
+describe('calculateNetPayable', () => {
+  const coverage = { type: 'collision' as const, limit: 10000, deductible: 500 }
+
+  it('subtracts the deductible', () => {
+    expect(calculateNetPayable(3200, coverage)).toMatchObject({ netPayable: 2700, cappedAtLimit: false })
+  })
+
+  it('never goes below zero', () => {
+    expect(calculateNetPayable(300, coverage).netPayable).toBe(0)
+  })
+
+  it('caps the amount at the coverage limit', () => {
+    expect(calculateNetPayable(12000, coverage)).toMatchObject({ netPayable: 10000, cappedAtLimit: true })
+  })
+})
+
+describe('getClaimPayable', () => {
+  it('uses the coverage the claim is made under', () => {
+    expect(getClaimPayable({ policyNumber: 'POL-2024-001', totalEstimatedCost: 1000 })?.netPayable).toBe(500)
+    expect(getClaimPayable({ policyNumber: 'POL-2024-001', coverageType: 'glass', totalEstimatedCost: 1000 })?.netPayable)
+      .toBe(1000)
+  })
+
+  it('returns nothing for an unknown policy or coverage', () => {
+    expect(getClaimPayable({ policyNumber: 'POL-9999-999', totalEstimatedCost: 1000 })).toBeUndefined()
+    expect(getClaimPayable({ policyNumber: 'POL-2024-002', coverageType: 'glass', totalEstimatedCost: 1000 }))
+      .toBeUndefined()
+  })
+})
+
+describe('describePayableAmount', () => {
+  it('explains the deductible and any cap', () => {
+    const coverage = { type: 'collision' as const, limit: 10000, deductible: 500 }
+
+    expect(describePayableAmount(calculateNetPayable(3200, coverage))).toBe('$3,200 estimate − $500 collision deductible')
+    expect(describePayableAmount(calculateNetPayable(12000, coverage)))
+      .toBe('$12,000 estimate − $500 collision deductible, capped at the $10,000 limit')
+  })
+})
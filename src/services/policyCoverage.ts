@@ -0,0 +1,152 @@
+/**
+ * policyCoverage.ts
+ *
+ * This file checks claims against the policy store and works out how much
+ * of a claim the insurer pays. The net payable amount is the estimate minus
+ * the deductible of the coverage the claim is made under, capped at that
+ * coverage's limit.
+ *
+ * Key Features:
+ * - Policy verification: policy exists, accident date within the coverage
+ *   period (up to the cancellation date of cancelled policies), vehicle
+ *   listed on the policy
+ * - Default coverage selection for a policy
+ * - Net payable calculation for an amount or a claim
+ */
+
+import type { Claim } from '../context/ClaimsContext'
+import {
+  Policy,
+  Coverage,
+  CoverageType,
+  coverageTypeLabels,
+  getPolicyByNumber,
+  getCoverageEndDate,
+  isPolicyInForce
+} from '../data/policies'
+
+/**
+ * PolicyVerification Interface
+ *
+ * Result of checking claim details against the policy store.
+ */
+export interface PolicyVerification {
+  policy?: Policy               // Policy found for the policy number (if any)
+  errors: Record<string, string>  // Problems keyed by claim form field (empty when verified)
+}
+
+/**
+ * PayableAmount Interface
+ *
+ * What the insurer pays on a claim under one coverage.
+ */
+export interface PayableAmount {
+  coverageType: CoverageType    // Coverage the amount was calculated under
+  estimate: number              // Estimated cost the calculation started from
+  deductible: number            // Deductible subtracted from the estimate
+  limit: number                 // Coverage limit the amount is capped at
+  netPayable: number            // Estimate minus deductible, capped at the limit
+  cappedAtLimit: boolean        // Whether the limit reduced the amount
+}
+
+/**
+ * Verify Policy
+ *
+ * @param details - Policy number, accident date and vehicle entered for a claim
+ * @returns The policy and any problems found. The accident date and vehicle
+ *          are only checked once they have been entered.
+ */
+export const verifyPolicy = (details: {
+  policyNumber: string
+  accidentDate: string
+  vehicleMake: string
+  vehicleModel: string
+  vehicleYear: number | string
+}): PolicyVerification => {
+  const errors: Record<string, string> = {}
+
+  if (!details.policyNumber.trim()) {
+    errors.policyNumber = 'Policy number is required'
+    return { errors }
+  }
+
+  const policy = getPolicyByNumber(details.policyNumber)
+  if (!policy) {
+    errors.policyNumber = `Policy ${details.policyNumber.trim()} was not found`
+    return { errors }
+  }
+
+  if (details.accidentDate && !isPolicyInForce(policy, details.accidentDate)) {
+    errors.accidentDate = `Accident date is outside the coverage period (${policy.effectiveDate} to ${getCoverageEndDate(policy)})`
+  }
+
+  if (details.vehicleMake && details.vehicleModel) {
+    const covered = policy.coveredVehicles.some(vehicle =>
+      vehicle.make.toLowerCase() === details.vehicleMake.trim().toLowerCase() &&
+      vehicle.model.toLowerCase() === details.vehicleModel.trim().toLowerCase() &&
+      vehicle.year === Number(details.vehicleYear)
+    )
+    if (!covered) {
+      errors.vehicleMake = `This vehicle is not covered by policy ${policy.policyNumber}`
+    }
+  }
+
+  return { policy, errors }
+}
+
+/**
+ * Get Coverage
+ *
+ * @param policy - Policy to look in
+ * @param coverageType - Requested coverage (defaults to collision, or the
+ *                       policy's first coverage if it has no collision cover)
+ * @returns The coverage, or undefined if the policy does not include it
+ */
+export const getCoverage = (policy: Policy, coverageType?: CoverageType): Coverage | undefined =>
+  coverageType
+    ? policy.coverages.find(coverage => coverage.type === coverageType)
+    : policy.coverages.find(coverage => coverage.type === 'collision') || policy.coverages[0]
+
+/**
+ * Calculate Net Payable
+ *
+ * @param estimate - Estimated repair cost in dollars
+ * @param coverage - Coverage the claim is made under
+ * @returns Payable amount after the deductible and limit
+ */
+export const calculateNetPayable = (estimate: number, coverage: Coverage): PayableAmount => {
+  const afterDeductible = Math.max(0, estimate - coverage.deductible)
+  return {
+    coverageType: coverage.type,
+    estimate,
+    deductible: coverage.deductible,
+    limit: coverage.limit,
+    netPayable: Math.min(afterDeductible, coverage.limit),
+    cappedAtLimit: afterDeductible > coverage.limit
+  }
+}
+
+/**
+ * Get Claim Payable
+ *
+ * @param claim - Claim to calculate for
+ * @returns Payable amount, or undefined if the policy or coverage is not found
+ */
+export const getClaimPayable = (
+  claim: Pick<Claim, 'policyNumber' | 'coverageType' | 'totalEstimatedCost'>
+): PayableAmount | undefined => {
+  const policy = getPolicyByNumber(claim.policyNumber)
+  const coverage = policy && getCoverage(policy, claim.coverageType)
+  return coverage ? calculateNetPayable(claim.totalEstimatedCost, coverage) : undefined
+}
+
+/**
+ * Describe Payable Amount
+ *
+ * @param payable - Payable amount to explain
+ * @returns One-line explanation (e.g., "$3,200 estimate − $500 collision deductible")
+ */
+export const describePayableAmount = (payable: PayableAmount) =>
+  `$${payable.estimate.toLocaleString()} estimate − $${payable.deductible.toLocaleString()} ` +
+  `${coverageTypeLabels[payable.coverageType].toLowerCase()} deductible` +
+  (payable.cappedAtLimit ? `, capped at the $${payable.limit.toLocaleString()} limit` : '')
@@ -0,0 +1,364 @@
+/**
+ * repairOrders.ts
+ *
+ * This file tracks the repair of an approved claim. Each approved claim with
+ * a repair shop gets a repair order that moves through fixed stages from
+ * scheduling to delivery; every stage change records when it happened, who
+ * recorded it and optional notes, so the time spent in each stage can be
+ * measured.
+ *
+ * Key Features:
+ * - Repair order opened automatically when a claim with a shop is approved
+ * - Ordered stages; a stage may be skipped but never moved back to
+ * - Time spent in each stage, and in the whole repair
+ * - Average cycle time per stage across repair orders
+ * - Post-repair customer survey and comebacks for rework after delivery
+ *
+ * Stages:
+ * - scheduled -> vehicle_received -> parts_ordered -> in_repair -> paint
+ *   -> quality_check -> ready_for_pickup -> delivered
+ */
+
+import type { Claim, Actor } from '../context/ClaimsContext'
+import { formatAppointmentDate } from './shopBooking'
+import { formatTime } from './shopHours'
+
+export type RepairStage =
+  | 'scheduled'
+  | 'vehicle_received'
+  | 'parts_ordered'
+  | 'in_repair'
+  | 'paint'
+  | 'quality_check'
+  | 'ready_for_pickup'
+  | 'delivered'
+
+// Stages in the order a repair moves through them
+export const repairStages: RepairStage[] = [
+  'scheduled',
+  'vehicle_received',
+  'parts_ordered',
+  'in_repair',
+  'paint',
+  'quality_check',
+  'ready_for_pickup',
+  'delivered'
+]
+
+export const repairStageLabels: Record<RepairStage, string> = {
+  scheduled: 'Scheduled',
+  vehicle_received: 'Vehicle Received',
+  parts_ordered: 'Parts Ordered',
+  in_repair: 'In Repair',
+  paint: 'Paint',
+  quality_check: 'Quality Check',
+  ready_for_pickup: 'Ready for Pickup',
+  delivered: 'Delivered'
+}
+
+/**
+ * RepairStageEntry Interface
+ *
+ * Record of a repair order entering a stage.
+ */
+export interface RepairStageEntry {
+  stage: RepairStage            // Stage entered
+  at: string                    // When the stage was entered (ISO string)
+  actor: Actor                  // Who recorded it
+  notes?: string                // Notes for the stage (optional)
+}
+
+/**
+ * RepairSurvey Interface
+ *
+ * Customer's rating of the repair, collected after delivery.
+ */
+export interface RepairSurvey {
+  rating: number                // Satisfaction from 1 (poor) to 5 (excellent)
+  comments?: string             // Customer's comments (optional)
+  at: string                    // When the survey was recorded (ISO string)
+  actor: Actor                  // Who recorded it
+}
+
+/**
+ * RepairComeback Interface
+ *
+ * Return of a delivered vehicle to the shop for rework.
+ */
+export interface RepairComeback {
+  id: string                    // Unique comeback identifier
+  reason: string                // What had to be reworked
+  at: string                    // When the comeback was reported (ISO string)
+  actor: Actor                  // Who reported it
+}
+
+/**
+ * RepairOrder Interface
+ *
+ * Repair of a claim's vehicle at its assigned shop. Stored on the claim.
+ */
+export interface RepairOrder {
+  id: string                    // Unique repair order identifier
+  number: string                // Display number (e.g., "RO-4F7K2A")
+  openedAt: string              // When the order was opened (ISO string)
+  stages: RepairStageEntry[]    // Stages entered, oldest first (the last one is current)
+  survey?: RepairSurvey         // Post-repair customer survey (after delivery)
+  comebacks?: RepairComeback[]  // Returns for rework after delivery, oldest first
+}
+
+/**
+ * StageDuration Interface
+ *
+ * Time a repair order spent in one stage.
+ */
+export interface StageDuration {
+  stage: RepairStage            // Stage measured
+  enteredAt: string             // When the stage was entered
+  leftAt?: string               // When the next stage was entered (absent while current)
+  hours: number                 // Hours in the stage (up to now while current)
+}
+
+/**
+ * Get Current Repair Stage
+ *
+ * @param order - Repair order
+ * @returns The stage the order is in
+ */
+export const getCurrentRepairStage = (order: RepairOrder): RepairStage =>
+  order.stages[order.stages.length - 1]?.stage || 'scheduled'
+
+/**
+ * Is Repair Active
+ *
+ * @param order - Repair order (if any)
+ * @returns Whether the vehicle has not been delivered yet
+ */
+export const isRepairActive = (order?: RepairOrder) =>
+  !!order && getCurrentRepairStage(order) !== 'delivered'
+
+/**
+ * Create Repair Order
+ *
+ * @param claim - Claim to open the order for
+ * @param actor - User or process opening the order
+ * @returns New order in the scheduled stage
+ */
+export const createRepairOrder = (claim: Claim, actor: Actor): RepairOrder => {
+  const at = new Date().toISOString()
+  const dropOff = claim.appointment
+    ? `Drop-off booked for ${formatAppointmentDate(claim.appointment.date)} at ${formatTime(claim.appointment.time)}`
+    : undefined
+  return {
+    id: `ro_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    number: `RO-${claim.id.slice(-6).toUpperCase()}`,
+    openedAt: at,
+    stages: [{ stage: 'scheduled', at, actor, notes: dropOff }]
+  }
+}
+
+/**
+ * With Repair Order
+ *
+ * Opens a repair order on a claim that has just been approved and has a
+ * repair shop. Claims that already have an order are returned unchanged.
+ *
+ * @param claim - Claim after its status change
+ * @param actor - User or process that approved the claim
+ * @returns The claim, with a repair order if one was opened
+ */
+export const withRepairOrder = (claim: Claim, actor: Actor): Claim =>
+  claim.status === 'approved' && claim.repairShopId && !claim.repairOrder
+    ? { ...claim, repairOrder: createRepairOrder(claim, actor) }
+    : claim
+
+/**
+ * Validate Open Repair Order
+ *
+ * @param claim - Claim to open an order for
+ * @returns Error message if no order can be opened, null otherwise
+ */
+export const validateOpenRepairOrder = (claim: Claim): string | null => {
+  if (claim.repairOrder) return `Repair order ${claim.repairOrder.number} is already open`
+  if (claim.status !== 'approved' && claim.status !== 'paid') return 'Repairs are tracked once the claim is approved'
+  if (!claim.repairShopId) return 'Assign a repair shop before opening a repair order'
+  return null
+}
+
+/**
+ * Validate Stage Change
+ *
+ * Stages may be skipped (e.g., no paint work) but not moved back to.
+ *
+ * @param claim - Claim whose repair order is updated
+ * @param stage - Stage to move to
+ * @returns Error message if the change is not allowed, null otherwise
+ */
+export const validateStageChange = (claim: Claim, stage: RepairStage): string | null => {
+  if (!claim.repairOrder) return 'The claim has no repair order'
+  if (claim.status === 'rejected' || claim.status === 'closed') {
+    return 'Repairs of closed or rejected claims cannot be updated'
+  }
+
+  const current = getCurrentRepairStage(claim.repairOrder)
+  if (current === 'delivered') return 'The vehicle has already been delivered'
+  if (repairStages.indexOf(stage) <= repairStages.indexOf(current)) {
+    return `The repair is already at ${repairStageLabels[current]}; stages cannot be moved back`
+  }
+  return null
+}
+
+/**
+ * Create Stage Entry
+ *
+ * @param stage - Validated stage to move to
+ * @param actor - User recording the change
+ * @param notes - Notes for the stage (optional)
+ * @returns Entry to append to the order's stages
+ */
+export const createStageEntry = (stage: RepairStage, actor: Actor, notes?: string): RepairStageEntry => ({
+  stage,
+  at: new Date().toISOString(),
+  actor,
+  notes: notes?.trim() || undefined
+})
+
+/**
+ * Validate Repair Survey
+ *
+ * @param claim - Claim whose repair was surveyed
+ * @param rating - Satisfaction rating entered
+ * @returns Error message if the survey cannot be recorded, null otherwise
+ */
+export const validateRepairSurvey = (claim: Claim, rating: number): string | null => {
+  if (!claim.repairOrder) return 'The claim has no repair order'
+  if (getCurrentRepairStage(claim.repairOrder) !== 'delivered') return 'Surveys are taken once the vehicle is delivered'
+  if (claim.repairOrder.survey) return 'A survey has already been recorded for this repair'
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) return 'Rating must be from 1 to 5'
+  return null
+}
+
+/**
+ * Validate Repair Comeback
+ *
+ * @param claim - Claim whose vehicle came back
+ * @param reason - Rework needed
+ * @returns Error message if the comeback cannot be reported, null otherwise
+ */
+export const validateRepairComeback = (claim: Claim, reason: string): string | null => {
+  if (!claim.repairOrder) return 'The claim has no repair order'
+  if (getCurrentRepairStage(claim.repairOrder) !== 'delivered') return 'Comebacks are reported after the vehicle is delivered'
+  if (!reason.trim()) return 'Describe the rework needed'
+  return null
+}
+
+/**
+ * Create Repair Comeback
+ *
+ * @param reason - Validated rework description
+ * @param actor - User reporting the comeback
+ * @returns Comeback to append to the order
+ */
+export const createRepairComeback = (reason: string, actor: Actor): RepairComeback => ({
+  id: `comeback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  reason: reason.trim(),
+  at: new Date().toISOString(),
+  actor
+})
+
+/**
+ * Get Stage Durations
+ *
+ * @param order - Repair order
+ * @param now - Current time, used for the stage the order is in (defaults to now)
+ * @returns Time spent in each stage entered, oldest first. The delivered
+ *          stage ends the repair and has no duration.
+ */
+export const getStageDurations = (order: RepairOrder, now: Date = new Date()): StageDuration[] =>
+  order.stages
+    .filter(entry => entry.stage !== 'delivered')
+    .map((entry, index) => {
+      const next = order.stages[index + 1]
+      const end = next ? new Date(next.at) : now
+      return {
+        stage: entry.stage,
+        enteredAt: entry.at,
+        leftAt: next?.at,
+        hours: Math.max(0, (end.getTime() - new Date(entry.at).getTime()) / 3600000)
+      }
+    })
+
+/**
+ * Get Repair Cycle Hours
+ *
+ * @param order - Repair order
+ * @param now - Current time (defaults to now)
+ * @returns Hours from vehicle received to ready for pickup (up to now while
+ *          the repair is still going), or null before the vehicle is received
+ */
+export const getRepairCycleHours = (order: RepairOrder, now: Date = new Date()): number | null => {
+  const received = order.stages.find(entry => entry.stage === 'vehicle_received')
+  if (!received) return null
+  const ready = order.stages.find(entry => entry.stage === 'ready_for_pickup' || entry.stage === 'delivered')
+  const end = ready ? new Date(ready.at) : now
+  return Math.max(0, (end.getTime() - new Date(received.at).getTime()) / 3600000)
+}
+
+/**
+ * Get Cycle Time Stats
+ *
+ * Only completed stages are averaged, so repairs still in a stage do not
+ * pull its average down.
+ *
+ * @param claims - Claims to include
+ * @returns Average hours and number of orders measured per stage, and the
+ *          average received-to-ready time of completed repairs
+ */
+export const getCycleTimeStats = (claims: Claim[]) => {
+  const totals = {} as Record<RepairStage, { hours: number; count: number }>
+  repairStages.forEach(stage => {
+    totals[stage] = { hours: 0, count: 0 }
+  })
+
+  let completedHours = 0
+  let completedCount = 0
+  claims.forEach(claim => {
+    if (!claim.repairOrder) return
+    getStageDurations(claim.repairOrder)
+      .filter(duration => duration.leftAt)
+      .forEach(duration => {
+        totals[duration.stage].hours += duration.hours
+        totals[duration.stage].count += 1
+      })
+
+    const isReady = claim.repairOrder.stages.some(entry => entry.stage === 'ready_for_pickup' || entry.stage === 'delivered')
+    const cycleHours = getRepairCycleHours(claim.repairOrder)
+    if (isReady && cycleHours !== null) {
+      completedHours += cycleHours
+      completedCount += 1
+    }
+  })
+
+  return {
+    stages: repairStages
+      .filter(stage => stage !== 'delivered')
+      .map(stage => ({
+        stage,
+        count: totals[stage].count,
+        averageHours: totals[stage].count > 0 ? totals[stage].hours / totals[stage].count : null
+      })),
+    averageCycleHours: completedCount > 0 ? completedHours / completedCount : null,
+    completedCount
+  }
+}
+
+/**
+ * Format Duration
+ *
+ * @param hours - Duration in hours
+ * @returns Display text (e.g., "45 min", "6.5 h", "2.3 days")
+ */
+export const formatDuration = (hours: number) => {
+  if (hours < 1) return `${Math.round(hours * 60)} min`
+  if (hours < 48) return `${Math.round(hours * 10) / 10} h`
+  return `${Math.round(hours / 24 * 10) / 10} days`
+}
@@ -0,0 +1,340 @@
+/**
+ * shopBooking.ts
+ *
+ * This file books drop-off appointments at repair shops and works out how
+ * long a customer waits from the shops' real capacity. Each shop offers a
+ * number of drop-off slots per open day, and every booked vehicle occupies
+ * one of the shop's bays for the open days its repair takes. A slot can only
+ * be booked while a bay is free for the whole repair.
+ *
+ * Key Features:
+ * - Drop-off slots generated from opening hours and slot capacity
+ * - Bay usage per day from the booked appointments
+ * - Repair duration from the claim's estimated labor hours
+ * - Next available drop-off and wait time per shop
+ * - Booking validation and the appointment record stored on the claim
+ *
+ * All dates and times are in the shop's own time zone.
+ */
+
+import type { Claim, Actor } from '../context/ClaimsContext'
+import type { RepairShop } from '../data/repairShops'
+import { getLocalTime, getOpeningIntervals, toMinutes, addDays, formatTime } from './shopHours'
+
+// Labor hours one bay gets through per open day
+const BAY_HOURS_PER_DAY = 8
+
+// Repair days assumed when a claim has no itemized estimate yet
+const DEFAULT_REPAIR_DAYS = 2
+
+// How many days ahead drop-offs can be booked
+export const BOOKING_HORIZON_DAYS = 60
+
+/**
+ * ShopAppointment Interface
+ *
+ * A drop-off booked for a claim. Stored on the claim.
+ */
+export interface ShopAppointment {
+  id: string                    // Unique appointment identifier
+  shopId: string                // Shop the vehicle is dropped off at
+  date: string                  // Drop-off date in the shop's time zone (YYYY-MM-DD)
+  time: string                  // Drop-off time, 24-hour "HH:MM"
+  repairDays: number            // Open days the vehicle occupies a bay, starting on the drop-off date
+  bookedAt: string              // When the appointment was booked (ISO string)
+  bookedBy: Actor               // Who booked it
+}
+
+/**
+ * AppointmentInput Interface
+ *
+ * Slot chosen by the user.
+ */
+export interface AppointmentInput {
+  shopId: string                // Shop to book at
+  date: string                  // Drop-off date (YYYY-MM-DD)
+  time: string                  // Drop-off time ("HH:MM")
+}
+
+/**
+ * ShopBooking Interface
+ *
+ * A claim with an appointment at a shop.
+ */
+export interface ShopBooking {
+  claim: Claim                  // Claim the appointment belongs to
+  appointment: ShopAppointment  // The claim's appointment
+}
+
+/**
+ * DropOffSlot Interface
+ *
+ * One drop-off time on a day, and whether it can still be booked.
+ */
+export interface DropOffSlot {
+  time: string                  // Drop-off time ("HH:MM")
+  booking?: ShopBooking         // Booking holding the slot (if any)
+  available: boolean            // Whether the slot can be booked
+  unavailableReason?: string    // Why it cannot be booked
+}
+
+/**
+ * DayAvailability Interface
+ *
+ * Slots and bay usage of a shop on one day.
+ */
+export interface DayAvailability {
+  date: string                  // Shop-local date (YYYY-MM-DD)
+  isOpen: boolean               // Whether the shop is open that day
+  slots: DropOffSlot[]          // Drop-off slots, earliest first
+  repairs: ShopBooking[]        // Vehicles in the shop's bays that day
+  bays: number                  // Bays the shop has
+}
+
+/**
+ * WaitEstimate Interface
+ *
+ * How long a customer waits for a shop, from its open capacity.
+ */
+export interface WaitEstimate {
+  nextSlot?: { date: string; time: string }  // Earliest bookable drop-off (none within the horizon)
+  waitDays: number | null       // Calendar days from today until the drop-off
+  readyDate?: string            // Last repair day for a drop-off in the next slot
+  repairDays: number            // Open days the repair takes
+}
+
+/**
+ * Get Repair Days
+ *
+ * @param claim - Claim to repair
+ * @returns Open days the repair keeps a bay busy, from the estimate's labor hours
+ */
+export const getRepairDays = (claim: Pick<Claim, 'estimate'>): number => {
+  if (!claim.estimate) return DEFAULT_REPAIR_DAYS
+  const laborHours = claim.estimate.lineItems
+    .filter(line => line.category === 'labor')
+    .reduce((sum, line) => sum + line.quantity, 0)
+  return Math.max(1, Math.ceil(laborHours / BAY_HOURS_PER_DAY))
+}
+
+/**
+ * Get Shop Bookings
+ *
+ * Appointments of rejected claims no longer hold a slot or a bay.
+ *
+ * @param shopId - Shop to look up
+ * @param claims - All claims
+ * @returns Claims with an appointment at the shop
+ */
+export const getShopBookings = (shopId: string, claims: Claim[]): ShopBooking[] =>
+  claims
+    .filter(claim => claim.appointment?.shopId === shopId && claim.status !== 'rejected')
+    .map(claim => ({ claim, appointment: claim.appointment as ShopAppointment }))
+
+/**
+ * Get Repair Dates
+ *
+ * @param shop - Repair shop
+ * @param date - Drop-off date (YYYY-MM-DD)
+ * @param repairDays - Open days the repair takes
+ * @returns The open dates the vehicle occupies a bay, starting on the drop-off date
+ */
+export const getRepairDates = (shop: RepairShop, date: string, repairDays: number): string[] => {
+  const dates: string[] = []
+  for (let offset = 0; dates.length < repairDays && offset <= repairDays + BOOKING_HORIZON_DAYS; offset++) {
+    const day = addDays(date, offset).date
+    if (getOpeningIntervals(shop, day).length > 0) dates.push(day)
+  }
+  return dates
+}
+
+/**
+ * Get Repairs on Date
+ *
+ * @param shop - Repair shop
+ * @param date - Shop-local date (YYYY-MM-DD)
+ * @param bookings - Bookings at the shop
+ * @returns Bookings whose vehicle is in a bay on that date
+ */
+export const getRepairsOnDate = (shop: RepairShop, date: string, bookings: ShopBooking[]): ShopBooking[] =>
+  bookings.filter(({ appointment }) =>
+    appointment.date <= date && getRepairDates(shop, appointment.date, appointment.repairDays).includes(date)
+  )
+
+/**
+ * Get Slot Times
+ *
+ * Slots start at the day's first opening time and repeat every slotMinutes
+ * while the shop is open, up to slotsPerDay slots.
+ *
+ * @param shop - Repair shop
+ * @param date - Shop-local date (YYYY-MM-DD)
+ * @returns Drop-off times ("HH:MM"), empty on closed days
+ */
+export const getSlotTimes = (shop: RepairShop, date: string): string[] => {
+  const intervals = getOpeningIntervals(shop, date)
+  if (intervals.length === 0) return []
+
+  const times: string[] = []
+  const lastClose = Math.max(...intervals.map(interval => toMinutes(interval.close)))
+  for (let minutes = toMinutes(intervals[0].open); minutes < lastClose && times.length < shop.capacity.slotsPerDay; minutes += shop.capacity.slotMinutes) {
+    const isOpen = intervals.some(interval => toMinutes(interval.open) <= minutes && minutes < toMinutes(interval.close))
+    if (isOpen) {
+      times.push(`${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`)
+    }
+  }
+  return times
+}
+
+/**
+ * Get Day Availability
+ *
+ * @param shop - Repair shop
+ * @param date - Shop-local date (YYYY-MM-DD)
+ * @param bookings - Bookings at the shop
+ * @param repairDays - Open days the repair to be booked takes
+ * @param now - Current time (defaults to now)
+ * @returns Slots of the day with whether each can be booked for the repair
+ */
+export const getDayAvailability = (
+  shop: RepairShop,
+  date: string,
+  bookings: ShopBooking[],
+  repairDays = 1,
+  now: Date = new Date()
+): DayAvailability => {
+  const local = getLocalTime(now, shop.timeZone)
+  const horizon = addDays(local.date, BOOKING_HORIZON_DAYS).date
+  const repairDates = getRepairDates(shop, date, repairDays)
+  const bayFull = repairDates.some(day => getRepairsOnDate(shop, day, bookings).length >= shop.capacity.bays)
+
+  const slots = getSlotTimes(shop, date).map(time => {
+    const booking = bookings.find(({ appointment }) => appointment.date === date && appointment.time === time)
+    let unavailableReason: string | undefined
+    if (booking) {
+      unavailableReason = 'Already booked'
+    } else if (date < local.date || (date === local.date && toMinutes(time) <= local.minutes)) {
+      unavailableReason = 'In the past'
+    } else if (date > horizon) {
+      unavailableReason = `More than ${BOOKING_HORIZON_DAYS} days ahead`
+    } else if (shop.status !== 'active') {
+      unavailableReason = 'Shop is suspended'
+    } else if (bayFull) {
+      unavailableReason = `No bay free for the whole ${repairDays}-day repair`
+    }
+    return { time, booking, available: !unavailableReason, unavailableReason }
+  })
+
+  return {
+    date,
+    isOpen: getOpeningIntervals(shop, date).length > 0,
+    slots,
+    repairs: getRepairsOnDate(shop, date, bookings),
+    bays: shop.capacity.bays
+  }
+}
+
+/**
+ * Get Wait Estimate
+ *
+ * @param shop - Repair shop
+ * @param bookings - Bookings at the shop
+ * @param repairDays - Open days the repair takes
+ * @param now - Current time (defaults to now)
+ * @returns Earliest bookable drop-off and the days until then
+ */
+export const getWaitEstimate = (
+  shop: RepairShop,
+  bookings: ShopBooking[],
+  repairDays = 1,
+  now: Date = new Date()
+): WaitEstimate => {
+  const today = getLocalTime(now, shop.timeZone).date
+  for (let offset = 0; offset <= BOOKING_HORIZON_DAYS; offset++) {
+    const date = addDays(today, offset).date
+    const slot = getDayAvailability(shop, date, bookings, repairDays, now).slots.find(candidate => candidate.available)
+    if (slot) {
+      const repairDates = getRepairDates(shop, date, repairDays)
+      return { nextSlot: { date, time: slot.time }, waitDays: offset, readyDate: repairDates[repairDates.length - 1], repairDays }
+    }
+  }
+  return { waitDays: null, repairDays }
+}
+
+/**
+ * Format Appointment Date
+ *
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @returns Display date (e.g., "Tue, Oct 20")
+ */
+export const formatAppointmentDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+
+/**
+ * Describe Wait
+ *
+ * @param wait - Wait estimate of a shop
+ * @returns Display text (e.g., "Next drop-off Tue, Oct 20 9:00 AM (in 2 days)")
+ */
+export const describeWait = (wait: WaitEstimate) => {
+  if (!wait.nextSlot || wait.waitDays === null) {
+    return `No drop-off slots in the next ${BOOKING_HORIZON_DAYS} days`
+  }
+  const when = wait.waitDays === 0 ? 'today' : wait.waitDays === 1 ? 'tomorrow' : `in ${wait.waitDays} days`
+  return `Next drop-off ${formatAppointmentDate(wait.nextSlot.date)} ${formatTime(wait.nextSlot.time)} (${when})`
+}
+
+/**
+ * Validate Booking
+ *
+ * @param shop - Shop to book at (undefined if it no longer exists)
+ * @param claim - Claim to book for
+ * @param input - Slot chosen by the user
+ * @param claims - All claims, for the shop's other bookings
+ * @param now - Current time (defaults to now)
+ * @returns Error message if the slot cannot be booked, null otherwise
+ */
+export const validateBooking = (
+  shop: RepairShop | undefined,
+  claim: Claim,
+  input: AppointmentInput,
+  claims: Claim[],
+  now: Date = new Date()
+): string | null => {
+  if (!shop) return 'Repair shop not found'
+  if (shop.status !== 'active') return `${shop.name} is suspended and not taking new bookings`
+  if (claim.status === 'closed' || claim.status === 'rejected') {
+    return 'Closed and rejected claims cannot be booked'
+  }
+
+  // Rebooking frees the claim's own current slot
+  const bookings = getShopBookings(shop.id, claims.filter(other => other.id !== claim.id))
+  const slot = getDayAvailability(shop, input.date, bookings, getRepairDays(claim), now).slots
+    .find(candidate => candidate.time === input.time)
+  if (!slot) return `${shop.name} has no drop-off slot at that time`
+  if (!slot.available) return slot.unavailableReason || 'That slot cannot be booked'
+  return null
+}
+
+/**
+ * Create Appointment
+ *
+ * @param claim - Claim to book for
+ * @param input - Validated slot
+ * @param actor - User booking the appointment
+ * @returns Appointment to store on the claim
+ */
+export const createAppointment = (claim: Claim, input: AppointmentInput, actor: Actor): ShopAppointment => ({
+  id: `appt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  shopId: input.shopId,
+  date: input.date,
+  time: input.time,
+  repairDays: getRepairDays(claim),
+  bookedAt: new Date().toISOString(),
+  bookedBy: actor
+})
@@ -0,0 +1,527 @@
+/**
+ * shopEstimates.ts
+ *
+ * This file handles the repair shop's own itemized estimate for a claim and
+ * compares it with the AI estimate. Shops enter their lines through the shop
+ * estimate form or import them from a CSV/JSON file; each line can be tied to
+ * one of the claim's damage assessments so it lines up against the AI line
+ * for the same damage and category. The adjuster then accepts, negotiates or
+ * rejects each shop line.
+ *
+ * Key Features:
+ * - Shop estimate with labor, parts and paint/material lines, taxed at the estimate rates
+ * - CSV/JSON import with per-row errors
+ * - Line-by-line variance against the AI estimate, flagging lines missing
+ *   from either side and cost deltas above the variance threshold
+ * - Accept / negotiate / reject decision per shop line, with the agreed total
+ * - Line validation and pricing shared with supplements (see supplements.ts)
+ *
+ * Only one shop estimate is kept per claim; resubmitting replaces it and
+ * clears the decisions made on the previous one.
+ */
+
+import type { Claim, Actor } from '../context/ClaimsContext'
+import type { AppUser } from '../data/users'
+import { EstimateLineCategory, estimateCategoryLabels, loadEstimateRates } from './estimateEngine'
+import { parseCsv } from './ticketSources'
+
+// A line's delta is flagged when it is at least this many dollars...
+export const VARIANCE_THRESHOLD_AMOUNT = 50
+
+// ...and at least this share of the AI amount
+export const VARIANCE_THRESHOLD_PERCENT = 10
+
+export type ShopEstimateSource = 'form' | 'file'
+
+export type LineDecisionStatus = 'accepted' | 'negotiated' | 'rejected'
+
+export const lineDecisionLabels: Record<LineDecisionStatus, string> = {
+  accepted: 'Accepted',
+  negotiated: 'Negotiated',
+  rejected: 'Rejected'
+}
+
+/**
+ * LineDecision Interface
+ *
+ * Adjuster's decision on one shop estimate line.
+ */
+export interface LineDecision {
+  status: LineDecisionStatus    // Accepted, negotiated or rejected
+  agreedAmount: number          // Amount agreed for the line (shop amount, negotiated amount or 0)
+  note?: string                 // Reason for the decision (required to negotiate or reject)
+  actor: Actor                  // Who decided
+  at: string                    // When the decision was made (ISO string)
+}
+
+/**
+ * ItemizedLine Interface
+ *
+ * One priced line entered by a shop or adjuster (shop estimates and
+ * supplements).
+ */
+export interface ItemizedLine {
+  id: string                    // Unique line identifier
+  assessmentId?: string         // Damage assessment the line repairs (optional)
+  category: EstimateLineCategory  // Labor, parts or paint/materials
+  description: string           // What the line covers
+  quantity: number              // Hours for labor/materials, count for parts
+  unitPrice: number             // Price per unit in dollars
+  amount: number                // quantity x unitPrice, rounded to cents
+}
+
+/**
+ * ShopEstimateLine Interface
+ *
+ * One line of a shop's estimate.
+ */
+export interface ShopEstimateLine extends ItemizedLine {
+  decision?: LineDecision       // Adjuster's decision (absent while pending)
+}
+
+/**
+ * ShopEstimate Interface
+ *
+ * Itemized estimate submitted by the claim's repair shop. Stored on the claim.
+ */
+export interface ShopEstimate {
+  id: string                    // Unique estimate identifier
+  shopId: string                // Shop that submitted the estimate
+  source: ShopEstimateSource    // Entered through the form or imported from a file
+  fileName?: string             // Imported file name (file imports only)
+  notes?: string                // Shop's notes on the estimate (optional)
+  lines: ShopEstimateLine[]     // Estimate lines
+  subtotal: number              // Sum of all lines before tax
+  tax: number                   // Sales tax on the taxable categories
+  total: number                 // Subtotal plus tax
+  submittedAt: string           // When the estimate was submitted (ISO string)
+  submittedBy: Actor            // Who submitted it
+}
+
+// Line fields entered by the shop or adjuster
+export type ShopEstimateLineInput = Pick<ItemizedLine, 'assessmentId' | 'category' | 'description' | 'quantity' | 'unitPrice'>
+
+/**
+ * PricedLines Interface
+ *
+ * Entered lines with their amounts and totals.
+ */
+export interface PricedLines {
+  lines: ItemizedLine[]         // Lines with amounts
+  subtotal: number              // Sum of all lines before tax
+  tax: number                   // Sales tax on the taxable categories
+  total: number                 // Subtotal plus tax
+}
+
+/**
+ * ShopEstimateInput Interface
+ *
+ * Estimate entered through the form or read from a file.
+ */
+export interface ShopEstimateInput {
+  lines: ShopEstimateLineInput[]  // Lines to submit
+  source: ShopEstimateSource    // Where the lines came from
+  fileName?: string             // Imported file name (file imports only)
+  notes?: string                // Shop's notes (optional)
+}
+
+/**
+ * LineDecisionInput Interface
+ *
+ * Decision entered by the adjuster.
+ */
+export interface LineDecisionInput {
+  status: LineDecisionStatus    // Decision
+  agreedAmount?: number         // Negotiated amount (negotiated only)
+  note?: string                 // Reason (required to negotiate or reject)
+}
+
+/**
+ * AiEstimateLine Interface
+ *
+ * Line of the AI estimate as compared against the shop's lines.
+ */
+export interface AiEstimateLine {
+  id: string                    // Estimate line or assessment ID
+  assessmentId: string          // Damage assessment the line belongs to
+  category: EstimateLineCategory  // Labor, parts or paint/materials
+  description: string           // What the line covers
+  amount: number                // Amount in dollars
+}
+
+export type VarianceFlag = 'missing_from_shop' | 'not_in_ai_estimate' | 'over_threshold'
+
+export const varianceFlagLabels: Record<VarianceFlag, string> = {
+  missing_from_shop: 'Missing from shop estimate',
+  not_in_ai_estimate: 'Not in AI estimate',
+  over_threshold: 'Cost delta above threshold'
+}
+
+/**
+ * VarianceRow Interface
+ *
+ * An AI line and the shop line matched to it, either of which may be missing.
+ */
+export interface VarianceRow {
+  aiLine?: AiEstimateLine       // AI estimate line (absent when only the shop has the item)
+  shopLine?: ShopEstimateLine   // Shop estimate line (absent when only the AI has the item)
+  delta: number                 // Shop amount minus AI amount
+  deltaPercent: number | null   // Delta as a percent of the AI amount (null without an AI line)
+  flag?: VarianceFlag           // Why the row is highlighted (absent when within the threshold)
+}
+
+/**
+ * ShopEstimateSummary Interface
+ *
+ * Totals of a shop estimate and its decisions.
+ */
+export interface ShopEstimateSummary {
+  aiTotal: number               // AI estimate total
+  shopTotal: number             // Shop estimate total
+  agreedSubtotal: number        // Agreed amounts of decided lines, plus pending lines at the shop amount
+  agreedTotal: number           // Agreed subtotal plus tax
+  pendingCount: number          // Lines without a decision
+  flaggedCount: number          // Rows highlighted in the variance view
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+// Column names accepted in imported files for each line field
+const importColumns: Record<keyof ShopEstimateLineInput, string[]> = {
+  assessmentId: ['damage', 'assessment', 'assessment_id', 'assessmentid'],
+  category: ['category', 'type'],
+  description: ['description', 'item', 'operation'],
+  quantity: ['quantity', 'qty', 'hours'],
+  unitPrice: ['unit_price', 'unitprice', 'price', 'rate']
+}
+
+/**
+ * Get AI Estimate Lines
+ *
+ * @param claim - Claim to compare
+ * @returns Lines of the claim's itemized estimate, or one labor line per
+ *          damage assessment for claims priced before itemized estimates
+ */
+export const getAiEstimateLines = (claim: Claim): AiEstimateLine[] =>
+  claim.estimate
+    ? claim.estimate.lineItems.map(line => ({
+        id: line.id,
+        assessmentId: line.assessmentId,
+        category: line.category,
+        description: line.description,
+        amount: line.amount
+      }))
+    : claim.damageAssessments.map(assessment => ({
+        id: assessment.id,
+        assessmentId: assessment.id,
+        category: 'labor',
+        description: `${assessment.type} – ${assessment.location}`,
+        amount: assessment.estimatedCost
+      }))
+
+/**
+ * Validate Shop Estimate
+ *
+ * @param claim - Claim the estimate is for
+ * @param input - Estimate entered or imported
+ * @param user - User submitting the estimate
+ * @returns Validation errors keyed by field ("lines", "lines.<index>.<field>" or
+ *          "claim"); empty when valid
+ */
+export const validateShopEstimate = (claim: Claim, input: ShopEstimateInput, user: AppUser): Record<string, string> => {
+  const errors: Record<string, string> = {}
+
+  if (claim.status === 'closed' || claim.status === 'rejected') {
+    errors.claim = 'Closed and rejected claims do not take shop estimates'
+  } else if (!claim.repairShopId) {
+    errors.claim = 'Assign a repair shop before submitting its estimate'
+  } else if (user.shopId && user.shopId !== claim.repairShopId) {
+    errors.claim = 'This claim is assigned to another repair shop'
+  }
+
+  return { ...errors, ...validateEstimateLines(claim, input.lines) }
+}
+
+/**
+ * Validate Estimate Lines
+ *
+ * @param claim - Claim the lines are for
+ * @param lines - Lines entered or imported
+ * @returns Validation errors keyed by "lines" or "lines.<index>.<field>";
+ *          empty when valid
+ */
+export const validateEstimateLines = (claim: Claim, lines: ShopEstimateLineInput[]): Record<string, string> => {
+  const errors: Record<string, string> = {}
+
+  if (lines.length === 0) {
+    errors.lines = 'Add at least one line'
+  }
+  lines.forEach((line, index) => {
+    if (!line.description.trim()) {
+      errors[`lines.${index}.description`] = 'Description is required'
+    }
+    if (!(line.category in estimateCategoryLabels)) {
+      errors[`lines.${index}.category`] = 'Category must be labor, parts or paint_materials'
+    }
+    if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+      errors[`lines.${index}.quantity`] = 'Quantity must be greater than zero'
+    }
+    if (!Number.isFinite(line.unitPrice) || line.unitPrice < 0) {
+      errors[`lines.${index}.unitPrice`] = 'Unit price cannot be negative'
+    }
+    if (line.assessmentId && !claim.damageAssessments.some(assessment => assessment.id === line.assessmentId)) {
+      errors[`lines.${index}.assessmentId`] = 'Damage not found on this claim'
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Price Estimate Lines
+ *
+ * @param inputs - Validated lines
+ * @returns Lines with amounts, tax (at the saved estimate rates) and total
+ */
+export const priceEstimateLines = (inputs: ShopEstimateLineInput[]): PricedLines => {
+  const rates = loadEstimateRates()
+  const lines = inputs.map((line, index) => ({
+    id: `line_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 5)}`,
+    assessmentId: line.assessmentId || undefined,
+    category: line.category,
+    description: line.description.trim(),
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    amount: roundCents(line.quantity * line.unitPrice)
+  }))
+  const subtotal = roundCents(lines.reduce((sum, line) => sum + line.amount, 0))
+  const taxable = lines
+    .filter(line => rates.taxableCategories.includes(line.category))
+    .reduce((sum, line) => sum + line.amount, 0)
+  const tax = roundCents(taxable * rates.taxRatePercent / 100)
+
+  return { lines, subtotal, tax, total: roundCents(subtotal + tax) }
+}
+
+/**
+ * Create Shop Estimate
+ *
+ * @param claim - Claim the estimate is for
+ * @param input - Validated estimate
+ * @param actor - User submitting the estimate
+ * @returns Estimate with amounts, tax (at the saved estimate rates) and total
+ */
+export const createShopEstimate = (claim: Claim, input: ShopEstimateInput, actor: Actor): ShopEstimate => ({
+  id: `shopest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  shopId: claim.repairShopId || '',
+  source: input.source,
+  fileName: input.fileName,
+  notes: input.notes?.trim() || undefined,
+  ...priceEstimateLines(input.lines),
+  submittedAt: new Date().toISOString(),
+  submittedBy: actor
+})
+
+/**
+ * Parse Shop Estimate File
+ *
+ * Reads estimate lines from a CSV file with a header row or a JSON array of
+ * lines (or { lines: [...] }). Columns are matched by name: category,
+ * description, quantity (or qty/hours), unit_price (or price/rate) and an
+ * optional damage column naming the assessment by ID or location.
+ *
+ * @param text - File contents
+ * @param fileName - File name, used to tell CSV from JSON
+ * @param claim - Claim the estimate is for, whose damage the lines are matched to
+ * @returns Lines read from the file
+ * @throws Error if the file cannot be parsed or has no lines
+ */
+export const parseShopEstimateFile = (text: string, fileName: string, claim: Claim): ShopEstimateLineInput[] => {
+  let records: Record<string, unknown>[]
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    records = parseCsv(text)
+  } else {
+    const payload = JSON.parse(text)
+    records = Array.isArray(payload) ? payload : payload?.lines
+    if (!Array.isArray(records)) {
+      throw new Error(`${fileName} does not contain an array of estimate lines`)
+    }
+  }
+  if (records.length === 0) {
+    throw new Error(`${fileName} has no estimate lines`)
+  }
+
+  return records.map(record => {
+    const normalized = Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key.trim().toLowerCase().replace(/[\s-]+/g, '_'), value])
+    )
+    const read = (field: keyof ShopEstimateLineInput) => {
+      const column = importColumns[field].find(name => normalized[name] !== undefined && normalized[name] !== '')
+      return column ? String(normalized[column]).trim() : ''
+    }
+
+    const damage = read('assessmentId').toLowerCase()
+    const assessment = damage
+      ? claim.damageAssessments.find(candidate =>
+          candidate.id.toLowerCase() === damage || candidate.location.toLowerCase() === damage
+        )
+      : undefined
+    const category = read('category').toLowerCase().replace(/[\s&/]+/g, '_').replace('paint_and_materials', 'paint_materials')
+
+    return {
+      assessmentId: assessment?.id,
+      category: (category === 'paint' ? 'paint_materials' : category) as EstimateLineCategory,
+      description: read('description'),
+      quantity: parseFloat(read('quantity').replace(/[$,]/g, '')),
+      unitPrice: parseFloat(read('unitPrice').replace(/[$,]/g, ''))
+    }
+  })
+}
+
+/**
+ * Get Variance Flag
+ *
+ * @param aiLine - AI estimate line (if any)
+ * @param shopLine - Shop estimate line (if any)
+ * @param delta - Shop amount minus AI amount
+ * @returns Why the row should be highlighted, if it should
+ */
+const getVarianceFlag = (aiLine: AiEstimateLine | undefined, shopLine: ShopEstimateLine | undefined, delta: number) => {
+  if (!shopLine) return 'missing_from_shop'
+  if (!aiLine) return 'not_in_ai_estimate'
+  const exceedsAmount = Math.abs(delta) >= VARIANCE_THRESHOLD_AMOUNT
+  const exceedsPercent = aiLine.amount === 0 || Math.abs(delta) / aiLine.amount * 100 >= VARIANCE_THRESHOLD_PERCENT
+  return exceedsAmount && exceedsPercent ? 'over_threshold' : undefined
+}
+
+/**
+ * Compare Estimates
+ *
+ * Matches each shop line to the first unmatched AI line for the same damage
+ * and category. Shop lines not tied to a damage assessment are matched on
+ * category and description instead.
+ *
+ * @param claim - Claim with an AI estimate
+ * @param shopEstimate - Shop's estimate for the claim
+ * @returns Rows grouped by damage assessment in AI estimate order, with
+ *          shop-only lines last
+ */
+export const compareEstimates = (claim: Claim, shopEstimate: ShopEstimate): VarianceRow[] => {
+  const aiLines = getAiEstimateLines(claim)
+  const matched = new Map<string, ShopEstimateLine>()
+  const unmatchedShopLines: ShopEstimateLine[] = []
+
+  shopEstimate.lines.forEach(shopLine => {
+    const aiLine = aiLines.find(candidate =>
+      !matched.has(candidate.id) &&
+      candidate.category === shopLine.category &&
+      (shopLine.assessmentId
+        ? candidate.assessmentId === shopLine.assessmentId
+        : candidate.description.toLowerCase() === shopLine.description.toLowerCase())
+    )
+    if (aiLine) {
+      matched.set(aiLine.id, shopLine)
+    } else {
+      unmatchedShopLines.push(shopLine)
+    }
+  })
+
+  const row = (aiLine?: AiEstimateLine, shopLine?: ShopEstimateLine): VarianceRow => {
+    const delta = roundCents((shopLine?.amount || 0) - (aiLine?.amount || 0))
+    return {
+      aiLine,
+      shopLine,
+      delta,
+      deltaPercent: aiLine && aiLine.amount > 0 ? Math.round(delta / aiLine.amount * 100) : null,
+      flag: getVarianceFlag(aiLine, shopLine, delta)
+    }
+  }
+
+  return [
+    ...aiLines.map(aiLine => row(aiLine, matched.get(aiLine.id))),
+    ...unmatchedShopLines.map(shopLine => row(undefined, shopLine))
+  ]
+}
+
+/**
+ * Validate Line Decision
+ *
+ * @param claim - Claim whose shop estimate is reviewed
+ * @param lineId - Shop estimate line decided on
+ * @param input - Decision entered by the adjuster
+ * @returns Error message if the decision is not allowed, null otherwise
+ */
+export const validateLineDecision = (claim: Claim, lineId: string, input: LineDecisionInput): string | null => {
+  if (!claim.shopEstimate) return 'The claim has no shop estimate'
+  if (claim.status === 'closed' || claim.status === 'rejected') return 'Closed and rejected claims cannot be changed'
+  if (!claim.shopEstimate.lines.some(line => line.id === lineId)) return 'Estimate line not found'
+  if (input.status !== 'accepted' && !input.note?.trim()) {
+    return `Give a reason to ${input.status === 'negotiated' ? 'negotiate' : 'reject'} the line`
+  }
+  if (input.status === 'negotiated' && (input.agreedAmount === undefined || !Number.isFinite(input.agreedAmount) || input.agreedAmount < 0)) {
+    return 'Enter the negotiated amount'
+  }
+  return null
+}
+
+/**
+ * Apply Line Decision
+ *
+ * @param shopEstimate - Shop estimate being reviewed
+ * @param lineId - Line decided on
+ * @param input - Validated decision
+ * @param actor - Adjuster deciding
+ * @returns Estimate with the decision recorded on the line
+ */
+export const applyLineDecision = (
+  shopEstimate: ShopEstimate,
+  lineId: string,
+  input: LineDecisionInput,
+  actor: Actor
+): ShopEstimate => ({
+  ...shopEstimate,
+  lines: shopEstimate.lines.map(line =>
+    line.id === lineId
+      ? {
+          ...line,
+          decision: {
+            status: input.status,
+            agreedAmount: input.status === 'accepted'
+              ? line.amount
+              : input.status === 'negotiated' ? roundCents(input.agreedAmount || 0) : 0,
+            note: input.note?.trim() || undefined,
+            actor,
+            at: new Date().toISOString()
+          }
+        }
+      : line
+  )
+})
+
+/**
+ * Get Shop Estimate Summary
+ *
+ * @param claim - Claim with an AI estimate
+ * @param shopEstimate - Shop's estimate for the claim
+ * @returns Totals of both estimates and of the agreed amounts
+ */
+export const getShopEstimateSummary = (claim: Claim, shopEstimate: ShopEstimate): ShopEstimateSummary => {
+  const rates = loadEstimateRates()
+  const agreed = shopEstimate.lines.map(line => ({
+    category: line.category,
+    amount: line.decision ? line.decision.agreedAmount : line.amount
+  }))
+  const agreedSubtotal = roundCents(agreed.reduce((sum, line) => sum + line.amount, 0))
+  const agreedTaxable = agreed
+    .filter(line => rates.taxableCategories.includes(line.category))
+    .reduce((sum, line) => sum + line.amount, 0)
+
+  return {
+    aiTotal: claim.estimate?.total ?? claim.totalEstimatedCost,
+    shopTotal: shopEstimate.total,
+    agreedSubtotal,
+    agreedTotal: roundCents(agreedSubtotal + agreedTaxable * rates.taxRatePercent / 100),
+    pendingCount: shopEstimate.lines.filter(line => !line.decision).length,
+    flaggedCount: compareEstimates(claim, shopEstimate).filter(row => row.flag).length
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * shopHours.ts
+ *
+ * This file works out whether a repair shop is open from its structured
+ * weekly hours. Hours are in the shop's own time zone, so the current time
+ * is converted to shop-local time before it is compared with them.
+ *
+ * Key Features:
+ * - Open-now check against the weekday's opening intervals
+ * - Holiday closures that override the weekly hours
+ * - Closing-soon warning within CLOSING_SOON_MINUTES of closing
+ * - Next opening time, looking up to two weeks ahead
+ * - Display helpers for times, daily hours and the open status
+ * - Shop-local date helpers shared with appointment booking
+ */
+
+import { RepairShop, OpeningInterval, HolidayClosure, Weekday, weekdays, weekdayLabels } from '../data/repairShops'
+
+// A shop closing within this many minutes counts as closing soon
+export const CLOSING_SOON_MINUTES = 60
+
+// How far ahead to look for the next opening
+const LOOKAHEAD_DAYS = 14
+
+/**
+ * ShopOpenStatus Interface
+ *
+ * Whether a shop is open at a given moment and when that changes.
+ */
+export interface ShopOpenStatus {
+  isOpen: boolean               // Whether the shop is open now
+  closingSoon: boolean          // Open, but closing within CLOSING_SOON_MINUTES
+  closesAt?: string             // Closing time of the current interval ("HH:MM", when open)
+  holiday?: HolidayClosure      // Holiday the shop is closed for today (if any)
+  nextOpening?: {               // Next time the shop opens (when closed)
+    date: string                // Shop-local date (YYYY-MM-DD)
+    weekday: Weekday            // Weekday of that date
+    time: string                // Opening time ("HH:MM")
+  }
+}
+
+/**
+ * To Minutes
+ *
+ * @param time - 24-hour "HH:MM" time
+ * @returns Minutes since midnight
+ */
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Get Local Time
+ *
+ * @param now - Moment to convert
+ * @param timeZone - IANA time zone
+ * @returns Date (YYYY-MM-DD), weekday and minutes since midnight in that time zone
+ */
+export const getLocalTime = (now: Date, timeZone: string) => {
+  const parts: Record<string, string> = {}
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now).forEach(part => {
+    parts[part.type] = part.value
+  })
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`
+  return {
+    date,
+    weekday: weekdays[new Date(`${date}T00:00:00Z`).getUTCDay()],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute)
+  }
+}
+
+/**
+ * Add Days
+ *
+ * @param date - Calendar date (YYYY-MM-DD)
+ * @param days - Days to add
+ * @returns The later date and its weekday
+ */
+export const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return { date: next.toISOString().slice(0, 10), weekday: weekdays[next.getUTCDay()] }
+}
+
+/**
+ * Get Opening Intervals
+ *
+ * @param shop - Repair shop
+ * @param date - Shop-local date (YYYY-MM-DD)
+ * @returns Opening intervals on that date, earliest first (empty on closed days and holidays)
+ */
+export const getOpeningIntervals = (shop: RepairShop, date: string): OpeningInterval[] => {
+  if (shop.holidayClosures.some(closure => closure.date === date)) return []
+  const weekday = weekdays[new Date(`${date}T00:00:00Z`).getUTCDay()]
+  return [...shop.hours[weekday]].sort((a, b) => toMinutes(a.open) - toMinutes(b.open))
+}
+
+/**
+ * Get Shop Open Status
+ *
+ * @param shop - Repair shop
+ * @param now - Moment to check (defaults to the current time)
+ * @returns Open status with the closing time or next opening time
+ */
+export const getShopOpenStatus = (shop: RepairShop, now: Date = new Date()): ShopOpenStatus => {
+  const local = getLocalTime(now, shop.timeZone)
+  const holiday = shop.holidayClosures.find(closure => closure.date === local.date)
+
+  const current = holiday
+    ? undefined
+    : shop.hours[local.weekday].find(interval =>
+        toMinutes(interval.open) <= local.minutes && local.minutes < toMinutes(interval.close)
+      )
+  if (current) {
+    return {
+      isOpen: true,
+      closingSoon: toMinutes(current.close) - local.minutes <= CLOSING_SOON_MINUTES,
+      closesAt: current.close
+    }
+  }
+
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = offset === 0 ? local : addDays(local.date, offset)
+    if (shop.holidayClosures.some(closure => closure.date === day.date)) continue
+
+    const opening = [...shop.hours[day.weekday]]
+      .sort((a, b) => toMinutes(a.open) - toMinutes(b.open))
+      .find(interval => offset > 0 || toMinutes(interval.open) > local.minutes)
+    if (opening) {
+      return {
+        isOpen: false,
+        closingSoon: false,
+        holiday,
+        nextOpening: { date: day.date, weekday: day.weekday, time: opening.open }
+      }
+    }
+  }
+
+  return { isOpen: false, closingSoon: false, holiday }
+}
+
+/**
+ * Format Time
+ *
+ * @param time - 24-hour "HH:MM" time
+ * @returns 12-hour display time (e.g., "6:00 PM")
+ */
+export const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  const suffix = hours < 12 ? 'AM' : 'PM'
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`
+}
+
+/**
+ * Format Daily Hours
+ *
+ * @param intervals - Opening intervals of one weekday
+ * @returns Display hours (e.g., "8:00 AM - 6:00 PM"), or "Closed"
+ */
+export const formatDailyHours = (intervals: OpeningInterval[]) =>
+  intervals.length === 0
+    ? 'Closed'
+    : intervals.map(interval => `${formatTime(interval.open)} - ${formatTime(interval.close)}`).join(', ')
+
+/**
+ * Get Weekly Hours
+ *
+ * @param shop - Repair shop
+ * @returns Display hours per weekday, Monday first
+ */
+export const getWeeklyHours = (shop: RepairShop) =>
+  [...weekdays.slice(1), weekdays[0]].map(weekday => ({
+    weekday,
+    label: weekdayLabels[weekday],
+    hours: formatDailyHours(shop.hours[weekday])
+  }))
+
+/**
+ * Describe Open Status
+ *
+ * @param status - Open status of a shop
+ * @returns Short label (e.g., "Open now", "Closing soon", "Closed") and a
+ *          detail line (e.g., "Closes 6:00 PM", "Opens Monday 8:00 AM")
+ */
+export const describeOpenStatus = (status: ShopOpenStatus) => {
+  if (status.isOpen) {
+    return {
+      label: status.closingSoon ? 'Closing soon' : 'Open now',
+      detail: status.closesAt ? `Closes ${formatTime(status.closesAt)}` : ''
+    }
+  }
+
+  const opens = status.nextOpening
+    ? `Opens ${weekdayLabels[status.nextOpening.weekday]} ${formatTime(status.nextOpening.time)}`
+    : 'No opening hours in the next two weeks'
+  return {
+    label: status.holiday ? `Closed for ${status.holiday.name}` : 'Closed',
+    detail: opens
+  }
+}
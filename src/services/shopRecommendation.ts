@@ -0,0 +1,236 @@
+/**
+ * shopRecommendation.ts
+ *
+ * This file ranks repair shops for a claim. Each shop is scored on how well
+ * its specialties and certifications fit the claim's damage and on how
+ * convenient it is for the customer, and every factor keeps a short
+ * explanation so adjusters can see why a shop ranks where it does.
+ *
+ * Key Features:
+ * - Damage type -> shop specialty matching
+ * - Certification requirements for severe and structural damage
+ * - Distance, performance, open status and wait time scoring
+ * - Ranked list with per-factor points and explanations
+ * - Only active shops are recommended; suspended shops take no new claims
+ *
+ * Factors (maximum points):
+ * - specialty:     35  share of the claim's damage types the shop specializes in
+ * - certification: 15  Gold Class certification for severe or structural damage
+ * - distance:      20  closer to the customer's ZIP is better, nothing beyond MAX_DISTANCE_MILES
+ * - performance:   15  shop scorecard from claim outcomes, or the advertised rating until
+ *                      the shop has enough claims for a scorecard
+ * - wait_time:     10  earlier next drop-off slot with a bay free for the repair is better
+ * - open_status:    5  shop is currently open
+ */
+
+import type { Claim, DamageAssessment } from '../context/ClaimsContext'
+import type { RepairShop } from '../data/repairShops'
+import { getActiveRepairShops } from './shopStore'
+import { getCustomerLocation, getShopDistance } from './geoDistance'
+import { getShopOpenStatus, describeOpenStatus } from './shopHours'
+import { WaitEstimate, getShopBookings, getRepairDays, getWaitEstimate, describeWait } from './shopBooking'
+import { ShopScorecard, getShopScorecard } from './shopScorecards'
+
+// Shops this far away or further get no distance points
+const MAX_DISTANCE_MILES = 25
+
+// Waits this long or longer get no wait time points
+const MAX_WAIT_DAYS = 14
+
+export type RecommendationFactorType =
+  | 'specialty'
+  | 'certification'
+  | 'distance'
+  | 'performance'
+  | 'wait_time'
+  | 'open_status'
+
+/**
+ * RecommendationFactor Interface
+ *
+ * Points a shop earned for one factor, with the reason.
+ */
+export interface RecommendationFactor {
+  type: RecommendationFactorType  // Which factor was scored
+  label: string                 // Display name (e.g., "Specialty match")
+  points: number                // Points earned
+  maxPoints: number             // Points available for the factor
+  detail: string                // Why the shop earned these points
+}
+
+/**
+ * ShopRecommendation Interface
+ *
+ * One ranked shop with its score breakdown.
+ */
+export interface ShopRecommendation {
+  shop: RepairShop              // Shop being recommended
+  distance: number | null       // Miles from the customer (null when their ZIP is unknown)
+  score: number                 // Total points (0-100)
+  rank: number                  // Position in the ranking (1 = best)
+  factors: RecommendationFactor[]  // Points per factor, in the order listed above
+}
+
+// Claim fields the ranking uses (new claims have no ID yet)
+export type RecommendationClaim = Pick<Claim, 'damageAssessments' | 'customerZip' | 'estimate'> & { id?: string }
+
+// Shop specialties that cover each damage type
+const damageSpecialties: Record<DamageAssessment['type'], string[]> = {
+  scratch: ['Scratch Removal', 'Paint Touch-ups', 'Paint & Body', 'Quick Repairs'],
+  dent: ['Minor Dents', 'Minor Collisions', 'Collision Repair', 'Paint & Body'],
+  structural: ['Frame Straightening', 'Collision Repair', 'Metal Fabrication'],
+  glass: ['Collision Repair', 'Quick Repairs', 'Same Day Repairs'],
+  paint: ['Paint & Body', 'Custom Paint', 'Paint Touch-ups']
+}
+
+// Specialties of shops set up for small jobs rather than major repairs
+const lightRepairSpecialties = ['Quick Repairs', 'Minor Dents', 'Same Day Repairs', 'Minor Collisions']
+
+/**
+ * Score Shop
+ *
+ * @param shop - Shop to score
+ * @param assessments - Damage assessments of the claim
+ * @param distance - Miles from the customer, or null if unknown
+ * @param wait - Wait for the shop's next drop-off slot
+ * @param scorecard - Shop's performance on its claims
+ * @returns Points per factor with explanations
+ */
+const scoreShop = (
+  shop: RepairShop,
+  assessments: DamageAssessment[],
+  distance: number | null,
+  wait: WaitEstimate,
+  scorecard: ShopScorecard
+): RecommendationFactor[] => {
+  const factors: RecommendationFactor[] = []
+
+  // Specialty match
+  const damageTypes = Array.from(new Set(assessments.map(assessment => assessment.type)))
+  const matchedTypes = damageTypes.filter(type =>
+    damageSpecialties[type].some(specialty => shop.specialties.includes(specialty))
+  )
+  const needsMajorRepair = assessments.some(assessment =>
+    assessment.severity === 'severe' || assessment.type === 'structural'
+  )
+  const isLightRepairShop = shop.specialties.some(specialty => lightRepairSpecialties.includes(specialty))
+  let specialtyPoints = damageTypes.length > 0 ? Math.round(35 * matchedTypes.length / damageTypes.length) : 18
+  let specialtyDetail = damageTypes.length > 0
+    ? `Covers ${matchedTypes.length} of ${damageTypes.length} damage type(s)` +
+      (matchedTypes.length > 0 ? ` (${matchedTypes.join(', ')})` : '')
+    : 'No damage assessed yet'
+  if (needsMajorRepair && isLightRepairShop) {
+    specialtyPoints = Math.round(specialtyPoints / 2)
+    specialtyDetail += '; set up for quick, minor repairs rather than severe damage'
+  }
+  factors.push({ type: 'specialty', label: 'Specialty match', points: specialtyPoints, maxPoints: 35, detail: specialtyDetail })
+
+  // Certification
+  const isGoldClass = shop.certifications.some(certification => /gold|master/i.test(certification))
+  factors.push(needsMajorRepair
+    ? {
+        type: 'certification',
+        label: 'Certification',
+        points: isGoldClass ? 15 : 0,
+        maxPoints: 15,
+        detail: isGoldClass
+          ? `${shop.certifications.join(', ')} for severe or structural damage`
+          : 'Severe or structural damage needs an I-CAR Gold Class shop'
+      }
+    : {
+        type: 'certification',
+        label: 'Certification',
+        points: isGoldClass ? 15 : 12,
+        maxPoints: 15,
+        detail: shop.certifications.join(', ') || 'No certifications listed'
+      })
+
+  // Distance
+  factors.push({
+    type: 'distance',
+    label: 'Distance',
+    points: distance === null ? 10 : Math.round(20 * Math.max(0, 1 - distance / MAX_DISTANCE_MILES)),
+    maxPoints: 20,
+    detail: distance === null ? "Customer's ZIP code is unknown" : `${distance} mi from the customer's ZIP code`
+  })
+
+  // Performance
+  factors.push(scorecard.score !== null
+    ? {
+        type: 'performance',
+        label: 'Performance',
+        points: Math.round(15 * scorecard.score / 100),
+        maxPoints: 15,
+        detail: `Scorecard ${scorecard.score}/100 from ${scorecard.measuredCount} completed claim(s)`
+      }
+    : {
+        type: 'performance',
+        label: 'Performance',
+        points: Math.round(15 * shop.rating / 5),
+        maxPoints: 15,
+        detail: `Too few completed claims for a scorecard; ${shop.rating} stars from ${shop.reviewCount} reviews`
+      })
+
+  // Wait time
+  factors.push({
+    type: 'wait_time',
+    label: 'Wait time',
+    points: wait.waitDays === null ? 0 : Math.round(10 * Math.max(0, 1 - wait.waitDays / MAX_WAIT_DAYS)),
+    maxPoints: 10,
+    detail: describeWait(wait)
+  })
+
+  // Open status
+  const openStatus = getShopOpenStatus(shop)
+  const { label: openLabel, detail: openDetail } = describeOpenStatus(openStatus)
+  factors.push({
+    type: 'open_status',
+    label: 'Open now',
+    points: openStatus.isOpen ? 5 : 0,
+    maxPoints: 5,
+    detail: `${openLabel} (${openDetail})`
+  })
+
+  return factors
+}
+
+/**
+ * Recommend Shops
+ *
+ * @param claim - Claim (or claim being created) to find a shop for
+ * @param shops - Shops to rank (defaults to every active repair shop)
+ * @param claims - All claims, whose appointments take up shop capacity and
+ *                 whose outcomes make up the shop scorecards
+ * @returns Shops ranked best first. Ties go to the higher-rated shop.
+ */
+export const recommendShops = (
+  claim: RecommendationClaim,
+  shops: RepairShop[] = getActiveRepairShops(),
+  claims: Claim[] = []
+): ShopRecommendation[] => {
+  const location = getCustomerLocation(claim)
+  const repairDays = getRepairDays(claim)
+  const otherClaims = claims.filter(other => other.id !== claim.id)
+  return shops
+    .map(shop => {
+      const distance = getShopDistance(shop, location)
+      const wait = getWaitEstimate(shop, getShopBookings(shop.id, otherClaims), repairDays)
+      const factors = scoreShop(shop, claim.damageAssessments, distance, wait, getShopScorecard(shop.id, otherClaims))
+      return { shop, distance, factors, score: factors.reduce((sum, factor) => sum + factor.points, 0), rank: 0 }
+    })
+    .sort((a, b) => b.score - a.score || b.shop.rating - a.shop.rating)
+    .map((recommendation, index) => ({ ...recommendation, rank: index + 1 }))
+}
+
+/**
+ * Get Recommended Shop
+ *
+ * @param claim - Claim (or claim being created) to find a shop for
+ * @param claims - All claims, whose appointments take up shop capacity
+ * @returns The best-ranked shop, or undefined if there are no shops
+ */
+export const getRecommendedShop = (
+  claim: RecommendationClaim,
+  claims: Claim[] = []
+): RepairShop | undefined =>
+  recommendShops(claim, getActiveRepairShops(), claims)[0]?.shop
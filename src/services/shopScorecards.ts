@@ -0,0 +1,210 @@
+/**
+ * shopScorecards.ts
+ *
+ * This file builds a performance scorecard for each repair shop from the
+ * outcomes of the claims assigned to it, in place of the static rating and
+ * review count on the shop record. Each metric is only measured from claims
+ * that have reached the point where it is known (paid out, repaired,
+ * surveyed), and a shop gets an overall score once enough of its claims have
+ * an outcome.
+ *
+ * Key Features:
+ * - Final cost vs. the AI damage estimate
+ * - Supplement frequency (claims with an approved supplement)
+ * - Repair cycle time from vehicle received to ready for pickup
+ * - Comeback rate for rework after delivery
+ * - Customer satisfaction from post-repair surveys
+ * - Overall 0-100 score used when recommending shops
+ *
+ * Score (maximum points, scaled to 100 over the metrics that have data):
+ * - cost:         25  final cost at or under the AI estimate, nothing at MAX_COST_OVERRUN or more over
+ * - supplements:  15  no supplements, nothing when MAX_SUPPLEMENT_RATE of claims need one
+ * - cycle_time:   20  TARGET_CYCLE_HOURS or less, nothing at MAX_CYCLE_HOURS or more
+ * - comebacks:    20  no comebacks, nothing when MAX_COMEBACK_RATE of repairs come back
+ * - satisfaction: 20  average survey rating out of 5
+ */
+
+import type { Claim } from '../context/ClaimsContext'
+import { getLedgerSummary } from './claimLedger'
+import { getCurrentRepairStage, getRepairCycleHours } from './repairOrders'
+
+// Claims with an outcome a shop needs before it gets an overall score
+export const MIN_SCORED_CLAIMS = 3
+
+// Final cost this far over the AI estimate (as a fraction) gets no cost points
+const MAX_COST_OVERRUN = 0.3
+
+// Share of claims needing a supplement that gets no supplement points
+const MAX_SUPPLEMENT_RATE = 0.5
+
+// Repair cycle times in hours: full points at or under the target, none at the maximum
+const TARGET_CYCLE_HOURS = 72
+const MAX_CYCLE_HOURS = 14 * 24
+
+// Share of repairs coming back that gets no comeback points
+const MAX_COMEBACK_RATE = 0.2
+
+// Claim statuses whose payments are final
+const SETTLED_STATUSES: Claim['status'][] = ['paid', 'closed']
+
+/**
+ * ShopScorecard Interface
+ *
+ * A shop's performance measured from its claims. Rates and averages are null
+ * until at least one claim can be measured.
+ */
+export interface ShopScorecard {
+  shopId: string                // Shop measured
+  claimCount: number            // Claims assigned to the shop (rejected claims excluded)
+  settledCount: number          // Claims paid out, used for cost
+  averageCostVariance: number | null  // Mean of (final cost − AI estimate) / AI estimate
+  approvedCount: number         // Claims approved, used for supplements
+  supplementRate: number | null // Share of approved claims with an approved supplement
+  completedRepairs: number      // Repairs ready for pickup or delivered, used for cycle time
+  averageCycleHours: number | null  // Mean hours from vehicle received to ready for pickup
+  deliveredCount: number        // Repairs delivered, used for comebacks
+  comebackRate: number | null   // Share of delivered repairs that came back for rework
+  surveyCount: number           // Post-repair surveys recorded
+  averageSatisfaction: number | null  // Mean survey rating (1-5)
+  measuredCount: number         // Claims with any outcome measured
+  score: number | null          // Overall score (0-100), null below MIN_SCORED_CLAIMS
+}
+
+/**
+ * Get AI Estimate
+ *
+ * @param claim - Claim to price
+ * @returns Total of the analyzer's estimated costs
+ */
+const getAiEstimate = (claim: Claim) =>
+  claim.damageAssessments.reduce((sum, assessment) => sum + assessment.estimatedCost, 0)
+
+/**
+ * Has Supplement
+ *
+ * @param claim - Approved claim
+ * @returns Whether additional work was approved after the original estimate
+ */
+const hasSupplement = (claim: Claim) =>
+  (claim.supplements || []).some(supplement => supplement.status === 'approved')
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+/**
+ * Linear Points
+ *
+ * @param value - Measured value
+ * @param best - Value at or better than which full points are given
+ * @param worst - Value at or worse than which no points are given
+ * @param maxPoints - Points available
+ * @returns Points scaled between best and worst
+ */
+const linearPoints = (value: number, best: number, worst: number, maxPoints: number) =>
+  maxPoints * Math.min(1, Math.max(0, (worst - value) / (worst - best)))
+
+/**
+ * Get Scorecard Score
+ *
+ * @param scorecard - Measured metrics
+ * @returns Overall score (0-100) over the metrics that have data, or null
+ *          when the shop has fewer than MIN_SCORED_CLAIMS measured claims
+ */
+const getScorecardScore = (scorecard: ShopScorecard): number | null => {
+  if (scorecard.measuredCount < MIN_SCORED_CLAIMS) return null
+
+  const parts: Array<{ points: number; maxPoints: number }> = []
+  if (scorecard.averageCostVariance !== null) {
+    parts.push({ points: linearPoints(scorecard.averageCostVariance, 0, MAX_COST_OVERRUN, 25), maxPoints: 25 })
+  }
+  if (scorecard.supplementRate !== null) {
+    parts.push({ points: linearPoints(scorecard.supplementRate, 0, MAX_SUPPLEMENT_RATE, 15), maxPoints: 15 })
+  }
+  if (scorecard.averageCycleHours !== null) {
+    parts.push({ points: linearPoints(scorecard.averageCycleHours, TARGET_CYCLE_HOURS, MAX_CYCLE_HOURS, 20), maxPoints: 20 })
+  }
+  if (scorecard.comebackRate !== null) {
+    parts.push({ points: linearPoints(scorecard.comebackRate, 0, MAX_COMEBACK_RATE, 20), maxPoints: 20 })
+  }
+  if (scorecard.averageSatisfaction !== null) {
+    parts.push({ points: 20 * scorecard.averageSatisfaction / 5, maxPoints: 20 })
+  }
+
+  const maxPoints = parts.reduce((sum, part) => sum + part.maxPoints, 0)
+  if (maxPoints === 0) return null
+  return Math.round(100 * parts.reduce((sum, part) => sum + part.points, 0) / maxPoints)
+}
+
+/**
+ * Get Shop Scorecard
+ *
+ * @param shopId - Shop to measure
+ * @param claims - All claims
+ * @returns Metrics from the claims assigned to the shop
+ */
+export const getShopScorecard = (shopId: string, claims: Claim[]): ShopScorecard => {
+  const shopClaims = claims.filter(claim => claim.repairShopId === shopId && claim.status !== 'rejected')
+
+  const settled = shopClaims.filter(claim =>
+    SETTLED_STATUSES.includes(claim.status) && getLedgerSummary(claim.ledger).paid > 0 && getAiEstimate(claim) > 0
+  )
+  const costVariances = settled.map(claim =>
+    (getLedgerSummary(claim.ledger).paid - getAiEstimate(claim)) / getAiEstimate(claim)
+  )
+
+  const approved = shopClaims.filter(claim => (claim.ledger || []).length > 0)
+  const supplemented = approved.filter(hasSupplement)
+
+  const orders = shopClaims.flatMap(claim => claim.repairOrder ? [claim.repairOrder] : [])
+  const cycleHours = orders
+    .filter(order => order.stages.some(entry => entry.stage === 'ready_for_pickup' || entry.stage === 'delivered'))
+    .map(order => getRepairCycleHours(order))
+    .filter((hours): hours is number => hours !== null)
+  const delivered = orders.filter(order => getCurrentRepairStage(order) === 'delivered')
+  const comebacks = delivered.filter(order => (order.comebacks || []).length > 0)
+  const ratings = orders.flatMap(order => order.survey ? [order.survey.rating] : [])
+
+  const measuredCount = shopClaims.filter(claim =>
+    settled.includes(claim) ||
+    (claim.repairOrder && getCurrentRepairStage(claim.repairOrder) === 'delivered')
+  ).length
+
+  const scorecard: ShopScorecard = {
+    shopId,
+    claimCount: shopClaims.length,
+    settledCount: settled.length,
+    averageCostVariance: average(costVariances),
+    approvedCount: approved.length,
+    supplementRate: approved.length > 0 ? supplemented.length / approved.length : null,
+    completedRepairs: cycleHours.length,
+    averageCycleHours: average(cycleHours),
+    deliveredCount: delivered.length,
+    comebackRate: delivered.length > 0 ? comebacks.length / delivered.length : null,
+    surveyCount: ratings.length,
+    averageSatisfaction: average(ratings),
+    measuredCount,
+    score: null
+  }
+  return { ...scorecard, score: getScorecardScore(scorecard) }
+}
+
+/**
+ * Get Shop Scorecards
+ *
+ * @param shopIds - Shops to measure
+ * @param claims - All claims
+ * @returns Scorecards keyed by shop ID
+ */
+export const getShopScorecards = (shopIds: string[], claims: Claim[]): Record<string, ShopScorecard> =>
+  Object.fromEntries(shopIds.map(shopId => [shopId, getShopScorecard(shopId, claims)]))
+
+/**
+ * Format Cost Variance
+ *
+ * @param variance - Cost variance as a fraction of the AI estimate
+ * @returns Display text (e.g., "+8% vs. AI estimate", "−3% vs. AI estimate")
+ */
+export const formatCostVariance = (variance: number) => {
+  const percent = Math.round(variance * 100)
+  return `${percent > 0 ? '+' : percent < 0 ? '−' : ''}${Math.abs(percent)}% vs. AI estimate`
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import type { RepairShop } from '../data/repairShops'
+import { createEmptyRepairShop, validateRepairShop } from './shopStore'
+
+/**
+ * Make Shop
+ *
+ * @param overrides - Fields to set on top of a valid shop
+ * @returns A new shop that passes validation
+ */
+const makeShop = (overrides: Partial<RepairShop> = {}): RepairShop => ({
+  ...createEmptyRepairShop(),
+  name: 'Harbor Collision Center',
+  address: '410 Harbor Blvd',
+  city: 'Santa Monica',
+  zipCode: '90401',
+  phone: '(310) 555-0142',
+  email: 'service@harborcollision.com',
+  website: 'www.harborcollision.com',
+  latitude: 34.0195,
+  longitude: -118.4912,
+  ...overrides
+})
+
+describe('validateRepairShop', () => {
+  it('accepts a complete shop', () => {
+    expect(validateRepairShop(makeShop(), [])).toEqual({})
+  })
+
+  it('requires the contact and address fields', () => {
+    const errors = validateRepairShop(makeShop({ name: ' ', address: '', city: '', zipCode: '', phone: '', email: '' }), [])
+
+    expect(Object.keys(errors).sort()).toEqual(['address', 'city', 'email', 'name', 'phone', 'zipCode'])
+  })
+
+  it('keeps shop names unique, ignoring case', () => {
+    const existing = makeShop({ id: 'shop_001' })
+
+    expect(validateRepairShop(makeShop({ name: 'harbor collision center ' }), [existing]))
+      .toEqual({ name: 'Another shop already has this name' })
+    expect(validateRepairShop(existing, [existing])).toEqual({})
+  })
+
+  it('checks the format of the state, ZIP, phone, email and website', () => {
+    expect(validateRepairShop(makeShop({
+      state: 'ca',
+      zipCode: '9040',
+      phone: '555-0142',
+      email: 'service@',
+      website: 'not a website'
+    }), [])).toEqual({
+      state: 'Enter a 2-letter state abbreviation (e.g., CA)',
+      zipCode: 'Enter a 5-digit ZIP code (e.g., 90210)',
+      phone: 'Enter a 10-digit phone number (e.g., (555) 123-4567)',
+      email: 'Enter a valid email address',
+      website: 'Enter a valid website (e.g., www.example.com)'
+    })
+  })
+
+  it('accepts a phone number with a leading country code', () => {
+    expect(validateRepairShop(makeShop({ phone: '+1 310 555 0142' }), [])).toEqual({})
+  })
+
+  it('requires a location on the map', () => {
+    expect(validateRepairShop(makeShop({ latitude: 0, longitude: 0 }), []))
+      .toEqual({ latitude: 'Enter the shop location so distances can be computed' })
+    expect(validateRepairShop(makeShop({ latitude: 91, longitude: -181 }), [])).toEqual({
+      latitude: 'Latitude must be between -90 and 90',
+      longitude: 'Longitude must be between -180 and 180'
+    })
+  })
+
+  it('checks the capacity and time zone', () => {
+    expect(validateRepairShop(makeShop({
+      capacity: { bays: 0, slotsPerDay: 1.5, slotMinutes: 10 },
+      timeZone: 'Pacific/Nowhere'
+    }), [])).toEqual({
+      bays: 'Bays must be a whole number of at least 1',
+      slotsPerDay: 'Drop-off slots must be a whole number of at least 1',
+      slotMinutes: 'Slot length must be between 15 and 240 minutes',
+      timeZone: 'Unknown time zone (use an IANA name such as America/Los_Angeles)'
+    })
+  })
+
+  it('checks each day\'s opening periods', () => {
+    const shop = makeShop()
+    const errors = validateRepairShop({
+      ...shop,
+      hours: {
+        ...shop.hours,
+        monday: [{ open: '8:00', close: '17:00' }],
+        tuesday: [{ open: '17:00', close: '08:00' }],
+        wednesday: [{ open: '08:00', close: '12:30' }, { open: '12:00', close: '17:00' }],
+        thursday: [{ open: '08:00', close: '12:00' }, { open: '13:00', close: '17:00' }]
+      }
+    }, [])
+
+    expect(errors).toEqual({
+      'hours.monday': 'Monday: enter times as HH:MM',
+      'hours.tuesday': 'Tuesday: closing time must be after opening time',
+      'hours.wednesday': 'Wednesday: opening periods overlap'
+    })
+  })
+
+  it('requires the shop to open at least one day a week', () => {
+    const closed = { monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: [] }
+
+    expect(validateRepairShop(makeShop({ hours: closed }), []))
+      .toEqual({ hours: 'The shop must be open at least one day a week' })
+  })
+
+  it('checks holiday closures', () => {
+    const christmas = { date: '2025-12-25', name: 'Christmas Day' }
+
+    expect(validateRepairShop(makeShop({ holidayClosures: [{ date: '2025-13-01', name: 'Typo' }] }), []))
+      .toEqual({ holidayClosures: 'Holiday dates must be valid dates (YYYY-MM-DD)' })
+    expect(validateRepairShop(makeShop({ holidayClosures: [{ ...christmas, name: ' ' }] }), []))
+      .toEqual({ holidayClosures: 'Every holiday closure needs a name' })
+    expect(validateRepairShop(makeShop({ holidayClosures: [christmas, { ...christmas, name: 'Christmas' }] }), []))
+      .toEqual({ holidayClosures: 'The same date is listed more than once' })
+  })
+})
@@ -0,0 +1,349 @@
+/**
+ * shopStore.ts
+ *
+ * This file keeps the repair shop network. Shop records are persisted in
+ * localStorage so partner shops can be added, edited and suspended without a
+ * code change; the compiled-in shops only seed the store the first time the
+ * app runs.
+ *
+ * Key Features:
+ * - Persisted shop records, seeded from defaultRepairShops
+ * - Lookup by ID that also finds suspended shops, so claim references keep working
+ * - Validation of contact details, ZIP code, location, capacity, weekly hours and holidays
+ * - Active/suspended status; suspended shops are not offered for new claims
+ * - Deletion blocked while a shop is assigned to open claims
+ * - React hook that re-renders when the shops change
+ */
+
+import { useSyncExternalStore } from 'react'
+import type { Claim, ClaimStatus } from '../context/ClaimsContext'
+import {
+  RepairShop,
+  RepairShopStatus,
+  ShopCapacity,
+  defaultRepairShops,
+  standardHolidayClosures,
+  weekdays,
+  weekdayLabels
+} from '../data/repairShops'
+import { validateZipCode } from './geoDistance'
+
+const SHOPS_STORAGE_KEY = 'car-insurance-repair-shops'
+
+// Claims in these statuses no longer need their repair shop
+const settledClaimStatuses: ClaimStatus[] = ['closed', 'rejected']
+
+// Capacity given to new shops and to shops saved before capacity was tracked
+const defaultShopCapacity: ShopCapacity = { bays: 3, slotsPerDay: 4, slotMinutes: 60 }
+
+// Shops currently in the store (loaded on first use)
+let cachedShops: RepairShop[] | null = null
+
+// Callbacks to run whenever the shops change
+const listeners = new Set<() => void>()
+
+/**
+ * Load Repair Shops
+ *
+ * @returns Saved shops, or the default network if none are saved
+ */
+const loadRepairShops = (): RepairShop[] => {
+  try {
+    const saved = localStorage.getItem(SHOPS_STORAGE_KEY)
+    const parsed = saved ? JSON.parse(saved) : null
+    if (!Array.isArray(parsed)) return defaultRepairShops
+
+    return parsed.map((shop: RepairShop) => ({
+      ...shop,
+      capacity: shop.capacity ||
+        defaultRepairShops.find(defaultShop => defaultShop.id === shop.id)?.capacity ||
+        defaultShopCapacity
+    }))
+  } catch (error) {
+    console.error('Error loading repair shops:', error)
+    return defaultRepairShops
+  }
+}
+
+/**
+ * Get Repair Shops
+ *
+ * @returns Every shop in the network, including suspended shops
+ */
+export const getRepairShops = (): RepairShop[] => {
+  if (!cachedShops) {
+    cachedShops = loadRepairShops()
+  }
+  return cachedShops
+}
+
+/**
+ * Get Active Repair Shops
+ *
+ * @returns Shops that can be recommended and assigned to claims
+ */
+export const getActiveRepairShops = (): RepairShop[] =>
+  getRepairShops().filter(shop => shop.status === 'active')
+
+/**
+ * Get Repair Shop by ID
+ *
+ * Suspended shops are found as well, so claims that were assigned to a shop
+ * before it was suspended still show it.
+ *
+ * @param id - The unique identifier of the repair shop to find
+ * @returns RepairShop object if found, undefined otherwise
+ */
+export const getRepairShopById = (id: string): RepairShop | undefined =>
+  getRepairShops().find(shop => shop.id === id)
+
+/**
+ * Subscribe to Repair Shops
+ *
+ * @param listener - Callback to run whenever the shops change
+ * @returns Function that removes the listener
+ */
+export const subscribeToRepairShops = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Use Repair Shops
+ *
+ * @returns Every shop in the network; the component re-renders when shops change
+ */
+export const useRepairShops = (): RepairShop[] =>
+  useSyncExternalStore(subscribeToRepairShops, getRepairShops)
+
+/**
+ * Persist Repair Shops
+ *
+ * @param shops - Complete list of shops to store
+ */
+const persistRepairShops = (shops: RepairShop[]) => {
+  localStorage.setItem(SHOPS_STORAGE_KEY, JSON.stringify(shops))
+  cachedShops = shops
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Create Empty Repair Shop
+ *
+ * @returns Starting values for a new shop: active, open weekdays 8-5 and
+ *          closed on the standard holidays
+ */
+export const createEmptyRepairShop = (): RepairShop => ({
+  id: `shop_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  name: '',
+  address: '',
+  city: '',
+  state: 'CA',
+  zipCode: '',
+  phone: '',
+  email: '',
+  website: '',
+  rating: 0,
+  reviewCount: 0,
+  specialties: [],
+  certifications: [],
+  latitude: 0,
+  longitude: 0,
+  capacity: defaultShopCapacity,
+  timeZone: 'America/Los_Angeles',
+  hours: {
+    monday: [{ open: '08:00', close: '17:00' }],
+    tuesday: [{ open: '08:00', close: '17:00' }],
+    wednesday: [{ open: '08:00', close: '17:00' }],
+    thursday: [{ open: '08:00', close: '17:00' }],
+    friday: [{ open: '08:00', close: '17:00' }],
+    saturday: [],
+    sunday: []
+  },
+  holidayClosures: standardHolidayClosures,
+  status: 'active'
+})
+
+/**
+ * Is Valid Time Zone
+ *
+ * @param timeZone - IANA time zone name
+ * @returns Whether the browser recognizes the time zone
+ */
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * Validate Repair Shop
+ *
+ * Errors are keyed by field. Weekly hours use "hours.<weekday>" keys; each
+ * interval must be a valid 24-hour "HH:MM" range and the intervals of a day
+ * must not overlap.
+ *
+ * @param shop - Shop entered by the user
+ * @param shops - Current shops, used to keep names unique
+ * @returns Validation errors keyed by field (empty when valid)
+ */
+export const validateRepairShop = (shop: RepairShop, shops: RepairShop[] = getRepairShops()): Record<string, string> => {
+  const errors: Record<string, string> = {}
+
+  if (!shop.name.trim()) {
+    errors.name = 'Shop name is required'
+  } else if (shops.some(other => other.id !== shop.id && other.name.trim().toLowerCase() === shop.name.trim().toLowerCase())) {
+    errors.name = 'Another shop already has this name'
+  }
+  if (!shop.address.trim()) errors.address = 'Street address is required'
+  if (!shop.city.trim()) errors.city = 'City is required'
+  if (!/^[A-Z]{2}$/.test(shop.state.trim())) errors.state = 'Enter a 2-letter state abbreviation (e.g., CA)'
+
+  const zipError = validateZipCode(shop.zipCode)
+  if (zipError) errors.zipCode = zipError
+
+  const phoneDigits = shop.phone.replace(/\D/g, '')
+  if (!shop.phone.trim()) {
+    errors.phone = 'Phone number is required'
+  } else if (!/^[\d\s()+.-]+$/.test(shop.phone) || !(phoneDigits.length === 10 || (phoneDigits.length === 11 && phoneDigits.startsWith('1')))) {
+    errors.phone = 'Enter a 10-digit phone number (e.g., (555) 123-4567)'
+  }
+
+  if (!shop.email.trim()) {
+    errors.email = 'Email address is required'
+  } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(shop.email.trim())) {
+    errors.email = 'Enter a valid email address'
+  }
+
+  if (shop.website.trim() && !/^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/\S*)?$/i.test(shop.website.trim())) {
+    errors.website = 'Enter a valid website (e.g., www.example.com)'
+  }
+
+  if (!Number.isFinite(shop.latitude) || shop.latitude < -90 || shop.latitude > 90) {
+    errors.latitude = 'Latitude must be between -90 and 90'
+  }
+  if (!Number.isFinite(shop.longitude) || shop.longitude < -180 || shop.longitude > 180) {
+    errors.longitude = 'Longitude must be between -180 and 180'
+  }
+  if (!errors.latitude && !errors.longitude && shop.latitude === 0 && shop.longitude === 0) {
+    errors.latitude = 'Enter the shop location so distances can be computed'
+  }
+
+  if (!Number.isInteger(shop.capacity.bays) || shop.capacity.bays < 1) {
+    errors.bays = 'Bays must be a whole number of at least 1'
+  }
+  if (!Number.isInteger(shop.capacity.slotsPerDay) || shop.capacity.slotsPerDay < 1) {
+    errors.slotsPerDay = 'Drop-off slots must be a whole number of at least 1'
+  }
+  if (!Number.isInteger(shop.capacity.slotMinutes) || shop.capacity.slotMinutes < 15 || shop.capacity.slotMinutes > 240) {
+    errors.slotMinutes = 'Slot length must be between 15 and 240 minutes'
+  }
+  if (!isValidTimeZone(shop.timeZone)) errors.timeZone = 'Unknown time zone (use an IANA name such as America/Los_Angeles)'
+
+  weekdays.forEach(weekday => {
+    const intervals = shop.hours[weekday]
+    const invalid = intervals.find(interval =>
+      !/^([01]\d|2[0-3]):[0-5]\d$/.test(interval.open) || !/^([01]\d|2[0-3]):[0-5]\d$/.test(interval.close)
+    )
+    if (invalid) {
+      errors[`hours.${weekday}`] = `${weekdayLabels[weekday]}: enter times as HH:MM`
+      return
+    }
+    if (intervals.some(interval => interval.close <= interval.open)) {
+      errors[`hours.${weekday}`] = `${weekdayLabels[weekday]}: closing time must be after opening time`
+      return
+    }
+    const sorted = [...intervals].sort((a, b) => a.open.localeCompare(b.open))
+    if (sorted.some((interval, index) => index > 0 && interval.open < sorted[index - 1].close)) {
+      errors[`hours.${weekday}`] = `${weekdayLabels[weekday]}: opening periods overlap`
+    }
+  })
+  if (weekdays.every(weekday => shop.hours[weekday].length === 0)) {
+    errors.hours = 'The shop must be open at least one day a week'
+  }
+
+  const holidayDates = shop.holidayClosures.map(closure => closure.date)
+  if (shop.holidayClosures.some(closure => !/^\d{4}-\d{2}-\d{2}$/.test(closure.date) || isNaN(Date.parse(closure.date)))) {
+    errors.holidayClosures = 'Holiday dates must be valid dates (YYYY-MM-DD)'
+  } else if (shop.holidayClosures.some(closure => !closure.name.trim())) {
+    errors.holidayClosures = 'Every holiday closure needs a name'
+  } else if (new Set(holidayDates).size !== holidayDates.length) {
+    errors.holidayClosures = 'The same date is listed more than once'
+  }
+
+  return errors
+}
+
+/**
+ * Save Repair Shop
+ *
+ * Adds a new shop or replaces the existing shop with the same ID.
+ *
+ * @param shop - Validated shop
+ */
+export const saveRepairShop = (shop: RepairShop) => {
+  const shops = getRepairShops()
+  persistRepairShops(shops.some(existing => existing.id === shop.id)
+    ? shops.map(existing => existing.id === shop.id ? shop : existing)
+    : [...shops, shop])
+}
+
+/**
+ * Set Repair Shop Status
+ *
+ * @param id - Shop to update
+ * @param status - New network status
+ */
+export const setRepairShopStatus = (id: string, status: RepairShopStatus) => {
+  persistRepairShops(getRepairShops().map(shop => shop.id === id ? { ...shop, status } : shop))
+}
+
+/**
+ * Get Open Claims for Shop
+ *
+ * @param shopId - Shop to look up
+ * @param claims - All claims
+ * @returns Claims assigned to the shop that are not yet closed or rejected
+ */
+export const getOpenClaimsForShop = (shopId: string, claims: Claim[]): Claim[] =>
+  claims.filter(claim => claim.repairShopId === shopId && !settledClaimStatuses.includes(claim.status))
+
+/**
+ * Get Claims for Shop
+ *
+ * @param shopId - Shop to look up
+ * @param claims - All claims
+ * @returns Every claim assigned to the shop, including settled ones
+ */
+export const getClaimsForShop = (shopId: string, claims: Claim[]): Claim[] =>
+  claims.filter(claim => claim.repairShopId === shopId)
+
+/**
+ * Delete Repair Shop
+ *
+ * Shops referenced by any claim cannot be deleted, so claim details and
+ * scorecards keep resolving the shop; suspend them instead. Open claims can
+ * be reassigned, settled ones keep their shop for good.
+ *
+ * @param id - Shop to delete
+ * @param claims - All claims
+ * @returns Error message if the shop cannot be deleted, null once it is deleted
+ */
+export const deleteRepairShop = (id: string, claims: Claim[]): string | null => {
+  const openClaims = getOpenClaimsForShop(id, claims)
+  if (openClaims.length > 0) {
+    return `This shop is assigned to ${openClaims.length} open claim(s). Reassign them or suspend the shop instead.`
+  }
+  const settledClaims = getClaimsForShop(id, claims)
+  if (settledClaims.length > 0) {
+    return `This shop is on the record of ${settledClaims.length} settled claim(s). Suspend the shop instead.`
+  }
+
+  persistRepairShops(getRepairShops().filter(shop => shop.id !== id))
+  return null
+}
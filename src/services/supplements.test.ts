@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest'
+import type { Claim } from '../context/ClaimsContext'
+import { defaultAuthorityTiers } from './approvalAuthority'
+import type { LedgerEntry } from './claimLedger'
+import { getLedgerSummary } from './claimLedger'
+import {
+  applySupplementDecision,
+  createSupplement,
+  getEstimateAccuracyReport,
+  getEstimateVersions,
+  getOriginalEstimateTotal,
+  validateSupplement,
+  validateSupplementDecision
+} from './supplements'
+import type { Supplement, SupplementInput } from './supplements'
+import { adjuster, makeClaim, manager, supervisor, toActor } from '../test/fixtures'
+
+const tiers = defaultAuthorityTiers
+
+// Two hours of untaxed labor: a $200 supplement
+const laborInput: SupplementInput = {
+  lines: [{ category: 'labor', description: 'Replace hidden bumper bracket', quantity: 2, unitPrice: 100 }],
+  justification: 'Bracket found cracked once the bumper cover was removed',
+  photos: []
+}
+
+const reserve: LedgerEntry = {
+  id: 'ledger_1',
+  type: 'reserve_set',
+  amount: 1000,
+  payee: 'Claim reserve',
+  payeeType: 'insurer',
+  method: 'internal',
+  reference: 'RES-ABC123',
+  at: '2025-05-03T09:00:00.000Z',
+  actor: toActor(supervisor)
+}
+
+const payment: LedgerEntry = {
+  ...reserve,
+  id: 'ledger_2',
+  type: 'payment',
+  payee: 'Premium Auto Body',
+  payeeType: 'repair_shop',
+  method: 'ach',
+  reference: 'ACH-1001'
+}
+
+/**
+ * With Supplement
+ *
+ * @param claim - Claim to add the supplement to
+ * @param input - Supplement entered (defaults to $200 of labor)
+ * @returns The claim and its new pending supplement, proposed by the adjuster
+ */
+const withSupplement = (claim: Claim, input: SupplementInput = laborInput): [Claim, Supplement] => {
+  const supplement = createSupplement(claim, input, toActor(adjuster))
+  return [{ ...claim, supplements: [...(claim.supplements || []), supplement] }, supplement]
+}
+
+describe('validateSupplement', () => {
+  it('accepts a justified supplement on an approved claim', () => {
+    expect(validateSupplement(makeClaim({ status: 'approved' }), laborInput)).toEqual({})
+  })
+
+  it('only takes supplements between approval and closing', () => {
+    expect(validateSupplement(makeClaim({ status: 'processing' }), laborInput).claim)
+      .toBe('Supplements can only be added to approved claims that are not closed')
+    expect(validateSupplement(makeClaim({ status: 'closed' }), laborInput).claim).toBeDefined()
+    expect(validateSupplement(makeClaim({ status: 'paid' }), laborInput)).toEqual({})
+  })
+
+  it('requires a justification and valid lines', () => {
+    expect(validateSupplement(makeClaim({ status: 'approved' }), {
+      ...laborInput,
+      justification: 'Broken',
+      lines: [{ category: 'parts', description: '', quantity: 0, unitPrice: 10, assessmentId: 'missing' }]
+    })).toEqual({
+      justification: 'Explain why the additional work is needed',
+      'lines.0.description': 'Description is required',
+      'lines.0.quantity': 'Quantity must be greater than zero',
+      'lines.0.assessmentId': 'Damage not found on this claim'
+    })
+  })
+})
+
+describe('createSupplement', () => {
+  it('numbers supplements in order and prices their lines', () => {
+    const [claim, first] = withSupplement(makeClaim({ status: 'approved' }))
+    const [, second] = withSupplement(claim)
+
+    expect(first).toMatchObject({ number: 1, subtotal: 200, tax: 0, total: 200, status: 'pending' })
+    expect(second.number).toBe(2)
+  })
+
+  it('taxes parts at the saved estimate rate', () => {
+    const [, supplement] = withSupplement(makeClaim({ status: 'approved' }), {
+      ...laborInput,
+      lines: [{ category: 'parts', description: 'Bumper bracket', quantity: 1, unitPrice: 100 }]
+    })
+
+    expect(supplement).toMatchObject({ subtotal: 100, tax: 7.25, total: 107.25 })
+  })
+})
+
+describe('validateSupplementDecision', () => {
+  const [claim, supplement] = withSupplement(makeClaim({ status: 'approved', ledger: [reserve] }))
+
+  it('lets another approver within their limit approve it', () => {
+    expect(validateSupplementDecision(claim, supplement.id, true, supervisor, tiers)).toBeNull()
+  })
+
+  it('refuses approval by whoever proposed it', () => {
+    expect(validateSupplementDecision(claim, supplement.id, true, adjuster, tiers))
+      .toBe('Supplements must be approved by someone other than who proposed them')
+  })
+
+  it('checks the approver\'s limit against the new claim total', () => {
+    const [large, largeSupplement] = withSupplement(makeClaim({ status: 'approved', totalEstimatedCost: 14900 }))
+
+    expect(validateSupplementDecision(large, largeSupplement.id, true, supervisor, tiers))
+      .toBe('The new claim total of $15,100 exceeds the Supervisor limit of $15,000; a Manager must approve it')
+    expect(validateSupplementDecision(large, largeSupplement.id, true, manager, tiers)).toBeNull()
+  })
+
+  it('requires a reason to reject', () => {
+    expect(validateSupplementDecision(claim, supplement.id, false, supervisor, tiers))
+      .toBe('Give a reason for rejecting the supplement')
+    expect(validateSupplementDecision(claim, supplement.id, false, supervisor, tiers, 'Pre-existing damage')).toBeNull()
+  })
+
+  it('decides each supplement only once', () => {
+    const decided = applySupplementDecision(claim, supplement.id, false, toActor(supervisor), 'Pre-existing damage')
+
+    expect(validateSupplementDecision(decided, supplement.id, true, manager, tiers))
+      .toBe('Supplement 1 has already been rejected')
+    expect(validateSupplementDecision(claim, 'missing', true, manager, tiers)).toBe('Supplement not found')
+  })
+})
+
+describe('applySupplementDecision', () => {
+  it('adds an approved supplement to the total and the reserve', () => {
+    const [claim, supplement] = withSupplement(makeClaim({ status: 'approved', ledger: [reserve] }))
+    const approved = applySupplementDecision(claim, supplement.id, true, toActor(supervisor))
+
+    expect(approved.totalEstimatedCost).toBe(1200)
+    expect(approved.supplements?.[0]).toMatchObject({ status: 'approved', decidedBy: toActor(supervisor) })
+    expect(approved.ledger?.[1]).toMatchObject({ type: 'reserve_adjustment', amount: 200, reference: 'SUP-ABC123-1' })
+    expect(getLedgerSummary(approved.ledger).reserve).toBe(1200)
+    expect(approved.status).toBe('approved')
+  })
+
+  it('moves a paid claim back to approved with the supplement outstanding', () => {
+    const [claim, supplement] = withSupplement(makeClaim({ status: 'paid', ledger: [reserve, payment] }))
+    const approved = applySupplementDecision(claim, supplement.id, true, toActor(supervisor))
+
+    expect(approved.status).toBe('approved')
+    expect(getLedgerSummary(approved.ledger).outstanding).toBe(200)
+    expect(approved.statusHistory?.[0]).toMatchObject({ from: 'paid', to: 'approved', reason: 'Supplement 1 approved' })
+  })
+
+  it('leaves the cost and ledger alone when a supplement is rejected', () => {
+    const [claim, supplement] = withSupplement(makeClaim({ status: 'approved', ledger: [reserve] }))
+    const rejected = applySupplementDecision(claim, supplement.id, false, toActor(supervisor), ' Pre-existing damage ')
+
+    expect(rejected.totalEstimatedCost).toBe(1000)
+    expect(rejected.ledger).toEqual([reserve])
+    expect(rejected.supplements?.[0]).toMatchObject({ status: 'rejected', decisionReason: 'Pre-existing damage' })
+  })
+})
+
+describe('getEstimateVersions', () => {
+  it('lists the original estimate and each supplement with a running total', () => {
+    let [claim, first] = withSupplement(makeClaim({ status: 'approved', ledger: [reserve] }))
+    claim = applySupplementDecision(claim, first.id, true, toActor(supervisor))
+    const [withSecond, second] = withSupplement(claim)
+    claim = applySupplementDecision(withSecond, second.id, false, toActor(supervisor), 'Not related to this loss')
+    claim = withSupplement(claim)[0]
+
+    expect(getOriginalEstimateTotal(claim)).toBe(1000)
+    expect(getEstimateVersions(claim).map(({ label, amount, runningTotal, status }) => ({ label, amount, runningTotal, status })))
+      .toEqual([
+        { label: 'Original estimate', amount: 1000, runningTotal: 1000, status: 'approved' },
+        { label: 'Supplement 1', amount: 200, runningTotal: 1200, status: 'approved' },
+        { label: 'Supplement 2', amount: 200, runningTotal: 1200, status: 'rejected' },
+        { label: 'Supplement 3', amount: 200, runningTotal: 1200, status: 'pending' }
+      ])
+  })
+})
+
+describe('getEstimateAccuracyReport', () => {
+  it('measures the original estimate without the supplements', () => {
+    const [claim, supplement] = withSupplement(makeClaim({ status: 'approved', ledger: [reserve] }))
+    const supplemented = applySupplementDecision(claim, supplement.id, true, toActor(supervisor))
+    const settled: Claim = {
+      ...supplemented,
+      status: 'paid',
+      ledger: [...(supplemented.ledger || []), { ...payment, amount: 1100 }]
+    }
+    const open = makeClaim({ id: 'claim_test_open01', status: 'approved', ledger: [reserve] })
+
+    const report = getEstimateAccuracyReport([settled, open, makeClaim()])
+
+    expect(report.claimCount).toBe(2)
+    expect(report.settledCount).toBe(1)
+    expect(report.rows[0]).toMatchObject({ original: 1000, supplementTotal: 200, finalCost: 1100, originalError: -0.1 })
+    expect(report.averageOriginalError).toBeCloseTo(0.1)
+    expect(report.supplementGrowth).toBe(0.1)
+    expect(report.supplementedShare).toBe(0.5)
+  })
+})
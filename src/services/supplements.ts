@@ -0,0 +1,353 @@
+/**
+ * supplements.ts
+ *
+ * This file handles supplements: additional damage found during the repair
+ * of an approved claim. The shop or adjuster proposes extra line items with
+ * photos and a justification, and each supplement is approved or rejected on
+ * its own. An approved supplement adds to the claim's total estimated cost
+ * and raises its reserve, so the claim keeps a versioned estimate history:
+ * the original estimate, then supplement 1, 2 and so on with a running total.
+ *
+ * Key Features:
+ * - Supplement proposals with priced lines, photos and a justification
+ * - Separate approval per supplement, within the approver's authority limit
+ *   for the claim's new total; nobody approves their own supplement
+ * - Reserve adjustment on approval (a paid claim goes back to approved)
+ * - Estimate version history with a running total
+ * - Report separating original estimate accuracy from supplement growth
+ */
+
+import type { Claim, Actor } from '../context/ClaimsContext'
+import type { AppUser } from '../data/users'
+import { roleLabels } from '../data/users'
+import { ItemizedLine, ShopEstimateLineInput, validateEstimateLines, priceEstimateLines } from './shopEstimates'
+import { AuthorityTier, getAuthorityTier, getRequiredApprovalRole } from './approvalAuthority'
+import { createLedgerEntry, getLedgerSummary, getSettlementStatus } from './claimLedger'
+import { createStatusTransition } from './claimLifecycle'
+
+export type SupplementStatus = 'pending' | 'approved' | 'rejected'
+
+export const supplementStatusLabels: Record<SupplementStatus, string> = {
+  pending: 'Pending approval',
+  approved: 'Approved',
+  rejected: 'Rejected'
+}
+
+// Claim statuses that take supplements (after approval, before closing)
+const SUPPLEMENT_STATUSES: Claim['status'][] = ['approved', 'paid']
+
+// Shortest justification accepted
+const MIN_JUSTIFICATION_LENGTH = 10
+
+/**
+ * Supplement Interface
+ *
+ * Additional repair work proposed after approval. Stored on the claim.
+ */
+export interface Supplement {
+  id: string                    // Unique supplement identifier
+  number: number                // Supplement number on the claim (1, 2, ...)
+  lines: ItemizedLine[]         // Additional lines
+  subtotal: number              // Sum of all lines before tax
+  tax: number                   // Sales tax on the taxable categories
+  total: number                 // Subtotal plus tax
+  justification: string         // Why the extra work is needed
+  photos: string[]              // Media store IDs of photos of the additional damage
+  status: SupplementStatus      // Pending, approved or rejected
+  proposedBy: Actor             // Who proposed the supplement
+  proposedAt: string            // When it was proposed (ISO string)
+  decidedBy?: Actor             // Who approved or rejected it
+  decidedAt?: string            // When it was decided (ISO string)
+  decisionReason?: string       // Reason given for the decision (required to reject)
+}
+
+/**
+ * SupplementInput Interface
+ *
+ * Supplement entered by the shop or adjuster.
+ */
+export interface SupplementInput {
+  lines: ShopEstimateLineInput[]  // Additional lines
+  justification: string         // Why the extra work is needed
+  photos: string[]              // Media store IDs of the uploaded photos
+}
+
+/**
+ * EstimateVersion Interface
+ *
+ * One version in a claim's estimate history.
+ */
+export interface EstimateVersion {
+  version: number               // 0 for the original estimate, then the supplement number
+  label: string                 // Display name (e.g., "Supplement 2")
+  amount: number                // Amount the version adds
+  runningTotal: number          // Approved total up to and including this version
+  status: SupplementStatus      // Approval status ('approved' for the original)
+  at: string                    // When the version was proposed (ISO string)
+  supplement?: Supplement       // The supplement (absent for the original)
+}
+
+/**
+ * Get Approved Supplement Total
+ *
+ * @param claim - Claim to total
+ * @returns Sum of the claim's approved supplements
+ */
+export const getApprovedSupplementTotal = (claim: Claim) =>
+  (claim.supplements || [])
+    .filter(supplement => supplement.status === 'approved')
+    .reduce((sum, supplement) => sum + supplement.total, 0)
+
+/**
+ * Get Original Estimate Total
+ *
+ * @param claim - Claim to inspect
+ * @returns The estimate before any supplements
+ */
+export const getOriginalEstimateTotal = (claim: Claim) =>
+  Math.round((claim.totalEstimatedCost - getApprovedSupplementTotal(claim)) * 100) / 100
+
+/**
+ * Validate Supplement
+ *
+ * @param claim - Claim the supplement is for
+ * @param input - Supplement entered
+ * @returns Validation errors keyed by "claim", "justification", "lines" or
+ *          "lines.<index>.<field>"; empty when valid
+ */
+export const validateSupplement = (claim: Claim, input: SupplementInput): Record<string, string> => {
+  const errors: Record<string, string> = {}
+
+  if (!SUPPLEMENT_STATUSES.includes(claim.status)) {
+    errors.claim = 'Supplements can only be added to approved claims that are not closed'
+  }
+  if (input.justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+    errors.justification = 'Explain why the additional work is needed'
+  }
+
+  return { ...errors, ...validateEstimateLines(claim, input.lines) }
+}
+
+/**
+ * Create Supplement
+ *
+ * @param claim - Claim the supplement is for
+ * @param input - Validated supplement
+ * @param actor - User proposing the supplement
+ * @returns Pending supplement numbered after the claim's existing ones
+ */
+export const createSupplement = (claim: Claim, input: SupplementInput, actor: Actor): Supplement => ({
+  id: `supplement_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+  number: (claim.supplements || []).length + 1,
+  ...priceEstimateLines(input.lines),
+  justification: input.justification.trim(),
+  photos: input.photos,
+  status: 'pending',
+  proposedBy: actor,
+  proposedAt: new Date().toISOString()
+})
+
+/**
+ * Validate Supplement Decision
+ *
+ * @param claim - Claim the supplement belongs to
+ * @param supplementId - Supplement being decided
+ * @param approve - Whether the supplement is approved (false = rejected)
+ * @param approver - User deciding
+ * @param tiers - Configured authority tiers
+ * @param reason - Reason for the decision (required to reject)
+ * @returns Error message if the decision is not allowed, null otherwise
+ */
+export const validateSupplementDecision = (
+  claim: Claim,
+  supplementId: string,
+  approve: boolean,
+  approver: AppUser,
+  tiers: AuthorityTier[],
+  reason?: string
+): string | null => {
+  const supplement = (claim.supplements || []).find(candidate => candidate.id === supplementId)
+  if (!supplement) return 'Supplement not found'
+  if (supplement.status !== 'pending') return `Supplement ${supplement.number} has already been ${supplement.status}`
+  if (!SUPPLEMENT_STATUSES.includes(claim.status)) return 'Supplements can only be decided on approved claims that are not closed'
+  if (!approve) {
+    return reason?.trim() ? null : 'Give a reason for rejecting the supplement'
+  }
+
+  if (supplement.proposedBy.id === approver.id) return 'Supplements must be approved by someone other than who proposed them'
+  const tier = getAuthorityTier(approver.role, tiers)
+  if (!tier) return `${roleLabels[approver.role]}s have no approval authority`
+  const newTotal = claim.totalEstimatedCost + supplement.total
+  if (tier.limit !== null && newTotal > tier.limit) {
+    return `The new claim total of $${newTotal.toLocaleString()} exceeds the ${roleLabels[approver.role]} limit of ` +
+      `$${tier.limit.toLocaleString()}; a ${roleLabels[getRequiredApprovalRole(newTotal, tiers)]} must approve it`
+  }
+  return null
+}
+
+/**
+ * Apply Supplement Decision
+ *
+ * Records the decision on the supplement. Approving adds the supplement to
+ * the claim's total estimated cost and raises the reserve by the same amount,
+ * moving a paid claim back to approved since it now has a balance to pay.
+ *
+ * @param claim - Claim the supplement belongs to
+ * @param supplementId - Validated supplement
+ * @param approve - Whether the supplement is approved
+ * @param actor - User deciding
+ * @param reason - Reason for the decision (optional when approving)
+ * @returns The claim after the decision
+ */
+export const applySupplementDecision = (
+  claim: Claim,
+  supplementId: string,
+  approve: boolean,
+  actor: Actor,
+  reason?: string
+): Claim => {
+  const at = new Date().toISOString()
+  const supplement = (claim.supplements || []).find(candidate => candidate.id === supplementId)
+  if (!supplement) return claim
+
+  const supplements = (claim.supplements || []).map(candidate =>
+    candidate.id === supplementId
+      ? {
+          ...candidate,
+          status: approve ? 'approved' as const : 'rejected' as const,
+          decidedBy: actor,
+          decidedAt: at,
+          decisionReason: reason?.trim() || undefined
+        }
+      : candidate
+  )
+  if (!approve) {
+    return { ...claim, supplements, updatedAt: at }
+  }
+
+  const hasReserve = getLedgerSummary(claim.ledger).reserve > 0
+  const entry = hasReserve
+    ? createLedgerEntry(claim, {
+        type: 'reserve_adjustment',
+        amount: supplement.total,
+        payee: 'Claim reserve',
+        payeeType: 'insurer',
+        method: 'internal',
+        reference: `SUP-${claim.id.slice(-6).toUpperCase()}-${supplement.number}`,
+        note: `Supplement ${supplement.number} approved`
+      }, actor)
+    : undefined
+  const approved: Claim = {
+    ...claim,
+    supplements,
+    totalEstimatedCost: Math.round((claim.totalEstimatedCost + supplement.total) * 100) / 100,
+    ledger: entry ? [...(claim.ledger || []), entry] : claim.ledger,
+    updatedAt: at
+  }
+
+  const settlementStatus = getSettlementStatus(approved)
+  if (!settlementStatus) return approved
+  const transition = createStatusTransition(approved, settlementStatus, actor, `Supplement ${supplement.number} approved`)
+  return {
+    ...approved,
+    status: transition.to,
+    statusHistory: [...(approved.statusHistory || []), transition]
+  }
+}
+
+/**
+ * Get Estimate Versions
+ *
+ * @param claim - Claim to inspect
+ * @returns The original estimate followed by every supplement, oldest first.
+ *          Only approved supplements count towards the running total.
+ */
+export const getEstimateVersions = (claim: Claim): EstimateVersion[] => {
+  const original = getOriginalEstimateTotal(claim)
+  let runningTotal = original
+  return [
+    {
+      version: 0,
+      label: 'Original estimate',
+      amount: original,
+      runningTotal,
+      status: 'approved',
+      at: claim.estimate?.generatedAt || claim.createdAt
+    },
+    ...(claim.supplements || []).map(supplement => {
+      if (supplement.status === 'approved') runningTotal += supplement.total
+      return {
+        version: supplement.number,
+        label: `Supplement ${supplement.number}`,
+        amount: supplement.total,
+        runningTotal: Math.round(runningTotal * 100) / 100,
+        status: supplement.status,
+        at: supplement.proposedAt,
+        supplement
+      }
+    })
+  ]
+}
+
+/**
+ * EstimateAccuracyRow Interface
+ *
+ * Original estimate, supplements and final cost of one claim.
+ */
+export interface EstimateAccuracyRow {
+  claim: Claim                  // Claim measured
+  original: number              // Estimate before supplements
+  supplementCount: number       // Approved supplements
+  supplementTotal: number       // Sum of approved supplements
+  supplementGrowth: number      // Supplement total as a fraction of the original
+  finalCost: number | null      // Amount paid once settled (null while open)
+  originalError: number | null  // (final cost − supplements − original) / original, once settled
+}
+
+/**
+ * Get Estimate Accuracy Report
+ *
+ * Supplement growth is measured on every approved claim; the accuracy of the
+ * original estimate only on settled claims, once the final cost is known.
+ * Supplements are taken out of the final cost first, so additional damage
+ * found during the repair does not count against the original estimate.
+ *
+ * @param claims - Claims to include
+ * @returns Per-claim rows and averages
+ */
+export const getEstimateAccuracyReport = (claims: Claim[]) => {
+  const rows: EstimateAccuracyRow[] = claims
+    .filter(claim => (claim.ledger || []).length > 0 && claim.status !== 'rejected')
+    .map(claim => {
+      const original = getOriginalEstimateTotal(claim)
+      const supplementTotal = getApprovedSupplementTotal(claim)
+      const isSettled = claim.status === 'paid' || claim.status === 'closed'
+      const finalCost = isSettled ? getLedgerSummary(claim.ledger).paid : null
+      return {
+        claim,
+        original,
+        supplementCount: (claim.supplements || []).filter(supplement => supplement.status === 'approved').length,
+        supplementTotal,
+        supplementGrowth: original > 0 ? supplementTotal / original : 0,
+        finalCost,
+        originalError: finalCost !== null && original > 0 ? (finalCost - supplementTotal - original) / original : null
+      }
+    })
+
+  const settled = rows.filter(row => row.originalError !== null)
+  const originalTotal = rows.reduce((sum, row) => sum + row.original, 0)
+  const supplementTotal = rows.reduce((sum, row) => sum + row.supplementTotal, 0)
+
+  return {
+    rows,
+    claimCount: rows.length,
+    settledCount: settled.length,
+    averageOriginalError: settled.length > 0
+      ? settled.reduce((sum, row) => sum + Math.abs(row.originalError || 0), 0) / settled.length
+      : null,
+    supplementedShare: rows.length > 0 ? rows.filter(row => row.supplementCount > 0).length / rows.length : null,
+    originalTotal,
+    supplementTotal,
+    supplementGrowth: originalTotal > 0 ? supplementTotal / originalTotal : null
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * ticketSources.ts
+ *
+ * This file defines where the claim wizard's "Import Existing Ticket" search
+ * looks for tickets. Every backend implements the TicketSource interface and
+ * returns raw records in its own shape; a per-source field mapping turns those
+ * records into the wizard's form fields.
+ *
+ * Key Features:
+ * - TicketSource interface shared by every ticket backend
+ * - Source over the claims already in the application
+ * - Call-center stand-in source and REST source factory
+ * - JSON/CSV file sources for tickets dropped in from other systems
+ * - Field mapping configuration, persisted per source
+ * - Registry for registering and listing external sources
+ *
+ * Setting VITE_TICKET_SOURCE_URL registers a REST source for that endpoint.
+ */
+
+import type { Claim } from '../context/ClaimsContext'
+
+const MAPPINGS_STORAGE_KEY = 'car-insurance-ticket-mappings'
+
+export const CLAIMS_TICKET_SOURCE_ID = 'claims'
+
+/**
+ * ClaimFormData Interface
+ *
+ * Form fields of the claim wizard that an imported ticket can fill.
+ */
+export interface ClaimFormData {
+  policyNumber: string          // Insurance policy number
+  customerName: string          // Customer's full name
+  customerEmail: string         // Customer's email address
+  customerPhone: string         // Customer's phone number
+  vehicleMake: string           // Vehicle manufacturer
+  vehicleModel: string          // Vehicle model
+  vehicleYear: number           // Vehicle year
+  accidentDate: string          // Date of the accident (YYYY-MM-DD)
+  accidentDescription: string   // Description of the accident
+}
+
+export type ClaimFormField = keyof ClaimFormData
+
+// Form fields in display order with their labels
+export const claimFormFields: Array<{ key: ClaimFormField; label: string }> = [
+  { key: 'policyNumber', label: 'Policy Number' },
+  { key: 'customerName', label: 'Customer Name' },
+  { key: 'customerEmail', label: 'Customer Email' },
+  { key: 'customerPhone', label: 'Customer Phone' },
+  { key: 'vehicleMake', label: 'Vehicle Make' },
+  { key: 'vehicleModel', label: 'Vehicle Model' },
+  { key: 'vehicleYear', label: 'Vehicle Year' },
+  { key: 'accidentDate', label: 'Accident Date' },
+  { key: 'accidentDescription', label: 'Accident Description' }
+]
+
+/**
+ * Raw ticket as returned by a source, before field mapping.
+ */
+export type RawTicket = Record<string, unknown>
+
+/**
+ * Field Mapping
+ *
+ * Form field -> dot-separated path of the source field that fills it
+ * (e.g., { customerName: 'caller.name' }). Unmapped form fields stay empty.
+ */
+export type FieldMapping = Partial<Record<ClaimFormField, string>>
+
+/**
+ * TicketSource Interface
+ *
+ * Contract implemented by every ticket backend.
+ */
+export interface TicketSource {
+  id: string                    // Unique source identifier used by the registry
+  name: string                  // Display name
+  description: string           // Short explanation of where tickets come from
+  idField: string               // Path of the field holding the ticket ID
+  defaultMapping: FieldMapping  // Mapping used until the user configures one
+  fetchTickets: (term: string) => Promise<RawTicket[]>  // Tickets matching a search term
+}
+
+/**
+ * TicketSearchResult Interface
+ *
+ * A ticket found by a search, already mapped to form fields.
+ */
+export interface TicketSearchResult {
+  id: string                    // Ticket ID within its source
+  sourceId: string              // Source the ticket came from
+  sourceName: string            // Display name of the source
+  formData: Partial<ClaimFormData>  // Mapped form fields
+  raw: RawTicket                // Original record
+}
+
+/**
+ * Get Field Value
+ *
+ * @param record - Raw ticket
+ * @param path - Dot-separated field path (e.g., "caller.name")
+ * @returns Value at the path, or undefined if any segment is missing
+ */
+export const getFieldValue = (record: RawTicket, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as RawTicket)[key] : undefined),
+    record
+  )
+
+/**
+ * List Field Paths
+ *
+ * Flattens a raw ticket into the dot paths of its leaf fields, for offering
+ * choices in the mapping editor.
+ *
+ * @param record - Raw ticket
+ * @param prefix - Path of the record within its parent (used for recursion)
+ * @returns Leaf field paths
+ */
+export const listFieldPaths = (record: RawTicket, prefix = ''): string[] =>
+  Object.entries(record).flatMap(([key, value]) =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? listFieldPaths(value as RawTicket, `${prefix}${key}.`)
+      : [`${prefix}${key}`]
+  )
+
+/**
+ * Normalize Date
+ *
+ * @param value - Date in any format Date can parse
+ * @returns YYYY-MM-DD string as required by date inputs, or the input unchanged
+ */
+const normalizeDate = (value: string) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toISOString().split('T')[0]
+}
+
+/**
+ * Map Ticket Fields
+ *
+ * Applies a field mapping to a raw ticket.
+ *
+ * @param record - Raw ticket
+ * @param mapping - Form field -> source field path
+ * @returns Form fields filled from the ticket
+ */
+export const mapTicketFields = (record: RawTicket, mapping: FieldMapping): Partial<ClaimFormData> => {
+  const formData: Partial<ClaimFormData> = {}
+
+  claimFormFields.forEach(({ key }) => {
+    const path = mapping[key]
+    const value = path ? getFieldValue(record, path) : undefined
+    if (value === undefined || value === null || value === '') return
+
+    if (key === 'vehicleYear') {
+      const year = parseInt(String(value), 10)
+      if (!isNaN(year)) formData.vehicleYear = year
+    } else if (key === 'accidentDate') {
+      formData.accidentDate = normalizeDate(String(value))
+    } else {
+      formData[key] = String(value)
+    }
+  })
+
+  return formData
+}
+
+/**
+ * Guess Field Mapping
+ *
+ * Maps form fields to source fields whose names match once case and
+ * punctuation are ignored (e.g., "policy_number" -> policyNumber).
+ *
+ * @param paths - Field paths available in the source
+ * @returns Mapping for every form field with a matching source field
+ */
+export const guessFieldMapping = (paths: string[]): FieldMapping => {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const mapping: FieldMapping = {}
+
+  claimFormFields.forEach(({ key }) => {
+    const match = paths.find(path => normalize(path) === normalize(key))
+    if (match) mapping[key] = match
+  })
+
+  return mapping
+}
+
+/**
+ * Get Field Mapping
+ *
+ * @param source - Ticket source
+ * @returns The saved mapping for the source, or its default mapping
+ */
+export const getFieldMapping = (source: TicketSource): FieldMapping => {
+  try {
+    const saved = localStorage.getItem(MAPPINGS_STORAGE_KEY)
+    const mappings: Record<string, FieldMapping> = saved ? JSON.parse(saved) : {}
+    return mappings[source.id] || source.defaultMapping
+  } catch (error) {
+    console.error('Error loading ticket field mappings:', error)
+    return source.defaultMapping
+  }
+}
+
+/**
+ * Save Field Mapping
+ *
+ * Stores the mapping for a source. Passing undefined restores the default.
+ *
+ * @param sourceId - ID of the source
+ * @param mapping - Mapping to save (or undefined to reset)
+ */
+export const saveFieldMapping = (sourceId: string, mapping: FieldMapping | undefined) => {
+  const saved = localStorage.getItem(MAPPINGS_STORAGE_KEY)
+  const mappings: Record<string, FieldMapping> = saved ? JSON.parse(saved) : {}
+  if (mapping) {
+    mappings[sourceId] = mapping
+  } else {
+    delete mappings[sourceId]
+  }
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings))
+}
+
+/**
+ * Search Ticket Source
+ *
+ * Fetches tickets from a source, maps them to form fields and keeps those
+ * whose ID, policy number, customer name or vehicle matches the term.
+ *
+ * @param source - Source to search
+ * @param term - Search term (empty matches everything)
+ * @returns Mapped search results
+ */
+export const searchTicketSource = async (source: TicketSource, term: string): Promise<TicketSearchResult[]> => {
+  const mapping = getFieldMapping(source)
+  const needle = term.trim().toLowerCase()
+  const records = await source.fetchTickets(term)
+
+  return records
+    .map(raw => ({
+      id: String(getFieldValue(raw, source.idField) ?? ''),
+      sourceId: source.id,
+      sourceName: source.name,
+      formData: mapTicketFields(raw, mapping),
+      raw
+    }))
+    .filter(result => {
+      if (!needle) return true
+      const { policyNumber, customerName, vehicleMake, vehicleModel } = result.formData
+      return [result.id, policyNumber, customerName, vehicleMake, vehicleModel]
+        .some(value => value?.toLowerCase().includes(needle))
+    })
+}
+
+/**
+ * Create Static Ticket Source
+ *
+ * Builds a source over an in-memory list of records, e.g. a fixture or the
+ * contents of an imported file.
+ *
+ * @param options - Source identity, records and mapping
+ * @returns TicketSource serving the records
+ */
+export const createStaticTicketSource = (options: {
+  id: string
+  name: string
+  description: string
+  records: RawTicket[]
+  idField: string
+  defaultMapping?: FieldMapping
+  delayMs?: number
+}): TicketSource => ({
+  id: options.id,
+  name: options.name,
+  description: options.description,
+  idField: options.idField,
+  defaultMapping: options.defaultMapping || guessFieldMapping(
+    options.records.length > 0 ? listFieldPaths(options.records[0]) : []
+  ),
+  async fetchTickets() {
+    if (options.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, options.delayMs))
+    }
+    return options.records
+  }
+})
+
+/**
+ * Create Claims Ticket Source
+ *
+ * Source over the claims already stored in the application.
+ *
+ * @param claims - Current claims from ClaimsContext
+ * @returns TicketSource whose records are the claims themselves
+ */
+export const createClaimsTicketSource = (claims: Claim[]): TicketSource => createStaticTicketSource({
+  id: CLAIMS_TICKET_SOURCE_ID,
+  name: 'Existing Claims',
+  description: 'Claims already submitted in this application',
+  records: claims as unknown as RawTicket[],
+  idField: 'id',
+  defaultMapping: Object.fromEntries(claimFormFields.map(({ key }) => [key, key]))
+})
+
+/**
+ * Create REST Ticket Source
+ *
+ * Builds a source that queries a ticket system over HTTP.
+ * The endpoint receives GET ?q=<term> and must answer with an array of
+ * tickets or { tickets: [...] }.
+ *
+ * @param options - Source identity, endpoint URL and mapping
+ * @returns TicketSource backed by the endpoint
+ * @throws Error if the endpoint fails or returns an unexpected payload
+ */
+export const createRestTicketSource = (options: {
+  id: string
+  name: string
+  endpoint: string
+  idField: string
+  defaultMapping: FieldMapping
+}): TicketSource => ({
+  id: options.id,
+  name: options.name,
+  description: `Ticket system at ${options.endpoint}`,
+  idField: options.idField,
+  defaultMapping: options.defaultMapping,
+  async fetchTickets(term) {
+    const separator = options.endpoint.includes('?') ? '&' : '?'
+    const response = await fetch(`${options.endpoint}${separator}q=${encodeURIComponent(term)}`)
+
+    if (!response.ok) {
+      throw new Error(`Ticket search failed with status ${response.status}`)
+    }
+
+    const payload = await response.json()
+    const tickets = Array.isArray(payload) ? payload : payload?.tickets
+    if (!Array.isArray(tickets)) {
+      throw new Error('Ticket search response did not include a tickets array')
+    }
+    return tickets
+  }
+})
+
+/**
+ * Parse CSV
+ *
+ * Minimal RFC 4180 parser: comma separated, double-quoted fields, "" escapes.
+ *
+ * @param text - CSV text with a header row
+ * @returns One record per data row, keyed by header
+ */
+export const parseCsv = (text: string): RawTicket[] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...data] = rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+  if (!header) return []
+  return data.map(cells => Object.fromEntries(header.map((name, index) => [name.trim(), cells[index] ?? ''])))
+}
+
+/**
+ * Create File Ticket Source
+ *
+ * Reads a JSON or CSV export from another ticket system and serves its
+ * records as a ticket source. JSON files may contain an array of tickets or
+ * { tickets: [...] }; CSV files need a header row.
+ *
+ * @param file - File chosen or dropped by the user
+ * @returns TicketSource over the file's records
+ * @throws Error if the file cannot be parsed
+ */
+export const createFileTicketSource = async (file: File): Promise<TicketSource> => {
+  const text = await file.text()
+  let records: RawTicket[]
+
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    records = parseCsv(text)
+  } else {
+    const payload = JSON.parse(text)
+    records = Array.isArray(payload) ? payload : payload?.tickets
+    if (!Array.isArray(records)) {
+      throw new Error(`${file.name} does not contain an array of tickets`)
+    }
+  }
+
+  const paths = records.length > 0 ? listFieldPaths(records[0]) : []
+  return createStaticTicketSource({
+    id: `file:${file.name}`,
+    name: file.name,
+    description: `${records.length} ticket(s) imported from ${file.name}`,
+    records,
+    idField: paths.find(path => /^(ticket_?)?id$/i.test(path)) || paths[0] || 'id'
+  })
+}
+
+/**
+ * Call Center Ticket Source
+ *
+ * Stand-in for the call-center ticket system, with its own record shape.
+ * Responds after a short delay like a remote service would.
+ */
+export const callCenterTicketSource = createStaticTicketSource({
+  id: 'call-center',
+  name: 'Call Center (demo)',
+  description: 'Sample first-notice-of-loss tickets from the call-center system',
+  idField: 'ticket_id',
+  delayMs: 300,
+  defaultMapping: {
+    policyNumber: 'policy.number',
+    customerName: 'caller.name',
+    customerEmail: 'caller.email',
+    customerPhone: 'caller.phone',
+    vehicleMake: 'vehicle.make',
+    vehicleModel: 'vehicle.model',
+    vehicleYear: 'vehicle.year',
+    accidentDate: 'loss.date',
+    accidentDescription: 'loss.notes'
+  },
+  records: [
+    {
+      ticket_id: 'CC-10231',
+      policy: { number: 'POL-2024-001' },
+      caller: { name: 'John Smith', email: 'john.smith@email.com', phone: '(555) 123-4567' },
+      vehicle: { make: 'Toyota', model: 'Camry', year: '2022' },
+      loss: {
+        date: '2024-01-15',
+        notes: 'Rear-end collision at traffic light. Vehicle sustained damage to rear bumper and trunk area.'
+      }
+    },
+    {
+      ticket_id: 'CC-10247',
+      policy: { number: 'POL-2024-002' },
+      caller: { name: 'Sarah Johnson', email: 'sarah.johnson@email.com', phone: '(555) 987-6543' },
+      vehicle: { make: 'Honda', model: 'Civic', year: '2021' },
+      loss: {
+        date: '2024-01-20',
+        notes: 'Side impact collision. Driver side door and fender damaged. Airbags deployed.'
+      }
+    },
+    {
+      ticket_id: 'CC-10262',
+      policy: { number: 'POL-2024-003' },
+      caller: { name: 'Michael Brown', email: 'michael.brown@email.com', phone: '(555) 456-7890' },
+      vehicle: { make: 'Ford', model: 'F-150', year: '2023' },
+      loss: {
+        date: '2024-01-25',
+        notes: 'Parking lot incident. Minor scratches and dents on passenger side. No structural damage.'
+      }
+    }
+  ]
+})
+
+// Registry of external ticket sources keyed by source ID
+const ticketSources = new Map<string, TicketSource>()
+
+/**
+ * Register Ticket Source
+ *
+ * Adds a source to the registry, replacing any source with the same ID.
+ *
+ * @param source - The source to register
+ */
+export const registerTicketSource = (source: TicketSource) => {
+  ticketSources.set(source.id, source)
+}
+
+/**
+ * Get Ticket Sources
+ *
+ * @returns All registered external sources in registration order
+ */
+export const getTicketSources = (): TicketSource[] => Array.from(ticketSources.values())
+
+registerTicketSource(callCenterTicketSource)
+
+if (import.meta.env.VITE_TICKET_SOURCE_URL) {
+  registerTicketSource(createRestTicketSource({
+    id: 'rest',
+    name: 'Ticket System',
+    endpoint: import.meta.env.VITE_TICKET_SOURCE_URL,
+    idField: 'id',
+    defaultMapping: Object.fromEntries(claimFormFields.map(({ key }) => [key, key]))
+  }))
+}
@@ -0,0 +1,53 @@
+/**
+ * fixtures.ts
+ *
+ * Builders for the claims and users the service tests work with.
+ */
+
+import type { Actor, Claim } from '../context/ClaimsContext'
+import type { AppUser } from '../data/users'
+import { users } from '../data/users'
+
+export const adjuster = users.find(user => user.role === 'adjuster') as AppUser
+export const supervisor = users.find(user => user.role === 'supervisor') as AppUser
+export const manager = users.find(user => user.role === 'manager') as AppUser
+export const auditor = users.find(user => user.role === 'auditor') as AppUser
+
+/**
+ * To Actor
+ *
+ * @param user - User to record
+ * @returns The user as recorded on claim changes
+ */
+export const toActor = (user: AppUser): Actor => ({ id: user.id, name: user.name })
+
+/**
+ * Make Claim
+ *
+ * @param overrides - Fields to set on top of the defaults
+ * @returns A pending $1,000 claim on an active policy with one damage assessment
+ */
+export const makeClaim = (overrides: Partial<Claim> = {}): Claim => ({
+  id: 'claim_test_abc123',
+  policyNumber: 'POL-2024-001',
+  customerName: 'John Smith',
+  customerEmail: 'john@example.com',
+  customerPhone: '555-123-4567',
+  customerZip: '90210',
+  vehicleMake: 'Toyota',
+  vehicleModel: 'Camry',
+  vehicleYear: 2022,
+  accidentDate: '2025-05-01',
+  accidentDescription: 'Rear-ended at a stop light',
+  photos: [],
+  videos: [],
+  status: 'pending',
+  damageAssessments: [
+    { id: 'assessment_1', type: 'dent', severity: 'moderate', location: 'Rear bumper', estimatedCost: 1000, confidence: 90 }
+  ],
+  totalEstimatedCost: 1000,
+  createdAt: '2025-05-02T09:00:00.000Z',
+  updatedAt: '2025-05-02T09:00:00.000Z',
+  aiAnalysisComplete: true,
+  ...overrides
+})
@@ -0,0 +1,48 @@
+/**
+ * setup.ts
+ *
+ * Test setup shared by every test file. The services keep their settings in
+ * localStorage, which Node does not have; an in-memory store stands in for it
+ * and is cleared before each test.
+ */
+
+import { beforeEach } from 'vitest'
+
+/**
+ * Memory Storage
+ *
+ * Minimal Storage implementation backed by a Map.
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>()
+
+  get length() {
+    return this.items.size
+  }
+
+  clear() {
+    this.items.clear()
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key)
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value))
+  }
+}
+
+globalThis.localStorage = new MemoryStorage()
+
+beforeEach(() => {
+  localStorage.clear()
+})
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DAMAGE_ANALYZER?: string       // ID of the analyzer to use by default
+  readonly VITE_DAMAGE_ANALYZER_URL?: string   // Endpoint of a remote damage analysis model
+  readonly VITE_TICKET_SOURCE_URL?: string     // Endpoint of a REST ticket system to import from
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}